@@ -0,0 +1,69 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { decodeBmp } from './bmp';
+
+function createBmp(width: number, height: number, bpp: 24 | 32, pixel: (x: number, y: number) => number[]): Buffer {
+	const stride = Math.floor((bpp * width + 31) / 32) * 4;
+	const pixelOffset = 54;
+	const buffer = Buffer.alloc(pixelOffset + stride * height);
+	buffer.write('BM', 0, 'ascii');
+	buffer.writeUInt32LE(buffer.length, 2);
+	buffer.writeUInt32LE(pixelOffset, 10);
+	buffer.writeUInt32LE(40, 14);
+	buffer.writeInt32LE(width, 18);
+	buffer.writeInt32LE(height, 22); // bottom-up
+	buffer.writeUInt16LE(1, 26);
+	buffer.writeUInt16LE(bpp, 28);
+
+	for (let y = 0; y < height; y++) {
+		const row = pixelOffset + (height - 1 - y) * stride;
+		for (let x = 0; x < width; x++) {
+			Buffer.from(pixel(x, y)).copy(buffer, row + x * (bpp / 8));
+		}
+	}
+	return buffer;
+}
+
+describe('decodeBmp', () => {
+	it('decodes bottom-up 24-bit rows into the right orientation', async () => {
+		// BGR: top row red, bottom row blue
+		const bmp = createBmp(3, 2, 24, (_x, y) => (y === 0 ? [0, 0, 255] : [255, 0, 0]));
+		const { data, info } = await sharp(await decodeBmp(bmp)).raw().toBuffer({ resolveWithObject: true });
+
+		expect(info).toMatchObject({ width: 3, height: 2, channels: 3 });
+		expect([...data.subarray(0, 3)]).toEqual([255, 0, 0]);
+		expect([...data.subarray(9, 12)]).toEqual([0, 0, 255]);
+	});
+
+	it('treats a zeroed 32-bit alpha byte as opaque', async () => {
+		const bmp = createBmp(2, 2, 32, () => [0, 255, 0, 0]);
+		const meta = await sharp(await decodeBmp(bmp)).metadata();
+		expect(meta.format).toBe('png');
+		expect(meta.hasAlpha).toBe(false);
+	});
+
+	it('clamps an oversized colour count and rejects a palette past the end of the file', async () => {
+		// 2x1, 1-bit: biClrUsed claims far more entries than the two a 1-bit index can reach.
+		const bmp = Buffer.alloc(14 + 40 + 2 * 4 + 4);
+		bmp.write('BM', 0, 'ascii');
+		bmp.writeUInt32LE(bmp.length, 2);
+		bmp.writeUInt32LE(14 + 40 + 8, 10);
+		bmp.writeUInt32LE(40, 14);
+		bmp.writeInt32LE(2, 18);
+		bmp.writeInt32LE(1, 22);
+		bmp.writeUInt16LE(1, 26);
+		bmp.writeUInt16LE(1, 28);
+		bmp.writeUInt32LE(0xffffff, 46);
+		Buffer.from([0, 0, 255, 0, 255, 0, 0, 0]).copy(bmp, 54); // red, blue
+		bmp[62] = 0b01000000;
+
+		const { data } = await sharp(await decodeBmp(bmp)).raw().toBuffer({ resolveWithObject: true });
+		expect([...data]).toEqual([255, 0, 0, 0, 0, 255]);
+
+		await expect(decodeBmp(bmp.subarray(0, 58))).rejects.toThrow('BMP palette extends past the end of the file');
+	});
+
+	it('rejects non-BMP data', async () => {
+		await expect(decodeBmp(Buffer.from('not a bitmap at all, really'))).rejects.toThrow('Not a BMP file');
+	});
+});
@@ -0,0 +1,127 @@
+import sharp from 'sharp';
+
+const BI_RGB = 0;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+interface ChannelMask {
+	mask: number;
+	shift: number;
+	max: number;
+}
+
+function toChannelMask(mask: number): ChannelMask {
+	if (mask === 0) {
+		return { mask: 0, shift: 0, max: 0 };
+	}
+	let shift = 0;
+	while (((mask >>> shift) & 1) === 0) shift++;
+	return { mask, shift, max: mask >>> shift };
+}
+
+function readMasked(value: number, channel: ChannelMask): number {
+	if (channel.max === 0) return 255;
+	return Math.round((((value & channel.mask) >>> channel.shift) / channel.max) * 255);
+}
+
+/**
+ * Decodes uncompressed BMP/DIB files (1/4/8-bit palette, 16/24/32-bit, bitfields) into PNG.
+ * libvips has no BMP loader without ImageMagick, which sharp's prebuilt binaries do not include.
+ */
+export async function decodeBmp(buffer: Buffer): Promise<Buffer> {
+	if (buffer.length < 26 || buffer.toString('ascii', 0, 2) !== 'BM') {
+		throw new Error('Not a BMP file');
+	}
+
+	const pixelOffset = buffer.readUInt32LE(10);
+	const headerSize = buffer.readUInt32LE(14);
+	const isCore = headerSize === 12;
+	const width = isCore ? buffer.readUInt16LE(18) : buffer.readInt32LE(18);
+	const rawHeight = isCore ? buffer.readInt16LE(20) : buffer.readInt32LE(22);
+	const bpp = buffer.readUInt16LE(isCore ? 24 : 28);
+	const compression = isCore ? BI_RGB : buffer.readUInt32LE(30);
+	const colorsUsed = isCore ? 0 : buffer.readUInt32LE(46);
+
+	const topDown = rawHeight < 0;
+	const height = Math.abs(rawHeight);
+	if (width <= 0 || height === 0) {
+		throw new Error('BMP has invalid dimensions');
+	}
+	if (compression !== BI_RGB && compression !== BI_BITFIELDS && compression !== BI_ALPHABITFIELDS) {
+		throw new Error(`Compressed BMP (method ${compression}) is not supported`);
+	}
+
+	// Palette for indexed images: BGRx quads (BGR triples for OS/2 core headers).
+	const palette: Array<[number, number, number]> = [];
+	if (bpp <= 8) {
+		const entrySize = isCore ? 3 : 4;
+		// Indices cannot reach past 1 << bpp, so a larger biClrUsed is clamped rather than trusted.
+		const count = Math.min(colorsUsed || 1 << bpp, 1 << bpp);
+		const paletteStart = 14 + headerSize;
+		if (paletteStart + count * entrySize > buffer.length) {
+			throw new Error('BMP palette extends past the end of the file');
+		}
+		for (let i = 0; i < count; i++) {
+			const offset = paletteStart + i * entrySize;
+			palette.push([buffer[offset + 2], buffer[offset + 1], buffer[offset]]);
+		}
+	}
+
+	// Bitfield masks sit right after the 40-byte info header (inside it for V4/V5 headers).
+	let masks: [ChannelMask, ChannelMask, ChannelMask, ChannelMask];
+	if (compression === BI_BITFIELDS || compression === BI_ALPHABITFIELDS) {
+		const hasAlphaMask = compression === BI_ALPHABITFIELDS || headerSize >= 56;
+		masks = [
+			toChannelMask(buffer.readUInt32LE(54)),
+			toChannelMask(buffer.readUInt32LE(58)),
+			toChannelMask(buffer.readUInt32LE(62)),
+			toChannelMask(hasAlphaMask ? buffer.readUInt32LE(66) : 0)
+		];
+	} else if (bpp === 16) {
+		masks = [toChannelMask(0x7c00), toChannelMask(0x03e0), toChannelMask(0x001f), toChannelMask(0)];
+	} else {
+		masks = [toChannelMask(0xff0000), toChannelMask(0x00ff00), toChannelMask(0x0000ff), toChannelMask(bpp === 32 ? 0xff000000 : 0)];
+	}
+
+	const stride = Math.floor((bpp * width + 31) / 32) * 4;
+	const rgba = Buffer.alloc(width * height * 4);
+	let sawTransparent = false;
+	let sawVisible = false;
+
+	for (let y = 0; y < height; y++) {
+		const row = pixelOffset + (topDown ? y : height - 1 - y) * stride;
+		for (let x = 0; x < width; x++) {
+			let r: number, g: number, b: number, a = 255;
+			if (bpp <= 8) {
+				const bitOffset = x * bpp;
+				const byte = buffer[row + (bitOffset >> 3)];
+				const index = (byte >> (8 - bpp - (bitOffset & 7))) & ((1 << bpp) - 1);
+				[r, g, b] = palette[index] ?? [0, 0, 0];
+			} else if (bpp === 24) {
+				const offset = row + x * 3;
+				[b, g, r] = [buffer[offset], buffer[offset + 1], buffer[offset + 2]];
+			} else if (bpp === 16 || bpp === 32) {
+				const value = bpp === 16 ? buffer.readUInt16LE(row + x * 2) : buffer.readUInt32LE(row + x * 4);
+				r = readMasked(value, masks[0]);
+				g = readMasked(value, masks[1]);
+				b = readMasked(value, masks[2]);
+				a = readMasked(value, masks[3]);
+			} else {
+				throw new Error(`Unsupported BMP bit depth: ${bpp}`);
+			}
+
+			const out = (y * width + x) * 4;
+			rgba[out] = r;
+			rgba[out + 1] = g;
+			rgba[out + 2] = b;
+			rgba[out + 3] = a;
+			sawTransparent ||= a < 255;
+			sawVisible ||= a > 0;
+		}
+	}
+
+	// Many writers leave the 32-bit "alpha" byte at zero; an all-transparent image is really opaque.
+	const keepAlpha = sawTransparent && sawVisible;
+	const image = sharp(rgba, { raw: { width, height, channels: 4 } });
+	return (keepAlpha ? image : image.removeAlpha()).png().toBuffer();
+}
@@ -0,0 +1,31 @@
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import sharp from 'sharp';
+import { runTool } from '../../optimizer/tools/common';
+
+/**
+ * sharp's prebuilt libvips only decodes AV1-compressed HEIF (AVIF). HEVC-based HEIC from
+ * phones needs a libvips built with libde265, or on macOS the system `sips` tool.
+ */
+export async function decodeHeif(buffer: Buffer): Promise<Buffer> {
+	try {
+		return await sharp(buffer).png().toBuffer();
+	} catch (error) {
+		if (process.platform !== 'darwin') {
+			const message = error instanceof Error ? error.message : String(error);
+			throw new Error(`HEIC decoding is not available in this build of sharp: ${message}`);
+		}
+	}
+
+	const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'heif-dec-'));
+	try {
+		const input = path.join(tempDir, 'input.heic');
+		const output = path.join(tempDir, 'output.png');
+		await fs.writeFile(input, buffer);
+		await runTool('/usr/bin/sips', ['-s', 'format', 'png', input, '--out', output]);
+		return await fs.readFile(output);
+	} finally {
+		await fs.rm(tempDir, { recursive: true, force: true }).catch(() => { });
+	}
+}
@@ -0,0 +1,30 @@
+import fs from 'node:fs/promises';
+import sharp from 'sharp';
+import { getInputFormatForPath } from '../../optimizer/io/inputFormats';
+import { decodeBmp } from './bmp';
+import { decodeHeif } from './heif';
+
+export * from './bmp';
+export * from './heif';
+
+/**
+ * Returns a buffer sharp can read. Sharp-native formats pass through untouched so their
+ * metadata survives; fallback decoders hand back a PNG.
+ */
+export async function decodeInput(inputPath: string, buffer: Buffer): Promise<Buffer> {
+	switch (getInputFormatForPath(inputPath)?.decoder) {
+		case 'bmp':
+			return decodeBmp(buffer);
+		case 'heif':
+			return decodeHeif(buffer);
+		default:
+			return buffer;
+	}
+}
+
+export async function readInputMetadata(inputPath: string): Promise<sharp.Metadata> {
+	if (getInputFormatForPath(inputPath)?.decoder === 'sharp') {
+		return sharp(inputPath).metadata();
+	}
+	return sharp(await decodeInput(inputPath, await fs.readFile(inputPath))).metadata();
+}
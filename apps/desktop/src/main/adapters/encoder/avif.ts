@@ -0,0 +1,29 @@
+import sharp from 'sharp';
+import type { ImageEncoder, EncodeOptions, EncodeResult } from './types';
+
+/**
+ * AVIF via libheif/aom bundled with sharp; there is no separate CLI tool to ship.
+ */
+export class AvifEncoder implements ImageEncoder {
+	async encode(input: string | Buffer, options: EncodeOptions): Promise<EncodeResult> {
+		let pipeline = sharp(input);
+
+		if (options.keepMetadata) {
+			pipeline = pipeline.withMetadata();
+		}
+
+		const buffer = await pipeline
+			.avif({
+				quality: options.quality ?? 55,
+				effort: options.effort ?? 4,
+				chromaSubsampling: '4:2:0'
+			})
+			.toBuffer();
+
+		return {
+			buffer,
+			format: 'avif',
+			qualityLabel: `avif-q${options.quality ?? 55}`
+		};
+	}
+}
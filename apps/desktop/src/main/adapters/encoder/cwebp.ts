@@ -20,7 +20,8 @@ export class CwebpEncoder implements ImageEncoder {
 				quality: options.quality ?? 80,
 				effort: options.effort ?? 5,
 				nearLossless: options.nearLossless ?? false,
-				keepMetadata: options.keepMetadata ?? false
+				keepMetadata: options.keepMetadata ?? false,
+				signal: options.signal
 			});
 
 			const buffer = await fs.readFile(tempOutput);
@@ -2,3 +2,5 @@ export * from './types';
 export * from './sharp';
 export * from './mozjpeg';
 export * from './cwebp';
+export * from './png';
+export * from './avif';
@@ -18,7 +18,8 @@ export class MozjpegEncoder implements ImageEncoder {
 
 			await encodeMozjpeg(tempInput, tempOutput, {
 				quality: options.quality ?? 80,
-				keepMetadata: options.keepMetadata ?? false
+				keepMetadata: options.keepMetadata ?? false,
+				signal: options.signal
 			});
 
 			const buffer = await fs.readFile(tempOutput);
@@ -0,0 +1,130 @@
+import fs from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import os from 'node:os';
+import path from 'node:path';
+import sharp from 'sharp';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { PngEncoder } from './png';
+
+let binDir: string;
+let callsPath: string;
+
+interface ToolCall {
+	tool: string;
+	args: string[];
+}
+
+/**
+ * Stands in for pngquant and oxipng on machines without the bundled binaries. Each call is
+ * recorded; pngquant quantises to a palette at its maximum quality, oxipng copies losslessly.
+ * FAKE_PNGQUANT_EXIT makes pngquant fail with that exit code instead.
+ */
+async function installTools(): Promise<void> {
+	const sharpPath = createRequire(path.join(process.cwd(), 'package.json')).resolve('sharp');
+	const header = [
+		'#!/usr/bin/env node',
+		"const fs = require('node:fs');",
+		`const sharp = require(${JSON.stringify(sharpPath)});`,
+		'const args = process.argv.slice(2);',
+		'const input = args[args.length - 1];'
+	];
+	const record = (tool: string) => `fs.appendFileSync(${JSON.stringify(callsPath)}, JSON.stringify({ tool: '${tool}', args }) + '\\n');`;
+
+	await fs.writeFile(path.join(binDir, 'pngquant'), [
+		...header,
+		record('pngquant'),
+		'if (process.env.FAKE_PNGQUANT_EXIT) process.exit(Number(process.env.FAKE_PNGQUANT_EXIT));',
+		"const max = Number(args[args.indexOf('--quality') + 1].split('-')[1]);",
+		"sharp(input).png({ palette: true, quality: max }).toFile(args[args.indexOf('--output') + 1])",
+		'\t.catch((error) => { console.error(error.message); process.exit(1); });',
+		''
+	].join('\n'), { mode: 0o755 });
+
+	await fs.writeFile(path.join(binDir, 'oxipng'), [
+		...header,
+		record('oxipng'),
+		"fs.copyFileSync(input, args[args.indexOf('--out') + 1]);",
+		''
+	].join('\n'), { mode: 0o755 });
+}
+
+async function calls(): Promise<ToolCall[]> {
+	const raw = await fs.readFile(callsPath, 'utf-8').catch(() => '');
+	return raw.split('\n').filter(Boolean).map((line) => JSON.parse(line) as ToolCall);
+}
+
+/** A smooth gradient: quantising it costs little fidelity and saves most of the bytes. */
+function gradient(): Promise<Buffer> {
+	const size = 96;
+	const pixels = Buffer.alloc(size * size * 3);
+	for (let y = 0; y < size; y++) {
+		for (let x = 0; x < size; x++) {
+			pixels.set([x * 2, y * 2, 128], (y * size + x) * 3);
+		}
+	}
+	return sharp(pixels, { raw: { width: size, height: size, channels: 3 } }).png().toBuffer();
+}
+
+beforeAll(async () => {
+	binDir = await fs.mkdtemp(path.join(os.tmpdir(), 'png-encoder-bin-'));
+	callsPath = path.join(binDir, 'calls.jsonl');
+	await installTools();
+	process.env.CRUNCH_BIN_DIR = binDir;
+});
+
+afterAll(async () => {
+	delete process.env.CRUNCH_BIN_DIR;
+	await fs.rm(binDir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+	delete process.env.FAKE_PNGQUANT_EXIT;
+	await fs.rm(callsPath, { force: true });
+});
+
+describe('PngEncoder', () => {
+	it('runs pngquant then oxipng per range and keeps the smallest PNG that passes the guardrail', async () => {
+		const result = await new PngEncoder().encode(await gradient(), {
+			format: 'png',
+			qualityRanges: [{ min: 80, max: 95, label: '80-95' }, { min: 70, max: 85, label: '70-85' }],
+			minSsim: 0.9
+		});
+
+		expect(result.format).toBe('png');
+		expect((await sharp(result.buffer).metadata()).format).toBe('png');
+		expect(result.qualityLabel).toMatch(/^pngquant-/);
+
+		const made = await calls();
+		expect(made.map((call) => call.tool)).toEqual(['oxipng', 'pngquant', 'oxipng', 'pngquant', 'oxipng']);
+		const [losslessOx, quant] = made;
+		expect(losslessOx.args).toEqual(['-o', '4', '--out', expect.stringMatching(/oxipng\.png$/), '--strip', 'all', expect.stringMatching(/input\.png$/)]);
+		expect(quant.args).toEqual([
+			'--force', '--output', expect.stringMatching(/quant-80-95\.png$/), '--quality', '80-95', '--speed', '1', '--skip-if-larger', '--strip',
+			expect.stringMatching(/input\.png$/)
+		]);
+		expect(made[2].args.at(-1)).toBe(quant.args[2]);
+		expect(made[3].args).toContain('70-85');
+	});
+
+	it('keeps metadata when asked and turns non-PNG input into PNG first', async () => {
+		const jpeg = await sharp(await gradient()).jpeg().toBuffer();
+		const result = await new PngEncoder().encode(jpeg, { format: 'png', minQuality: 65, maxQuality: 80, keepMetadata: true, minSsim: 0.9 });
+
+		expect((await sharp(result.buffer).metadata()).format).toBe('png');
+		for (const call of await calls()) expect(call.args.join(' ')).not.toContain('--strip');
+		expect((await calls())[1].args).toContain('65-80');
+	});
+
+	it('falls back to the lossless candidate when quantising fails the guardrail or is skipped', async () => {
+		const source = await gradient();
+		// No score reaches above 1, so every lossy candidate is rejected.
+		const strict = await new PngEncoder().encode(source, { format: 'png', minQuality: 80, maxQuality: 95, minSsim: 1.01 });
+		expect(strict.qualityLabel).toBe('oxipng');
+		expect(strict.buffer.equals(source)).toBe(true);
+
+		// Exit 99 is pngquant's --skip-if-larger.
+		process.env.FAKE_PNGQUANT_EXIT = '99';
+		const skipped = await new PngEncoder().encode(source, { format: 'png', minQuality: 80, maxQuality: 95 });
+		expect(skipped.qualityLabel).toBe('oxipng');
+	});
+});
@@ -0,0 +1,92 @@
+import os from 'node:os';
+import path from 'node:path';
+import fs from 'node:fs/promises';
+import sharp from 'sharp';
+import { runOxipng } from '../../optimizer/tools/oxipng';
+import { runPngquant } from '../../optimizer/tools/pngquant';
+import { measure } from '../../optimizer/metrics';
+import { SSIM_THRESHOLD_NORMAL } from '../../optimizer/types';
+import type { ImageEncoder, EncodeOptions, EncodeResult } from './types';
+
+interface PngCandidate {
+	buffer: Buffer;
+	qualityLabel: string;
+}
+
+/**
+ * Lossless (oxipng) + lossy (pngquant → oxipng) PNG encoder.
+ * Lossy candidates must pass the SSIM guardrail; the smallest surviving candidate wins.
+ */
+export class PngEncoder implements ImageEncoder {
+	async encode(input: string | Buffer, options: EncodeOptions): Promise<EncodeResult> {
+		const tempRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'png-enc-'));
+		const inputPath = path.join(tempRoot, 'input.png');
+		const keepMetadata = options.keepMetadata ?? false;
+		const { signal } = options;
+
+		try {
+			const source = Buffer.isBuffer(input) ? input : await fs.readFile(input);
+			const meta = await sharp(source).metadata();
+			const pngSource = meta.format === 'png' ? source : await sharp(source).png().toBuffer();
+			await fs.writeFile(inputPath, pngSource);
+
+			const candidates: PngCandidate[] = [];
+			let lastError: unknown;
+
+			const oxOut = path.join(tempRoot, 'oxipng.png');
+			try {
+				await runOxipng(inputPath, oxOut, { keepMetadata, signal });
+				candidates.push({ buffer: await fs.readFile(oxOut), qualityLabel: 'oxipng' });
+			} catch (error) {
+				// Ignore failed candidate.
+				lastError = error;
+			}
+
+			const ranges = options.qualityRanges
+				?? (options.minQuality !== undefined && options.maxQuality !== undefined
+					? [{ min: options.minQuality, max: options.maxQuality, label: `${options.minQuality}-${options.maxQuality}` }]
+					: []);
+			const threshold = options.minSsim ?? SSIM_THRESHOLD_NORMAL;
+
+			for (const range of ranges) {
+				if (signal?.aborted) throw new Error('Cancelled');
+				const quantPath = path.join(tempRoot, `quant-${range.min}-${range.max}.png`);
+				const finalPath = path.join(tempRoot, `quant-ox-${range.min}-${range.max}.png`);
+
+				try {
+					await runPngquant(inputPath, quantPath, {
+						minQuality: range.min,
+						maxQuality: range.max,
+						keepMetadata,
+						signal
+					});
+					await runOxipng(quantPath, finalPath, { keepMetadata, signal });
+
+					const buffer = await fs.readFile(finalPath);
+					const score = await measure(options.metric, pngSource, buffer);
+					if (score >= threshold) {
+						candidates.push({ buffer, qualityLabel: `pngquant-${range.label}` });
+					}
+				} catch (error) {
+					// Ignore failed candidate (including pngquant --skip-if-larger).
+					lastError = error;
+				}
+			}
+
+			if (candidates.length === 0) {
+				const detail = lastError instanceof Error ? `: ${lastError.message}` : '';
+				throw new Error(`PNG encoding failed: no valid candidate produced${detail}`);
+			}
+
+			const best = candidates.sort((a, b) => a.buffer.length - b.buffer.length)[0];
+
+			return {
+				buffer: best.buffer,
+				format: 'png',
+				qualityLabel: best.qualityLabel
+			};
+		} finally {
+			await fs.rm(tempRoot, { recursive: true, force: true }).catch(() => { });
+		}
+	}
+}
@@ -25,6 +25,12 @@ export class SharpEncoder implements ImageEncoder {
 					smartSubsample: true
 				});
 				break;
+			case 'avif':
+				pipeline = pipeline.avif({
+					quality: options.quality ?? 55,
+					effort: options.effort ?? 4
+				});
+				break;
 			case 'png':
 				pipeline = pipeline.png({
 					compressionLevel: 9,
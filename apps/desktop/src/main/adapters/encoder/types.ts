@@ -1,13 +1,17 @@
-import type { SupportedImageType } from '../../../shared/types';
+import type { QualityMetric, SupportedImageType } from '../../../shared/types';
 
 export interface EncodeOptions {
 	format: SupportedImageType;
 	quality?: number;
-	effort?: number; // 4-6 for WebP
+	effort?: number; // 4-6 for WebP, 0-9 for AVIF
 	nearLossless?: boolean;
 	keepMetadata?: boolean;
 	minQuality?: number; // For pngquant
 	maxQuality?: number; // For pngquant
+	qualityRanges?: Array<{ min: number; max: number; label: string }>; // For pngquant, tried in order
+	minSsim?: number; // Guardrail for lossy candidates, in units of `metric`
+	metric?: QualityMetric; // Defaults to SSIM
+	signal?: AbortSignal; // Kills the external tool when the job is cancelled
 }
 
 export interface EncodeResult {
@@ -0,0 +1,42 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import sharp from 'sharp';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { atomicWrite } from './atomicWrite';
+
+let root: string;
+
+function jpeg(artist?: string): Promise<Buffer> {
+	const pipeline = sharp({ create: { width: 8, height: 8, channels: 3, background: '#808080' } }).jpeg();
+	return (artist ? pipeline.withExif({ IFD0: { Artist: artist } }) : pipeline).toBuffer();
+}
+
+beforeEach(async () => {
+	root = await fs.mkdtemp(path.join(os.tmpdir(), 'atomic-write-'));
+});
+
+afterEach(async () => {
+	await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('atomicWrite', () => {
+	it('writes the file when the injected fields read back from it', async () => {
+		const target = path.join(root, 'out', 'a.jpg');
+		const result = await atomicWrite(target, await jpeg('Jane Doe'), { expectedFormat: 'jpeg', expectedMetadata: { artist: 'Jane Doe' } });
+
+		expect(result).toMatchObject({ success: true, path: target });
+		expect(await fs.readdir(path.dirname(target))).toEqual(['a.jpg']);
+	});
+
+	it('leaves the target alone when an injected field is missing from the written file', async () => {
+		const target = path.join(root, 'a.jpg');
+		await fs.writeFile(target, 'original');
+		const result = await atomicWrite(target, await jpeg(), { expectedFormat: 'jpeg', expectedMetadata: { artist: 'Jane Doe' } });
+
+		expect(result.success).toBe(false);
+		expect(result.error).toBe('Verification failed: injected artist not found in output');
+		expect(await fs.readFile(target, 'utf-8')).toBe('original');
+		expect(await fs.readdir(root)).toEqual(['a.jpg']);
+	});
+});
@@ -2,12 +2,16 @@ import fs from 'node:fs/promises';
 import path from 'node:path';
 import sharp from 'sharp';
 import { Logger } from '../../logger';
+import type { SupportedImageType } from '../../../shared/types';
+import { findMissingFields, hasInjectedFields, type InjectedFields } from '../metadata';
 
 const log = new Logger('FSAdapter');
 
 export interface WriteOptions {
 	backupDir?: string;
-	expectedFormat?: 'jpeg' | 'png' | 'webp';
+	expectedFormat?: SupportedImageType;
+	/** Injected rights fields that must be readable from the written file. */
+	expectedMetadata?: InjectedFields;
 	skipValidation?: boolean;
 }
 
@@ -44,10 +48,17 @@ export async function atomicWrite(
 				throw new Error('Verification failed: written file is empty');
 			}
 
-			if (options.expectedFormat) {
+			const expectedMetadata = options.expectedMetadata && hasInjectedFields(options.expectedMetadata) ? options.expectedMetadata : undefined;
+			if (options.expectedFormat || expectedMetadata) {
 				const meta = await sharp(tmpPath).metadata();
-				if (meta.format !== options.expectedFormat) {
-					throw new Error(`Verification failed: expected ${options.expectedFormat}, got ${meta.format}`);
+				// sharp reports AVIF as the heif container with av1 compression
+				const actual = meta.format === 'heif' && meta.compression === 'av1' ? 'avif' : meta.format;
+				if (options.expectedFormat && actual !== options.expectedFormat) {
+					throw new Error(`Verification failed: expected ${options.expectedFormat}, got ${actual}`);
+				}
+				const missing = expectedMetadata ? findMissingFields(meta, expectedMetadata) : [];
+				if (missing.length > 0) {
+					throw new Error(`Verification failed: injected ${missing.join(', ')} not found in output`);
 				}
 			}
 		}
@@ -0,0 +1,280 @@
+import zlib from 'node:zlib';
+import sharp from 'sharp';
+import type { SupportedImageType } from '../../../shared/types';
+import { wrapIptcResource } from './iptc';
+
+/** Cleaned metadata to write back into an encoded file. EXIF is a bare TIFF structure, IPTC raw IIM. */
+export interface MetadataBlocks {
+	exif?: Buffer;
+	xmp?: string;
+	iptc?: Buffer;
+	icc?: Buffer;
+	comments?: string[];
+}
+
+export type MetadataBlockKind = keyof MetadataBlocks;
+
+export interface EmbedResult {
+	buffer: Buffer;
+	/** Blocks the container could not carry. */
+	dropped: MetadataBlockKind[];
+}
+
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'binary');
+const XMP_HEADER = Buffer.from('http://ns.adobe.com/xap/1.0/\0', 'binary');
+const ICC_HEADER = Buffer.from('ICC_PROFILE\0', 'binary');
+const PHOTOSHOP_HEADER = Buffer.from('Photoshop 3.0\0', 'binary');
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp';
+const MAX_SEGMENT = 0xffff - 2;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+	let c = n;
+	for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+	return c >>> 0;
+});
+
+function crc32(data: Buffer): number {
+	let crc = 0xffffffff;
+	for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+export function isJpeg(buffer: Buffer): boolean {
+	return buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8;
+}
+
+export function isPng(buffer: Buffer): boolean {
+	return buffer.subarray(0, 8).equals(PNG_SIGNATURE);
+}
+
+export function isWebp(buffer: Buffer): boolean {
+	return buffer.length > 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP';
+}
+
+interface JpegSegment {
+	marker: number;
+	data: Buffer;
+}
+
+function splitJpeg(buffer: Buffer): { segments: JpegSegment[]; rest: Buffer } {
+	const segments: JpegSegment[] = [];
+	let offset = 2;
+	while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+		const marker = buffer[offset + 1];
+		if (marker === 0xda) break;
+		const length = buffer.readUInt16BE(offset + 2);
+		segments.push({ marker, data: buffer.subarray(offset + 4, offset + 2 + length) });
+		offset += 2 + length;
+	}
+	return { segments, rest: buffer.subarray(offset) };
+}
+
+function jpegSegment(marker: number, data: Buffer): Buffer {
+	const header = Buffer.from([0xff, marker, 0, 0]);
+	header.writeUInt16BE(data.length + 2, 2);
+	return Buffer.concat([header, data]);
+}
+
+function isMetadataSegment(segment: JpegSegment): boolean {
+	const startsWith = (prefix: Buffer) => segment.data.subarray(0, prefix.length).equals(prefix);
+	switch (segment.marker) {
+		case 0xe1:
+			return startsWith(EXIF_HEADER) || startsWith(XMP_HEADER);
+		case 0xe2:
+			return startsWith(ICC_HEADER);
+		case 0xed:
+			return startsWith(PHOTOSHOP_HEADER);
+		case 0xfe:
+			return true;
+		default:
+			return false;
+	}
+}
+
+function embedJpeg(buffer: Buffer, blocks: MetadataBlocks): EmbedResult {
+	const { segments, rest } = splitJpeg(buffer);
+	const dropped: MetadataBlockKind[] = [];
+	const inserted: Buffer[] = [];
+
+	if (blocks.exif) {
+		if (blocks.exif.length + EXIF_HEADER.length <= MAX_SEGMENT) {
+			inserted.push(jpegSegment(0xe1, Buffer.concat([EXIF_HEADER, blocks.exif])));
+		} else {
+			dropped.push('exif');
+		}
+	}
+	if (blocks.xmp) {
+		const xmp = Buffer.from(blocks.xmp, 'utf8');
+		// Extended XMP spans several segments with a GUID digest; packets that large are not carried over.
+		if (xmp.length + XMP_HEADER.length <= MAX_SEGMENT) {
+			inserted.push(jpegSegment(0xe1, Buffer.concat([XMP_HEADER, xmp])));
+		} else {
+			dropped.push('xmp');
+		}
+	}
+	if (blocks.icc) {
+		const chunkSize = MAX_SEGMENT - ICC_HEADER.length - 2;
+		const count = Math.ceil(blocks.icc.length / chunkSize);
+		for (let i = 0; i < count; i++) {
+			const chunk = blocks.icc.subarray(i * chunkSize, (i + 1) * chunkSize);
+			inserted.push(jpegSegment(0xe2, Buffer.concat([ICC_HEADER, Buffer.from([i + 1, count]), chunk])));
+		}
+	}
+	if (blocks.iptc) {
+		inserted.push(jpegSegment(0xed, wrapIptcResource(blocks.iptc)));
+	}
+	for (const comment of blocks.comments ?? []) {
+		inserted.push(jpegSegment(0xfe, Buffer.from(comment, 'utf8').subarray(0, MAX_SEGMENT)));
+	}
+
+	// JFIF must stay first; everything else keeps its original order behind the new blocks.
+	const kept = segments.filter((segment) => !isMetadataSegment(segment));
+	const leading = kept[0]?.marker === 0xe0 ? [kept.shift()!] : [];
+	const output = Buffer.concat([
+		buffer.subarray(0, 2),
+		...leading.map((segment) => jpegSegment(segment.marker, segment.data)),
+		...inserted,
+		...kept.map((segment) => jpegSegment(segment.marker, segment.data)),
+		rest
+	]);
+	return { buffer: output, dropped };
+}
+
+export function readJpegComments(buffer: Buffer): string[] {
+	if (!isJpeg(buffer)) return [];
+	return splitJpeg(buffer).segments
+		.filter((segment) => segment.marker === 0xfe)
+		.map((segment) => segment.data.toString('utf8'));
+}
+
+interface Chunk {
+	type: string;
+	data: Buffer;
+}
+
+function splitPng(buffer: Buffer): Chunk[] {
+	const chunks: Chunk[] = [];
+	let offset = 8;
+	while (offset + 12 <= buffer.length) {
+		const length = buffer.readUInt32BE(offset);
+		const type = buffer.toString('ascii', offset + 4, offset + 8);
+		chunks.push({ type, data: buffer.subarray(offset + 8, offset + 8 + length) });
+		offset += 12 + length;
+		if (type === 'IEND') break;
+	}
+	return chunks;
+}
+
+function pngChunk(type: string, data: Buffer): Buffer {
+	const header = Buffer.alloc(8);
+	header.writeUInt32BE(data.length, 0);
+	header.write(type, 4, 'ascii');
+	const crc = Buffer.alloc(4);
+	crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), data])));
+	return Buffer.concat([header, data, crc]);
+}
+
+/** iTXt keeps UTF-8 text intact, which tEXt (Latin-1) cannot. */
+function pngTextChunk(keyword: string, text: string): Buffer {
+	return pngChunk('iTXt', Buffer.concat([Buffer.from(keyword, 'latin1'), Buffer.from([0, 0, 0, 0, 0]), Buffer.from(text, 'utf8')]));
+}
+
+function embedPng(buffer: Buffer, blocks: MetadataBlocks): EmbedResult {
+	const inserted: Buffer[] = [];
+	if (blocks.icc) {
+		inserted.push(pngChunk('iCCP', Buffer.concat([Buffer.from('icc\0\0', 'latin1'), zlib.deflateSync(blocks.icc)])));
+	}
+	if (blocks.exif) {
+		inserted.push(pngChunk('eXIf', blocks.exif));
+	}
+	if (blocks.xmp) {
+		inserted.push(pngTextChunk(PNG_XMP_KEYWORD, blocks.xmp));
+	}
+	for (const comment of blocks.comments ?? []) {
+		inserted.push(pngTextChunk('Comment', comment));
+	}
+
+	const replaced = new Set(['iCCP', 'eXIf', 'tEXt', 'zTXt', 'iTXt']);
+	// An embedded profile and the sRGB chunk are mutually exclusive.
+	if (blocks.icc) replaced.add('sRGB');
+
+	const chunks = splitPng(buffer).filter((chunk) => !replaced.has(chunk.type));
+	const output = Buffer.concat([
+		PNG_SIGNATURE,
+		...chunks.flatMap((chunk) => (chunk.type === 'IHDR' ? [pngChunk(chunk.type, chunk.data), ...inserted] : [pngChunk(chunk.type, chunk.data)]))
+	]);
+	// PNG has no standard IPTC chunk.
+	return { buffer: output, dropped: blocks.iptc ? ['iptc'] : [] };
+}
+
+function splitWebp(buffer: Buffer): Chunk[] {
+	const chunks: Chunk[] = [];
+	let offset = 12;
+	while (offset + 8 <= buffer.length) {
+		const type = buffer.toString('ascii', offset, offset + 4);
+		const length = buffer.readUInt32LE(offset + 4);
+		chunks.push({ type, data: buffer.subarray(offset + 8, offset + 8 + length) });
+		offset += 8 + length + (length % 2);
+	}
+	return chunks;
+}
+
+function riffChunk(type: string, data: Buffer): Buffer {
+	const header = Buffer.alloc(8);
+	header.write(type, 0, 'ascii');
+	header.writeUInt32LE(data.length, 4);
+	return Buffer.concat([header, data, data.length % 2 ? Buffer.alloc(1) : Buffer.alloc(0)]);
+}
+
+async function embedWebp(buffer: Buffer, blocks: MetadataBlocks): Promise<EmbedResult> {
+	const chunks = splitWebp(buffer).filter((chunk) => chunk.type !== 'ICCP' && chunk.type !== 'EXIF' && chunk.type !== 'XMP ');
+	let vp8x = chunks.find((chunk) => chunk.type === 'VP8X')?.data;
+	const body = chunks.filter((chunk) => chunk.type !== 'VP8X');
+
+	if (!vp8x) {
+		// Simple (VP8/VP8L) files must be promoted to the extended layout to carry metadata.
+		const meta = await sharp(buffer).metadata();
+		vp8x = Buffer.alloc(10);
+		vp8x[0] = meta.hasAlpha ? 0x10 : 0;
+		vp8x.writeUIntLE((meta.width ?? 1) - 1, 4, 3);
+		vp8x.writeUIntLE((meta.height ?? 1) - 1, 7, 3);
+	}
+	const flags = Buffer.from(vp8x);
+	flags[0] = (flags[0] & ~(0x20 | 0x08 | 0x04)) | (blocks.icc ? 0x20 : 0) | (blocks.exif ? 0x08 : 0) | (blocks.xmp ? 0x04 : 0);
+
+	const payload = Buffer.concat([
+		Buffer.from('WEBP', 'ascii'),
+		riffChunk('VP8X', flags),
+		...(blocks.icc ? [riffChunk('ICCP', blocks.icc)] : []),
+		...body.map((chunk) => riffChunk(chunk.type, chunk.data)),
+		...(blocks.exif ? [riffChunk('EXIF', blocks.exif)] : []),
+		...(blocks.xmp ? [riffChunk('XMP ', Buffer.from(blocks.xmp, 'utf8'))] : [])
+	]);
+	const header = Buffer.alloc(8);
+	header.write('RIFF', 0, 'ascii');
+	header.writeUInt32LE(payload.length, 4);
+
+	const dropped: MetadataBlockKind[] = [];
+	if (blocks.iptc) dropped.push('iptc');
+	if (blocks.comments?.length) dropped.push('comments');
+	return { buffer: Buffer.concat([header, payload]), dropped };
+}
+
+/**
+ * Replaces whatever metadata the encoder kept or stripped with exactly `blocks`, so the
+ * output carries the cleaned set regardless of which encoder produced it.
+ */
+export async function embedMetadata(buffer: Buffer, format: SupportedImageType, blocks: MetadataBlocks): Promise<EmbedResult> {
+	if (format === 'jpeg' && isJpeg(buffer)) return embedJpeg(buffer, blocks);
+	if (format === 'png' && isPng(buffer)) return embedPng(buffer, blocks);
+	if (format === 'webp' && isWebp(buffer)) return embedWebp(buffer, blocks);
+
+	// AVIF keeps metadata in item boxes addressed by absolute offsets; rewriting them is not supported.
+	const dropped: MetadataBlockKind[] = [];
+	if (blocks.exif) dropped.push('exif');
+	if (blocks.xmp) dropped.push('xmp');
+	if (blocks.iptc) dropped.push('iptc');
+	if (blocks.comments?.length) dropped.push('comments');
+	return { buffer, dropped };
+}
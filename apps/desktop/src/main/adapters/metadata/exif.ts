@@ -0,0 +1,252 @@
+import type { MetadataTagGroup } from '../../../shared/types';
+
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'binary');
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_INTEROP_IFD = 0xa005;
+const TAG_THUMBNAIL_OFFSET = 0x0201;
+const TAG_THUMBNAIL_LENGTH = 0x0202;
+const TAG_MAKER_NOTE = 0x927c;
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8, 13: 4 };
+const TYPE_LONG = 4;
+
+// Tags describing the pixel layout of a TIFF file. They are wrong once the image is re-encoded.
+const STRUCTURAL_TAGS = new Set([
+	0x0100, 0x0101, 0x0102, 0x0103, 0x0106, 0x0111, 0x0112, 0x0115, 0x0116, 0x0117, 0x011a, 0x011b, 0x011c, 0x0128,
+	0x0140, 0x0142, 0x0143, 0x0144, 0x0145, 0x014a, 0x0152, 0x0153, 0x0201, 0x0202, 0x0211, 0x0212, 0x0213, 0x0214
+]);
+const COPYRIGHT_TAGS = new Set([0x013b, 0x8298, 0x9c9d]);
+const COMMENT_TAGS = new Set([0x9286, 0x9c9c]);
+const CAMERA_TAGS = new Set([0x010f, 0x0110, 0x013c]);
+
+export interface ExifEntry {
+	tag: number;
+	type: number;
+	count: number;
+	/** Value bytes in the block's byte order. */
+	value: Buffer;
+}
+
+export interface ExifData {
+	littleEndian: boolean;
+	ifd0: ExifEntry[];
+	exif: ExifEntry[];
+	interop: ExifEntry[];
+	gps: ExifEntry[];
+	ifd1: ExifEntry[];
+	thumbnail?: Buffer;
+}
+
+/**
+ * Accepts either a bare TIFF structure or one prefixed with the `Exif\0\0` APP1 header
+ * (which is how sharp reports it).
+ */
+export function parseExif(block: Buffer): ExifData | null {
+	const tiff = block.subarray(0, EXIF_HEADER.length).equals(EXIF_HEADER) ? block.subarray(EXIF_HEADER.length) : block;
+	if (tiff.length < 8) return null;
+
+	const order = tiff.toString('ascii', 0, 2);
+	if (order !== 'II' && order !== 'MM') return null;
+	const littleEndian = order === 'II';
+	const u16 = (offset: number) => (littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+	const u32 = (offset: number) => (littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset));
+	if (u16(2) !== 42) return null;
+
+	const visited = new Set<number>();
+	const readIfd = (offset: number): { entries: ExifEntry[]; next: number } => {
+		if (!offset || visited.has(offset) || offset + 2 > tiff.length) {
+			return { entries: [], next: 0 };
+		}
+		visited.add(offset);
+		const count = u16(offset);
+		const entries: ExifEntry[] = [];
+		for (let i = 0; i < count; i++) {
+			const at = offset + 2 + i * 12;
+			if (at + 12 > tiff.length) break;
+			const type = u16(at + 2);
+			const valueCount = u32(at + 4);
+			const size = (TYPE_SIZES[type] ?? 0) * valueCount;
+			if (!TYPE_SIZES[type]) continue;
+			const valueAt = size <= 4 ? at + 8 : u32(at + 8);
+			if (valueAt + size > tiff.length) continue;
+			entries.push({ tag: u16(at), type, count: valueCount, value: Buffer.from(tiff.subarray(valueAt, valueAt + size)) });
+		}
+		const nextAt = offset + 2 + count * 12;
+		return { entries, next: nextAt + 4 <= tiff.length ? u32(nextAt) : 0 };
+	};
+	const pointer = (entries: ExifEntry[], tag: number) => {
+		const entry = entries.find((item) => item.tag === tag);
+		if (!entry || entry.value.length < 4) return 0;
+		return littleEndian ? entry.value.readUInt32LE(0) : entry.value.readUInt32BE(0);
+	};
+
+	const ifd0 = readIfd(u32(4));
+	const exif = readIfd(pointer(ifd0.entries, TAG_EXIF_IFD)).entries;
+	const interop = readIfd(pointer(exif, TAG_INTEROP_IFD)).entries;
+	const gps = readIfd(pointer(ifd0.entries, TAG_GPS_IFD)).entries;
+	const ifd1 = readIfd(ifd0.next).entries;
+
+	let thumbnail: Buffer | undefined;
+	const thumbOffset = pointer(ifd1, TAG_THUMBNAIL_OFFSET);
+	const thumbLength = pointer(ifd1, TAG_THUMBNAIL_LENGTH);
+	if (thumbOffset && thumbLength && thumbOffset + thumbLength <= tiff.length) {
+		thumbnail = Buffer.from(tiff.subarray(thumbOffset, thumbOffset + thumbLength));
+	}
+
+	const withoutPointers = (entries: ExifEntry[]) =>
+		entries.filter((item) => item.tag !== TAG_EXIF_IFD && item.tag !== TAG_GPS_IFD && item.tag !== TAG_INTEROP_IFD);
+
+	return {
+		littleEndian,
+		ifd0: withoutPointers(ifd0.entries),
+		exif: withoutPointers(exif),
+		interop,
+		gps,
+		ifd1: ifd1.filter((item) => item.tag !== TAG_THUMBNAIL_OFFSET && item.tag !== TAG_THUMBNAIL_LENGTH),
+		thumbnail
+	};
+}
+
+/**
+ * Maps a tag to the group it is kept or dropped with. `null` marks tags that are never carried
+ * over because they describe the source file's pixel layout (orientation included: pixels are auto-rotated).
+ */
+export function classifyExifTag(ifd: 'ifd0' | 'exif', tag: number): MetadataTagGroup | null {
+	if (COPYRIGHT_TAGS.has(tag)) return 'copyright';
+	if (COMMENT_TAGS.has(tag)) return 'comments';
+	if (ifd === 'exif') return tag === TAG_MAKER_NOTE ? 'maker-notes' : 'camera';
+	if (STRUCTURAL_TAGS.has(tag)) return null;
+	return CAMERA_TAGS.has(tag) ? 'camera' : 'exif';
+}
+
+/** Groups present in the block, used to report what a rewrite removed. */
+export function exifGroups(data: ExifData): Set<MetadataTagGroup> {
+	const groups = new Set<MetadataTagGroup>();
+	for (const entry of data.ifd0) {
+		const group = classifyExifTag('ifd0', entry.tag);
+		if (group) groups.add(group);
+	}
+	for (const entry of data.exif) {
+		groups.add(classifyExifTag('exif', entry.tag) ?? 'camera');
+	}
+	if (data.interop.length > 0) groups.add('camera');
+	if (data.gps.length > 0) groups.add('gps');
+	if (data.ifd1.length > 0 || data.thumbnail) groups.add('thumbnail');
+	return groups;
+}
+
+/**
+ * Keeps only the tags whose group is in `keep`. Maker notes are always dropped: vendor blocks
+ * reference absolute offsets that break once the block is relocated.
+ */
+export function filterExif(data: ExifData, keep: Set<MetadataTagGroup>): ExifData {
+	const keepTag = (ifd: 'ifd0' | 'exif') => (entry: ExifEntry) => {
+		const group = classifyExifTag(ifd, entry.tag);
+		return group !== null && group !== 'maker-notes' && keep.has(group);
+	};
+	const exif = data.exif.filter(keepTag('exif'));
+	const keepThumbnail = keep.has('thumbnail') && Boolean(data.thumbnail);
+
+	return {
+		littleEndian: data.littleEndian,
+		ifd0: data.ifd0.filter(keepTag('ifd0')),
+		exif,
+		interop: exif.length > 0 && keep.has('camera') ? data.interop : [],
+		gps: keep.has('gps') ? data.gps : [],
+		ifd1: keepThumbnail ? data.ifd1.filter((entry) => !STRUCTURAL_TAGS.has(entry.tag) || entry.tag === 0x0103) : [],
+		thumbnail: keepThumbnail ? data.thumbnail : undefined
+	};
+}
+
+/** A thumbnail on its own is not worth an EXIF block. */
+export function isEmptyExif(data: ExifData): boolean {
+	return data.ifd0.length === 0 && data.exif.length === 0 && data.gps.length === 0;
+}
+
+/**
+ * Serialises a bare TIFF structure (no `Exif\0\0` header): IFD0, Exif, Interop, GPS, IFD1, thumbnail.
+ */
+export function serializeExif(data: ExifData): Buffer {
+	const le = data.littleEndian;
+	const longValue = (value: number) => {
+		const buf = Buffer.alloc(4);
+		if (le) buf.writeUInt32LE(value);
+		else buf.writeUInt32BE(value);
+		return buf;
+	};
+	const pointerEntry = (tag: number): ExifEntry => ({ tag, type: TYPE_LONG, count: 1, value: longValue(0) });
+
+	const interop = data.interop;
+	const exif = interop.length > 0 ? [...data.exif, pointerEntry(TAG_INTEROP_IFD)] : data.exif;
+	const ifd0 = [...data.ifd0];
+	if (exif.length > 0) ifd0.push(pointerEntry(TAG_EXIF_IFD));
+	if (data.gps.length > 0) ifd0.push(pointerEntry(TAG_GPS_IFD));
+	const ifd1 = data.thumbnail
+		? [...data.ifd1, pointerEntry(TAG_THUMBNAIL_OFFSET), { ...pointerEntry(TAG_THUMBNAIL_LENGTH), value: longValue(data.thumbnail.length) }]
+		: [];
+
+	const ifdSize = (entries: ExifEntry[]) =>
+		entries.length === 0 ? 0 : 6 + entries.length * 12 + entries.reduce((sum, entry) => sum + (entry.value.length > 4 ? entry.value.length + (entry.value.length % 2) : 0), 0);
+
+	// Offsets are fixed by layout order, so pointer values can be filled in before anything is written.
+	const offsets = { ifd0: 8, exif: 0, interop: 0, gps: 0, ifd1: 0, thumbnail: 0 };
+	let cursor = 8 + ifdSize(ifd0);
+	offsets.exif = exif.length > 0 ? cursor : 0;
+	cursor += ifdSize(exif);
+	offsets.interop = interop.length > 0 ? cursor : 0;
+	cursor += ifdSize(interop);
+	offsets.gps = data.gps.length > 0 ? cursor : 0;
+	cursor += ifdSize(data.gps);
+	offsets.ifd1 = ifd1.length > 0 ? cursor : 0;
+	cursor += ifdSize(ifd1);
+	offsets.thumbnail = data.thumbnail ? cursor : 0;
+	cursor += data.thumbnail?.length ?? 0;
+
+	const setPointer = (entries: ExifEntry[], tag: number, value: number) => {
+		const entry = entries.find((item) => item.tag === tag);
+		if (entry) entry.value = longValue(value);
+	};
+	setPointer(ifd0, TAG_EXIF_IFD, offsets.exif);
+	setPointer(ifd0, TAG_GPS_IFD, offsets.gps);
+	setPointer(exif, TAG_INTEROP_IFD, offsets.interop);
+	setPointer(ifd1, TAG_THUMBNAIL_OFFSET, offsets.thumbnail);
+
+	const out = Buffer.alloc(cursor);
+	const w16 = (value: number, at: number) => (le ? out.writeUInt16LE(value, at) : out.writeUInt16BE(value, at));
+	const w32 = (value: number, at: number) => (le ? out.writeUInt32LE(value, at) : out.writeUInt32BE(value, at));
+
+	out.write(le ? 'II' : 'MM', 0, 'ascii');
+	w16(42, 2);
+	w32(8, 4);
+
+	const writeIfd = (entries: ExifEntry[], at: number, next: number) => {
+		if (entries.length === 0) return;
+		const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+		w16(sorted.length, at);
+		let dataAt = at + 6 + sorted.length * 12;
+		sorted.forEach((entry, index) => {
+			const entryAt = at + 2 + index * 12;
+			w16(entry.tag, entryAt);
+			w16(entry.type, entryAt + 2);
+			w32(entry.count, entryAt + 4);
+			if (entry.value.length <= 4) {
+				entry.value.copy(out, entryAt + 8);
+			} else {
+				w32(dataAt, entryAt + 8);
+				entry.value.copy(out, dataAt);
+				dataAt += entry.value.length + (entry.value.length % 2);
+			}
+		});
+		w32(next, at + 2 + sorted.length * 12);
+	};
+
+	writeIfd(ifd0, offsets.ifd0, offsets.ifd1);
+	writeIfd(exif, offsets.exif, 0);
+	writeIfd(interop, offsets.interop, 0);
+	writeIfd(data.gps, offsets.gps, 0);
+	writeIfd(ifd1, offsets.ifd1, 0);
+	data.thumbnail?.copy(out, offsets.thumbnail);
+	return out;
+}
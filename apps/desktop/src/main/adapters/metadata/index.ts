@@ -0,0 +1,260 @@
+import sharp from 'sharp';
+import type {
+	GpsAction,
+	IccAction,
+	MetadataAction,
+	MetadataCleanupSettings,
+	MetadataTagGroup,
+	SupportedImageType
+} from '../../../shared/types';
+import { exifGroups, filterExif, isEmptyExif, parseExif, serializeExif } from './exif';
+import { filterXmp, xmpGroups } from './xmp';
+import { filterIptc, iptcGroups, parseIptc, serializeIptc } from './iptc';
+import { embedMetadata, readJpegComments, type MetadataBlockKind, type MetadataBlocks } from './containers';
+import type { InjectedFields } from './inject';
+
+export * from './containers';
+export * from './inject';
+
+export interface MetadataReport {
+	metadataAction?: MetadataAction;
+	/** Tag groups present in the source that the output no longer carries. */
+	removedGroups?: MetadataTagGroup[];
+	iccAction?: IccAction;
+	gpsAction?: GpsAction;
+	/** Bytes of EXIF/XMP/IPTC/comments that were not carried over. */
+	bytesRemoved?: number;
+	/** Rights fields stamped from the metadata injection settings. */
+	injected?: Array<keyof InjectedFields>;
+}
+
+export interface CleanedMetadata {
+	blocks: MetadataBlocks;
+	/** Which groups each block carries, so a block the container rejects can be reported. */
+	groups: Partial<Record<MetadataBlockKind, MetadataTagGroup[]>>;
+	present: MetadataTagGroup[];
+	keep: MetadataTagGroup[];
+	sourceBytes: number;
+}
+
+const GROUP_ORDER: MetadataTagGroup[] = ['gps', 'thumbnail', 'comments', 'maker-notes', 'camera', 'exif', 'xmp', 'iptc', 'copyright'];
+const ALL_GROUPS = new Set<MetadataTagGroup>(GROUP_ORDER);
+const NON_COMMENT_TEXT = /^(XML:com\.adobe\.xmp|Raw profile type )/;
+
+/**
+ * Translates the cleanup preset (or the custom flags) into the set of tag groups to keep.
+ * Maker notes are never kept; see filterExif.
+ */
+export function resolveKeptGroups(settings: MetadataCleanupSettings): Set<MetadataTagGroup> {
+	switch (settings.preset) {
+		case 'web-safe':
+		case 'max-compression':
+			return new Set();
+		case 'keep-copyright':
+			return new Set(['copyright']);
+		case 'keep-camera-info':
+			return new Set(['exif', 'camera', 'copyright']);
+	}
+
+	const keep = new Set<MetadataTagGroup>(['exif', 'camera', 'copyright', 'gps', 'thumbnail', 'comments', 'xmp', 'iptc']);
+	if (settings.stripExif) {
+		keep.delete('exif');
+		keep.delete('camera');
+	}
+	if (settings.stripXmp) keep.delete('xmp');
+	if (settings.stripIptc) keep.delete('iptc');
+	// Rights survive in whichever block is kept; only stripping all three blocks drops them.
+	if (settings.stripExif && settings.stripXmp && settings.stripIptc) keep.delete('copyright');
+	if (settings.gpsClean) keep.delete('gps');
+	if (settings.removeThumbnails) keep.delete('thumbnail');
+	if (settings.removeComments) keep.delete('comments');
+	return keep;
+}
+
+function ordered(groups: Iterable<MetadataTagGroup>): MetadataTagGroup[] {
+	const set = new Set(groups);
+	return GROUP_ORDER.filter((group) => set.has(group));
+}
+
+function summarise(present: MetadataTagGroup[], kept: Set<MetadataTagGroup>): Pick<MetadataReport, 'metadataAction' | 'removedGroups' | 'gpsAction'> {
+	const removedGroups = present.filter((group) => !kept.has(group));
+	let metadataAction: MetadataAction = 'Cleaned';
+	if (kept.size === 0) metadataAction = 'Removed';
+	else if (removedGroups.length === 0) metadataAction = 'Kept';
+
+	let gpsAction: GpsAction = 'Not present';
+	if (present.includes('gps')) gpsAction = kept.has('gps') ? 'Kept' : 'Removed';
+
+	return { metadataAction, removedGroups, gpsAction };
+}
+
+/**
+ * Reads the source's EXIF/XMP/IPTC/comments, filters them by tag group and returns the cleaned
+ * blocks alongside the pixel buffer. Encoders do not carry metadata reliably, so the blocks are
+ * written into the encoded output afterwards by writeMetadata.
+ */
+async function cleanMetadata(meta: sharp.Metadata, buffer: Buffer, keep: Set<MetadataTagGroup>, keepIcc: boolean): Promise<CleanedMetadata> {
+	const present = new Set<MetadataTagGroup>();
+	const blocks: MetadataBlocks = {};
+	const groups: CleanedMetadata['groups'] = {};
+	let sourceBytes = 0;
+
+	const exif = meta.exif ? parseExif(meta.exif) : null;
+	if (exif && meta.exif) {
+		sourceBytes += meta.exif.length;
+		exifGroups(exif).forEach((group) => present.add(group));
+		// Maker notes are reported with the rest of the EXIF block, which is where they live.
+		if (exif.exif.some((entry) => entry.tag === 0x927c)) present.add('maker-notes');
+		const filtered = filterExif(exif, keep);
+		if (!isEmptyExif(filtered)) {
+			blocks.exif = serializeExif(filtered);
+			groups.exif = [...exifGroups(filtered)];
+		}
+	}
+
+	if (meta.xmp) {
+		const xmp = meta.xmp.toString('utf8');
+		sourceBytes += meta.xmp.length;
+		xmpGroups(xmp).forEach((group) => present.add(group));
+		const filtered = filterXmp(xmp, keep);
+		if (filtered) {
+			blocks.xmp = filtered;
+			groups.xmp = [...xmpGroups(filtered)];
+		}
+	}
+
+	if (meta.iptc) {
+		const datasets = parseIptc(meta.iptc);
+		sourceBytes += meta.iptc.length;
+		iptcGroups(datasets).forEach((group) => present.add(group));
+		const filtered = filterIptc(datasets, keep);
+		if (filtered.length > 0) {
+			blocks.iptc = serializeIptc(filtered);
+			groups.iptc = [...iptcGroups(filtered)];
+		}
+	}
+
+	const comments = [
+		...readJpegComments(buffer),
+		...(meta.comments ?? []).filter((item) => !NON_COMMENT_TEXT.test(item.keyword)).map((item) => item.text)
+	];
+	if (comments.length > 0) {
+		sourceBytes += comments.reduce((sum, text) => sum + Buffer.byteLength(text), 0);
+		present.add('comments');
+		if (keep.has('comments')) {
+			blocks.comments = comments;
+			groups.comments = ['comments'];
+		}
+	}
+
+	if (keepIcc && meta.icc) {
+		blocks.icc = meta.icc;
+	}
+
+	return { blocks, groups, present: ordered(present), keep: ordered(keep), sourceBytes };
+}
+
+function keptGroups(cleaned: CleanedMetadata, dropped: MetadataBlockKind[] = []): Set<MetadataTagGroup> {
+	const keep = new Set(cleaned.keep);
+	const kept = new Set<MetadataTagGroup>();
+	for (const [kind, list] of Object.entries(cleaned.groups) as Array<[MetadataBlockKind, MetadataTagGroup[]]>) {
+		if (dropped.includes(kind)) continue;
+		list.filter((group) => keep.has(group)).forEach((group) => kept.add(group));
+	}
+	return kept;
+}
+
+function blockBytes(blocks: MetadataBlocks): number {
+	return (blocks.exif?.length ?? 0)
+		+ (blocks.xmp ? Buffer.byteLength(blocks.xmp) : 0)
+		+ (blocks.iptc?.length ?? 0)
+		+ (blocks.comments ?? []).reduce((sum, text) => sum + Buffer.byteLength(text), 0);
+}
+
+/**
+ * Handles metadata stripping and color space normalization.
+ * `cleaned` is null when metadata cleanup is off and nothing has to be written into the output
+ * (`capture` is false); the encoder output is then left as it is. With `capture`, the source metadata
+ * is carried over as the legacy keepMetadata flag says, so injected fields can be added to it.
+ */
+export async function processMetadata(
+	buffer: Buffer,
+	settings: MetadataCleanupSettings,
+	legacyKeepMetadata: boolean,
+	capture = false
+): Promise<{ buffer: Buffer; report: MetadataReport; cleaned: CleanedMetadata | null }> {
+	if (!settings?.enabled) {
+		const report: MetadataReport = legacyKeepMetadata ? { metadataAction: 'Kept', iccAction: 'Kept' } : {};
+		if (!capture) {
+			return { buffer, report, cleaned: null };
+		}
+
+		const keep = legacyKeepMetadata ? ALL_GROUPS : new Set<MetadataTagGroup>();
+		const cleaned = await cleanMetadata(await sharp(buffer).metadata(), buffer, keep, legacyKeepMetadata);
+		const pipeline = sharp(buffer).rotate();
+		if (legacyKeepMetadata) pipeline.keepIccProfile();
+		return { buffer: await pipeline.toBuffer(), report, cleaned };
+	}
+
+	// Orientation is never carried over, so pixels are rotated upright first.
+	const pipeline = sharp(buffer).rotate();
+	const info = await sharp(buffer).metadata();
+	const keep = resolveKeptGroups(settings);
+	const cleaned = await cleanMetadata(info, buffer, keep, settings.iccHandling === 'keep');
+
+	let iccAction: IccAction = 'Kept';
+	if (settings.iccHandling === 'srgb') {
+		pipeline.toColourspace('srgb');
+		iccAction = 'Converted to sRGB';
+	} else if (settings.iccHandling === 'strip') {
+		iccAction = 'Stripped';
+	} else {
+		pipeline.keepIccProfile();
+	}
+
+	const processedBuffer = await pipeline.toBuffer();
+
+	return {
+		buffer: processedBuffer,
+		report: {
+			...summarise(cleaned.present, keptGroups(cleaned)),
+			iccAction,
+			bytesRemoved: Math.max(0, cleaned.sourceBytes - blockBytes(cleaned.blocks))
+		},
+		cleaned
+	};
+}
+
+/**
+ * Writes the cleaned blocks into the encoded output. Blocks the container cannot hold
+ * (IPTC in PNG/WebP, anything in AVIF) are reported as removed.
+ */
+export async function writeMetadata(
+	buffer: Buffer,
+	format: SupportedImageType,
+	cleaned: CleanedMetadata | null,
+	report: MetadataReport
+): Promise<{ buffer: Buffer; report: MetadataReport; dropped: MetadataBlockKind[]; warnings: string[] }> {
+	if (!cleaned) {
+		return { buffer, report, dropped: [], warnings: [] };
+	}
+
+	const embedded = await embedMetadata(buffer, format, cleaned.blocks);
+	if (embedded.dropped.length === 0) {
+		return { buffer: embedded.buffer, report, dropped: [], warnings: [] };
+	}
+
+	const remaining = { ...cleaned.blocks };
+	for (const kind of embedded.dropped) delete remaining[kind];
+
+	return {
+		buffer: embedded.buffer,
+		report: {
+			...report,
+			...summarise(cleaned.present, keptGroups(cleaned, embedded.dropped)),
+			bytesRemoved: Math.max(0, cleaned.sourceBytes - blockBytes(remaining))
+		},
+		dropped: embedded.dropped,
+		warnings: embedded.dropped.map((kind) => `${format.toUpperCase()} output cannot carry ${kind} metadata; it was dropped`)
+	};
+}
@@ -0,0 +1,156 @@
+import path from 'node:path';
+import type sharp from 'sharp';
+import type { MetadataInjectionSettings, MetadataTagGroup, SupportedImageType } from '../../../shared/types';
+import type { CleanedMetadata } from './index';
+import type { MetadataBlockKind } from './containers';
+import { parseExif, serializeExif, type ExifData, type ExifEntry } from './exif';
+import { escapeXml, readXmpProperty, setXmpProperties } from './xmp';
+import { parseIptc, serializeIptc, type IptcDataset } from './iptc';
+
+export interface InjectedFields {
+	artist?: string;
+	copyright?: string;
+	licenseUrl?: string;
+	usageTerms?: string;
+}
+
+const XMP_PROPERTIES: Record<keyof InjectedFields, string> = {
+	artist: 'dc:creator',
+	copyright: 'dc:rights',
+	licenseUrl: 'xmpRights:WebStatement',
+	usageTerms: 'xmpRights:UsageTerms'
+};
+const TAG_ARTIST = 0x013b;
+const TAG_COPYRIGHT = 0x8298;
+const TYPE_ASCII = 2;
+const IPTC_UTF8 = Buffer.from([0x1b, 0x25, 0x47]);
+const TEMPLATE_TOKEN = /\{(year|date|name)\}/g;
+
+export function renderMetadataTemplate(template: string, inputPath: string, date = new Date()): string {
+	const pad = (value: number) => String(value).padStart(2, '0');
+	const values: Record<string, string> = {
+		year: String(date.getFullYear()),
+		date: `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+		name: path.basename(inputPath, path.extname(inputPath))
+	};
+	return template.replace(TEMPLATE_TOKEN, (_match, token: string) => values[token]);
+}
+
+/** Renders the configured templates; empty fields are left out. */
+export function resolveInjectedFields(settings: MetadataInjectionSettings | undefined, inputPath: string, date = new Date()): InjectedFields {
+	if (!settings?.enabled) {
+		return {};
+	}
+	const fields: InjectedFields = {};
+	for (const key of ['artist', 'copyright', 'licenseUrl', 'usageTerms'] as const) {
+		const value = renderMetadataTemplate(settings[key] ?? '', inputPath, date).trim();
+		if (value) fields[key] = value;
+	}
+	return fields;
+}
+
+export function hasInjectedFields(fields: InjectedFields): boolean {
+	return Object.keys(fields).length > 0;
+}
+
+function asciiEntry(tag: number, value: string): ExifEntry {
+	// EXIF ASCII is nominally 7-bit; UTF-8 is what readers accept in practice (and what exiftool writes).
+	const bytes = Buffer.from(`${value}\0`, 'utf8');
+	return { tag, type: TYPE_ASCII, count: bytes.length, value: bytes };
+}
+
+function injectExif(block: Buffer | undefined, fields: InjectedFields): Buffer {
+	const exif: ExifData = (block && parseExif(block)) || { littleEndian: true, ifd0: [], exif: [], interop: [], gps: [], ifd1: [] };
+	const replaced = new Map<number, ExifEntry>();
+	if (fields.artist) replaced.set(TAG_ARTIST, asciiEntry(TAG_ARTIST, fields.artist));
+	if (fields.copyright) replaced.set(TAG_COPYRIGHT, asciiEntry(TAG_COPYRIGHT, fields.copyright));
+	exif.ifd0 = [...exif.ifd0.filter((entry) => !replaced.has(entry.tag)), ...replaced.values()];
+	return serializeExif(exif);
+}
+
+function injectXmp(xmp: string | undefined, fields: InjectedFields): string {
+	const alt = (value: string) => `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt>`;
+	const properties: Record<string, string> = {};
+	if (fields.artist) properties['dc:creator'] = `<dc:creator><rdf:Seq><rdf:li>${escapeXml(fields.artist)}</rdf:li></rdf:Seq></dc:creator>`;
+	if (fields.copyright) {
+		properties['dc:rights'] = `<dc:rights>${alt(fields.copyright)}</dc:rights>`;
+		properties['xmpRights:Marked'] = '<xmpRights:Marked>True</xmpRights:Marked>';
+	}
+	if (fields.licenseUrl) properties['xmpRights:WebStatement'] = `<xmpRights:WebStatement>${escapeXml(fields.licenseUrl)}</xmpRights:WebStatement>`;
+	if (fields.usageTerms) properties['xmpRights:UsageTerms'] = `<xmpRights:UsageTerms>${alt(fields.usageTerms)}</xmpRights:UsageTerms>`;
+	return setXmpProperties(xmp, properties);
+}
+
+function injectIptc(block: Buffer | undefined, fields: InjectedFields): Buffer {
+	const replaced: IptcDataset[] = [];
+	if (fields.artist) replaced.push({ record: 2, dataset: 80, value: Buffer.from(fields.artist, 'utf8') });
+	if (fields.copyright) replaced.push({ record: 2, dataset: 116, value: Buffer.from(fields.copyright, 'utf8') });
+
+	const datasets = (block ? parseIptc(block) : []).filter(
+		(item) => !(item.record === 2 && replaced.some((next) => next.dataset === item.dataset))
+	);
+	if (!datasets.some((item) => item.record === 1 && item.dataset === 90)) {
+		datasets.unshift({ record: 1, dataset: 90, value: IPTC_UTF8 });
+	}
+	if (!datasets.some((item) => item.record === 2 && item.dataset === 0)) {
+		datasets.push({ record: 2, dataset: 0, value: Buffer.from([0, 4]) });
+	}
+	// IIM requires datasets ordered by record number.
+	return serializeIptc([...datasets, ...replaced].sort((a, b) => a.record - b.record));
+}
+
+/**
+ * Stamps the rights fields into the cleaned blocks, after cleanup has run so a strict preset
+ * cannot remove them again. IPTC is only written for JPEG, the one output container that has it.
+ */
+export function injectMetadata(cleaned: CleanedMetadata, fields: InjectedFields, format: SupportedImageType): CleanedMetadata {
+	if (!hasInjectedFields(fields)) {
+		return cleaned;
+	}
+
+	const blocks = { ...cleaned.blocks };
+	const groups = { ...cleaned.groups };
+	const addCopyright = (kind: MetadataBlockKind, base: MetadataTagGroup[] = []) => {
+		groups[kind] = base.includes('copyright') ? base : [...base, 'copyright'];
+	};
+
+	if (fields.artist || fields.copyright) {
+		blocks.exif = injectExif(blocks.exif, fields);
+		addCopyright('exif', groups.exif);
+		if (format === 'jpeg') {
+			blocks.iptc = injectIptc(blocks.iptc, fields);
+			addCopyright('iptc', groups.iptc);
+		}
+	}
+	blocks.xmp = injectXmp(blocks.xmp, fields);
+	addCopyright('xmp', groups.xmp);
+
+	return { ...cleaned, blocks, groups };
+}
+
+/** Fields that should be readable from the output, given the blocks its container dropped. */
+export function expectedFields(fields: InjectedFields, dropped: MetadataBlockKind[]): InjectedFields {
+	const xmp = !dropped.includes('xmp');
+	const exif = !dropped.includes('exif');
+	const expected: InjectedFields = {};
+	if (fields.artist && (xmp || exif)) expected.artist = fields.artist;
+	if (fields.copyright && (xmp || exif)) expected.copyright = fields.copyright;
+	if (fields.licenseUrl && xmp) expected.licenseUrl = fields.licenseUrl;
+	if (fields.usageTerms && xmp) expected.usageTerms = fields.usageTerms;
+	return expected;
+}
+
+/** Returns the fields that cannot be read back from the written file. */
+export function findMissingFields(meta: sharp.Metadata, expected: InjectedFields): Array<keyof InjectedFields> {
+	const exif = meta.exif ? parseExif(meta.exif) : null;
+	const xmp = meta.xmp?.toString('utf8') ?? '';
+	const exifValue = (tag: number) => exif?.ifd0.find((entry) => entry.tag === tag)?.value.toString('utf8').replace(/\0+$/, '');
+
+	return (Object.keys(expected) as Array<keyof InjectedFields>).filter((key) => {
+		const value = expected[key]!;
+		if (readXmpProperty(xmp, XMP_PROPERTIES[key]).includes(value)) return false;
+		if (key === 'artist') return exifValue(TAG_ARTIST) !== value;
+		if (key === 'copyright') return exifValue(TAG_COPYRIGHT) !== value;
+		return true;
+	});
+}
@@ -0,0 +1,106 @@
+import type { MetadataTagGroup } from '../../../shared/types';
+
+const PHOTOSHOP_HEADER = Buffer.from('Photoshop 3.0\0', 'binary');
+const IRB_SIGNATURE = '8BIM';
+const IRB_IPTC = 0x0404;
+const IIM_MARKER = 0x1c;
+
+export interface IptcDataset {
+	record: number;
+	dataset: number;
+	value: Buffer;
+}
+
+// 1:90 coded character set, 2:0 record version, 2:80 by-line, 2:110 credit, 2:115 source, 2:116 copyright notice.
+const ENVELOPE = new Set(['1:90', '2:0']);
+const COPYRIGHT = new Set(['2:80', '2:110', '2:115', '2:116']);
+
+/** Pulls the IIM stream out of a Photoshop image resource block (how JPEG APP13 carries it). */
+function unwrapResources(block: Buffer): Buffer | null {
+	let offset = block.subarray(0, PHOTOSHOP_HEADER.length).equals(PHOTOSHOP_HEADER) ? PHOTOSHOP_HEADER.length : 0;
+	while (offset + 12 <= block.length && block.toString('ascii', offset, offset + 4) === IRB_SIGNATURE) {
+		const id = block.readUInt16BE(offset + 4);
+		const nameLength = block[offset + 6];
+		// Pascal string padded to an even length, including its length byte.
+		const nameSize = nameLength + 1 + ((nameLength + 1) % 2);
+		const sizeAt = offset + 6 + nameSize;
+		if (sizeAt + 4 > block.length) break;
+		const size = block.readUInt32BE(sizeAt);
+		const dataAt = sizeAt + 4;
+		if (id === IRB_IPTC) {
+			return block.subarray(dataAt, Math.min(block.length, dataAt + size));
+		}
+		offset = dataAt + size + (size % 2);
+	}
+	return null;
+}
+
+/** Accepts raw IIM datasets or a Photoshop resource block wrapping them. */
+export function parseIptc(block: Buffer): IptcDataset[] {
+	const iim = block[0] === IIM_MARKER ? block : unwrapResources(block);
+	if (!iim) return [];
+
+	const datasets: IptcDataset[] = [];
+	let offset = 0;
+	while (offset + 5 <= iim.length && iim[offset] === IIM_MARKER) {
+		const record = iim[offset + 1];
+		const dataset = iim[offset + 2];
+		let size = iim.readUInt16BE(offset + 3);
+		let dataAt = offset + 5;
+		if (size & 0x8000) {
+			// Extended dataset: the low bits give the byte count of the real length field.
+			const lengthBytes = size & 0x7fff;
+			if (lengthBytes > 4 || dataAt + lengthBytes > iim.length) break;
+			size = iim.readUIntBE(dataAt, lengthBytes);
+			dataAt += lengthBytes;
+		}
+		if (dataAt + size > iim.length) break;
+		datasets.push({ record, dataset, value: Buffer.from(iim.subarray(dataAt, dataAt + size)) });
+		offset = dataAt + size;
+	}
+	return datasets;
+}
+
+export function iptcGroups(datasets: IptcDataset[]): Set<MetadataTagGroup> {
+	const groups = new Set<MetadataTagGroup>();
+	for (const item of datasets) {
+		const key = `${item.record}:${item.dataset}`;
+		if (COPYRIGHT.has(key)) groups.add('copyright');
+		else if (!ENVELOPE.has(key)) groups.add('iptc');
+	}
+	return groups;
+}
+
+export function filterIptc(datasets: IptcDataset[], keep: Set<MetadataTagGroup>): IptcDataset[] {
+	const kept = datasets.filter((item) => {
+		const key = `${item.record}:${item.dataset}`;
+		if (ENVELOPE.has(key)) return true;
+		return COPYRIGHT.has(key) ? keep.has('copyright') : keep.has('iptc');
+	});
+	return kept.some((item) => !ENVELOPE.has(`${item.record}:${item.dataset}`)) ? kept : [];
+}
+
+export function serializeIptc(datasets: IptcDataset[]): Buffer {
+	return Buffer.concat(
+		datasets.map((item) => {
+			if (item.value.length < 0x8000) {
+				const header = Buffer.from([IIM_MARKER, item.record, item.dataset, 0, 0]);
+				header.writeUInt16BE(item.value.length, 3);
+				return Buffer.concat([header, item.value]);
+			}
+			const header = Buffer.from([IIM_MARKER, item.record, item.dataset, 0x80, 4, 0, 0, 0, 0]);
+			header.writeUInt32BE(item.value.length, 5);
+			return Buffer.concat([header, item.value]);
+		})
+	);
+}
+
+/** Wraps IIM datasets in the Photoshop resource block JPEG APP13 segments expect. */
+export function wrapIptcResource(iim: Buffer): Buffer {
+	const header = Buffer.alloc(12);
+	header.write(IRB_SIGNATURE, 0, 'ascii');
+	header.writeUInt16BE(IRB_IPTC, 4);
+	header.writeUInt32BE(iim.length, 8);
+	const padding = iim.length % 2 ? Buffer.alloc(1) : Buffer.alloc(0);
+	return Buffer.concat([PHOTOSHOP_HEADER, header, iim, padding]);
+}
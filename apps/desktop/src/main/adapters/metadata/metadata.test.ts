@@ -0,0 +1,134 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import type { MetadataCleanupSettings } from '../../../shared/types';
+import {
+	embedMetadata,
+	expectedFields,
+	findMissingFields,
+	injectMetadata,
+	processMetadata,
+	resolveInjectedFields,
+	writeMetadata
+} from './index';
+import { parseExif, serializeExif } from './exif';
+
+const XMP = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:exif="http://ns.adobe.com/exif/1.0/" exif:GPSLatitude="51,30.0N">
+<dc:rights><rdf:Alt><rdf:li xml:lang="x-default">(c) Jane Doe</rdf:li></rdf:Alt></dc:rights>
+</rdf:Description></rdf:RDF></x:xmpmeta>`;
+
+function settings(overrides: Partial<MetadataCleanupSettings>): MetadataCleanupSettings {
+	return {
+		enabled: true,
+		preset: 'custom',
+		stripExif: false,
+		stripXmp: false,
+		stripIptc: false,
+		removeThumbnails: false,
+		removeComments: false,
+		gpsClean: false,
+		iccHandling: 'srgb',
+		...overrides
+	};
+}
+
+async function taggedJpeg(): Promise<Buffer> {
+	return sharp({ create: { width: 16, height: 16, channels: 3, background: '#808080' } })
+		.jpeg()
+		.withExif({
+			IFD0: { Artist: 'Jane Doe', Copyright: '(c) Jane Doe', Make: 'Camera Co', Software: 'Editor' },
+			IFD3: { GPSLatitudeRef: 'N' }
+		})
+		.withXmp(XMP)
+		.toBuffer();
+}
+
+async function encodeAndWrite(input: Buffer, cleanup: MetadataCleanupSettings) {
+	const processed = await processMetadata(input, cleanup, false);
+	// Stands in for cjpeg, which drops every metadata segment.
+	const encoded = await sharp(processed.buffer).jpeg().toBuffer();
+	return writeMetadata(encoded, 'jpeg', processed.cleaned, processed.report);
+}
+
+describe('metadata engine', () => {
+	it('keeps copyright and artist while dropping GPS and camera tags', async () => {
+		const { buffer, report } = await encodeAndWrite(await taggedJpeg(), settings({ preset: 'keep-copyright' }));
+
+		const meta = await sharp(buffer).metadata();
+		const exif = parseExif(meta.exif!)!;
+		const ascii = (tag: number) => exif.ifd0.find((entry) => entry.tag === tag)?.value.toString('latin1').replace(/\0+$/, '');
+		expect(ascii(0x013b)).toBe('Jane Doe');
+		expect(ascii(0x8298)).toBe('(c) Jane Doe');
+		expect(ascii(0x010f)).toBeUndefined();
+		expect(exif.gps).toHaveLength(0);
+
+		const xmp = meta.xmp!.toString('utf8');
+		expect(xmp).toContain('(c) Jane Doe');
+		expect(xmp).not.toContain('GPSLatitude');
+
+		expect(report.metadataAction).toBe('Cleaned');
+		expect(report.gpsAction).toBe('Removed');
+		expect(report.removedGroups).toEqual(expect.arrayContaining(['gps', 'camera', 'exif']));
+		expect(report.removedGroups).not.toContain('copyright');
+	});
+
+	it('removes embedded thumbnails and reports them', async () => {
+		const source = await taggedJpeg();
+		const exif = parseExif((await sharp(source).metadata()).exif!)!;
+		const thumbnail = await sharp({ create: { width: 4, height: 4, channels: 3, background: '#000' } }).jpeg().toBuffer();
+		const withThumbnail = await embedMetadata(source, 'jpeg', {
+			exif: serializeExif({ ...exif, ifd1: [{ tag: 0x0103, type: 3, count: 1, value: Buffer.from([6, 0, 0, 0]) }], thumbnail })
+		});
+
+		const kept = await encodeAndWrite(withThumbnail.buffer, settings({ gpsClean: true }));
+		expect(parseExif((await sharp(kept.buffer).metadata()).exif!)!.thumbnail).toEqual(thumbnail);
+
+		const { buffer, report } = await encodeAndWrite(withThumbnail.buffer, settings({ gpsClean: true, removeThumbnails: true }));
+		const cleaned = parseExif((await sharp(buffer).metadata()).exif!)!;
+		expect(cleaned.thumbnail).toBeUndefined();
+		expect(cleaned.ifd0.some((entry) => entry.tag === 0x010f)).toBe(true);
+		expect(report.removedGroups).toEqual(['gps', 'thumbnail']);
+	});
+
+	it('writes nothing back for the web-safe preset', async () => {
+		const { buffer, report } = await encodeAndWrite(await taggedJpeg(), settings({ preset: 'web-safe' }));
+
+		const meta = await sharp(buffer).metadata();
+		expect(meta.exif).toBeUndefined();
+		expect(meta.xmp).toBeUndefined();
+		expect(report.metadataAction).toBe('Removed');
+		expect(report.bytesRemoved).toBeGreaterThan(0);
+	});
+
+	it('stamps templated rights fields that survive a strict preset', async () => {
+		const fields = resolveInjectedFields(
+			{ enabled: true, artist: 'Studio North', copyright: '© {year} Studio North — {name}', licenseUrl: 'https://example.com/licence', usageTerms: '' },
+			'/photos/harbour.jpg',
+			new Date(2024, 4, 1)
+		);
+		expect(fields).toEqual({ artist: 'Studio North', copyright: '© 2024 Studio North — harbour', licenseUrl: 'https://example.com/licence' });
+
+		const processed = await processMetadata(await taggedJpeg(), settings({ preset: 'web-safe' }), false, true);
+		const encoded = await sharp(processed.buffer).webp().toBuffer();
+		const written = await writeMetadata(encoded, 'webp', injectMetadata(processed.cleaned!, fields, 'webp'), processed.report);
+
+		const meta = await sharp(written.buffer).metadata();
+		expect(written.dropped).toEqual([]);
+		expect(findMissingFields(meta, expectedFields(fields, written.dropped))).toEqual([]);
+		expect(meta.xmp!.toString('utf8')).not.toContain('GPSLatitude');
+		expect(findMissingFields(await sharp(encoded).metadata(), fields)).toEqual(['artist', 'copyright', 'licenseUrl']);
+	});
+
+	it('only accepts an injected value found whole in its own XMP field', () => {
+		const packet = `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+<rdf:Description rdf:about="" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:xmpRights="http://ns.adobe.com/xap/1.0/rights/" xmpRights:WebStatement="https://example.com/?a=1&amp;b=2">
+<dc:creator><rdf:Seq><rdf:li>Studio North &amp; Co</rdf:li></rdf:Seq></dc:creator>
+<dc:rights><rdf:Alt><rdf:li xml:lang="x-default">© 2024 Studio North &amp; Co</rdf:li></rdf:Alt></dc:rights>
+</rdf:Description></rdf:RDF></x:xmpmeta>`;
+		const meta = { xmp: Buffer.from(packet) } as sharp.Metadata;
+
+		expect(findMissingFields(meta, { artist: 'Studio North & Co', copyright: '© 2024 Studio North & Co', licenseUrl: 'https://example.com/?a=1&b=2' })).toEqual([]);
+		// Each of these appears in the packet, but only as part of another value or field.
+		expect(findMissingFields(meta, { artist: 'Studio North', copyright: 'Studio North & Co', usageTerms: 'Studio North & Co' })).toEqual(['artist', 'copyright', 'usageTerms']);
+	});
+});
@@ -0,0 +1,147 @@
+import type { MetadataTagGroup } from '../../../shared/types';
+
+const GPS_PROPERTY = /exif:GPS\w+/;
+const THUMBNAIL_PROPERTY = /(?:xmp|xap):Thumbnails/;
+const COPYRIGHT_PROPERTIES = ['dc:rights', 'dc:creator', 'xmpRights:Marked', 'xmpRights:WebStatement', 'xmpRights:UsageTerms', 'photoshop:Credit'];
+
+const NAMESPACES: Record<string, string> = {
+	dc: 'http://purl.org/dc/elements/1.1/',
+	xmpRights: 'http://ns.adobe.com/xap/1.0/rights/',
+	photoshop: 'http://ns.adobe.com/photoshop/1.0/'
+};
+
+function escapeName(name: string): string {
+	return name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Matches a property written either as an element or as an attribute on rdf:Description. */
+function propertyPattern(name: string | RegExp, flags = 'g'): RegExp {
+	const source = typeof name === 'string' ? escapeName(name) : name.source;
+	return new RegExp(`<(${source})\\b[^>]*?(?:/>|>[\\s\\S]*?</\\1>)|\\s(?:${source})="[^"]*"`, flags);
+}
+
+function hasProperty(xmp: string, name: string | RegExp): boolean {
+	return propertyPattern(name, '').test(xmp);
+}
+
+function removeProperty(xmp: string, name: string | RegExp): string {
+	return xmp.replace(propertyPattern(name), '');
+}
+
+export function xmpGroups(xmp: string): Set<MetadataTagGroup> {
+	const groups = new Set<MetadataTagGroup>(['xmp']);
+	if (hasProperty(xmp, GPS_PROPERTY)) groups.add('gps');
+	if (hasProperty(xmp, THUMBNAIL_PROPERTY)) groups.add('thumbnail');
+	if (COPYRIGHT_PROPERTIES.some((name) => hasProperty(xmp, name))) groups.add('copyright');
+	return groups;
+}
+
+function namespaceDeclarations(properties: string[]): string {
+	const prefixes = new Set(properties.map((item) => item.slice(1, item.indexOf(':'))));
+	return [...prefixes].map((prefix) => ` xmlns:${prefix}="${NAMESPACES[prefix]}"`).join('');
+}
+
+function buildPacket(properties: string[]): string {
+	return [
+		'<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+		'<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+		'<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+		`<rdf:Description rdf:about=""${namespaceDeclarations(properties)}>`,
+		...properties,
+		'</rdf:Description>',
+		'</rdf:RDF>',
+		'</x:xmpmeta>',
+		'<?xpacket end="w"?>'
+	].join('\n');
+}
+
+export function escapeXml(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(value: string): string {
+	return value
+		.replace(/&#x([0-9a-f]+);/gi, (_match, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+		.replace(/&#(\d+);/g, (_match, decimal: string) => String.fromCodePoint(Number(decimal)))
+		.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'").replace(/&amp;/g, '&');
+}
+
+/**
+ * Reads every value of a property: the attribute value, the element text, or each rdf:li of an
+ * element holding an rdf:Alt, rdf:Seq or rdf:Bag.
+ */
+export function readXmpProperty(xmp: string, name: string): string[] {
+	const values: string[] = [];
+	for (const match of xmp.matchAll(propertyPattern(name))) {
+		const text = match[0].trim();
+		if (!text.startsWith('<')) {
+			values.push(unescapeXml(text.slice(text.indexOf('"') + 1, -1)));
+			continue;
+		}
+		if (text.endsWith('/>') && !text.includes('</')) {
+			continue;
+		}
+		const inner = text.slice(text.indexOf('>') + 1, text.lastIndexOf('</'));
+		const items = [...inner.matchAll(/<rdf:li\b[^>]*>([\s\S]*?)<\/rdf:li>/g)].map((item) => item[1]);
+		values.push(...(items.length > 0 ? items : [inner]).map(unescapeXml));
+	}
+	return values;
+}
+
+/**
+ * Replaces the given properties (`name` → serialised element). Existing values are removed and the
+ * new ones go into their own rdf:Description, which XMP allows alongside the original ones.
+ */
+export function setXmpProperties(xmp: string | undefined, properties: Record<string, string>): string {
+	const elements = Object.values(properties);
+	if (!xmp || !xmp.includes('</rdf:RDF>')) {
+		return buildPacket(elements);
+	}
+
+	let result = xmp;
+	for (const name of Object.keys(properties)) result = removeProperty(result, name);
+	const description = [`<rdf:Description rdf:about=""${namespaceDeclarations(elements)}>`, ...elements, '</rdf:Description>'].join('\n');
+	return result.replace('</rdf:RDF>', `${description}\n</rdf:RDF>`);
+}
+
+/**
+ * Rebuilds a minimal packet carrying only the rights properties. Attribute-form values are
+ * turned into elements so every property lives in one rdf:Description.
+ */
+function copyrightOnlyPacket(xmp: string): string | undefined {
+	const properties: string[] = [];
+	for (const name of COPYRIGHT_PROPERTIES) {
+		for (const match of xmp.matchAll(propertyPattern(name))) {
+			const text = match[0].trim();
+			if (text.startsWith('<')) {
+				properties.push(text);
+			} else {
+				const value = text.slice(text.indexOf('"') + 1, -1);
+				properties.push(`<${name}>${value}</${name}>`);
+			}
+		}
+	}
+	if (properties.length === 0) {
+		return undefined;
+	}
+
+	return buildPacket(properties);
+}
+
+/**
+ * Returns the packet to embed, or undefined when nothing survives. The full packet is kept only when
+ * the `xmp` group is; otherwise the rights properties can still be carried over on their own.
+ */
+export function filterXmp(xmp: string, keep: Set<MetadataTagGroup>): string | undefined {
+	if (!keep.has('xmp')) {
+		return keep.has('copyright') ? copyrightOnlyPacket(xmp) : undefined;
+	}
+
+	let result = xmp;
+	if (!keep.has('gps')) result = removeProperty(result, GPS_PROPERTY);
+	if (!keep.has('thumbnail')) result = removeProperty(result, THUMBNAIL_PROPERTY);
+	if (!keep.has('copyright')) {
+		for (const name of COPYRIGHT_PROPERTIES) result = removeProperty(result, name);
+	}
+	return result;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../shared/types';
+import { applySettingOverride, CliUsageError, parseCliArgs } from './cli';
+
+describe('applySettingOverride', () => {
+  it('parses typed values and nested keys', () => {
+    const next = applySettingOverride(DEFAULT_SETTINGS, 'jpegQuality=76');
+    expect(next.jpegQuality).toBe(76);
+
+    const nested = applySettingOverride(next, 'metadataCleanup.preset=keep-copyright');
+    expect(nested.metadataCleanup.preset).toBe('keep-copyright');
+    expect(nested.metadataCleanup.enabled).toBe(true);
+    expect(nested.jpegQuality).toBe(76);
+  });
+
+  it('rejects unknown settings', () => {
+    expect(() => applySettingOverride(DEFAULT_SETTINGS, 'nope=1')).toThrow(CliUsageError);
+  });
+});
+
+describe('parseCliArgs', () => {
+  it('reads mode, output mode and repeated overrides', async () => {
+    const options = await parseCliArgs(['-m', 'convertWebp', '-o', 'replace', '-s', 'webpQuality=70', '-s', 'webpEffort=6', 'a.jpg']);
+    expect(options.mode).toBe('convertWebp');
+    expect(options.settings.outputMode).toBe('replace');
+    expect(options.settings.webpQuality).toBe(70);
+    expect(options.settings.webpEffort).toBe(6);
+    expect(options.paths).toHaveLength(1);
+  });
+
+  it('rejects unknown run modes', async () => {
+    await expect(parseCliArgs(['--mode', 'fast', 'a.jpg'])).rejects.toThrow(CliUsageError);
+  });
+
+  it('accepts report files by extension', async () => {
+    const options = await parseCliArgs(['-r', 'out/report.html', '--report', 'out/report.csv', 'a.jpg']);
+    expect(options.reports.map((item) => item.split(/[\\/]/).pop())).toEqual(['report.html', 'report.csv']);
+    await expect(parseCliArgs(['--report', 'report.pdf', 'a.jpg'])).rejects.toThrow(CliUsageError);
+  });
+});
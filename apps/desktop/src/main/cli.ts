@@ -0,0 +1,361 @@
+#!/usr/bin/env node
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { DEFAULT_SETTINGS, type OptimiseSettings, type RunMode, type RunSummary } from '../shared/types';
+import { resolveInputPaths } from './fileScanner';
+import { Logger } from './logger';
+import { runTask } from './core/pipeline';
+import { JobStateMachine } from './core/jobs';
+import type { ImageTask, JobResult } from './core/types';
+import { toEffectiveSettings } from './optimizer/types';
+import { webpOriginalRemoval } from './optimizer/io/paths';
+import { getAutoConcurrency } from './optimizer/workerPool';
+import { createRunId, getClaimDir, getCommonBaseDir } from './services/runUtils';
+import { collectFailures, isConvertedOutput, toRunLogEntry, writeRunLog, type RunLogEntry } from './services/runLog';
+import { buildEstimate, measureOriginalBytes, pickSample, resolveSimulation } from './services/simulation';
+import { reportFormatForPath, writeRunReport } from './services/runReport';
+
+const RUN_MODES: RunMode[] = ['optimize', 'convertWebp', 'convertAvif', 'optimizeAndWebp', 'smart', 'responsive', 'simulate'];
+
+const USAGE = `Usage: crunch [options] <file-or-folder...>
+
+Options:
+  -m, --mode <mode>         ${RUN_MODES.join(' | ')} (default: optimize)
+  -c, --config <file>       JSON file with OptimiseSettings overrides
+  -s, --set <key=value>     Override a single setting, e.g. --set jpegQuality=80
+                            or --set metadataCleanup.preset=keep-copyright (repeatable)
+  -o, --output-mode <mode>  replace | subfolder
+  -j, --concurrency <n>     Files processed in parallel (default: auto)
+  -r, --report <file>       Also write a savings report; .csv, .json or .html (repeatable)
+  -q, --quiet               Do not print per-file progress to stderr
+  -v, --verbose             Print optimizer logs to stderr
+  -h, --help                Show this help
+
+The run summary is printed to stdout as JSON. Exit code is 1 when any file fails.
+--mode simulate runs simulation.targetMode without writing anything and adds an
+"estimate" to the summary; --set simulation.sampled=true extrapolates from a sample.
+Set CRUNCH_BIN_DIR to point at cjpeg/cwebp/pngquant/oxipng builds for this platform.`;
+
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export interface CliOptions {
+  paths: string[];
+  mode: RunMode;
+  settings: OptimiseSettings;
+  concurrency: number;
+  reports: string[];
+  quiet: boolean;
+  verbose: boolean;
+  help: boolean;
+}
+
+export interface CliFileResult {
+  path: string;
+  status: JobResult['status'];
+  outputPath?: string;
+  format?: JobResult['format'];
+  simulated?: boolean;
+  originalBytes: number;
+  outputBytes: number;
+  bytesSaved: number;
+  quality?: number;
+  ssim?: number;
+  frames?: number;
+  warnings: string[];
+  error?: { code: string; message: string };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function mergeSettings<T>(base: T, overrides: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(overrides)) {
+    return (overrides === undefined ? base : overrides) as T;
+  }
+
+  const merged: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(overrides)) {
+    merged[key] = isPlainObject(merged[key]) && isPlainObject(value) ? mergeSettings(merged[key], value) : value;
+  }
+  return merged as T;
+}
+
+function parseValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
+
+/**
+ * Applies a dotted `key=value` override. Values are parsed as JSON when possible
+ * so numbers, booleans and arrays (e.g. responsiveSettings.widths=[640,1280]) keep their types.
+ */
+export function applySettingOverride(settings: OptimiseSettings, assignment: string): OptimiseSettings {
+  const eq = assignment.indexOf('=');
+  if (eq <= 0) {
+    throw new CliUsageError(`Invalid --set value "${assignment}", expected key=value`);
+  }
+
+  const keys = assignment.slice(0, eq).trim().split('.');
+  let cursor: unknown = settings;
+  for (const key of keys) {
+    if (!isPlainObject(cursor) || !(key in cursor)) {
+      throw new CliUsageError(`Unknown setting "${assignment.slice(0, eq)}"`);
+    }
+    cursor = cursor[key];
+  }
+
+  const override = keys.reduceRight<unknown>((value, key) => ({ [key]: value }), parseValue(assignment.slice(eq + 1)));
+  return mergeSettings(settings, override);
+}
+
+export async function parseCliArgs(argv: string[]): Promise<CliOptions> {
+  let parsed: ReturnType<typeof parseCliArgv>;
+  try {
+    parsed = parseCliArgv(argv);
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+  const { values, positionals } = parsed;
+
+  const mode = (values.mode ?? 'optimize') as RunMode;
+  if (!RUN_MODES.includes(mode)) {
+    throw new CliUsageError(`Unknown mode "${values.mode}". Expected one of: ${RUN_MODES.join(', ')}`);
+  }
+
+  let settings: OptimiseSettings = DEFAULT_SETTINGS;
+  if (values.config) {
+    let fileOverrides: unknown;
+    try {
+      fileOverrides = JSON.parse(await fs.readFile(path.resolve(values.config), 'utf-8'));
+    } catch (error) {
+      throw new CliUsageError(`Could not read config ${values.config}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!isPlainObject(fileOverrides)) {
+      throw new CliUsageError(`Config ${values.config} must contain a JSON object`);
+    }
+    settings = mergeSettings(settings, fileOverrides);
+  }
+
+  for (const assignment of values.set ?? []) {
+    settings = applySettingOverride(settings, assignment);
+  }
+
+  if (values['output-mode']) {
+    if (values['output-mode'] !== 'replace' && values['output-mode'] !== 'subfolder') {
+      throw new CliUsageError(`Unknown output mode "${values['output-mode']}"`);
+    }
+    settings = { ...settings, outputMode: values['output-mode'] };
+  }
+
+  let concurrency = settings.concurrencyMode === 'manual' ? settings.concurrencyValue : getAutoConcurrency();
+  if (values.concurrency) {
+    concurrency = Number(values.concurrency);
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new CliUsageError(`Invalid concurrency "${values.concurrency}"`);
+    }
+  }
+
+  for (const report of values.report ?? []) {
+    if (!reportFormatForPath(report)) {
+      throw new CliUsageError(`Unknown report format for "${report}", expected .csv, .json or .html`);
+    }
+  }
+
+  return {
+    paths: positionals.map((item) => path.resolve(item)),
+    mode,
+    settings,
+    concurrency: Math.max(1, concurrency),
+    reports: (values.report ?? []).map((item) => path.resolve(item)),
+    quiet: Boolean(values.quiet),
+    verbose: Boolean(values.verbose),
+    help: Boolean(values.help)
+  };
+}
+
+function parseCliArgv(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      mode: { type: 'string', short: 'm' },
+      config: { type: 'string', short: 'c' },
+      set: { type: 'string', short: 's', multiple: true },
+      'output-mode': { type: 'string', short: 'o' },
+      concurrency: { type: 'string', short: 'j' },
+      report: { type: 'string', short: 'r', multiple: true },
+      quiet: { type: 'boolean', short: 'q' },
+      verbose: { type: 'boolean', short: 'v' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+}
+
+function toFileResult(inputPath: string, result: JobResult): CliFileResult {
+  return {
+    path: inputPath,
+    status: result.status,
+    outputPath: result.outputPath,
+    format: result.format,
+    simulated: result.simulated,
+    originalBytes: result.originalBytes,
+    outputBytes: result.outputBytes,
+    bytesSaved: result.bytesSaved,
+    quality: result.quality,
+    ssim: result.ssim,
+    frames: result.frames,
+    warnings: result.warnings,
+    error: result.error ? { code: result.error.code, message: result.error.message } : undefined
+  };
+}
+
+export async function runCli(argv: string[]): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = await parseCliArgs(argv);
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      process.stderr.write(`crunch: ${error.message}\n\n${USAGE}\n`);
+      return 2;
+    }
+    throw error;
+  }
+
+  if (options.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  if (options.paths.length === 0) {
+    process.stderr.write(`crunch: no input paths given\n\n${USAGE}\n`);
+    return 2;
+  }
+
+  Logger.setConsoleEnabled(false);
+  if (options.verbose) {
+    Logger.setListener((level, context, message) => {
+      process.stderr.write(`[${level.toUpperCase()}] [${context}] ${message}\n`);
+    });
+  }
+
+  const start = Date.now();
+  const startedAt = new Date(start).toISOString();
+  const runId = createRunId();
+  const allPaths = await resolveInputPaths(options.paths);
+  if (allPaths.length === 0) {
+    process.stderr.write('crunch: no supported images found\n');
+    return 2;
+  }
+
+  // Simulate is a dry run of the target mode: no outputs, backups or run log are written.
+  const simulation = options.mode === 'simulate' ? resolveSimulation(options.settings) : null;
+  const mode = simulation?.targetMode ?? options.mode;
+  const resolved = simulation ? pickSample(allPaths, simulation) : allPaths;
+  const commonRoot = getCommonBaseDir(allPaths);
+  const removesOriginals = mode === 'convertWebp' && webpOriginalRemoval(options.settings) !== null;
+  const backupDir = !simulation && (options.settings.outputMode === 'replace' || removesOriginals) ? path.join(commonRoot, 'Originals Backup', runId) : undefined;
+  const logPath = simulation ? '' : path.join(commonRoot, '.optimise-logs', runId, 'optimise-log.json');
+  const claimDir = simulation ? undefined : getClaimDir(runId);
+  const effective = toEffectiveSettings(options.settings, mode);
+
+  const files: CliFileResult[] = [];
+  const results: Array<{ inputPath: string; result: JobResult }> = [];
+  const entries: RunLogEntry[] = [];
+  let cursor = 0;
+
+  const workers = Array.from({ length: Math.min(options.concurrency, resolved.length) }, async () => {
+    while (cursor < resolved.length) {
+      const inputPath = resolved[cursor++];
+      const task: ImageTask = {
+        id: `${runId}-${cursor}`,
+        inputPath,
+        settings: { ...effective, mode },
+        backupDir,
+        claimDir,
+        commonRoot,
+        dryRun: Boolean(simulation)
+      };
+
+      const result = await runTask(task, new JobStateMachine(task));
+      files.push(toFileResult(inputPath, result));
+      results.push({ inputPath, result });
+      entries.push(toRunLogEntry(task.id, inputPath, result.status, result));
+
+      if (!options.quiet) {
+        const detail = result.error?.message ?? `${result.originalBytes} → ${result.outputBytes} bytes`;
+        process.stderr.write(`[${files.length}/${resolved.length}] ${result.status} ${inputPath} (${detail})\n`);
+      }
+    }
+  });
+  await Promise.all(workers);
+  if (claimDir) await fs.rm(claimDir, { recursive: true, force: true }).catch(() => undefined);
+
+  const failed = files.filter((item) => item.status === 'failed');
+  const succeeded = files.filter((item) => item.status === 'success');
+  const summary: RunSummary = {
+    runId,
+    totalFiles: resolved.length,
+    processedFiles: files.length,
+    convertedFiles: succeeded.filter((item) => isConvertedOutput(item.outputPath)).length,
+    skippedFiles: files.filter((item) => item.status === 'skipped').length,
+    failedFiles: failed.length,
+    totalOriginalBytes: files.reduce((sum, item) => sum + item.originalBytes, 0),
+    totalOutputBytes: files.reduce((sum, item) => sum + item.outputBytes, 0),
+    totalSavedBytes: succeeded.reduce((sum, item) => sum + item.bytesSaved, 0),
+    elapsedMs: Date.now() - start,
+    logPath,
+    failures: collectFailures(entries),
+    estimate: simulation ? buildEstimate(simulation.targetMode, results, await measureOriginalBytes(allPaths)) : undefined
+  };
+
+  const finishedAt = new Date().toISOString();
+  if (!simulation) {
+    try {
+      await writeRunLog(logPath, {
+        version: 1,
+        runId,
+        mode: options.mode,
+        startedAt,
+        finishedAt,
+        settings: options.settings,
+        summary,
+        files: entries
+      });
+    } catch (error) {
+      process.stderr.write(`crunch: could not write run log ${logPath}: ${error instanceof Error ? error.message : String(error)}\n`);
+    }
+  }
+
+  for (const reportPath of options.reports) {
+    try {
+      await writeRunReport({ runId, mode: options.mode, startedAt, finishedAt, summary, files: entries }, reportFormatForPath(reportPath)!, reportPath);
+    } catch (error) {
+      process.stderr.write(`crunch: could not write report ${reportPath}: ${error instanceof Error ? error.message : String(error)}\n`);
+    }
+  }
+
+  const output: RunSummary & { mode: RunMode; files: CliFileResult[] } = { ...summary, mode: options.mode, files };
+  process.stdout.write(`${JSON.stringify(output, null, 2)}\n`);
+  return failed.length > 0 ? 1 : 0;
+}
+
+if (require.main === module) {
+  runCli(process.argv.slice(2))
+    .then((code) => {
+      process.exitCode = code;
+    })
+    .catch((error) => {
+      process.stderr.write(`crunch: ${error instanceof Error ? error.message : String(error)}\n`);
+      process.exitCode = 1;
+    });
+}
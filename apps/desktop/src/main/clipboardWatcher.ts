@@ -4,7 +4,7 @@ import os from 'node:os';
 import path from 'node:path';
 import { clipboard, nativeImage } from 'electron';
 import type { ClipboardOptimizedEvent, ClipboardErrorEvent, OptimiseSettings } from '../shared/types';
-import { computeSsim } from './optimizer/metrics/ssim';
+import { computeSsim } from './optimizer/metrics';
 import { runOxipng } from './optimizer/tools/oxipng';
 import { runPngquant } from './optimizer/tools/pngquant';
 
@@ -0,0 +1,51 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS } from '../../shared/types';
+import { toEffectiveSettings } from '../optimizer/types';
+import { countFrames, encodeAnimated } from './animation';
+
+async function createPages(colors: string[]): Promise<sharp.Sharp> {
+	const frames = await Promise.all(colors.map((background) =>
+		sharp({ create: { width: 24, height: 24, channels: 3, background } }).raw().toBuffer()
+	));
+	return sharp(Buffer.concat(frames), { raw: { width: 24, height: 24 * colors.length, channels: 3, pageHeight: 24 } });
+}
+
+async function createGif(colors: string[]): Promise<Buffer> {
+	return (await createPages(colors)).gif({ delay: colors.map(() => 120), loop: 0 }).toBuffer();
+}
+
+describe('encodeAnimated', () => {
+	it('converts an animated GIF to an animated WebP with every frame and delay', async () => {
+		const gif = await createGif(['#c33', '#3c3', '#33c']);
+		const { result, frames } = await encodeAnimated(gif, { ...toEffectiveSettings(DEFAULT_SETTINGS, 'optimize'), mode: 'optimize' });
+
+		expect(frames).toBe(3);
+		expect(result?.format).toBe('webp');
+		const meta = await sharp(result!.buffer).metadata();
+		expect(meta.pages).toBe(3);
+		expect(meta.delay).toEqual([120, 120, 120]);
+	});
+
+	it('never returns a candidate that lost frames', async () => {
+		const gif = await createGif(['#c33', '#3c3']);
+		const { result, warnings } = await encodeAnimated(gif, { ...toEffectiveSettings(DEFAULT_SETTINGS, 'convertAvif'), mode: 'convertAvif' });
+
+		expect(result).not.toBeNull();
+		expect(await countFrames(result!.buffer)).toBe(2);
+		if (result!.format === 'webp') {
+			// This sharp build cannot write AVIF sequences, so the AVIF candidate must have been rejected.
+			expect(warnings.some((warning) => warning.startsWith('animated-avif'))).toBe(true);
+		}
+	});
+});
+
+describe('countFrames', () => {
+	it('counts GIF frames but reads a multi-page TIFF as one still', async () => {
+		const tiff = await (await createPages(['#c33', '#3c3'])).tiff().toBuffer();
+		expect((await sharp(tiff).metadata()).pages).toBe(2);
+
+		expect(await countFrames(await createGif(['#c33', '#3c3']))).toBe(2);
+		expect(await countFrames(tiff)).toBe(1);
+	});
+});
@@ -0,0 +1,99 @@
+import sharp from 'sharp';
+import type { SupportedImageType } from '../../shared/types';
+import type { EncodeResult } from '../adapters/encoder';
+import type { TaskSettings } from './types';
+import { Logger } from '../logger';
+
+const log = new Logger('Animation');
+
+export interface AnimatedEncodeResult {
+	result: EncodeResult | null;
+	frames: number;
+	warnings: string[];
+}
+
+interface AnimatedCandidate {
+	format: SupportedImageType;
+	label: string;
+	encode: () => Promise<Buffer>;
+}
+
+/**
+ * Frames of an animated GIF or WebP. Other multi-page containers (TIFF, HEIF) hold separate
+ * pictures rather than an animation, so they count as one frame and are read as their first page.
+ */
+export async function countFrames(buffer: Buffer): Promise<number> {
+	const { format, pages } = await sharp(buffer).metadata();
+	return format === 'gif' || format === 'webp' ? pages ?? 1 : 1;
+}
+
+/**
+ * Only WebP (and AVIF where libheif supports image sequences) can carry animation;
+ * GIF inputs are converted, animated WebP is re-encoded.
+ */
+function buildCandidates(buffer: Buffer, settings: TaskSettings): AnimatedCandidate[] {
+	const animated = () => {
+		const pipeline = sharp(buffer, { animated: true });
+		return settings.keepMetadata ? pipeline.withMetadata() : pipeline;
+	};
+
+	const webp: AnimatedCandidate[] = [
+		{
+			format: 'webp',
+			label: `animated-webp-q${settings.webpQuality}`,
+			encode: () => animated().webp({ quality: settings.webpQuality, effort: settings.webpEffort }).toBuffer()
+		},
+		{
+			// Mixed mode lets flat GIF frames go lossless while photographic frames stay lossy.
+			format: 'webp',
+			label: `animated-webp-mixed-q${settings.webpQuality}`,
+			encode: () => animated().webp({ quality: settings.webpQuality, effort: settings.webpEffort, mixed: true }).toBuffer()
+		}
+	];
+
+	if (settings.mode !== 'convertAvif') {
+		return webp;
+	}
+
+	return [
+		{
+			format: 'avif',
+			label: `animated-avif-q${settings.avifQuality}`,
+			encode: () => animated().avif({ quality: settings.avifQuality, effort: settings.avifEffort }).toBuffer()
+		},
+		...webp
+	];
+}
+
+/**
+ * Encodes every candidate, drops the ones that lost frames and returns the smallest.
+ * AVIF candidates win over WebP whenever they keep all frames, since that is what convertAvif asked for.
+ */
+export async function encodeAnimated(buffer: Buffer, settings: TaskSettings): Promise<AnimatedEncodeResult> {
+	const frames = await countFrames(buffer);
+	const warnings: string[] = [];
+	const kept: Array<EncodeResult> = [];
+
+	for (const candidate of buildCandidates(buffer, settings)) {
+		try {
+			const output = await candidate.encode();
+			const outputFrames = await countFrames(output);
+			if (outputFrames !== frames) {
+				warnings.push(`${candidate.label} dropped frames (${outputFrames}/${frames}), skipped`);
+				continue;
+			}
+			kept.push({ buffer: output, format: candidate.format, qualityLabel: candidate.label });
+		} catch (error) {
+			log.warn(`Animated candidate ${candidate.label} failed`, error);
+			warnings.push(`${candidate.label} failed: ${error instanceof Error ? error.message : String(error)}`);
+		}
+	}
+
+	const preferred = kept.some((item) => item.format === 'avif') ? kept.filter((item) => item.format === 'avif') : kept;
+	const result = preferred.reduce<EncodeResult | null>(
+		(best, item) => (!best || item.buffer.length < best.buffer.length ? item : best),
+		null
+	);
+
+	return { result, frames, warnings };
+}
@@ -82,6 +82,24 @@ export class JobStateMachine extends EventEmitter {
 		this.emitEvent();
 	}
 
+	/**
+	 * Mirrors an event emitted by a remote state machine (e.g. inside a worker thread).
+	 * A locally cancelled job stays cancelled.
+	 */
+	sync(event: JobEvent): void {
+		if (this._status === 'cancelled') {
+			return;
+		}
+		this._status = event.status;
+		if (event.progress) {
+			this._progress = event.progress;
+		}
+		if (event.result) {
+			this._result = event.result;
+		}
+		this.emitEvent();
+	}
+
 	/**
 	 * Skips the job.
 	 */
@@ -0,0 +1,298 @@
+import fs from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import os from 'node:os';
+import path from 'node:path';
+import sharp from 'sharp';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_METADATA_INJECTION, DEFAULT_SETTINGS, DEFAULT_TRANSFORM, type RunMode } from '../../shared/types';
+import { toEffectiveSettings } from '../optimizer/types';
+import { RunHistoryStore } from '../services/runHistory';
+import { JobStateMachine } from './jobs';
+import { runTask } from './pipeline';
+import type { ImageTask, JobResult, TaskSettings } from './types';
+
+let binDir: string;
+let root: string;
+
+// Stands in for cwebp on machines without the bundled binaries: honours -q, the input and -o.
+// Each call is logged to cwebp.log; FAKE_CWEBP_DELAY_MS makes it wait before encoding.
+async function installCwebp(): Promise<void> {
+	const sharpPath = createRequire(path.join(process.cwd(), 'package.json')).resolve('sharp');
+	const script = [
+		'#!/usr/bin/env node',
+		`const sharp = require(${JSON.stringify(sharpPath)});`,
+		'const args = process.argv.slice(2);',
+		`require('node:fs').appendFileSync(${JSON.stringify(path.join(binDir, 'cwebp.log'))}, args.join(' ') + '\\n');`,
+		"const output = args.indexOf('-o');",
+		'setTimeout(() => sharp(args[output - 1]).webp({ quality: Number(args[args.indexOf(\'-q\') + 1]) }).toFile(args[output + 1])',
+		'\t.catch((error) => { console.error(error.message); process.exit(1); }), Number(process.env.FAKE_CWEBP_DELAY_MS ?? 0));',
+		''
+	].join('\n');
+	await fs.writeFile(path.join(binDir, 'cwebp'), script, { mode: 0o755 });
+}
+
+// Stands in for cjpeg: reads the binary PPM the encoder stages and honours -quality and -outfile.
+async function installCjpeg(): Promise<void> {
+	const sharpPath = createRequire(path.join(process.cwd(), 'package.json')).resolve('sharp');
+	const script = [
+		'#!/usr/bin/env node',
+		"const fs = require('node:fs');",
+		`const sharp = require(${JSON.stringify(sharpPath)});`,
+		'const args = process.argv.slice(2);',
+		'const ppm = fs.readFileSync(args[args.length - 1]);',
+		"const [, width, height] = ppm.toString('latin1', 0, 32).match(/^P6\\s+(\\d+)\\s+(\\d+)\\s+255\\s/).map(Number);",
+		'const pixels = ppm.subarray(ppm.length - width * height * 3);',
+		'sharp(pixels, { raw: { width, height, channels: 3 } })',
+		"\t.jpeg({ quality: Number(args[args.indexOf('-quality') + 1]) })",
+		"\t.toFile(args[args.indexOf('-outfile') + 1])",
+		'\t.catch((error) => { console.error(error.message); process.exit(1); });',
+		''
+	].join('\n');
+	await fs.writeFile(path.join(binDir, 'cjpeg'), script, { mode: 0o755 });
+}
+
+function settings(mode: RunMode, overrides: Partial<TaskSettings> = {}): TaskSettings {
+	return { ...toEffectiveSettings(DEFAULT_SETTINGS, mode), mode, ...overrides };
+}
+
+async function run(fields: Omit<ImageTask, 'id'>) {
+	const task: ImageTask = { id: path.basename(fields.inputPath), ...fields };
+	return runTask(task, new JobStateMachine(task));
+}
+
+async function restoreRun(images: string, backupDir: string, result: JobResult): Promise<number> {
+	const history = new RunHistoryStore(path.join(root, 'userData'));
+	await history.init();
+	await history.record({
+		runId: 'run-1',
+		mode: 'convertWebp',
+		startedAt: new Date().toISOString(),
+		finishedAt: new Date().toISOString(),
+		commonRoot: images,
+		backupDir,
+		logPath: path.join(images, '.optimise-logs', 'run-1', 'optimise-log.json'),
+		settings: DEFAULT_SETTINGS,
+		summary: {
+			runId: 'run-1',
+			totalFiles: 1,
+			processedFiles: 1,
+			convertedFiles: 1,
+			skippedFiles: 0,
+			failedFiles: 0,
+			totalOriginalBytes: result.originalBytes,
+			totalOutputBytes: result.outputBytes,
+			totalSavedBytes: result.bytesSaved,
+			elapsedMs: 1,
+			logPath: '',
+			failures: []
+		},
+		backupRecords: result.backups ?? [],
+		backupBytes: 0
+	});
+	return (await history.restore('run-1')).restoredCount;
+}
+
+beforeAll(async () => {
+	binDir = await fs.mkdtemp(path.join(os.tmpdir(), 'pipeline-bin-'));
+	await installCwebp();
+	await installCjpeg();
+	process.env.CRUNCH_BIN_DIR = binDir;
+});
+
+afterAll(async () => {
+	delete process.env.CRUNCH_BIN_DIR;
+	await fs.rm(binDir, { recursive: true, force: true });
+});
+
+beforeEach(async () => {
+	root = await fs.mkdtemp(path.join(os.tmpdir(), 'pipeline-'));
+});
+
+afterEach(async () => {
+	await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('runTask', () => {
+	it('restores a subfolder WebP conversion that deleted the original', async () => {
+		const images = path.join(root, 'images');
+		const inputPath = path.join(images, 'photo.png');
+		await fs.mkdir(images, { recursive: true });
+		await sharp({ create: { width: 64, height: 48, channels: 3, background: '#3a7' } }).png().toFile(inputPath);
+		const original = await fs.readFile(inputPath);
+		const backupDir = path.join(images, 'Originals Backup', 'run-1');
+
+		const result = await run({
+			inputPath,
+			settings: settings('convertWebp', { outputMode: 'subfolder', deleteOriginalAfterWebp: true, confirmDangerousWebpReplace: true, webpQualityMode: 'fixed' }),
+			commonRoot: images,
+			backupDir,
+			claimDir: path.join(root, 'claims')
+		});
+
+		expect(result.status).toBe('success');
+		expect(result.outputPath).toBe(path.join(images, 'Optimized', 'photo.webp'));
+		await expect(fs.access(inputPath)).rejects.toThrow();
+		expect(result.backups).toEqual([{ originalPath: inputPath, backupPath: expect.any(String), removeOnRestore: result.outputPath }]);
+
+		expect(await restoreRun(images, backupDir, result)).toBe(1);
+		expect((await fs.readFile(inputPath)).equals(original)).toBe(true);
+		await expect(fs.access(result.outputPath!)).rejects.toThrow();
+	});
+
+	it('puts back an earlier output the WebP overwrote instead of deleting it', async () => {
+		const images = path.join(root, 'images');
+		const inputPath = path.join(images, 'photo.png');
+		const earlierPath = path.join(images, 'Optimized', 'photo.webp');
+		await fs.mkdir(path.dirname(earlierPath), { recursive: true });
+		await sharp({ create: { width: 64, height: 48, channels: 3, background: '#a37' } }).png().toFile(inputPath);
+		await fs.writeFile(earlierPath, 'earlier run');
+		const backupDir = path.join(images, 'Originals Backup', 'run-1');
+
+		const result = await run({
+			inputPath,
+			settings: settings('convertWebp', { outputMode: 'subfolder', deleteOriginalAfterWebp: true, confirmDangerousWebpReplace: true, webpQualityMode: 'fixed' }),
+			commonRoot: images,
+			backupDir,
+			claimDir: path.join(root, 'claims')
+		});
+
+		expect(result.outputPath).toBe(earlierPath);
+		expect(result.backups?.map((record) => [record.originalPath, record.removeOnRestore])).toEqual([[earlierPath, undefined], [inputPath, undefined]]);
+		expect(await restoreRun(images, backupDir, result)).toBe(2);
+		expect(await fs.readFile(earlierPath, 'utf-8')).toBe('earlier run');
+		await expect(fs.access(inputPath)).resolves.toBeUndefined();
+	});
+
+	it('stops before writing once the job is aborted', async () => {
+		const images = path.join(root, 'images');
+		const inputPath = path.join(images, 'photo.png');
+		await fs.mkdir(images, { recursive: true });
+		await sharp({ create: { width: 64, height: 48, channels: 3, background: '#37a' } }).png().toFile(inputPath);
+		const controller = new AbortController();
+		controller.abort();
+
+		const result = await run({
+			inputPath,
+			settings: settings('convertWebp', { outputMode: 'subfolder', deleteOriginalAfterWebp: true, confirmDangerousWebpReplace: true, webpQualityMode: 'fixed' }),
+			commonRoot: images,
+			backupDir: path.join(images, 'Originals Backup', 'run-1'),
+			claimDir: path.join(root, 'claims'),
+			signal: controller.signal
+		});
+
+		expect(result.status).toBe('cancelled');
+		await expect(fs.access(path.join(images, 'Optimized'))).rejects.toThrow();
+		await expect(fs.access(inputPath)).resolves.toBeUndefined();
+		// The encode is already cut short, so no output name may have been claimed either.
+		expect(await fs.readdir(path.join(root, 'claims')).catch(() => [])).toEqual([]);
+	});
+
+	it('converts a multi-page TIFF as a still of its first page', async () => {
+		const inputPath = path.join(root, 'scan.tiff');
+		const pages = await Promise.all(['#c33', '#33c'].map((background) =>
+			sharp({ create: { width: 32, height: 24, channels: 3, background } }).raw().toBuffer()
+		));
+		await sharp(Buffer.concat(pages), { raw: { width: 32, height: 48, channels: 3, pageHeight: 24 } }).tiff().toFile(inputPath);
+
+		const result = await run({ inputPath, settings: settings('convertWebp', { outputMode: 'subfolder', webpQualityMode: 'fixed' }), commonRoot: root });
+
+		expect(result.status).toBe('success');
+		expect(result.frames).toBeUndefined();
+		const { data, info } = await sharp(result.outputPath!).raw().toBuffer({ resolveWithObject: true });
+		expect([info.width, info.height]).toEqual([32, 24]);
+		expect(data[0]).toBeGreaterThan(data[2]);
+	});
+
+	it('names each configured stage an animated output bypasses once', async () => {
+		const inputPath = path.join(root, 'loop.gif');
+		const frames = await Promise.all(['#c33', '#3c3'].map((background) =>
+			sharp({ create: { width: 24, height: 24, channels: 3, background } }).raw().toBuffer()
+		));
+		await sharp(Buffer.concat(frames), { raw: { width: 24, height: 48, channels: 3, pageHeight: 24 } }).gif({ delay: [100, 100] }).toFile(inputPath);
+
+		const result = await run({
+			inputPath,
+			settings: settings('convertWebp', {
+				outputMode: 'subfolder',
+				transform: { ...DEFAULT_TRANSFORM, enabled: true },
+				metadataInjection: { ...DEFAULT_METADATA_INJECTION, enabled: true, artist: 'Studio North' }
+			}),
+			commonRoot: root
+		});
+
+		expect(result.frames).toBe(2);
+		expect(result.warnings.filter((warning) => warning.includes('not applied'))).toEqual([
+			'Metadata injection is not applied to animated outputs',
+			'Resize and crop are not applied to animated outputs'
+		]);
+	});
+
+	it('searches the quality per file in smart mode and records what it chose', async () => {
+		const inputPath = path.join(root, 'cookie.jpg');
+		await sharp(path.join(process.cwd(), 'resources', 'icon.png')).resize(160).flatten().jpeg({ quality: 98 }).toFile(inputPath);
+		const smartRun = async (smartTarget: TaskSettings['smartTarget']) => {
+			const result = await run({ inputPath, settings: settings('smart', { outputMode: 'subfolder', smartTarget }), commonRoot: root });
+			expect(result.status).toBe('success');
+			expect(result.format).toBe('jpeg');
+			return result;
+		};
+
+		const lossless = await smartRun('visually-lossless');
+		const small = await smartRun('small');
+
+		expect(lossless.quality).toEqual(expect.any(Number));
+		expect(small.quality).toBeLessThan(lossless.quality!);
+		expect(lossless.ssim).toBeGreaterThanOrEqual(0.999);
+		expect(small.ssim).toBeGreaterThanOrEqual(0.98);
+		expect(small.outputBytes).toBeLessThan(lossless.outputBytes);
+		expect(small.timings.stages).toHaveProperty('smartSearch');
+	});
+
+	it('runs the smart search for WebP conversions when smart compression is on', async () => {
+		const inputPath = path.join(root, 'cookie.png');
+		await sharp(path.join(process.cwd(), 'resources', 'icon.png')).resize(160).flatten().png().toFile(inputPath);
+
+		const result = await run({
+			inputPath,
+			settings: settings('convertWebp', { outputMode: 'subfolder', smartCompressionMode: true, smartTarget: 'balanced' }),
+			commonRoot: root
+		});
+
+		expect(result.status).toBe('success');
+		expect(result.format).toBe('webp');
+		expect(result.quality).toBeGreaterThanOrEqual(10);
+		expect(result.quality).toBeLessThanOrEqual(95);
+		expect(result.ssim).toBeGreaterThanOrEqual(0.99);
+	});
+
+	it('kills the encoder and stops probing when a smart search is cancelled', async () => {
+		const inputPath = path.join(root, 'cookie.png');
+		const logPath = path.join(binDir, 'cwebp.log');
+		await sharp(path.join(process.cwd(), 'resources', 'icon.png')).resize(160).flatten().png().toFile(inputPath);
+		await fs.rm(logPath, { force: true });
+		const probes = async () => (await fs.readFile(logPath, 'utf-8').catch(() => '')).split('\n').filter(Boolean).length;
+
+		const controller = new AbortController();
+		process.env.FAKE_CWEBP_DELAY_MS = '5000';
+		try {
+			const started = Date.now();
+			const pending = run({
+				inputPath,
+				settings: settings('convertWebp', { outputMode: 'subfolder', smartCompressionMode: true, optimizationSpeed: 'thorough' }),
+				commonRoot: root,
+				signal: controller.signal
+			});
+			while (await probes() === 0) await new Promise((resolve) => setTimeout(resolve, 20));
+			controller.abort();
+			const result = await pending;
+
+			expect(result.status).toBe('cancelled');
+			// The first probe's encoder was killed rather than waited for, and no further probe ran.
+			expect(Date.now() - started).toBeLessThan(5000);
+			expect(await probes()).toBe(1);
+			await expect(fs.access(path.join(root, 'Optimized'))).rejects.toThrow();
+		} finally {
+			delete process.env.FAKE_CWEBP_DELAY_MS;
+		}
+	});
+});
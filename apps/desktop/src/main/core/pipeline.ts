@@ -1,14 +1,34 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
+import sharp from 'sharp';
 import { Logger } from '../logger';
 import { JobStateMachine } from './jobs';
-import type { ImageTask, JobResult } from './types';
+import type { ImageTask, JobResult, TaskSettings } from './types';
 import { atomicWrite } from '../adapters/fs';
-import { outputPathForOriginal, outputPathForWebp } from '../optimizer/io/paths';
+import { createBackupFilePath, outputPathForFormat, outputPathForOriginal, webpOriginalRemoval, webpPathFor } from '../optimizer/io/paths';
+import { releaseOutputClaim, resolveOutputPathFromTemplate } from '../optimizer/io/filenameTemplate';
 import { buildDerivativePlan, renderDerivative, generateHtmlSnippet, generateManifest } from '../optimizer/responsive';
-import { SharpEncoder, MozjpegEncoder, CwebpEncoder, type ImageEncoder } from '../adapters/encoder';
-import { processMetadata } from '../adapters/metadata';
+import { SharpEncoder, MozjpegEncoder, CwebpEncoder, PngEncoder, AvifEncoder, type ImageEncoder, type EncodeResult } from '../adapters/encoder';
+import {
+	expectedFields,
+	hasInjectedFields,
+	injectMetadata,
+	processMetadata,
+	resolveInjectedFields,
+	writeMetadata,
+	type InjectedFields,
+	type MetadataReport
+} from '../adapters/metadata';
+import { decodeInput } from '../adapters/decoder';
+import { getInputFormatForPath } from '../optimizer/io/inputFormats';
 import { applyPreset } from './presets';
+import { countFrames, encodeAnimated } from './animation';
+import { applyTransform } from './transform';
+import { applyWatermark } from './watermark';
+import { getPngQualityRanges, getPngSsimThreshold } from '../optimizer/candidates';
+import { findOptimalQualityForBuffer, type SearchResult } from '../optimizer/smartSearch';
+import { fitToBudget, formatBudgetBytes, resolveBudgetBytes } from '../optimizer/sizeBudget';
+import type { BackupRecord, SizeBudgetOutcome, SupportedImageType } from '../../shared/types';
 
 const log = new Logger('CorePipeline');
 
@@ -19,6 +39,7 @@ export async function runTask(task: ImageTask, state: JobStateMachine): Promise<
 	const start = Date.now();
 	const stages: Record<string, number> = {};
 	const warnings: string[] = [];
+	let claimedPath: string | undefined;
 
 	try {
 		state.start();
@@ -27,97 +48,256 @@ export async function runTask(task: ImageTask, state: JobStateMachine): Promise<
 		state.updateProgress(10, 'decoding');
 		const originalBuffer = await fs.readFile(task.inputPath);
 		const originalBytes = originalBuffer.length;
+		const inputFormat = getInputFormatForPath(task.inputPath);
+		const decodedBuffer = await decodeInput(task.inputPath, originalBuffer);
 		stages['read'] = Date.now() - start;
 
-		// 2. Metadata handling
-		state.updateProgress(20, 'analyzing');
-		const { buffer: preppedBuffer, report: metaReport } = await processMetadata(
-			originalBuffer,
-			task.settings.metadataCleanup,
-			task.settings.keepMetadata
-		);
-		stages['metadata'] = Date.now() - (start + (stages['read'] || 0));
-
-		// Responsive branch: generate derivatives and snippets
-		if (task.settings.mode === 'responsive') {
-			state.updateProgress(40, 'transforming');
-			const imageMeta = await (await import('sharp')).default(preppedBuffer).metadata();
-			const originalWidth = imageMeta.width ?? 0;
-			const originalHeight = imageMeta.height ?? 0;
-			const baseDir = path.dirname(
-				outputPathForOriginal(task.inputPath, task.commonRoot ?? path.dirname(task.inputPath), task.settings.outputMode)
-			);
-			const plan = await buildDerivativePlan(task.inputPath, task.settings.responsiveSettings, originalWidth);
-			const derivatives = [] as Awaited<ReturnType<typeof renderDerivative>>[];
-			for (const item of plan) {
-				const derivative = await renderDerivative(task.inputPath, item, task.settings, baseDir);
-				derivatives.push(derivative);
+		const frames = await countFrames(decodedBuffer);
+		let encodeResult: EncodeResult;
+		let metaReport: MetadataReport;
+		let smartResult: SearchResult | null = null;
+		let expectedMetadata: InjectedFields | undefined;
+		let budget: SizeBudgetOutcome | undefined;
+		let dimensions: JobResult['dimensions'];
+		const injectedFields = resolveInjectedFields(task.settings.metadataInjection, task.inputPath);
+
+		if (frames > 1) {
+			// Animated branch: metadata cleanup and presets go through single-frame sharp pipelines, so they are bypassed.
+			if (task.settings.mode === 'responsive') {
+				return skip(state, start, stages, originalBytes, 'Animated images are not supported in responsive mode');
+			}
+
+			state.updateProgress(60, 'encoding');
+			const encodeStart = Date.now();
+			const animated = await encodeAnimated(decodedBuffer, task.settings);
+			stages['encode'] = Date.now() - encodeStart;
+			warnings.push(...animated.warnings);
+
+			if (!animated.result) {
+				return skip(state, start, stages, originalBytes, `No candidate kept all ${frames} frames`);
 			}
-			const snippets = generateHtmlSnippet(task.inputPath, derivatives, task.settings.responsiveSettings, originalWidth, originalHeight);
-			const manifest = generateManifest(task.inputPath, derivatives, originalWidth, originalHeight);
-			const totalOutputBytes = derivatives.reduce((sum, d) => sum + d.size, 0);
-			const result: JobResult = {
-				status: 'success',
-				outputPath: baseDir,
-				originalBytes: preppedBuffer.length,
-				outputBytes: totalOutputBytes,
-				bytesSaved: 0,
-				timings: { totalMs: Date.now() - start, stages },
-				warnings,
-				responsive: {
+			if (animated.result.format === inputFormat?.outputFormat && !task.settings.allowLargerOutput && animated.result.buffer.length >= originalBytes) {
+				return skip(state, start, stages, originalBytes, 'Re-encoded animation is not smaller than the original');
+			}
+
+			encodeResult = animated.result;
+			metaReport = { metadataAction: task.settings.keepMetadata ? 'Kept' : 'Removed' };
+			warnings.push(...collectUnsupportedStageWarnings(task.settings, 'animated'));
+		} else {
+			// 2. Metadata handling
+			state.updateProgress(20, 'analyzing');
+			const { buffer: preppedBuffer, report, cleaned } = await processMetadata(
+				decodedBuffer,
+				task.settings.metadataCleanup,
+				task.settings.keepMetadata,
+				hasInjectedFields(injectedFields)
+			);
+			stages['metadata'] = Date.now() - (start + (stages['read'] || 0));
+			metaReport = report;
+
+			// Responsive branch: generate derivatives and snippets
+			if (task.settings.mode === 'responsive') {
+				if (task.dryRun) {
+					return skip(state, start, stages, originalBytes, 'Responsive mode cannot be simulated; derivatives are written as they are rendered');
+				}
+				state.updateProgress(40, 'transforming');
+				warnings.push(...collectUnsupportedStageWarnings(task.settings, 'responsive'));
+				const imageMeta = await sharp(preppedBuffer).metadata();
+				const originalWidth = imageMeta.width ?? 0;
+				const originalHeight = imageMeta.height ?? 0;
+				const baseDir = path.dirname(
+					outputPathForOriginal(task.inputPath, task.commonRoot ?? path.dirname(task.inputPath), task.settings.outputMode, task.outputRoot)
+				);
+				const plan = await buildDerivativePlan(task.inputPath, task.settings.responsiveSettings, originalWidth);
+				if (task.signal?.aborted) throw new Error('Cancelled before writing');
+				const derivatives = [] as Awaited<ReturnType<typeof renderDerivative>>[];
+				for (const item of plan) {
+					const derivative = await renderDerivative(task.inputPath, item, task.settings, baseDir, preppedBuffer);
+					derivatives.push(derivative);
+				}
+				const snippets = generateHtmlSnippet(task.inputPath, derivatives, task.settings.responsiveSettings, originalWidth, originalHeight);
+				const manifest = generateManifest(task.inputPath, derivatives, originalWidth, originalHeight);
+				const totalOutputBytes = derivatives.reduce((sum, d) => sum + d.size, 0);
+				const result: JobResult = {
 					status: 'success',
-					inputPath: task.inputPath,
-					originalWidth,
-					originalHeight,
-					derivatives,
-					htmlImg: snippets.img,
-					htmlPicture: snippets.picture,
-					manifest
+					outputPath: baseDir,
+					originalBytes: preppedBuffer.length,
+					outputBytes: totalOutputBytes,
+					bytesSaved: 0,
+					timings: { totalMs: Date.now() - start, stages },
+					warnings,
+					responsive: {
+						status: 'success',
+						inputPath: task.inputPath,
+						originalWidth,
+						originalHeight,
+						derivatives,
+						htmlImg: snippets.img,
+						htmlPicture: snippets.picture,
+						manifest
+					}
+				};
+				state.succeed(result);
+				return result;
+			}
+
+			// 3. Apply Presets
+			state.updateProgress(40, 'transforming');
+			const presetResult = await applyPreset(preppedBuffer, task.settings, task.inputPath);
+			stages['preset'] = Date.now() - (start + (stages['read'] || 0) + (stages['metadata'] || 0));
+
+			// 3b. Resize / crop
+			const transformStart = Date.now();
+			const transformed = await applyTransform(presetResult.buffer, task.settings.transform);
+			dimensions = transformed.dimensions;
+			warnings.push(...transformed.warnings);
+			stages['transform'] = Date.now() - transformStart;
+
+			// 3c. Watermark, drawn on the final pixel size
+			const watermarkStart = Date.now();
+			const sourceBuffer = await applyWatermark(transformed.buffer, task.settings.watermark, task.inputPath);
+			stages['watermark'] = Date.now() - watermarkStart;
+
+			// 4. Select Encoder & Encode
+			state.updateProgress(60, 'encoding');
+			const targetFormat = conversionFormat(task) ?? presetResult.format;
+			const encoder = selectEncoder(targetFormat);
+			const encodeStart = Date.now();
+			const encodeOptions = (quality: number) => ({
+				format: targetFormat,
+				quality,
+				keepMetadata: task.settings.keepMetadata,
+				effort: targetFormat === 'avif' ? task.settings.avifEffort : task.settings.webpEffort,
+				nearLossless: task.settings.webpNearLossless,
+				qualityRanges: getPngQualityRanges(task.settings),
+				minSsim: getPngSsimThreshold(task.settings),
+				metric: task.settings.qualityMetric,
+				signal: task.signal
+			});
+
+			if (isSmartMode(task) && (targetFormat === 'jpeg' || targetFormat === 'webp')) {
+				smartResult = await findOptimalQualityForBuffer(sourceBuffer, task.settings, targetFormat, task.signal);
+				stages['smartSearch'] = Date.now() - encodeStart;
+				if (!smartResult) {
+					warnings.push('Smart compression: no quality met the target, used configured quality');
+				}
+			}
+
+			encodeResult = smartResult ? {
+				buffer: smartResult.buffer,
+				format: targetFormat,
+				qualityLabel: `smart-q${smartResult.quality}`
+			} : await encoder.encode(sourceBuffer, encodeOptions(configuredQuality(task, targetFormat)));
+			stages['encode'] = Date.now() - encodeStart;
+
+			// Encoders strip or mangle metadata, so the cleaned blocks (plus injected rights fields) are written into their output.
+			const outputMetadata = cleaned && injectMetadata(cleaned, injectedFields, encodeResult.format);
+			const written = await writeMetadata(encodeResult.buffer, encodeResult.format, outputMetadata, metaReport);
+			encodeResult = { ...encodeResult, buffer: written.buffer };
+			metaReport = written.report;
+			warnings.push(...written.warnings);
+			if (hasInjectedFields(injectedFields)) {
+				expectedMetadata = expectedFields(injectedFields, written.dropped);
+				metaReport = { ...metaReport, injected: Object.keys(expectedMetadata) as Array<keyof InjectedFields> };
+			}
+
+			// 4b. Size budget: re-search quality (and optionally scale) when the output is over the cap
+			if (task.settings.sizeBudget?.enabled) {
+				const budgetStart = Date.now();
+				const sizeBudget = task.settings.sizeBudget;
+				const targetBytes = resolveBudgetBytes(sizeBudget, originalBytes);
+				budget = { targetBytes, met: encodeResult.buffer.length <= targetBytes, scale: 1 };
+
+				if (!budget.met && encodeResult.format === 'png') {
+					budget.warning = `Size budget: PNG output is lossless and cannot be fitted to ${formatBudgetBytes(targetBytes)}`;
+				} else if (!budget.met) {
+					const format = encodeResult.format;
+					// Metadata is written into every probe so the budget covers the final file.
+					const fitted = await fitToBudget(sourceBuffer, targetBytes, sizeBudget, task.settings.optimizationSpeed, async (buffer, quality) => {
+						const probe = await encoder.encode(buffer, encodeOptions(quality));
+						return (await writeMetadata(probe.buffer, format, outputMetadata, metaReport)).buffer;
+					}, task.signal);
+					if (fitted) {
+						encodeResult = { buffer: fitted.buffer, format, qualityLabel: `budget-q${fitted.outcome.quality}` };
+						budget = fitted.outcome;
+					} else {
+						const floor = sizeBudget.allowDownscale ? ` and ${sizeBudget.minScale}% size` : '';
+						budget.warning = `Size budget: ${formatBudgetBytes(targetBytes)} is not reachable even at the lowest quality${floor}; kept the regular output`;
+					}
 				}
-			};
-			state.succeed(result);
-			return result;
+				if (budget.warning) warnings.push(budget.warning);
+				stages['sizeBudget'] = Date.now() - budgetStart;
+			}
+		}
+
+		// 5. Determine Output Path respecting outputMode and the encoded format
+		const removal = encodeResult.format === 'webp' && conversionFormat(task) === 'webp' && inputFormat?.outputFormat !== 'webp'
+			? webpOriginalRemoval(task.settings)
+			: null;
+		const defaultPath = removal === 'replace'
+			? webpPathFor(task.inputPath)
+			: outputPathForFormat(
+				task.inputPath,
+				task.commonRoot ?? path.dirname(task.inputPath),
+				task.settings.outputMode,
+				encodeResult.format,
+				task.outputRoot
+			);
+
+		// Subfolder outputs follow the naming pattern; replace mode must keep writing over the original.
+		let targetPath = defaultPath;
+		if (task.settings.outputMode === 'subfolder' && removal !== 'replace') {
+			targetPath = await resolveOutputPathFromTemplate({
+				inputPath: task.inputPath,
+				targetPath: defaultPath,
+				outputBuffer: encodeResult.buffer,
+				format: encodeResult.format,
+				template: task.settings.namingPattern,
+				applyTemplate: true,
+				quality: budget?.quality ?? smartResult?.quality ?? (encodeResult.format === 'png' ? encodeResult.qualityLabel : configuredQuality(task, encodeResult.format)),
+				claimDir: task.dryRun ? undefined : task.claimDir
+			});
+			if (!task.dryRun) claimedPath = targetPath;
+		}
+
+		// 6. Write Output (a dry run stops at the projected path)
+		let outputPath = targetPath;
+		let backupPath: string | undefined;
+		let outputExisted = false;
+		const backups: BackupRecord[] = [];
+		if (!task.dryRun) {
+			if (task.signal?.aborted) throw new Error('Cancelled before writing');
+			state.updateProgress(80, 'writing');
+			const writeStart = Date.now();
+			outputExisted = await fs.access(targetPath).then(() => true, () => false);
+
+			const writeResult = await atomicWrite(targetPath, encodeResult.buffer, {
+				backupDir: task.backupDir,
+				expectedFormat: encodeResult.format,
+				expectedMetadata
+			});
+
+			if (!writeResult.success) {
+				throw new Error(`Write failed: ${writeResult.error}`);
+			}
+			claimedPath = undefined;
+			outputPath = writeResult.path;
+			backupPath = writeResult.backupPath;
+			if (backupPath) backups.push({ originalPath: outputPath, backupPath });
+			stages['write'] = Date.now() - writeStart;
 		}
 
-		// 3. Apply Presets
-		state.updateProgress(40, 'transforming');
-		const presetResult = await applyPreset(preppedBuffer, task.settings, task.inputPath);
-		stages['preset'] = Date.now() - (start + (stages['read'] || 0) + (stages['metadata'] || 0));
-
-		// 4. Select Encoder & Encode
-		state.updateProgress(60, 'encoding');
-		const encoder = selectEncoder(task);
-		const encodeStart = Date.now();
-
-		const targetFormat = task.settings.mode === 'convertWebp' ? 'webp' : presetResult.format;
-
-		const encodeResult = await encoder.encode(presetResult.buffer, {
-			format: targetFormat,
-			quality: targetFormat === 'webp' ? task.settings.webpQuality : task.settings.jpegQuality,
-			keepMetadata: task.settings.keepMetadata,
-			effort: task.settings.webpEffort,
-			nearLossless: task.settings.webpNearLossless
-		});
-		stages['encode'] = Date.now() - encodeStart;
-
-		// 5. Determine Output Path respecting outputMode and webp mode
-		const targetPath = targetFormat === 'webp'
-			? outputPathForWebp(task.inputPath, task.commonRoot ?? path.dirname(task.inputPath), task.settings.outputMode)
-			: outputPathForOriginal(task.inputPath, task.commonRoot ?? path.dirname(task.inputPath), task.settings.outputMode);
-
-		// 6. Write Output
-		state.updateProgress(80, 'writing');
-		const writeStart = Date.now();
-
-		const writeResult = await atomicWrite(targetPath, encodeResult.buffer, {
-			backupDir: task.backupDir,
-			expectedFormat: encodeResult.format
-		});
-
-		if (!writeResult.success) {
-			throw new Error(`Write failed: ${writeResult.error}`);
+		// 6b. Remove the original once the WebP is safely written, keeping a backup to restore from
+		if (removal && task.dryRun) {
+			warnings.push('The original would be replaced by the WebP');
+		} else if (removal && task.signal?.aborted) {
+			// The output is already written, so finish the job but leave the original alone.
+			warnings.push('Kept the original: the run was cancelled');
+		} else if (removal) {
+			const removed = await removeOriginal(task, outputPath, outputExisted);
+			if (removed.warning) warnings.push(removed.warning);
+			if (removed.record) backups.push(removed.record);
 		}
-		stages['write'] = Date.now() - writeStart;
 
 		// 7. Verify & Finalize
 		state.updateProgress(95, 'verifying');
@@ -125,22 +305,41 @@ export async function runTask(task: ImageTask, state: JobStateMachine): Promise<
 
 		const result: JobResult = {
 			status: 'success',
-			outputPath: writeResult.path,
-                backupPath: writeResult.backupPath,
+			outputPath,
+			backupPath,
+			backups: backups.length > 0 ? backups : undefined,
+			format: encodeResult.format,
+			simulated: task.dryRun || undefined,
 			originalBytes,
 			outputBytes: encodeResult.buffer.length,
 			bytesSaved: Math.max(0, originalBytes - encodeResult.buffer.length),
+			quality: budget?.quality ?? smartResult?.quality,
+			ssim: budget?.ssim ?? smartResult?.metrics.mssim,
+			metadata: metaReport,
+			frames: frames > 1 ? frames : undefined,
+			budget,
+			dimensions,
 			timings: { totalMs, stages },
 			warnings
 		};
 
-		state.succeed({ ...result, ...metaReport });
+		state.succeed(result);
 		return result;
 
 	} catch (error) {
 		const totalMs = Date.now() - start;
 		const message = error instanceof Error ? error.message : String(error);
 
+		if (claimedPath && task.claimDir) {
+			// Release the name claimed by the naming template.
+			await releaseOutputClaim(task.claimDir, claimedPath).catch(() => undefined);
+		}
+
+		if (task.signal?.aborted) {
+			state.cancel();
+			return { status: 'cancelled', originalBytes: 0, outputBytes: 0, bytesSaved: 0, timings: { totalMs, stages }, warnings };
+		}
+
 		const result: JobResult = {
 			status: 'failed',
 			originalBytes: 0,
@@ -160,10 +359,88 @@ export async function runTask(task: ImageTask, state: JobStateMachine): Promise<
 	}
 }
 
-function selectEncoder(task: ImageTask): ImageEncoder {
-	const mode = task.settings.mode;
-	if (mode === 'convertWebp') {
+function skip(state: JobStateMachine, start: number, stages: Record<string, number>, originalBytes: number, reason: string): JobResult {
+	state.skip(reason, originalBytes);
+	return {
+		status: 'skipped',
+		originalBytes,
+		outputBytes: originalBytes,
+		bytesSaved: 0,
+		timings: { totalMs: Date.now() - start, stages },
+		warnings: [reason]
+	};
+}
+
+/**
+ * Warnings for configured stages that only run on single-frame, single-output encodes, so they are
+ * bypassed for animated and responsive outputs.
+ */
+function collectUnsupportedStageWarnings(settings: TaskSettings, kind: 'animated' | 'responsive'): string[] {
+	const injection = settings.metadataInjection;
+	const injects = Boolean(injection?.enabled) && [injection.artist, injection.copyright, injection.licenseUrl, injection.usageTerms].some((template) => template?.trim());
+	const stages: Array<[boolean, string]> = [
+		[injects, 'Metadata injection is'],
+		[Boolean(settings.sizeBudget?.enabled), 'Size budget is'],
+		[Boolean(settings.transform?.enabled), 'Resize and crop are'],
+		[Boolean(settings.watermark?.enabled), 'Watermarks are']
+	];
+	return stages.filter(([enabled]) => enabled).map(([, stage]) => `${stage} not applied to ${kind} outputs`);
+}
+
+/**
+ * Moves the original into the backup directory after a WebP conversion. The record removes the
+ * WebP on restore when this run created it; a WebP that replaced an earlier file is put back by
+ * that file's own backup instead.
+ */
+async function removeOriginal(
+	task: ImageTask,
+	outputPath: string,
+	outputExisted: boolean
+): Promise<{ record?: BackupRecord; warning?: string }> {
+	if (path.resolve(outputPath) === path.resolve(task.inputPath)) {
+		return {};
+	}
+	if (!task.backupDir) {
+		return { warning: 'Kept the original: there is no backup location to move it to' };
+	}
+
+	const backupPath = createBackupFilePath(task.backupDir, task.inputPath);
+	try {
+		await fs.mkdir(path.dirname(backupPath), { recursive: true });
+		await fs.copyFile(task.inputPath, backupPath);
+		await fs.rm(task.inputPath);
+	} catch (error) {
+		log.warn(`Could not remove original ${task.inputPath}:`, error);
+		return { warning: `Kept the original: ${error instanceof Error ? error.message : String(error)}` };
+	}
+	return { record: { originalPath: task.inputPath, backupPath, removeOnRestore: outputExisted ? undefined : outputPath } };
+}
+
+function isSmartMode(task: ImageTask): boolean {
+	return task.settings.mode === 'smart' || task.settings.smartCompressionMode;
+}
+
+function conversionFormat(task: ImageTask): SupportedImageType | null {
+	if (task.settings.mode === 'convertWebp') return 'webp';
+	if (task.settings.mode === 'convertAvif') return 'avif';
+	return null;
+}
+
+function configuredQuality(task: ImageTask, format: SupportedImageType): number {
+	if (format === 'webp') return task.settings.webpQuality;
+	if (format === 'avif') return task.settings.avifQuality;
+	return task.settings.jpegQuality;
+}
+
+function selectEncoder(format: SupportedImageType): ImageEncoder {
+	if (format === 'webp') {
 		return new CwebpEncoder();
 	}
+	if (format === 'png') {
+		return new PngEncoder();
+	}
+	if (format === 'avif') {
+		return new AvifEncoder();
+	}
 	return new MozjpegEncoder();
 }
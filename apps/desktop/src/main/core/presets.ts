@@ -1,6 +1,7 @@
 import sharp from 'sharp';
 import type { ExportPreset, SupportedImageType } from '../../shared/types';
 import type { TaskSettings } from './types';
+import { resolveOutputFormat } from '../optimizer/io/inputFormats';
 
 export interface PresetResult {
 	buffer: Buffer;
@@ -19,7 +20,7 @@ export async function applyPreset(
 	const { exportPreset } = settings;
 
 	if (exportPreset === 'original' || exportPreset === 'web') {
-		return { buffer, format: 'jpeg' }; // Simplified format detection
+		return { buffer, format: await detectFormat(buffer, inputPath) };
 	}
 
 	if (exportPreset === 'design') {
@@ -35,5 +36,17 @@ export async function applyPreset(
 		return { buffer: webp, format: 'webp' };
 	}
 
-	return { buffer, format: 'jpeg' };
+	return { buffer, format: await detectFormat(buffer, inputPath) };
+}
+
+/**
+ * Keeps the source format where it is a web format, otherwise maps it via the input registry
+ * (TIFF/HEIC → JPEG, BMP/GIF → PNG).
+ */
+async function detectFormat(buffer: Buffer, inputPath: string): Promise<SupportedImageType> {
+	try {
+		return resolveOutputFormat(inputPath, await sharp(buffer).metadata()) ?? 'jpeg';
+	} catch {
+		return resolveOutputFormat(inputPath, {}) ?? 'jpeg';
+	}
 }
@@ -0,0 +1,44 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TRANSFORM } from '../../shared/types';
+import { applyTransform, parseAspectRatio } from './transform';
+
+const image = (width: number, height: number) =>
+	sharp({ create: { width, height, channels: 3, background: '#4080c0' } }).jpeg().toBuffer();
+
+async function size(buffer: Buffer): Promise<[number, number]> {
+	const meta = await sharp(buffer).metadata();
+	return [meta.width!, meta.height!];
+}
+
+describe('applyTransform', () => {
+	it('parses aspect ratios', () => {
+		expect(parseAspectRatio('16:9')).toBeCloseTo(16 / 9);
+		expect(parseAspectRatio('1x1')).toBe(1);
+		expect(parseAspectRatio('')).toBeNull();
+		expect(parseAspectRatio('wide')).toBeNull();
+	});
+
+	it('crops to an aspect ratio and then fits the limits', async () => {
+		const result = await applyTransform(await image(800, 800), { ...DEFAULT_TRANSFORM, enabled: true, cropAspect: '16:9', maxWidth: 400 });
+
+		expect(await size(result.buffer)).toEqual([400, 225]);
+		expect(result.dimensions).toEqual({ from: [800, 800], to: [400, 225] });
+	});
+
+	it('never upscales unless allowed', async () => {
+		const source = await image(120, 80);
+		const kept = await applyTransform(source, { ...DEFAULT_TRANSFORM, enabled: true, maxWidth: 600 });
+		expect(kept.buffer).toBe(source);
+		expect(kept.dimensions).toBeUndefined();
+
+		const grown = await applyTransform(source, { ...DEFAULT_TRANSFORM, enabled: true, maxWidth: 600, neverUpscale: false });
+		expect(await size(grown.buffer)).toEqual([600, 400]);
+	});
+
+	it('letterboxes to the exact box with contain', async () => {
+		const result = await applyTransform(await image(400, 200), { ...DEFAULT_TRANSFORM, enabled: true, fit: 'contain', maxWidth: 300, maxHeight: 300 });
+
+		expect(await size(result.buffer)).toEqual([300, 300]);
+	});
+});
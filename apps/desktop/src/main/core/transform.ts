@@ -0,0 +1,93 @@
+import sharp from 'sharp';
+import type { TransformSettings } from '../../shared/types';
+
+export interface TransformResult {
+	buffer: Buffer;
+	/** Unset when the image was left as it was. */
+	dimensions?: { from: [number, number]; to: [number, number] };
+	warnings: string[];
+}
+
+const ASPECT_PATTERN = /^\s*(\d+(?:\.\d+)?)\s*[:/x]\s*(\d+(?:\.\d+)?)\s*$/i;
+
+/** Parses `16:9`, `4/3` or `1x1`; returns null for an empty or malformed value. */
+export function parseAspectRatio(value: string | undefined): number | null {
+	const match = value ? ASPECT_PATTERN.exec(value) : null;
+	if (!match) return null;
+	const ratio = Number(match[1]) / Number(match[2]);
+	return Number.isFinite(ratio) && ratio > 0 ? ratio : null;
+}
+
+/** Width and height once the EXIF orientation is applied. */
+export function uprightSize(meta: sharp.Metadata): [number, number] {
+	return (meta.orientation ?? 1) >= 5
+		? [meta.height ?? 0, meta.width ?? 0]
+		: [meta.width ?? 0, meta.height ?? 0];
+}
+
+function cropPosition(settings: TransformSettings): string | number {
+	if (settings.cropPosition === 'attention') return sharp.strategy.attention;
+	if (settings.cropPosition === 'entropy') return sharp.strategy.entropy;
+	return 'centre';
+}
+
+/**
+ * Crops to the configured aspect ratio, then fits the result into the max width/height.
+ * Intermediate buffers are lossless PNG (with the source metadata) so the encoder compresses only once.
+ */
+export async function applyTransform(buffer: Buffer, settings: TransformSettings | undefined): Promise<TransformResult> {
+	const warnings: string[] = [];
+	if (!settings?.enabled) {
+		return { buffer, warnings };
+	}
+
+	// Orientation is applied first so the crop box and limits refer to the upright image.
+	const from = uprightSize(await sharp(buffer).metadata());
+	let [width, height] = from;
+	let current = buffer;
+
+	const aspect = parseAspectRatio(settings.cropAspect);
+	if (settings.cropAspect?.trim() && aspect === null) {
+		warnings.push(`Ignored invalid crop aspect ratio "${settings.cropAspect}"`);
+	}
+	if (aspect !== null && width > 0 && height > 0) {
+		// The crop box keeps the full size along one axis, so cropping never scales.
+		const cropWidth = Math.min(width, Math.round(height * aspect));
+		const cropHeight = Math.min(height, Math.round(width / aspect));
+		if (cropWidth !== width || cropHeight !== height) {
+			current = await sharp(current)
+				.rotate()
+				.keepMetadata()
+				.resize(cropWidth, cropHeight, { fit: 'cover', position: cropPosition(settings) })
+				.png({ compressionLevel: 1 })
+				.toBuffer();
+			[width, height] = [cropWidth, cropHeight];
+		}
+	}
+
+	const maxWidth = settings.maxWidth > 0 ? settings.maxWidth : null;
+	const maxHeight = settings.maxHeight > 0 ? settings.maxHeight : null;
+	if (maxWidth !== null || maxHeight !== null) {
+		const { data, info } = await sharp(current)
+			.rotate()
+			.keepMetadata()
+			.resize(maxWidth, maxHeight, {
+				fit: settings.fit,
+				position: settings.fit === 'cover' ? cropPosition(settings) : 'centre',
+				background: settings.background || '#ffffff',
+				withoutEnlargement: settings.neverUpscale,
+				kernel: sharp.kernel.lanczos3
+			})
+			.png({ compressionLevel: 1 })
+			.toBuffer({ resolveWithObject: true });
+		if (info.width !== width || info.height !== height) {
+			current = data;
+			[width, height] = [info.width, info.height];
+		}
+	}
+
+	if (current === buffer) {
+		return { buffer, warnings };
+	}
+	return { buffer: current, dimensions: { from, to: [width, height] }, warnings };
+}
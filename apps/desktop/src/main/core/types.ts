@@ -1,4 +1,5 @@
-import type { SupportedImageType, ExportPreset, RunMode, ResponsiveSettings, MetadataCleanupSettings, OutputMode, ResponsiveResult } from '../../shared/types';
+import type { BackupRecord, QualityMetric, SupportedImageType, ExportPreset, RunMode, ResponsiveSettings, MetadataCleanupSettings, MetadataInjectionSettings, OutputMode, ResponsiveResult, SizeBudgetOutcome, SizeBudgetSettings, TransformSettings, WatermarkSettings } from '../../shared/types';
+import type { MetadataReport } from '../adapters/metadata';
 
 /**
  * Represents a single image processing job.
@@ -8,7 +9,13 @@ export interface ImageTask {
 	inputPath: string;
 	settings: TaskSettings;
 	commonRoot?: string;
+	outputRoot?: string; // Replaces `<commonRoot>/Optimized` for subfolder outputs
 	backupDir?: string;
+	claimDir?: string; // Per-run record of which source owns each templated output name
+	/** Runs every decision but skips writing the output (simulate mode). */
+	dryRun?: boolean;
+	/** Aborts the job before it writes the output or removes the original. */
+	signal?: AbortSignal;
 }
 
 export interface TaskSettings {
@@ -29,13 +36,20 @@ export interface TaskSettings {
 	webpQuality: number;
 	webpNearLossless: boolean;
 	webpEffort: number;
+	avifQuality: number;
+	avifEffort: number;
 	qualityGuardrailSsim: boolean;
 	smartCompressionMode: boolean;
 	smartTarget: 'visually-lossless' | 'high' | 'balanced' | 'small' | 'custom';
 	qualityGuardrail: number;
 	optimizationSpeed: 'fast' | 'balanced' | 'thorough';
+	qualityMetric: QualityMetric;
 	responsiveSettings: ResponsiveSettings;
 	metadataCleanup: MetadataCleanupSettings;
+	metadataInjection: MetadataInjectionSettings;
+	sizeBudget: SizeBudgetSettings;
+	transform: TransformSettings;
+	watermark: WatermarkSettings;
 }
 
 /**
@@ -62,12 +76,21 @@ export interface JobProgress {
  */
 export interface JobResult {
 	status: JobStatus;
-	outputPath?: string;
+	outputPath?: string; // Projected path when `simulated`
 	backupPath?: string;
+	backups?: BackupRecord[]; // Everything a restore needs to put the inputs back
+	format?: SupportedImageType; // Output format of a successful job
+	simulated?: boolean; // Set by dry runs, which write nothing
 	responsive?: ResponsiveResult;
 	originalBytes: number;
 	outputBytes: number;
 	bytesSaved: number;
+	quality?: number; // Encoder quality chosen by smart compression
+	ssim?: number; // SSIM achieved at that quality
+	metadata?: MetadataReport;
+	frames?: number; // Set for animated inputs, which keep every frame
+	budget?: SizeBudgetOutcome; // Set when a size budget was active
+	dimensions?: { from: [number, number]; to: [number, number] }; // Set when the transform stage resized or cropped
 	error?: JobError;
 	timings: {
 		totalMs: number;
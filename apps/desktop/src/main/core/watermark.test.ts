@@ -0,0 +1,40 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_WATERMARK } from '../../shared/types';
+import { applyWatermark } from './watermark';
+
+const black = () => sharp({ create: { width: 200, height: 100, channels: 3, background: '#000' } }).jpeg().toBuffer();
+
+async function pixel(buffer: Buffer, left: number, top: number): Promise<number[]> {
+	return [...await sharp(buffer).extract({ left, top, width: 1, height: 1 }).raw().toBuffer()];
+}
+
+describe('applyWatermark', () => {
+	it('places a scaled, semi-transparent logo inside the margin', async () => {
+		const logo = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'crunch-wm-')), 'logo.png');
+		await sharp({ create: { width: 50, height: 50, channels: 4, background: { r: 255, g: 255, b: 255, alpha: 1 } } }).png().toFile(logo);
+
+		try {
+			const settings = { ...DEFAULT_WATERMARK, enabled: true, kind: 'image' as const, imagePath: logo, scale: 20, margin: 5, opacity: 50 };
+			const output = await applyWatermark(await black(), settings, '/photos/a.jpg');
+
+			// 40px logo, 10px margin, bottom-right of a 200×100 image.
+			const meta = await sharp(output).metadata();
+			expect([meta.width, meta.height, meta.channels]).toEqual([200, 100, 3]);
+			expect((await pixel(output, 170, 70))[0]).toBeGreaterThan(100);
+			expect((await pixel(output, 170, 70))[0]).toBeLessThan(160);
+			expect(await pixel(output, 149, 70)).toEqual([0, 0, 0]);
+			expect(await pixel(output, 170, 91)).toEqual([0, 0, 0]);
+		} finally {
+			await fs.rm(path.dirname(logo), { recursive: true, force: true });
+		}
+	});
+
+	it('fails the job instead of writing an unmarked copy when the logo is missing', async () => {
+		const settings = { ...DEFAULT_WATERMARK, enabled: true, kind: 'image' as const, imagePath: '/nonexistent/logo.png' };
+		await expect(applyWatermark(await black(), settings, '/photos/a.jpg')).rejects.toThrow('Watermark image not found');
+	});
+});
@@ -0,0 +1,92 @@
+import fs from 'node:fs/promises';
+import sharp from 'sharp';
+import type { WatermarkPosition, WatermarkSettings } from '../../shared/types';
+import { renderMetadataTemplate } from '../adapters/metadata';
+import { uprightSize } from './transform';
+
+// Horizontal and vertical placement as fractions of the free space inside the margins.
+const PLACEMENT: Record<WatermarkPosition, [number, number]> = {
+	'top-left': [0, 0],
+	'top': [0.5, 0],
+	'top-right': [1, 0],
+	'left': [0, 0.5],
+	'centre': [0.5, 0.5],
+	'right': [1, 0.5],
+	'bottom-left': [0, 1],
+	'bottom': [0.5, 1],
+	'bottom-right': [1, 1]
+};
+
+function escapeMarkup(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/** Renders the logo or text at full resolution; null when there is nothing to draw. */
+async function renderMark(settings: WatermarkSettings, inputPath: string): Promise<Buffer | null> {
+	if (settings.kind === 'image') {
+		if (!settings.imagePath) {
+			throw new Error('Watermark image is not set');
+		}
+		return fs.readFile(settings.imagePath).catch(() => {
+			throw new Error(`Watermark image not found: ${settings.imagePath}`);
+		});
+	}
+
+	const text = renderMetadataTemplate(settings.text ?? '', inputPath).trim();
+	if (!text) {
+		return null;
+	}
+	return sharp({
+		text: {
+			text: `<span foreground="${escapeMarkup(settings.color || '#ffffff')}">${escapeMarkup(text)}</span>`,
+			font: settings.font || 'sans-serif',
+			rgba: true,
+			dpi: 300
+		}
+	}).png().toBuffer();
+}
+
+/**
+ * Composites the watermark before encoding. A missing logo fails the job rather than
+ * writing an unmarked copy. The result is lossless PNG so the encoder compresses only once.
+ */
+export async function applyWatermark(buffer: Buffer, settings: WatermarkSettings | undefined, inputPath: string): Promise<Buffer> {
+	if (!settings?.enabled) {
+		return buffer;
+	}
+
+	const mark = await renderMark(settings, inputPath);
+	if (!mark) {
+		return buffer;
+	}
+
+	const meta = await sharp(buffer).metadata();
+	const [width, height] = uprightSize(meta);
+	const margin = Math.round(width * settings.margin / 100);
+	const boxWidth = Math.max(1, width - margin * 2);
+	const boxHeight = Math.max(1, height - margin * 2);
+	const alpha = Math.round(Math.min(100, Math.max(0, settings.opacity)) * 2.55);
+
+	const { data, info } = await sharp(mark)
+		.resize(Math.min(boxWidth, Math.max(1, Math.round(width * settings.scale / 100))), boxHeight, { fit: 'inside' })
+		.ensureAlpha()
+		// Scales the mark's own alpha, so transparent logo areas stay transparent.
+		.composite([{ input: Buffer.from([255, 255, 255, alpha]), raw: { width: 1, height: 1, channels: 4 }, tile: true, blend: 'dest-in' }])
+		.png()
+		.toBuffer({ resolveWithObject: true });
+
+	const [x, y] = PLACEMENT[settings.position] ?? PLACEMENT['bottom-right'];
+	const pipeline = sharp(buffer)
+		.rotate()
+		.keepMetadata()
+		.composite([{
+			input: data,
+			left: margin + Math.round((boxWidth - info.width) * x),
+			top: margin + Math.round((boxHeight - info.height) * y)
+		}]);
+	if (!meta.hasAlpha) {
+		// Compositing adds an alpha channel; opaque sources must stay opaque for JPEG.
+		pipeline.removeAlpha();
+	}
+	return pipeline.png({ compressionLevel: 1 }).toBuffer();
+}
@@ -1,8 +1,8 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
-import sharp from 'sharp';
 import type { ImageListItem } from '../shared/types';
 import { isSupportedImagePath } from './optimizer';
+import { readInputMetadata } from './adapters/decoder';
 
 const IGNORE_DIRS = new Set(['node_modules', '.git', '.optimise-backup', '.optimise-tmp', 'Optimized', 'Originals Backup', '.optimise-logs']);
 const IGNORE_FILES = new Set(['.DS_Store']);
@@ -56,7 +56,7 @@ export async function scanImageList(paths: string[]): Promise<ImageListItem[]> {
   const items = await Promise.all(
     resolved.map(async (imagePath) => {
       try {
-        const [stat, metadata] = await Promise.all([fs.stat(imagePath), sharp(imagePath).metadata()]);
+        const [stat, metadata] = await Promise.all([fs.stat(imagePath), readInputMetadata(imagePath)]);
 
         return {
           path: imagePath,
@@ -64,7 +64,8 @@ export async function scanImageList(paths: string[]): Promise<ImageListItem[]> {
           size: stat.size,
           ext: path.extname(imagePath).slice(1).toLowerCase(),
           width: metadata.width ?? 0,
-          height: metadata.height ?? 0
+          height: metadata.height ?? 0,
+          frames: metadata.pages ?? 1
         } satisfies ImageListItem;
       } catch {
         return null;
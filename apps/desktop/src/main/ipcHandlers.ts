@@ -1,90 +1,58 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import { app, BrowserWindow, clipboard, dialog, ipcMain, shell, Menu, MenuItem, Notification } from 'electron';
-import type { BackupRecord, OptimiseSettings, PreviewResult, StartRunPayload } from '../shared/types';
+import type { OptimiseSettings, PreviewResult, PruneBackupsOptions, ReportFormat, RestoreResult, StartRunPayload } from '../shared/types';
 import { analyzeImage } from './optimizer/analysis';
 import { findOptimalQuality } from './optimizer/smartSearch';
 import { toEffectiveSettings } from './optimizer/types';
 import { getOutputFormatForPath } from './optimizer/candidates';
+import { getInputExtensions } from './optimizer/io/inputFormats';
 import { scanImageList } from './fileScanner';
-import { executeRun, cancelRun } from './services/runService';
+import { executeRun, cancelRun, getRecentRunReport } from './services/runService';
+import { createRunId } from './services/runUtils';
+import { RunHistoryStore } from './services/runHistory';
+import { readRunLog } from './services/runLog';
+import { writeRunReport, type RunReportInput } from './services/runReport';
 import type { WatchFolderService } from './watch/watcher';
 import type { ClipboardWatcherService } from './clipboardWatcher';
 import { Logger } from './logger';
 
 const log = new Logger('Main');
 
-// ─── Last Run State ──────────────────────────────────────────────────────────
+// ─── Run History ─────────────────────────────────────────────────────────────
 
-interface LastRunState {
-	runId: string;
-	backupDir?: string;
-	backupRecords: BackupRecord[];
-	logPath: string;
-}
-
-function getLastRunFilePath(): string {
-	return path.join(app.getPath('userData'), 'last-run.json');
-}
+let runHistory: Promise<RunHistoryStore> | null = null;
 
-async function writeLastRunState(state: LastRunState): Promise<void> {
-	const filePath = getLastRunFilePath();
-	await fs.mkdir(path.dirname(filePath), { recursive: true });
-	await fs.writeFile(filePath, JSON.stringify(state, null, 2), 'utf-8');
+function getRunHistory(): Promise<RunHistoryStore> {
+	if (!runHistory) {
+		const store = new RunHistoryStore(app.getPath('userData'));
+		runHistory = store.init().then(() => store);
+	}
+	return runHistory;
 }
 
-async function restoreLastRun(): Promise<{ restoredCount: number; failedCount: number; message: string }> {
-	try {
-		const raw = await fs.readFile(getLastRunFilePath(), 'utf-8');
-		const state = JSON.parse(raw) as LastRunState;
-
-		if (!state.backupRecords.length) {
-			return { restoredCount: 0, failedCount: 0, message: 'No backup records found for last run.' };
-		}
-
-		let restored = 0;
-		let failed = 0;
-
-		for (const record of state.backupRecords) {
-			try {
-				if (record.removeOnRestore) {
-					await fs.rm(record.removeOnRestore, { force: true });
-				}
-				const tempPath = `${record.originalPath}.restore.tmp`;
-				await fs.copyFile(record.backupPath, tempPath);
-				await fs.rename(tempPath, record.originalPath);
-				restored += 1;
-			} catch {
-				failed += 1;
-			}
-		}
-
-		return {
-			restoredCount: restored,
-			failedCount: failed,
-			message: `Restore finished. Restored ${restored} file(s), failed ${failed}.`,
-		};
-	} catch {
+async function restoreLastRun(): Promise<RestoreResult> {
+	const history = await getRunHistory();
+	const latest = history.getLatestRestorable();
+	if (!latest) {
 		return { restoredCount: 0, failedCount: 0, message: 'No previous run backup data available.' };
 	}
+	return history.restore(latest.runId);
 }
 
-async function canRestoreLastRun(): Promise<boolean> {
-	try {
-		const raw = await fs.readFile(getLastRunFilePath(), 'utf-8');
-		const state = JSON.parse(raw) as LastRunState;
-		return state.backupRecords.length > 0;
-	} catch {
-		return false;
+/** Recent runs are kept in memory; older ones are read back from their run log. */
+async function loadRunReport(runId: string): Promise<RunReportInput | null> {
+	const recent = getRecentRunReport(runId);
+	if (recent) {
+		return recent;
 	}
+	const entry = (await getRunHistory()).get(runId);
+	return entry?.logPath ? readRunLog(entry.logPath).catch(() => null) : null;
 }
 
-// ─── Timestamp ───────────────────────────────────────────────────────────────
-
-function createTimestamp(): string {
-	const now = new Date();
-	const pad = (n: number) => String(n).padStart(2, '0');
-	return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}_${pad(now.getHours())}-${pad(now.getMinutes())}-${pad(now.getSeconds())}`;
+async function canRestoreLastRun(): Promise<boolean> {
+	const history = await getRunHistory();
+	return Boolean(history.getLatestRestorable());
 }
 
 // ─── Register All Handlers ───────────────────────────────────────────────────
@@ -108,7 +76,7 @@ export function registerIpcHandlers(
 		const win = getMainWindow();
 		const result = await dialog.showOpenDialog(win!, {
 			properties: ['openFile', 'multiSelections'],
-			filters: [{ name: 'Images', extensions: ['jpg', 'jpeg', 'png', 'webp'] }],
+			filters: [{ name: 'Images', extensions: getInputExtensions() }],
 		});
 		return result.canceled ? [] : result.filePaths;
 	});
@@ -122,9 +90,8 @@ export function registerIpcHandlers(
 	ipcMain.handle('run:start', async (_event, payload: StartRunPayload) => {
 		log.info(`IPC: run:start received (paths: ${payload.paths.length})`);
 		getClipboardWatcher()?.configure(Boolean(payload.settings.optimizeClipboardImages), payload.settings);
-		const runId = createTimestamp();
-		// executeRun now expects (runId, payload, mainWindow, updateLastRunState)
-		void executeRun(runId, payload, getMainWindow(), writeLastRunState);
+		const runId = createRunId();
+		void executeRun(runId, payload, getMainWindow(), async (entry) => (await getRunHistory()).record(entry));
 		return { runId };
 	});
 
@@ -136,6 +103,11 @@ export function registerIpcHandlers(
 
 	ipcMain.handle('optimise:restore-last', async () => restoreLastRun());
 	ipcMain.handle('optimise:can-restore-last', async () => canRestoreLastRun());
+	ipcMain.handle('history:list-runs', async () => (await getRunHistory()).list());
+	ipcMain.handle('history:restore-run', async (_event, runId: string, originalPaths?: string[]) =>
+		(await getRunHistory()).restore(runId, originalPaths));
+	ipcMain.handle('history:prune-backups', async (_event, options: PruneBackupsOptions) =>
+		(await getRunHistory()).prune(options));
 	ipcMain.handle('optimise:preview', async (_event, filePath: string, settings: OptimiseSettings) => {
 		const originalBuffer = await fs.readFile(filePath);
 		const effective = toEffectiveSettings(settings, 'smart');
@@ -164,6 +136,28 @@ export function registerIpcHandlers(
 		} as PreviewResult;
 	});
 
+	// ── Reports ──
+
+	ipcMain.handle('report:export', async (_event, runId: string, format: ReportFormat) => {
+		const report = await loadRunReport(runId);
+		if (!report) {
+			throw new Error(`No results found for run ${runId}`);
+		}
+
+		const win = getMainWindow();
+		const result = await dialog.showSaveDialog(win!, {
+			defaultPath: path.join(app.getPath('documents'), `crunch-report-${runId}.${format}`),
+			filters: [{ name: format.toUpperCase(), extensions: [format] }],
+		});
+		if (result.canceled || !result.filePath) {
+			return null;
+		}
+
+		await writeRunReport(report, format, result.filePath);
+		log.info(`Exported ${format} report for run ${runId} to ${result.filePath}`);
+		return result.filePath;
+	});
+
 	// ── File Operations ──
 
 	ipcMain.handle('file:reveal', async (_event, paths: string[]) => {
@@ -216,6 +210,78 @@ export function registerIpcHandlers(
 		return ws.toggleFolder(folderPath, enabled);
 	});
 
+	ipcMain.handle('watch:sync-folder', async (_event, folderPath: string) => {
+		const ws = getWatchService();
+		if (!ws) throw new Error('Watch service not initialized');
+		return ws.syncFolder(folderPath);
+	});
+
+	ipcMain.handle('watch:queue-stats', async () => {
+		const ws = getWatchService();
+		if (!ws) throw new Error('Watch service not initialized');
+		return ws.getQueueStats();
+	});
+
+	ipcMain.handle('watch:queue-pause', async (_event, paused: boolean) => {
+		const ws = getWatchService();
+		if (!ws) throw new Error('Watch service not initialized');
+		return ws.setQueuePaused(paused);
+	});
+
+	ipcMain.handle('watch:queue-retry-failed', async (_event, paths?: string[]) => {
+		const ws = getWatchService();
+		if (!ws) throw new Error('Watch service not initialized');
+		return ws.retryFailed(paths);
+	});
+
+	ipcMain.handle('watch:queue-clear', async (_event, folderPath?: string) => {
+		const ws = getWatchService();
+		if (!ws) throw new Error('Watch service not initialized');
+		return ws.clearQueue(folderPath);
+	});
+
+	ipcMain.handle('watch:queue-prioritize', async (_event, folderPath: string | null) => {
+		const ws = getWatchService();
+		if (!ws) throw new Error('Watch service not initialized');
+		return ws.prioritizeFolder(folderPath);
+	});
+
+	ipcMain.handle('watch:index-summary', async () => {
+		const ws = getWatchService();
+		if (!ws) throw new Error('Watch service not initialized');
+		return ws.getProcessedIndexSummary();
+	});
+
+	ipcMain.handle('watch:index-prune', async (_event, folderPath?: string) => {
+		const ws = getWatchService();
+		if (!ws) throw new Error('Watch service not initialized');
+		return ws.pruneProcessedIndex(folderPath);
+	});
+
+	ipcMain.handle('watch:index-reset', async (_event, folderPath: string) => {
+		const ws = getWatchService();
+		if (!ws) throw new Error('Watch service not initialized');
+		return ws.resetProcessedFolder(folderPath);
+	});
+
+	ipcMain.handle('watch:index-export', async (_event, folderPath?: string) => {
+		const ws = getWatchService();
+		if (!ws) throw new Error('Watch service not initialized');
+
+		const win = getMainWindow();
+		const result = await dialog.showSaveDialog(win!, {
+			defaultPath: path.join(app.getPath('documents'), `crunch-processed-${folderPath ? path.basename(folderPath) : 'all'}.json`),
+			filters: [{ name: 'JSON', extensions: ['json'] }],
+		});
+		if (result.canceled || !result.filePath) {
+			return null;
+		}
+
+		const count = await ws.exportProcessedIndex(result.filePath, folderPath);
+		log.info(`Exported ${count} processed-index entries to ${result.filePath}`);
+		return result.filePath;
+	});
+
 	ipcMain.handle('watch:get-global-settings', async () => {
 		const ws = getWatchService();
 		if (!ws) throw new Error('Watch service not initialized');
@@ -10,6 +10,7 @@ export interface LogItem {
 type LogListener = (level: string, context: string, message: string, ...args: any[]) => void;
 
 let listener: LogListener | null = null;
+let consoleEnabled = true;
 
 export class Logger {
 	constructor(private context: string) { }
@@ -18,15 +19,22 @@ export class Logger {
 		listener = l;
 	}
 
+	/** Headless callers (CLI) keep stdout clean for machine-readable output. */
+	static setConsoleEnabled(enabled: boolean) {
+		consoleEnabled = enabled;
+	}
+
 	private log(level: string, message: string, ...args: any[]) {
 		const timestamp = new Date().toISOString();
 		const formattedMessage = `[${timestamp}] [${level.toUpperCase()}] [${this.context}] ${message}`;
 
 		// Local console log
-		if (level === 'error') console.error(formattedMessage, ...args);
-		else if (level === 'warn') console.warn(formattedMessage, ...args);
-		else if (level === 'debug') console.debug(formattedMessage, ...args);
-		else console.log(formattedMessage, ...args);
+		if (consoleEnabled) {
+			if (level === 'error') console.error(formattedMessage, ...args);
+			else if (level === 'warn') console.warn(formattedMessage, ...args);
+			else if (level === 'debug') console.debug(formattedMessage, ...args);
+			else console.log(formattedMessage, ...args);
+		}
 
 		// If we're in a worker, send to parent
 		if (parentPort) {
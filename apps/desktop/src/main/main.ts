@@ -5,6 +5,8 @@ import { WatchFolderService } from './watch/watcher';
 import { ClipboardWatcherService } from './clipboardWatcher';
 import { Logger } from './logger';
 import { registerIpcHandlers } from './ipcHandlers';
+import { configureQualityCache, getQualityCache } from './optimizer/qualityCache';
+import { IPC_EVENTS } from '../shared/ipcEvents';
 
 const log = new Logger('Main');
 
@@ -218,10 +220,17 @@ app.whenReady().then(async () => {
     mainWindow?.webContents.send('app:log', { level, context, message, args });
   });
 
+  // Before any worker pool is spawned; workers inherit the directory.
+  configureQualityCache(path.join(app.getPath('userData'), 'quality-cache'));
+  void getQualityCache()?.prune();
+
   watchService = new WatchFolderService(
     app.getPath('userData'),
     (payload) => mainWindow?.webContents.send('watch:fileDetected', payload),
     (payload) => mainWindow?.webContents.send('watch:fileOptimized', payload),
+    (payload) => mainWindow?.webContents.send('watch:syncProgress', payload),
+    (payload) => mainWindow?.webContents.send(IPC_EVENTS.JOB_ADDED, payload),
+    (payload) => mainWindow?.webContents.send(IPC_EVENTS.QUEUE_STATS, payload),
   );
   await watchService.init();
   updateTrayMenu();
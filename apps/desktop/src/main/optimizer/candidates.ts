@@ -6,6 +6,8 @@ import {
   WEBP_AUTO_QUALITIES,
   type EffectiveSettings
 } from './types';
+import { getInputFormatForPath } from './io/inputFormats';
+import { getMetric } from './metrics';
 
 export function getSsimThreshold(settings: EffectiveSettings): number {
   if (!settings.qualityGuardrailSsim) {
@@ -14,6 +16,12 @@ export function getSsimThreshold(settings: EffectiveSettings): number {
   return settings.aggressivePng ? SSIM_THRESHOLD_AGGRESSIVE : SSIM_THRESHOLD_NORMAL;
 }
 
+export function getPngSsimThreshold(settings: Pick<EffectiveSettings, 'aggressivePng' | 'qualityMetric'>): number {
+  // Quantised PNG candidates are always guarded, regardless of qualityGuardrailSsim.
+  // Normal/aggressive are each metric's 'high'/'balanced' targets (0.995/0.99 for SSIM).
+  return getMetric(settings.qualityMetric).threshold(settings.aggressivePng ? 'balanced' : 'high', 0);
+}
+
 export function getJpegQualities(settings: EffectiveSettings): number[] {
   if (settings.jpegQualityMode === 'fixed') {
     return [settings.jpegQuality];
@@ -28,7 +36,7 @@ export function getWebpQualities(settings: EffectiveSettings): number[] {
   return [...WEBP_AUTO_QUALITIES];
 }
 
-export function getPngQualityRanges(settings: EffectiveSettings): Array<{ min: number; max: number; label: string }> {
+export function getPngQualityRanges(settings: Pick<EffectiveSettings, 'aggressivePng'>): Array<{ min: number; max: number; label: string }> {
   if (settings.aggressivePng) {
     return [
       { min: 80, max: 95, label: '80-95' },
@@ -44,12 +52,16 @@ export function shouldCreateWebp(mode: EffectiveSettings['runMode']): boolean {
   return mode === 'convertWebp' || mode === 'optimizeAndWebp';
 }
 
+export function shouldCreateAvif(mode: EffectiveSettings['runMode']): boolean {
+  return mode === 'convertAvif';
+}
+
 export function shouldOptimizeOriginal(mode: EffectiveSettings['runMode']): boolean {
   return mode === 'optimize' || mode === 'optimizeAndWebp' || mode === 'smart';
 }
 
 export function isSupportedImageType(ext: string): ext is SupportedImageType {
-  return ext === 'jpeg' || ext === 'png' || ext === 'webp';
+  return ext === 'jpeg' || ext === 'png' || ext === 'webp' || ext === 'avif';
 }
 
 export function shouldSkipIfLarger(originalBytes: number, candidateBytes: number, settings: EffectiveSettings): boolean {
@@ -57,18 +69,5 @@ export function shouldSkipIfLarger(originalBytes: number, candidateBytes: number
 }
 
 export function getOutputFormatForPath(inputPath: string): SupportedImageType | null {
-  const lower = inputPath.toLowerCase();
-  if (lower.endsWith('.jpg') || lower.endsWith('.jpeg')) {
-    return 'jpeg';
-  }
-  if (lower.endsWith('.tif') || lower.endsWith('.tiff')) {
-    return 'jpeg';
-  }
-  if (lower.endsWith('.png')) {
-    return 'png';
-  }
-  if (lower.endsWith('.webp')) {
-    return 'webp';
-  }
-  return null;
+  return getInputFormatForPath(inputPath)?.outputFormat ?? null;
 }
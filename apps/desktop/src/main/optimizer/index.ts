@@ -1,11 +1,11 @@
 import path from 'node:path';
 import type { OutputMode } from '../../shared/types';
+import { isSupportedInputPath } from './io/inputFormats';
 
 export { getJpegQualities, getWebpQualities, getPngQualityRanges, shouldSkipIfLarger } from './candidates';
 
 export function isSupportedImagePath(inputPath: string): boolean {
-  const ext = path.extname(inputPath).toLowerCase();
-  return ext === '.jpg' || ext === '.jpeg' || ext === '.png' || ext === '.webp';
+  return isSupportedInputPath(inputPath);
 }
 
 export function shouldSkipForLargerOutput(originalBytes: number, outputBytes: number, allowLargerOutput: boolean): boolean {
@@ -31,12 +31,13 @@ export function getWebpQualityAttempts(baseQuality: number, nearLossless: boolea
 export function resolveWebpOutputPath(
   inputPath: string,
   outputMode: OutputMode,
-  _replaceWithWebp: boolean,
-  _confirmDangerousWebpReplace: boolean
+  replaceWithWebp: boolean,
+  confirmDangerousWebpReplace: boolean
 ): string {
   const parsed = path.parse(inputPath);
 
-  if (outputMode === 'subfolder') {
+  // A confirmed replace takes the original's place, whatever the output mode.
+  if (outputMode === 'subfolder' && !(replaceWithWebp && confirmDangerousWebpReplace)) {
     return path.join(parsed.dir, 'Optimized', `${parsed.name}.webp`);
   }
 
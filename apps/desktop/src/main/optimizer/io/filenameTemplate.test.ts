@@ -0,0 +1,64 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import sharp from 'sharp';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { releaseOutputClaim, resolveOutputPathFromTemplate } from './filenameTemplate';
+
+let root: string;
+let buffer: Buffer;
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'filename-template-'));
+  buffer = await sharp({ create: { width: 4, height: 2, channels: 3, background: '#fff' } }).jpeg().toBuffer();
+});
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+function resolve(template: string, source = 'beach.JPG', claimDir: string | null = path.join(root, 'claims')) {
+  return resolveOutputPathFromTemplate({
+    inputPath: path.join(root, 'shoot', source),
+    targetPath: path.join(root, 'Optimized', 'shoot', 'beach.jpg'),
+    outputBuffer: buffer,
+    format: 'jpeg',
+    template,
+    applyTemplate: true,
+    quality: 82,
+    date: new Date(2026, 0, 5),
+    claimDir: claimDir ?? undefined
+  });
+}
+
+describe('resolveOutputPathFromTemplate', () => {
+  it('renders the date, quality and dir tokens', async () => {
+    const output = await resolve('{dir}-{name}-{date}-q{quality}-{width}x{height}');
+    expect(path.basename(output)).toBe('shoot-beach-2026-01-05-q82-4x2.jpg');
+  });
+
+  it('suffixes only when another source in the run claimed the name', async () => {
+    const first = await resolve('{name}');
+    const again = await resolve('{name}');
+    const other = await resolve('{name}', 'beach.png');
+    expect(path.basename(first)).toBe('beach.jpg');
+    expect(again).toBe(first);
+    expect(path.basename(other)).toBe('beach-2.jpg');
+
+    // Claims live outside the output folder: no placeholder files, and a new run reuses the name.
+    await expect(fs.access(first)).rejects.toThrow();
+    await releaseOutputClaim(path.join(root, 'claims'), first);
+    expect(path.basename(await resolve('{name}', 'beach.png'))).toBe('beach.jpg');
+    expect(path.basename(await resolve('{name}', 'beach.gif', null))).toBe('beach.jpg');
+  });
+
+  it('places a padded collision suffix where the pattern has {dup}', async () => {
+    const first = await resolve('{name}_{dup:3}');
+    const second = await resolve('{name}_{dup:3}', 'beach.png');
+    expect(path.basename(first)).toBe('beach_001.jpg');
+    expect(path.basename(second)).toBe('beach_002.jpg');
+
+    // Not a run-wide sequence: a source whose name nobody else claimed starts at 1 again.
+    expect(path.basename(await resolve('{name}_{dup:3}', 'dunes.png'))).toBe('dunes_001.jpg');
+  });
+});
@@ -11,6 +11,13 @@ interface TemplateInput {
   format: SupportedImageType;
   template: string;
   applyTemplate: boolean;
+  quality?: number | string;
+  date?: Date;
+  /**
+   * Where the run records which source owns each rendered name. Without one (dry runs, watch
+   * folders) the rendered name is used as-is and an existing file is overwritten.
+   */
+  claimDir?: string;
 }
 
 function extensionFor(format: SupportedImageType): string {
@@ -38,28 +45,72 @@ function sanitizeFileName(input: string): string {
   return cleaned.length > 0 ? cleaned : 'image';
 }
 
-async function pathExists(targetPath: string): Promise<boolean> {
+function formatDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function claimMarkerPath(claimDir: string, targetPath: string): string {
+  return path.join(claimDir, crypto.createHash('sha1').update(path.resolve(targetPath)).digest('hex'));
+}
+
+/**
+ * Claims the name for `inputPath` by creating a marker with O_EXCL in the run's claim directory,
+ * so parallel workers rendering the same name for different sources cannot both pick it. The
+ * same source may claim its own name again; files already on disk are not claims and get
+ * overwritten (with a backup) rather than suffixed.
+ */
+async function claimPath(claimDir: string, targetPath: string, inputPath: string): Promise<boolean> {
+  const marker = claimMarkerPath(claimDir, targetPath);
   try {
-    await fs.access(targetPath);
+    await fs.writeFile(marker, inputPath, { flag: 'wx' });
     return true;
-  } catch {
-    return false;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+      return (await fs.readFile(marker, 'utf-8').catch(() => '')) === inputPath;
+    }
+    throw error;
   }
 }
 
-async function ensureCollisionFree(basePath: string): Promise<string> {
-  const parsed = path.parse(basePath);
-  let candidate = basePath;
-  let index = 2;
+/** Gives up a name claimed by a task that failed, so no later source is suffixed because of it. */
+export async function releaseOutputClaim(claimDir: string, targetPath: string): Promise<void> {
+  await fs.rm(claimMarkerPath(claimDir, targetPath), { force: true });
+}
+
+/**
+ * {dup} / {dup:3} is the collision suffix: 1 for the first source that renders a name, 2 for the
+ * next source in the run that renders the same one, and so on. It is not a sequence across the run.
+ */
+const DUP_TOKEN = /\{dup(?::(\d+))?\}/g;
+
+function renderFileName(rendered: string, index: number): string {
+  const hasDup = rendered.search(DUP_TOKEN) !== -1;
+  const withDup = rendered.replace(DUP_TOKEN, (_match, width?: string) => String(index).padStart(Number(width ?? 0), '0'));
+  const cleaned = sanitizeFileName(withDup).replace(/\.(jpg|jpeg|png|webp|avif|tif|tiff)$/i, '');
+  // With a {dup} token the pattern places the suffix itself; otherwise fall back to "-2", "-3", ...
+  return hasDup || index === 1 ? cleaned : `${cleaned}-${index}`;
+}
 
-  while (await pathExists(candidate)) {
-    candidate = path.join(parsed.dir, `${parsed.name}-${index}${parsed.ext}`);
-    index += 1;
+async function claimCollisionFree(dir: string, rendered: string, ext: string, inputPath: string, claimDir?: string): Promise<string> {
+  if (!claimDir) {
+    return path.join(dir, `${renderFileName(rendered, 1)}.${ext}`);
   }
 
-  return candidate;
+  await fs.mkdir(claimDir, { recursive: true });
+  for (let index = 1; ; index += 1) {
+    const candidate = path.join(dir, `${renderFileName(rendered, index)}.${ext}`);
+    if (await claimPath(claimDir, candidate, inputPath)) {
+      return candidate;
+    }
+  }
 }
 
+/**
+ * Renders the naming pattern next to `targetPath`. Names only get a suffix (or the next {dup})
+ * when another source in the same run already claimed them.
+ * Tokens: {name} {ext} {width} {height} {scale} {format} {hash} {date} {quality} {dir} {dup} / {dup:3}.
+ */
 export async function resolveOutputPathFromTemplate(input: TemplateInput): Promise<string> {
   if (!input.applyTemplate) {
     return input.targetPath;
@@ -78,12 +129,12 @@ export async function resolveOutputPathFromTemplate(input: TemplateInput): Promi
     height: String(meta.height ?? 0),
     scale: detectScale(input.inputPath, meta.width, meta.height),
     format: ext,
-    hash
+    hash,
+    date: formatDate(input.date ?? new Date()),
+    quality: input.quality === undefined ? '' : String(input.quality),
+    dir: path.basename(parsedInput.dir)
   };
 
-  const rendered = pattern.replace(/\{(name|ext|width|height|scale|format|hash)\}/g, (_match, key: string) => variables[key] ?? '');
-  const cleanedName = sanitizeFileName(rendered).replace(/\.(jpg|jpeg|png|webp|tif|tiff)$/i, '');
-
-  const nextPath = path.join(path.dirname(input.targetPath), `${cleanedName}.${ext}`);
-  return ensureCollisionFree(nextPath);
+  const rendered = pattern.replace(/\{(name|ext|width|height|scale|format|hash|date|quality|dir)\}/g, (_match, key: string) => variables[key] ?? '');
+  return claimCollisionFree(path.dirname(input.targetPath), rendered, ext, input.inputPath, input.claimDir);
 }
@@ -0,0 +1,70 @@
+import path from 'node:path';
+import type { SupportedImageType } from '../../../shared/types';
+
+export type InputDecoder = 'sharp' | 'bmp' | 'heif';
+
+export interface InputFormat {
+  id: string;
+  label: string;
+  extensions: string[];
+  /** Names sharp reports in `metadata().format` for this container. */
+  sharpFormats: string[];
+  /** Format written when the run keeps the source format. */
+  outputFormat: SupportedImageType;
+  /** Used instead of `outputFormat` when the decoded image has an alpha channel. */
+  alphaOutputFormat?: SupportedImageType;
+  decoder: InputDecoder;
+}
+
+/**
+ * Single source of truth for which files the scanner, the watcher and the file dialog accept,
+ * and which format they are written back as.
+ */
+export const INPUT_FORMATS: readonly InputFormat[] = [
+  { id: 'jpeg', label: 'JPEG', extensions: ['.jpg', '.jpeg', '.jpe', '.jfif'], sharpFormats: ['jpeg'], outputFormat: 'jpeg', decoder: 'sharp' },
+  { id: 'png', label: 'PNG', extensions: ['.png'], sharpFormats: ['png'], outputFormat: 'png', decoder: 'sharp' },
+  { id: 'webp', label: 'WebP', extensions: ['.webp'], sharpFormats: ['webp'], outputFormat: 'webp', decoder: 'sharp' },
+  { id: 'avif', label: 'AVIF', extensions: ['.avif'], sharpFormats: [], outputFormat: 'avif', decoder: 'sharp' },
+  { id: 'tiff', label: 'TIFF', extensions: ['.tif', '.tiff'], sharpFormats: ['tiff'], outputFormat: 'jpeg', alphaOutputFormat: 'png', decoder: 'sharp' },
+  { id: 'heif', label: 'HEIC/HEIF', extensions: ['.heic', '.heif', '.hif'], sharpFormats: [], outputFormat: 'jpeg', alphaOutputFormat: 'png', decoder: 'heif' },
+  { id: 'bmp', label: 'BMP', extensions: ['.bmp', '.dib'], sharpFormats: [], outputFormat: 'png', decoder: 'bmp' },
+  { id: 'gif', label: 'GIF', extensions: ['.gif'], sharpFormats: ['gif'], outputFormat: 'png', decoder: 'sharp' }
+];
+
+export function getInputFormatForPath(inputPath: string): InputFormat | null {
+  const ext = path.extname(inputPath).toLowerCase();
+  return INPUT_FORMATS.find((format) => format.extensions.includes(ext)) ?? null;
+}
+
+export function isSupportedInputPath(inputPath: string): boolean {
+  return getInputFormatForPath(inputPath) !== null;
+}
+
+/** Extensions without the leading dot, as Electron's dialog filters expect. */
+export function getInputExtensions(): string[] {
+  return INPUT_FORMATS.flatMap((format) => format.extensions.map((ext) => ext.slice(1)));
+}
+
+function findByContainer(decoded: { format?: string; compression?: string }): InputFormat | undefined {
+  if (decoded.format === 'heif') {
+    return INPUT_FORMATS.find((format) => format.id === (decoded.compression === 'av1' ? 'avif' : 'heif'));
+  }
+  return INPUT_FORMATS.find((format) => decoded.format !== undefined && format.sharpFormats.includes(decoded.format));
+}
+
+/**
+ * Picks the output format for a decoded image. For sharp-native inputs the container wins over
+ * the extension so a mislabelled file keeps its real format; inputs decoded by a fallback
+ * (BMP, HEIC) arrive as PNG, so their extension decides.
+ */
+export function resolveOutputFormat(
+  inputPath: string,
+  decoded: { format?: string; compression?: string; hasAlpha?: boolean }
+): SupportedImageType | null {
+  const byPath = getInputFormatForPath(inputPath);
+  const entry = byPath && byPath.decoder !== 'sharp' ? byPath : findByContainer(decoded) ?? byPath;
+  if (!entry) {
+    return null;
+  }
+  return decoded.hasAlpha && entry.alphaOutputFormat ? entry.alphaOutputFormat : entry.outputFormat;
+}
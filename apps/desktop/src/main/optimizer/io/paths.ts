@@ -1,6 +1,6 @@
 import fs from 'node:fs/promises';
 import path from 'node:path';
-import type { BackupRecord, OutputMode } from '../../../shared/types';
+import type { BackupRecord, OptimiseSettings, OutputMode, SupportedImageType } from '../../../shared/types';
 export type { BackupRecord } from '../../../shared/types';
 
 export function tempFilePath(targetPath: string): string {
@@ -18,23 +18,90 @@ export function webpPathFor(filePath: string): string {
   return path.join(parsed.dir, `${parsed.name}.webp`);
 }
 
-export function outputPathForOriginal(filePath: string, commonRoot: string, outputMode: OutputMode): string {
+export type WebpOriginalRemoval = 'replace' | 'delete';
+
+/**
+ * How a WebP conversion disposes of the original. Both options only take effect once the
+ * dangerous-replace confirmation is ticked; 'replace' also puts the WebP beside the original.
+ */
+export function webpOriginalRemoval(
+  settings: Pick<OptimiseSettings, 'replaceWithWebp' | 'confirmDangerousWebpReplace' | 'deleteOriginalAfterWebp'>
+): WebpOriginalRemoval | null {
+  if (!settings.confirmDangerousWebpReplace) {
+    return null;
+  }
+  if (settings.replaceWithWebp) {
+    return 'replace';
+  }
+  return settings.deleteOriginalAfterWebp ? 'delete' : null;
+}
+
+export function avifPathFor(filePath: string): string {
+  const parsed = path.parse(filePath);
+  return path.join(parsed.dir, `${parsed.name}.avif`);
+}
+
+/** Where subfolder outputs go: a configured output root, or `Optimized/` under the common root. */
+export function subfolderOutputRoot(commonRoot: string, outputRoot?: string): string {
+  return outputRoot ? path.resolve(outputRoot) : path.join(commonRoot, 'Optimized');
+}
+
+export function outputPathForOriginal(filePath: string, commonRoot: string, outputMode: OutputMode, outputRoot?: string): string {
   if (outputMode === 'replace') {
     return filePath;
   }
 
   const relative = path.relative(commonRoot, filePath);
-  return path.join(commonRoot, 'Optimized', relative);
+  return path.join(subfolderOutputRoot(commonRoot, outputRoot), relative);
 }
 
-export function outputPathForWebp(filePath: string, commonRoot: string, outputMode: OutputMode): string {
+export function outputPathForWebp(filePath: string, commonRoot: string, outputMode: OutputMode, outputRoot?: string): string {
   if (outputMode === 'replace') {
     return webpPathFor(filePath);
   }
 
   const relative = path.relative(commonRoot, filePath);
   const parsed = path.parse(relative);
-  return path.join(commonRoot, 'Optimized', parsed.dir, `${parsed.name}.webp`);
+  return path.join(subfolderOutputRoot(commonRoot, outputRoot), parsed.dir, `${parsed.name}.webp`);
+}
+
+export function outputPathForAvif(filePath: string, commonRoot: string, outputMode: OutputMode, outputRoot?: string): string {
+  if (outputMode === 'replace') {
+    return avifPathFor(filePath);
+  }
+
+  const relative = path.relative(commonRoot, filePath);
+  const parsed = path.parse(relative);
+  return path.join(subfolderOutputRoot(commonRoot, outputRoot), parsed.dir, `${parsed.name}.avif`);
+}
+
+export function extensionForFormat(format: SupportedImageType): string {
+  return format === 'jpeg' ? '.jpg' : `.${format}`;
+}
+
+export function outputPathForFormat(
+  filePath: string,
+  commonRoot: string,
+  outputMode: OutputMode,
+  format: SupportedImageType,
+  outputRoot?: string
+): string {
+  if (format === 'webp') {
+    return outputPathForWebp(filePath, commonRoot, outputMode, outputRoot);
+  }
+  if (format === 'avif') {
+    return outputPathForAvif(filePath, commonRoot, outputMode, outputRoot);
+  }
+
+  const original = outputPathForOriginal(filePath, commonRoot, outputMode, outputRoot);
+  const ext = path.extname(original).toLowerCase();
+  const matches = format === 'jpeg' ? ext === '.jpg' || ext === '.jpeg' : ext === extensionForFormat(format);
+  if (matches) {
+    return original;
+  }
+
+  const parsed = path.parse(original);
+  return path.join(parsed.dir, `${parsed.name}${extensionForFormat(format)}`);
 }
 
 export function createBackupFilePath(backupDir: string, originalPath: string): string {
@@ -0,0 +1,53 @@
+import type { MetricFrame } from './frame';
+
+const BLOCK_SIZE = 32;
+const FLAT_STEP = 5;
+
+/**
+ * Banding risk: smooth reference blocks (gentle gradients) whose number of distinct luma levels
+ * collapses in the candidate (chroma subsampling alone changes colours, not luma steps).
+ * Every block on a fixed grid is checked, so the score is reproducible; it is the average loss
+ * over all blocks, which the old random sampling estimated.
+ */
+export function computeBandingRisk(base: MetricFrame, test: MetricFrame): number {
+  const { width, height } = base;
+  const columns = Math.floor(width / BLOCK_SIZE);
+  const rows = Math.floor(height / BLOCK_SIZE);
+  if (columns === 0 || rows === 0) {
+    return 0;
+  }
+
+  let risk = 0;
+  const levels = new Set<number>();
+  const testLevels = new Set<number>();
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      levels.clear();
+      testLevels.clear();
+      let isFlat = true;
+
+      for (let i = 0; i < BLOCK_SIZE && isFlat; i++) {
+        for (let j = 0; j < BLOCK_SIZE; j++) {
+          const idx = (row * BLOCK_SIZE + i) * width + column * BLOCK_SIZE + j;
+          if (j > 0 && Math.abs(base.luma[idx] - base.luma[idx - 1]) > FLAT_STEP) {
+            isFlat = false;
+            break;
+          }
+          if (i > 0 && Math.abs(base.luma[idx] - base.luma[idx - width]) > FLAT_STEP) {
+            isFlat = false;
+            break;
+          }
+          levels.add(Math.round(base.luma[idx]));
+          testLevels.add(Math.round(test.luma[idx]));
+        }
+      }
+
+      if (isFlat && levels.size > testLevels.size * 1.5) {
+        risk += (levels.size - testLevels.size) / levels.size;
+      }
+    }
+  }
+
+  return risk / (rows * columns);
+}
@@ -0,0 +1,179 @@
+import type { MetricFrame } from './frame';
+
+// Opsin absorbance of the eye's L, M and S cones for linear sRGB (as in JPEG XL's XYB).
+const OPSIN = [
+  [0.3, 0.622, 0.078],
+  [0.23, 0.692, 0.078],
+  [0.24342268924547819, 0.20476744424496821, 0.5518098665095536]
+];
+const OPSIN_BIAS = 0.0037930732552754493;
+const OPSIN_OFFSET = Math.cbrt(OPSIN_BIAS);
+
+// Band split: high frequencies are what sits above a σ=1.5 blur, low frequencies what is left below σ=5.
+const HF_SIGMA = 1.5;
+const LF_SIGMA = 5;
+const MASK_SIGMA = 3;
+// Local contrast at which a difference is half as visible.
+const MASK_HALF = 0.02;
+
+// Per channel (X, Y, B) and band (high, medium, low). Chroma is most visible at low frequencies,
+// blue barely at all in fine detail.
+const WEIGHTS = {
+  x: [12, 18, 20],
+  y: [1, 1.4, 1.8],
+  b: [0, 0.25, 0.5]
+};
+// Brings the distance onto butteraugli's scale, where about 1 is the threshold of a visible change.
+const SCALE = 340;
+
+const LINEAR = new Float32Array(256);
+for (let i = 0; i < 256; i++) {
+  const c = i / 255;
+  LINEAR[i] = c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+interface Xyb {
+  x: Float32Array;
+  y: Float32Array;
+  b: Float32Array;
+}
+
+function toXyb(frame: MetricFrame): Xyb {
+  const size = frame.width * frame.height;
+  const xyb: Xyb = { x: new Float32Array(size), y: new Float32Array(size), b: new Float32Array(size) };
+  const [[lr, lg, lb], [mr, mg, mb], [sr, sg, sb]] = OPSIN;
+  for (let i = 0; i < size; i++) {
+    const idx = i * 4;
+    const r = LINEAR[frame.data[idx]];
+    const g = LINEAR[frame.data[idx + 1]];
+    const b = LINEAR[frame.data[idx + 2]];
+    const l = Math.cbrt(lr * r + lg * g + lb * b + OPSIN_BIAS) - OPSIN_OFFSET;
+    const m = Math.cbrt(mr * r + mg * g + mb * b + OPSIN_BIAS) - OPSIN_OFFSET;
+    xyb.x[i] = (l - m) / 2;
+    xyb.y[i] = (l + m) / 2;
+    xyb.b[i] = Math.cbrt(sr * r + sg * g + sb * b + OPSIN_BIAS) - OPSIN_OFFSET;
+  }
+  return xyb;
+}
+
+/** Box radii whose three passes approximate a Gaussian of the given sigma. */
+function boxRadii(sigma: number): number[] {
+  const ideal = Math.sqrt((12 * sigma * sigma) / 3 + 1);
+  let lower = Math.floor(ideal);
+  if (lower % 2 === 0) lower -= 1;
+  const upper = lower + 2;
+  const lowerCount = Math.round((12 * sigma * sigma - 3 * lower * lower - 12 * lower - 9) / (-4 * lower - 4));
+  return [0, 1, 2].map((pass) => ((pass < lowerCount ? lower : upper) - 1) / 2);
+}
+
+function boxPassRows(source: Float32Array, target: Float32Array, width: number, height: number, radius: number): void {
+  // Each row padded with its edge values, so the running sum needs no bounds checks.
+  const span = 2 * radius + 1;
+  const padded = new Float32Array(width + 2 * radius + 1);
+  for (let y = 0; y < height; y++) {
+    const start = y * width;
+    padded.fill(source[start], 0, radius + 1);
+    padded.set(source.subarray(start, start + width), radius + 1);
+    padded.fill(source[start + width - 1], width + radius + 1);
+
+    let sum = 0;
+    for (let i = 0; i < span; i++) sum += padded[i];
+    for (let x = 0; x < width; x++) {
+      sum += padded[x + span] - padded[x];
+      target[start + x] = sum / span;
+    }
+  }
+}
+
+function boxPassColumns(source: Float32Array, target: Float32Array, width: number, height: number, radius: number): void {
+  // Keeps a running sum per column and walks down the rows, which stays cache friendly.
+  const span = 2 * radius + 1;
+  const sums = new Float64Array(width);
+  const row = (y: number) => Math.min(height - 1, Math.max(0, y)) * width;
+  for (let y = -radius; y <= radius; y++) {
+    const offset = row(y);
+    for (let x = 0; x < width; x++) sums[x] += source[offset + x];
+  }
+  for (let y = 0; y < height; y++) {
+    const start = y * width;
+    for (let x = 0; x < width; x++) target[start + x] = sums[x] / span;
+    const added = row(y + radius + 1);
+    const removed = row(y - radius);
+    for (let x = 0; x < width; x++) sums[x] += source[added + x] - source[removed + x];
+  }
+}
+
+/** Gaussian blur by three box passes in each direction; edges are clamped. */
+function blur(plane: Float32Array, width: number, height: number, sigma: number): Float32Array {
+  const current = Float32Array.from(plane);
+  const spare = new Float32Array(plane.length);
+  for (const radius of boxRadii(sigma)) {
+    if (radius < 1) continue;
+    boxPassRows(current, spare, width, height, radius);
+    boxPassColumns(spare, current, width, height, radius);
+  }
+  return current;
+}
+
+/** Splits a plane into high, medium and low frequency bands that sum back to the plane. */
+function bands(plane: Float32Array, width: number, height: number): [Float32Array, Float32Array, Float32Array] {
+  const fine = blur(plane, width, height, HF_SIGMA);
+  const low = blur(plane, width, height, LF_SIGMA);
+  const high = new Float32Array(plane.length);
+  const medium = new Float32Array(plane.length);
+  for (let i = 0; i < plane.length; i++) {
+    high[i] = plane[i] - fine[i];
+    medium[i] = fine[i] - low[i];
+  }
+  return [high, medium, low];
+}
+
+/**
+ * Butteraugli-style perceptual distance: both images go through an opsin (XYB) model of the
+ * cones, each channel is split into frequency bands, and band differences are weighted by how
+ * visible they are and masked by the reference's local contrast, so noise hidden in texture costs
+ * less than the same noise on a flat sky. The per-pixel distances are summarised with a 3-norm.
+ * 0 means identical; around 1 is the edge of a visible change.
+ */
+export function butteraugliDistance(reference: MetricFrame, candidate: MetricFrame): number {
+  const { width, height } = reference;
+  const size = width * height;
+  if (size === 0) {
+    return 0;
+  }
+
+  const ref = toXyb(reference);
+  const test = toXyb(candidate);
+  const distance = new Float64Array(size);
+
+  // Local contrast of the reference luma masks fine differences in every channel.
+  const [refHigh, refMedium] = bands(ref.y, width, height);
+  const activity = new Float32Array(size);
+  for (let i = 0; i < size; i++) activity[i] = Math.abs(refHigh[i]) + Math.abs(refMedium[i]);
+  const mask = blur(activity, width, height, MASK_SIGMA);
+
+  for (const channel of ['x', 'y', 'b'] as const) {
+    // The band split is linear, so splitting the difference equals differencing the splits.
+    const difference = new Float32Array(size);
+    for (let i = 0; i < size; i++) difference[i] = ref[channel][i] - test[channel][i];
+    const diffBands = bands(difference, width, height);
+
+    const weights = WEIGHTS[channel];
+    for (let band = 0; band < 3; band++) {
+      const weight = weights[band];
+      if (weight === 0) continue;
+      const plane = diffBands[band];
+      for (let i = 0; i < size; i++) {
+        const diff = band < 2 ? plane[i] / (1 + mask[i] / MASK_HALF) : plane[i];
+        distance[i] += weight * diff * diff;
+      }
+    }
+  }
+
+  let sum = 0;
+  for (let i = 0; i < size; i++) {
+    const pixel = Math.sqrt(distance[i]) * SCALE;
+    sum += pixel * pixel * pixel;
+  }
+  return Math.cbrt(sum / size);
+}
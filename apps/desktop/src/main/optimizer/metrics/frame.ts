@@ -0,0 +1,60 @@
+import sharp from 'sharp';
+
+const MAX_COMPARE_SIZE = 1024; // Increased for better accuracy in smart mode
+
+/** Decoded RGBA pixels plus BT.601 luma, which every metric works on. */
+export interface MetricFrame {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+  luma: Float32Array;
+}
+
+export function toLuma(data: Uint8ClampedArray, width: number, height: number): Float32Array {
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    const idx = i * 4;
+    luma[i] = 0.299 * data[idx] + 0.587 * data[idx + 1] + 0.114 * data[idx + 2];
+  }
+  return luma;
+}
+
+/** Halves a plane with a 2×2 box filter (odd edges are dropped). */
+export function downsample(plane: Float32Array, width: number, height: number): { plane: Float32Array; width: number; height: number } {
+  const w = Math.floor(width / 2);
+  const h = Math.floor(height / 2);
+  const out = new Float32Array(w * h);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = 2 * y * width + 2 * x;
+      out[y * w + x] = (plane[i] + plane[i + 1] + plane[i + width] + plane[i + width + 1]) / 4;
+    }
+  }
+  return { plane: out, width: w, height: h };
+}
+
+/**
+ * Decodes to sRGB RGBA. The reference is capped at MAX_COMPARE_SIZE; candidates are resized to
+ * the reference's dimensions, so downscaled outputs are judged at the original size.
+ */
+export async function decodeForCompare(input: Buffer, width?: number, height?: number): Promise<MetricFrame> {
+  const pipeline = sharp(input)
+    .toColourspace('srgb')
+    .ensureAlpha();
+
+  if (width && height) {
+    pipeline.resize(width, height, { fit: 'fill' });
+  } else {
+    pipeline.resize(MAX_COMPARE_SIZE, MAX_COMPARE_SIZE, { fit: 'inside', withoutEnlargement: true });
+  }
+
+  const raw = await pipeline.raw().toBuffer({ resolveWithObject: true });
+  const data = new Uint8ClampedArray(raw.data);
+
+  return {
+    width: raw.info.width,
+    height: raw.info.height,
+    data,
+    luma: toLuma(data, raw.info.width, raw.info.height)
+  };
+}
@@ -0,0 +1,101 @@
+import type { OptimiseSettings, QualityMetric } from '../../../shared/types';
+import { computeBandingRisk } from './banding';
+import { butteraugliDistance } from './butteraugli';
+import { decodeForCompare, type MetricFrame } from './frame';
+import { psnrHvs } from './psnrHvs';
+import { classicSsim, edgeMaskedSsim, multiScaleSsim } from './ssim';
+
+export type { MetricFrame } from './frame';
+export { computeSsim } from './ssim';
+
+type SmartTarget = OptimiseSettings['smartTarget'];
+
+/**
+ * A full-reference quality score. Scores are in the metric's own units (PSNR-HVS is in dB, the
+ * butteraugli-style score is a negated distance), so each metric also says what score a smart
+ * target or guardrail requires.
+ */
+export interface Metric {
+  id: QualityMetric;
+  label: string;
+  /** Higher is better. */
+  score(reference: MetricFrame, candidate: MetricFrame): number;
+  /** Minimum acceptable score; `guardrail` is the 0-100 custom target. */
+  threshold(target: SmartTarget, guardrail: number): number;
+}
+
+export interface MetricResult {
+  mssim: number;
+  edgeSsim: number;
+  bandingRisk: number;
+  /** Score of the metric the caller asked for (equal to `mssim` for the default). */
+  score: number;
+  metric: QualityMetric;
+}
+
+function thresholds(values: Record<Exclude<SmartTarget, 'custom'>, number>, custom: (guardrail: number) => number): Metric['threshold'] {
+  return (target, guardrail) => (target === 'custom' ? custom(guardrail) : values[target]);
+}
+
+export const METRICS: Record<QualityMetric, Metric> = {
+  'ssim': {
+    id: 'ssim',
+    label: 'SSIM',
+    score: classicSsim,
+    threshold: thresholds({ 'visually-lossless': 0.999, 'high': 0.995, 'balanced': 0.99, 'small': 0.98 }, (guardrail) => guardrail / 100)
+  },
+  'ms-ssim': {
+    id: 'ms-ssim',
+    label: 'MS-SSIM',
+    score: multiScaleSsim,
+    threshold: thresholds({ 'visually-lossless': 0.998, 'high': 0.993, 'balanced': 0.985, 'small': 0.97 }, (guardrail) => guardrail / 100)
+  },
+  'edge-ssim': {
+    id: 'edge-ssim',
+    label: 'Edge-weighted SSIM',
+    score: edgeMaskedSsim,
+    threshold: thresholds({ 'visually-lossless': 0.995, 'high': 0.985, 'balanced': 0.97, 'small': 0.95 }, (guardrail) => guardrail / 100)
+  },
+  'psnr-hvs': {
+    id: 'psnr-hvs',
+    label: 'PSNR-HVS (dB)',
+    score: psnrHvs,
+    // The custom guardrail maps 0-100 onto 0-50 dB; 90 asks for 45 dB.
+    threshold: thresholds({ 'visually-lossless': 46, 'high': 42, 'balanced': 38, 'small': 34 }, (guardrail) => guardrail / 2)
+  },
+  'butteraugli': {
+    id: 'butteraugli',
+    label: 'Butteraugli-style distance',
+    // Negated so higher stays better: a distance of 1.5 scores -1.5.
+    score: (reference, candidate) => -butteraugliDistance(reference, candidate),
+    // The custom guardrail maps 0-100 onto distances of 10-0; 90 allows a distance of 1.
+    threshold: thresholds({ 'visually-lossless': -1, 'high': -1.5, 'balanced': -2, 'small': -3 }, (guardrail) => -(100 - guardrail) / 10)
+  }
+};
+
+export function getMetric(id: QualityMetric | undefined): Metric {
+  return METRICS[id ?? 'ssim'] ?? METRICS.ssim;
+}
+
+export async function computeMetrics(original: Buffer, candidate: Buffer, metric: QualityMetric = 'ssim'): Promise<MetricResult> {
+  const base = await decodeForCompare(original);
+  const test = await decodeForCompare(candidate, base.width, base.height);
+
+  const mssim = classicSsim(base, test);
+  const selected = getMetric(metric);
+
+  return {
+    mssim,
+    edgeSsim: edgeMaskedSsim(base, test),
+    bandingRisk: computeBandingRisk(base, test),
+    score: selected.id === 'ssim' ? mssim : selected.score(base, test),
+    metric: selected.id
+  };
+}
+
+/** Scores a candidate with one metric only; used by guardrails that do not need the rest. */
+export async function measure(metric: QualityMetric | undefined, original: Buffer, candidate: Buffer): Promise<number> {
+  const base = await decodeForCompare(original);
+  const test = await decodeForCompare(candidate, base.width, base.height);
+  return getMetric(metric).score(base, test);
+}
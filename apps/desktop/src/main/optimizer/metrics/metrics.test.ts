@@ -0,0 +1,134 @@
+import path from 'node:path';
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { computeMetrics, getMetric, METRICS } from './index';
+import { computeBandingRisk } from './banding';
+import { butteraugliDistance } from './butteraugli';
+import { decodeForCompare } from './frame';
+
+const SIZE = 128;
+
+/** Smooth diagonal gradient, optionally with a dark line-art grid on top. */
+async function reference(lines = true): Promise<Buffer> {
+  const pixels = Buffer.alloc(SIZE * SIZE * 3);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const idx = (y * SIZE + x) * 3;
+      const line = lines && (x % 32 === 0 || y % 32 === 0);
+      pixels[idx] = line ? 20 : 60 + x;
+      pixels[idx + 1] = line ? 20 : 60 + y;
+      pixels[idx + 2] = line ? 20 : 120;
+    }
+  }
+  return sharp(pixels, { raw: { width: SIZE, height: SIZE, channels: 3 } }).png().toBuffer();
+}
+
+// The app icon: a textured cookie on a flat sky, i.e. real artwork with both busy and smooth areas.
+const ICON = path.join(__dirname, '../../../../resources/icon.png');
+const photo = () => sharp(ICON).resize(256).removeAlpha().png().toBuffer();
+
+const jpeg = (input: Buffer, quality: number) => sharp(input).jpeg({ quality }).toBuffer();
+
+describe('quality metrics', () => {
+  it('scores identical images as perfect', async () => {
+    const image = await reference();
+    const result = await computeMetrics(image, image, 'ms-ssim');
+
+    expect(result.mssim).toBeCloseTo(1, 6);
+    expect(result.edgeSsim).toBeCloseTo(1, 6);
+    expect(result.score).toBeCloseTo(1, 6);
+    expect(result.bandingRisk).toBe(0);
+    expect((await computeMetrics(image, image, 'psnr-hvs')).score).toBe(100);
+  });
+
+  it('ranks heavier compression lower on every metric', async () => {
+    const image = await photo();
+    const [high, low] = await Promise.all([jpeg(image, 90), jpeg(image, 20)]);
+
+    for (const metric of Object.keys(METRICS) as Array<keyof typeof METRICS>) {
+      const good = await computeMetrics(image, high, metric);
+      const bad = await computeMetrics(image, low, metric);
+      expect(good.score, metric).toBeGreaterThan(bad.score);
+    }
+  });
+
+  it('weights blur around edges more than plain SSIM does', async () => {
+    const image = await reference();
+    const blurred = await sharp(image).blur(1.2).png().toBuffer();
+    const result = await computeMetrics(image, blurred);
+
+    expect(result.edgeSsim).toBeLessThan(result.mssim);
+  });
+
+  it('detects banding deterministically', async () => {
+    const image = await reference(false);
+    const posterised = await sharp(image).png({ palette: true, colours: 8, dither: 0 }).toBuffer();
+    const base = await decodeForCompare(image);
+    const test = await decodeForCompare(posterised, base.width, base.height);
+
+    const risk = computeBandingRisk(base, test);
+    expect(risk).toBeGreaterThan(0.05);
+    expect(computeBandingRisk(base, test)).toBe(risk);
+    expect(computeBandingRisk(base, await decodeForCompare(await jpeg(image, 95), base.width, base.height))).toBeLessThan(0.05);
+  });
+
+  it('maps smart targets and the custom guardrail onto each metric', () => {
+    expect(getMetric(undefined).threshold('high', 0)).toBe(0.995);
+    expect(getMetric('ssim').threshold('custom', 92)).toBe(0.92);
+    expect(getMetric('psnr-hvs').threshold('custom', 90)).toBe(45);
+    expect(getMetric('butteraugli').threshold('high', 0)).toBe(-1.5);
+    expect(getMetric('butteraugli').threshold('custom', 90)).toBe(-1);
+  });
+});
+
+describe('butteraugli-style distance', () => {
+  async function distance(reference: Buffer, candidate: Buffer): Promise<number> {
+    const base = await decodeForCompare(reference);
+    return butteraugliDistance(base, await decodeForCompare(candidate, base.width, base.height));
+  }
+
+  /** Pastes a 40x40 patch of grey noise onto the image with its top-left corner at (left, top). */
+  async function withNoise(image: Buffer, left: number, top: number): Promise<Buffer> {
+    const noise = Buffer.alloc(40 * 40 * 4);
+    for (let i = 0; i < 40 * 40; i++) {
+      const value = (i * 7919) % 61 - 30;
+      noise.fill(128 + value, i * 4, i * 4 + 3);
+      noise[i * 4 + 3] = 255;
+    }
+    const patch = await sharp(noise, { raw: { width: 40, height: 40, channels: 4 } }).png().toBuffer();
+    return sharp(image).composite([{ input: patch, left, top, blend: 'soft-light' }]).png().toBuffer();
+  }
+
+  it('scores an identical image as zero', async () => {
+    const image = await photo();
+    expect(await distance(image, image)).toBe(0);
+    expect((await computeMetrics(image, image, 'butteraugli')).score).toBeCloseTo(0, 10);
+  });
+
+  it('grows steadily as JPEG quality drops', async () => {
+    const image = await photo();
+    const scores: number[] = [];
+    for (const quality of [95, 80, 50, 15]) scores.push(await distance(image, await jpeg(image, quality)));
+
+    for (let i = 1; i < scores.length; i++) expect(scores[i]).toBeGreaterThan(scores[i - 1]);
+    // Near-transparent compression sits around the visibility threshold, heavy compression well past it.
+    expect(scores[0]).toBeLessThan(1);
+    expect(scores[3]).toBeGreaterThan(3);
+  });
+
+  it('lets texture mask noise that would show on a flat area', async () => {
+    const image = await photo();
+    const onSky = await distance(image, await withNoise(image, 10, 10));
+    const onCookie = await distance(image, await withNoise(image, 100, 110));
+
+    expect(onSky).toBeGreaterThan(onCookie * 1.5);
+  });
+
+  it('passes high-quality output and rejects heavy compression at the high target', async () => {
+    const image = await photo();
+    const threshold = getMetric('butteraugli').threshold('high', 0);
+
+    expect((await computeMetrics(image, await jpeg(image, 95), 'butteraugli')).score).toBeGreaterThanOrEqual(threshold);
+    expect((await computeMetrics(image, await jpeg(image, 15), 'butteraugli')).score).toBeLessThan(threshold);
+  });
+});
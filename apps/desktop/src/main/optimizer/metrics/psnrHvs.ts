@@ -0,0 +1,82 @@
+import type { MetricFrame } from './frame';
+
+const BLOCK = 8;
+const MAX_DB = 100;
+
+// Contrast sensitivity weights per DCT coefficient (Egiazarian et al., PSNR-HVS).
+const CSF = [
+  1.608443, 2.339554, 2.573509, 1.608443, 1.072295, 0.643377, 0.504610, 0.421887,
+  2.144591, 2.144591, 1.838221, 1.354478, 0.989811, 0.443708, 0.428918, 0.467911,
+  1.838221, 1.979622, 1.608443, 1.072295, 0.643377, 0.451493, 0.372972, 0.459555,
+  1.838221, 1.513829, 1.169777, 0.887417, 0.504610, 0.295806, 0.321689, 0.415082,
+  1.429727, 1.169777, 0.695543, 0.459555, 0.378457, 0.236102, 0.249855, 0.334222,
+  1.072295, 0.735288, 0.467911, 0.402111, 0.317717, 0.247453, 0.227744, 0.279729,
+  0.525206, 0.402111, 0.329937, 0.295806, 0.249855, 0.212687, 0.214459, 0.254803,
+  0.357432, 0.279729, 0.270896, 0.262603, 0.229778, 0.257351, 0.249855, 0.259950
+];
+
+// Orthonormal DCT-II basis: COSINES[u * 8 + x].
+const COSINES = new Float64Array(BLOCK * BLOCK);
+for (let u = 0; u < BLOCK; u++) {
+  const scale = u === 0 ? Math.sqrt(1 / BLOCK) : Math.sqrt(2 / BLOCK);
+  for (let x = 0; x < BLOCK; x++) {
+    COSINES[u * BLOCK + x] = scale * Math.cos(((2 * x + 1) * u * Math.PI) / (2 * BLOCK));
+  }
+}
+
+function dct8x8(block: Float64Array, out: Float64Array, tmp: Float64Array): void {
+  for (let y = 0; y < BLOCK; y++) {
+    for (let u = 0; u < BLOCK; u++) {
+      let sum = 0;
+      for (let x = 0; x < BLOCK; x++) sum += COSINES[u * BLOCK + x] * block[y * BLOCK + x];
+      tmp[y * BLOCK + u] = sum;
+    }
+  }
+  for (let u = 0; u < BLOCK; u++) {
+    for (let v = 0; v < BLOCK; v++) {
+      let sum = 0;
+      for (let y = 0; y < BLOCK; y++) sum += COSINES[v * BLOCK + y] * tmp[y * BLOCK + u];
+      out[v * BLOCK + u] = sum;
+    }
+  }
+}
+
+/**
+ * PSNR-HVS in dB: the luma error is taken per 8×8 DCT coefficient and weighted by contrast
+ * sensitivity, so high-frequency noise the eye barely sees costs less than blocking or blur.
+ * Identical images score MAX_DB.
+ */
+export function psnrHvs(reference: MetricFrame, candidate: MetricFrame): number {
+  const columns = Math.floor(reference.width / BLOCK);
+  const rows = Math.floor(reference.height / BLOCK);
+  if (columns === 0 || rows === 0) {
+    return MAX_DB;
+  }
+
+  const difference = new Float64Array(BLOCK * BLOCK);
+  const coefficients = new Float64Array(BLOCK * BLOCK);
+  const tmp = new Float64Array(BLOCK * BLOCK);
+  let error = 0;
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      for (let y = 0; y < BLOCK; y++) {
+        const offset = (row * BLOCK + y) * reference.width + column * BLOCK;
+        for (let x = 0; x < BLOCK; x++) {
+          difference[y * BLOCK + x] = reference.luma[offset + x] - candidate.luma[offset + x];
+        }
+      }
+      dct8x8(difference, coefficients, tmp);
+      for (let i = 0; i < BLOCK * BLOCK; i++) {
+        const weighted = coefficients[i] * CSF[i];
+        error += weighted * weighted;
+      }
+    }
+  }
+
+  const mse = error / (rows * columns * BLOCK * BLOCK);
+  if (mse <= 1e-10) {
+    return MAX_DB;
+  }
+  return Math.min(MAX_DB, 10 * Math.log10((255 * 255) / mse));
+}
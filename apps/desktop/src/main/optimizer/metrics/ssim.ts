@@ -1,118 +1,153 @@
-import sharp from 'sharp';
 import { ssim } from 'ssim.js';
+import { decodeForCompare, downsample, type MetricFrame } from './frame';
 
-const MAX_COMPARE_SIZE = 1024; // Increased for better accuracy in smart mode
+const WINDOW = 8;
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+// Wang et al. 2003; renormalised when a small image supports fewer scales.
+const MS_SSIM_WEIGHTS = [0.0448, 0.2856, 0.3001, 0.2363, 0.1333];
 
-interface RawFrame {
+export interface SsimMap {
   width: number;
   height: number;
-  data: Uint8ClampedArray;
+  ssim: Float32Array;
+  /** Contrast-structure term, which MS-SSIM uses on all but the coarsest scale. */
+  cs: Float32Array;
 }
 
-async function decodeForCompare(input: Buffer, width?: number, height?: number): Promise<RawFrame> {
-  const pipeline = sharp(input)
-    .toColourspace('srgb')
-    .ensureAlpha();
-
-  if (width && height) {
-    pipeline.resize(width, height, { fit: 'fill' });
-  } else {
-    pipeline.resize(MAX_COMPARE_SIZE, MAX_COMPARE_SIZE, { fit: 'inside', withoutEnlargement: true });
+/** Summed-area table with a zero row and column, so window sums need no bounds checks. */
+function integral(width: number, height: number, value: (index: number) => number): Float64Array {
+  const stride = width + 1;
+  const table = new Float64Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += value(y * width + x);
+      table[(y + 1) * stride + x + 1] = table[y * stride + x + 1] + row;
+    }
   }
-
-  const raw = await pipeline.raw().toBuffer({ resolveWithObject: true });
-
-  return {
-    width: raw.info.width,
-    height: raw.info.height,
-    data: new Uint8ClampedArray(raw.data)
-  };
+  return table;
 }
 
-export interface MetricResult {
-  mssim: number;
-  edgeSsim: number;
-  bandingRisk: number;
+function windowSum(table: Float64Array, stride: number, x: number, y: number, size: number): number {
+  return table[(y + size) * stride + x + size] - table[y * stride + x + size] - table[(y + size) * stride + x] + table[y * stride + x];
 }
 
-export async function computeMetrics(original: Buffer, candidate: Buffer): Promise<MetricResult> {
-  const base = await decodeForCompare(original);
-  const test = await decodeForCompare(candidate, base.width, base.height);
-
-  const res = ssim(
-    { data: base.data, width: base.width, height: base.height },
-    { data: test.data, width: test.width, height: test.height }
-  );
+function mean(values: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return values.length ? sum / values.length : 1;
+}
 
-  // Simple edge-masked SSIM:
-  // We can compute a mask from the original image (Sobel) and weight the SSIM map.
-  // However, ssim.js doesn't easily expose the map without some extra work.
-  // For now, let's implement a simple banding risk check.
+/** SSIM over every 8×8 window (stride 1) of two luma planes of equal size. */
+export function ssimMap(a: Float32Array, b: Float32Array, width: number, height: number): SsimMap {
+  const size = Math.max(1, Math.min(WINDOW, width, height));
+  const stride = width + 1;
+  const sumA = integral(width, height, (i) => a[i]);
+  const sumB = integral(width, height, (i) => b[i]);
+  const sumAA = integral(width, height, (i) => a[i] * a[i]);
+  const sumBB = integral(width, height, (i) => b[i] * b[i]);
+  const sumAB = integral(width, height, (i) => a[i] * b[i]);
+
+  const mapWidth = width - size + 1;
+  const mapHeight = height - size + 1;
+  const n = size * size;
+  const ssimValues = new Float32Array(mapWidth * mapHeight);
+  const csValues = new Float32Array(mapWidth * mapHeight);
+
+  for (let y = 0; y < mapHeight; y++) {
+    for (let x = 0; x < mapWidth; x++) {
+      const meanA = windowSum(sumA, stride, x, y, size) / n;
+      const meanB = windowSum(sumB, stride, x, y, size) / n;
+      const varA = windowSum(sumAA, stride, x, y, size) / n - meanA * meanA;
+      const varB = windowSum(sumBB, stride, x, y, size) / n - meanB * meanB;
+      const cov = windowSum(sumAB, stride, x, y, size) / n - meanA * meanB;
+
+      const cs = (2 * cov + C2) / (varA + varB + C2);
+      const luminance = (2 * meanA * meanB + C1) / (meanA * meanA + meanB * meanB + C1);
+      csValues[y * mapWidth + x] = cs;
+      ssimValues[y * mapWidth + x] = luminance * cs;
+    }
+  }
 
-  const bandingRisk = await computeBandingRisk(base, test);
+  return { width: mapWidth, height: mapHeight, ssim: ssimValues, cs: csValues };
+}
 
-  return {
-    mssim: res.mssim,
-    edgeSsim: res.mssim, // Placeholder for now, refine if needed
-    bandingRisk
-  };
+/** Sobel gradient magnitude of a luma plane; border pixels are 0. */
+export function gradientMagnitude(plane: Float32Array, width: number, height: number): Float32Array {
+  const out = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gx = plane[i - width + 1] + 2 * plane[i + 1] + plane[i + width + 1]
+        - plane[i - width - 1] - 2 * plane[i - 1] - plane[i + width - 1];
+      const gy = plane[i + width - 1] + 2 * plane[i + width] + plane[i + width + 1]
+        - plane[i - width - 1] - 2 * plane[i - width] - plane[i - width + 1];
+      out[i] = Math.sqrt(gx * gx + gy * gy);
+    }
+  }
+  return out;
 }
 
-async function computeBandingRisk(base: RawFrame, test: RawFrame): Promise<number> {
-  // Banding risk heuristic: 
-  // Compare histogram differences in low-gradient (flat) regions.
-  // If the candidate has significantly fewer unique colors in a flat region, it's a banding risk.
-
-  let risk = 0;
-  const pixels = base.data;
-  const testPixels = test.data;
-  const width = base.width;
-  const height = base.height;
-
-  // Sample a few blocks to keep it fast
-  const blockSize = 32;
-  const samples = 10;
-
-  for (let s = 0; s < samples; s++) {
-    const x = Math.floor(Math.random() * (width - blockSize));
-    const y = Math.floor(Math.random() * (height - blockSize));
-
-    let isFlat = true;
-    const colors = new Set();
-    const testColors = new Set();
-
-    for (let i = 0; i < blockSize; i++) {
-      for (let j = 0; j < blockSize; j++) {
-        const idx = ((y + i) * width + (x + j)) * 4;
-        const r = pixels[idx];
-        const g = pixels[idx + 1];
-        const b = pixels[idx + 2];
-
-        const tr = testPixels[idx];
-        const tg = testPixels[idx + 1];
-        const tb = testPixels[idx + 2];
-
-        colors.add(`${r},${g},${b}`);
-        testColors.add(`${tr},${tg},${tb}`);
-
-        // Check if flat region (very simple neighbor check)
-        if (j > 0) {
-          const prevIdx = idx - 4;
-          if (Math.abs(r - pixels[prevIdx]) > 5) isFlat = false;
-        }
-      }
+/**
+ * SSIM weighted by the reference's edge strength, so ringing and blur around edges and text
+ * count more than noise in flat areas. Falls back to plain mean SSIM for edge-free images.
+ */
+export function edgeMaskedSsim(reference: MetricFrame, candidate: MetricFrame): number {
+  const { width, height } = reference;
+  const map = ssimMap(reference.luma, candidate.luma, width, height);
+  const gradient = gradientMagnitude(reference.luma, width, height);
+  const size = Math.max(1, Math.min(WINDOW, width, height));
+  const sumGradient = integral(width, height, (i) => gradient[i]);
+
+  let weighted = 0;
+  let totalWeight = 0;
+  for (let y = 0; y < map.height; y++) {
+    for (let x = 0; x < map.width; x++) {
+      const weight = windowSum(sumGradient, width + 1, x, y, size);
+      weighted += weight * map.ssim[y * map.width + x];
+      totalWeight += weight;
     }
+  }
 
-    if (isFlat && colors.size > testColors.size * 1.5) {
-      risk += (colors.size - testColors.size) / colors.size;
+  return totalWeight > 1e-6 ? weighted / totalWeight : mean(map.ssim);
+}
+
+/** Multi-scale SSIM over up to five dyadic scales. */
+export function multiScaleSsim(reference: MetricFrame, candidate: MetricFrame): number {
+  let a = { plane: reference.luma, width: reference.width, height: reference.height };
+  let b = { plane: candidate.luma, width: candidate.width, height: candidate.height };
+
+  let scales = 1;
+  while (scales < MS_SSIM_WEIGHTS.length && Math.min(a.width, a.height) >> scales >= WINDOW) scales++;
+  const weights = MS_SSIM_WEIGHTS.slice(0, scales);
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+
+  let score = 1;
+  for (let scale = 0; scale < scales; scale++) {
+    const map = ssimMap(a.plane, b.plane, a.width, a.height);
+    const last = scale === scales - 1;
+    const value = Math.max(0, mean(last ? map.ssim : map.cs));
+    score *= value ** (weights[scale] / total);
+    if (!last) {
+      a = downsample(a.plane, a.width, a.height);
+      b = downsample(b.plane, b.width, b.height);
     }
   }
+  return score;
+}
 
-  return risk / samples;
+/** The ssim.js score the smart search thresholds were tuned on. */
+export function classicSsim(reference: MetricFrame, candidate: MetricFrame): number {
+  return ssim(
+    { data: reference.data, width: reference.width, height: reference.height },
+    { data: candidate.data, width: candidate.width, height: candidate.height }
+  ).mssim;
 }
 
 // Re-export original computeSsim for compatibility
 export async function computeSsim(original: Buffer, candidate: Buffer): Promise<number> {
-  const result = await computeMetrics(original, candidate);
-  return result.mssim;
+  const base = await decodeForCompare(original);
+  const test = await decodeForCompare(candidate, base.width, base.height);
+  return classicSsim(base, test);
 }
@@ -1,15 +1,18 @@
-import { parentPort } from 'node:worker_threads';
+import { parentPort, workerData } from 'node:worker_threads';
 import { randomUUID } from 'node:crypto';
 import type { WorkerTask, WorkerResponse, ActionResult } from '../../shared/types';
 import { JobStateMachine } from '../core/jobs';
 import { runTask } from '../core/pipeline';
 import { toEffectiveSettings } from './types';
+import { configureQualityCache } from './qualityCache';
 import type { ImageTask, JobResult } from '../core/types';
 
 if (!parentPort) {
 	throw new Error('Worker must run in worker_threads context');
 }
 
+configureQualityCache(workerData?.qualityCacheDir ?? null);
+
 function mapResultToAction(result: JobResult): ActionResult {
 	return {
 		status: result.status === 'success' ? 'success' : result.status === 'skipped' ? 'skipped' : 'failed',
@@ -18,36 +21,66 @@ function mapResultToAction(result: JobResult): ActionResult {
 		originalBytes: result.originalBytes,
 		outputBytes: result.outputBytes,
 		bytesSaved: result.bytesSaved,
-		metadataAction: (result as any).metadataAction,
-		iccAction: (result as any).iccAction,
-		gpsAction: (result as any).gpsAction
+		quality: result.quality,
+		ssim: result.ssim,
+		metadataSavedBytes: result.metadata?.bytesRemoved,
+		metadataAction: result.metadata?.metadataAction,
+		metadataRemoved: result.metadata?.removedGroups,
+		iccAction: result.metadata?.iccAction,
+		gpsAction: result.metadata?.gpsAction
 	};
 }
 
-parentPort.on('message', async (task: WorkerTask) => {
+// Cancel requests arrive as messages between tasks; the pipeline checks the signal before it writes or deletes anything.
+let current: AbortController | null = null;
+
+parentPort.on('message', async (message: WorkerTask | { type: 'worker:cancel' }) => {
+	if ('type' in message) {
+		current?.abort();
+		return;
+	}
+
+	const task = message;
+	const controller = new AbortController();
+	current = controller;
 	try {
 		const effective = toEffectiveSettings(task.settings, task.mode);
 		const job: ImageTask = {
-			id: randomUUID(),
+			id: task.jobId ?? randomUUID(),
 			inputPath: task.inputPath,
 			settings: { ...effective, mode: task.mode },
 			backupDir: task.backupDir,
-			commonRoot: task.commonRoot
+			claimDir: task.claimDir,
+			commonRoot: task.commonRoot,
+			outputRoot: task.outputRoot,
+			dryRun: task.dryRun,
+			signal: controller.signal
 		};
 
 		const state = new JobStateMachine(job);
+		state.on('change', (event) => {
+			parentPort?.postMessage({ type: 'worker:job-event', payload: event });
+		});
 		const result = await runTask(job, state);
 
+		if (result.status === 'cancelled') {
+			const response: WorkerResponse = { ok: false, inputPath: task.inputPath, message: 'Cancelled', cancelled: true };
+			parentPort?.postMessage(response);
+			return;
+		}
+
 		const actions: any = {};
 		if (task.mode === 'convertWebp') {
 			actions.webp = mapResultToAction(result);
+		} else if (task.mode === 'convertAvif') {
+			actions.avif = mapResultToAction(result);
 		} else if (task.mode === 'responsive') {
 			actions.responsive = result.responsive;
 		} else {
 			actions.optimised = mapResultToAction(result);
 		}
 
-		const backups = result.backupPath ? [{ originalPath: task.inputPath, backupPath: result.backupPath }] : [];
+		const backups = result.backups ?? [];
 
 		const response: WorkerResponse = {
 			ok: true,
@@ -67,5 +100,7 @@ parentPort.on('message', async (task: WorkerTask) => {
 			message: error instanceof Error ? error.message : String(error)
 		};
 		parentPort?.postMessage(response);
+	} finally {
+		if (current === controller) current = null;
 	}
 });
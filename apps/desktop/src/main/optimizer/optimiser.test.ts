@@ -11,6 +11,11 @@ describe('resolveWebpOutputPath', () => {
     const output = resolveWebpOutputPath('/tmp/photos/dog.jpg', 'replace', false, false);
     expect(output).toBe('/tmp/photos/dog.webp');
   });
+
+  it('maps next to original when a replace is confirmed', () => {
+    expect(resolveWebpOutputPath('/tmp/photos/cat.png', 'subfolder', true, true)).toBe('/tmp/photos/cat.webp');
+    expect(resolveWebpOutputPath('/tmp/photos/cat.png', 'subfolder', true, false)).toBe('/tmp/photos/Optimized/cat.webp');
+  });
 });
 
 describe('getWebpQualityAttempts', () => {
@@ -0,0 +1,53 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { QualityCache, qualityCacheKey, type QualityCacheEntry } from './qualityCache';
+
+const entry = (size: number): QualityCacheEntry => ({
+	size,
+	metrics: { mssim: 0.99, edgeSsim: 0.98, bandingRisk: 0, score: 0.99, metric: 'ssim' }
+});
+
+const key = (quality: number, settings: Record<string, unknown> = { metric: 'ssim' }) =>
+	qualityCacheKey({ contentHash: 'abc', encoder: 'mozjpeg', quality, settings });
+
+describe('quality cache', () => {
+	let dir: string;
+
+	beforeEach(async () => {
+		dir = await fs.mkdtemp(path.join(os.tmpdir(), 'quality-cache-'));
+	});
+
+	afterEach(async () => {
+		await fs.rm(dir, { recursive: true, force: true });
+	});
+
+	it('keys on every part and ignores settings order', () => {
+		expect(key(80)).not.toBe(key(81));
+		expect(key(80, { metric: 'ssim' })).not.toBe(key(80, { metric: 'ms-ssim' }));
+		expect(key(80, { metric: 'ssim', effort: 4 })).toBe(key(80, { effort: 4, metric: 'ssim' }));
+	});
+
+	it('round-trips entries across instances sharing a directory', async () => {
+		await new QualityCache(dir).set(key(80), entry(1234));
+
+		expect(await new QualityCache(dir).get(key(80))).toEqual(entry(1234));
+		expect(await new QualityCache(dir).get(key(81))).toBeNull();
+	});
+
+	it('evicts the least recently used entries past the limit', async () => {
+		const cache = new QualityCache(dir, { maxEntries: 4, maxBytes: 1024 * 1024 });
+		for (let quality = 1; quality <= 5; quality++) {
+			await cache.set(key(quality), entry(quality));
+		}
+		// Reading the oldest entry makes it the most recently used.
+		await cache.get(key(1));
+
+		expect(await cache.prune()).toBe(2);
+		expect(await cache.get(key(1))).not.toBeNull();
+		expect(await cache.get(key(2))).toBeNull();
+		expect(await cache.get(key(3))).toBeNull();
+		expect(await cache.get(key(5))).not.toBeNull();
+	});
+});
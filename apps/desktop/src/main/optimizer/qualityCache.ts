@@ -0,0 +1,167 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { Logger } from '../logger';
+import type { MetricResult } from './metrics';
+
+const log = new Logger('QualityCache');
+
+const CACHE_VERSION = 1;
+const PRUNE_EVERY_WRITES = 100;
+
+export interface QualityCacheEntry {
+	size: number;
+	metrics: MetricResult;
+}
+
+export interface QualityCacheLimits {
+	maxEntries: number;
+	maxBytes: number;
+}
+
+export interface QualityCacheKey {
+	contentHash: string;
+	encoder: string;
+	quality: number;
+	/** Every setting besides quality that changes the encoded bytes or how they are scored. */
+	settings: Record<string, unknown>;
+}
+
+export const DEFAULT_QUALITY_CACHE_LIMITS: QualityCacheLimits = {
+	maxEntries: 20000,
+	maxBytes: 20 * 1024 * 1024
+};
+
+export function hashContent(buffer: Buffer): string {
+	return createHash('sha256').update(buffer).digest('hex');
+}
+
+export function qualityCacheKey(key: QualityCacheKey): string {
+	const settings = Object.keys(key.settings).sort().map((name) => [name, key.settings[name]]);
+	return createHash('sha256')
+		.update(JSON.stringify([CACHE_VERSION, key.contentHash, key.encoder, key.quality, settings]))
+		.digest('hex');
+}
+
+/**
+ * Encoded size and metrics per (content, encoder, quality, settings), so repeated searches over
+ * unchanged images skip the encoder. Each entry is its own file, written atomically, so the
+ * optimise workers can share the directory without locking. File mtimes record last use and
+ * the least recently used entries are evicted once a limit is exceeded.
+ */
+export class QualityCache {
+	private writes = 0;
+	private clock = 0;
+
+	constructor(
+		private readonly dir: string,
+		private readonly limits: QualityCacheLimits = DEFAULT_QUALITY_CACHE_LIMITS
+	) {}
+
+	async get(key: string): Promise<QualityCacheEntry | null> {
+		const file = this.entryPath(key);
+		try {
+			const parsed = JSON.parse(await fs.readFile(file, 'utf8'));
+			if (parsed?.version !== CACHE_VERSION || typeof parsed.size !== 'number' || !parsed.metrics) {
+				return null;
+			}
+			await this.touch(file);
+			return { size: parsed.size, metrics: parsed.metrics };
+		} catch {
+			return null;
+		}
+	}
+
+	async set(key: string, entry: QualityCacheEntry): Promise<void> {
+		const file = this.entryPath(key);
+		const tmp = `${file}.${process.pid}.${Math.random().toString(16).slice(2)}.tmp`;
+		try {
+			await fs.mkdir(path.dirname(file), { recursive: true });
+			await fs.writeFile(tmp, JSON.stringify({ version: CACHE_VERSION, ...entry }));
+			await fs.rename(tmp, file);
+			await this.touch(file);
+		} catch (error) {
+			await fs.rm(tmp, { force: true }).catch(() => undefined);
+			log.warn('Failed to write quality cache entry', error);
+			return;
+		}
+
+		this.writes += 1;
+		if (this.writes % PRUNE_EVERY_WRITES === 0) {
+			await this.prune();
+		}
+	}
+
+	/** Evicts least recently used entries until both limits hold with 10% headroom. */
+	async prune(): Promise<number> {
+		const entries = await this.listEntries();
+		let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+		if (entries.length <= this.limits.maxEntries && totalBytes <= this.limits.maxBytes) {
+			return 0;
+		}
+
+		const targetEntries = Math.floor(this.limits.maxEntries * 0.9);
+		const targetBytes = Math.floor(this.limits.maxBytes * 0.9);
+		entries.sort((a, b) => a.lastUsed - b.lastUsed);
+
+		let remaining = entries.length;
+		let removed = 0;
+		for (const entry of entries) {
+			if (remaining <= targetEntries && totalBytes <= targetBytes) break;
+			await fs.rm(entry.file, { force: true }).catch(() => undefined);
+			remaining -= 1;
+			totalBytes -= entry.size;
+			removed += 1;
+		}
+		log.info(`Evicted ${removed} quality cache entries`);
+		return removed;
+	}
+
+	async clear(): Promise<void> {
+		await fs.rm(this.dir, { recursive: true, force: true });
+	}
+
+	private entryPath(key: string): string {
+		return path.join(this.dir, key.slice(0, 2), `${key}.json`);
+	}
+
+	private async touch(file: string): Promise<void> {
+		// Strictly increasing within a process, so entries used in the same millisecond still order.
+		this.clock = Math.max(Date.now(), this.clock + 1);
+		const now = new Date(this.clock);
+		await fs.utimes(file, now, now).catch(() => undefined);
+	}
+
+	private async listEntries(): Promise<Array<{ file: string; size: number; lastUsed: number }>> {
+		const shards = await fs.readdir(this.dir).catch(() => [] as string[]);
+		const entries: Array<{ file: string; size: number; lastUsed: number }> = [];
+		for (const shard of shards) {
+			const shardDir = path.join(this.dir, shard);
+			const names = await fs.readdir(shardDir).catch(() => [] as string[]);
+			for (const name of names) {
+				if (!name.endsWith('.json')) continue;
+				const file = path.join(shardDir, name);
+				const stat = await fs.stat(file).catch(() => null);
+				if (stat) entries.push({ file, size: stat.size, lastUsed: stat.mtimeMs });
+			}
+		}
+		return entries;
+	}
+}
+
+let sharedDir: string | null = null;
+let shared: QualityCache | null = null;
+
+/** Set once per process (main and each optimise worker); null disables caching. */
+export function configureQualityCache(dir: string | null): void {
+	sharedDir = dir;
+	shared = dir ? new QualityCache(dir) : null;
+}
+
+export function getQualityCacheDir(): string | null {
+	return sharedDir;
+}
+
+export function getQualityCache(): QualityCache | null {
+	return shared;
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RESPONSIVE_SETTINGS, type ResponsiveDerivative } from '../../shared/types';
+import { buildDerivativePlan, generateHtmlSnippet } from './responsive';
+
+const config = { ...DEFAULT_RESPONSIVE_SETTINGS, widths: [320, 640], formatPolicy: 'avif-webp-fallback' as const };
+
+describe('buildDerivativePlan', () => {
+	it('adds an AVIF tier ahead of WebP and the original format', async () => {
+		const plan = await buildDerivativePlan('/photos/cat.png', config, 1000);
+		expect(plan.map((item) => `${item.label}:${item.format}`)).toEqual([
+			'320w:avif', '320w:webp', '320w:png',
+			'640w:avif', '640w:webp', '640w:png'
+		]);
+	});
+});
+
+describe('generateHtmlSnippet', () => {
+	it('emits image/avif before image/webp in <picture>', () => {
+		const derivatives: ResponsiveDerivative[] = (['avif', 'webp', 'jpeg'] as const).map((format) => ({
+			width: 640,
+			dpr: null,
+			format,
+			outputPath: `/out/cat-640w.${format === 'jpeg' ? 'jpg' : format}`,
+			size: 100
+		}));
+
+		const { picture } = generateHtmlSnippet('/photos/cat.jpg', derivatives, config, 1000, 500);
+		const avifIndex = picture.indexOf('type="image/avif"');
+		const webpIndex = picture.indexOf('type="image/webp"');
+		expect(avifIndex).toBeGreaterThan(-1);
+		expect(webpIndex).toBeGreaterThan(avifIndex);
+		expect(picture).toContain('src="cat-640w.jpg"');
+	});
+});
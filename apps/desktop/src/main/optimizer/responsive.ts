@@ -24,7 +24,8 @@ export async function buildDerivativePlan(
 
 	if (config.formatPolicy === 'webp-only') {
 		formats.push('webp');
-	} else if (config.formatPolicy === 'webp-fallback') {
+	} else if (config.formatPolicy === 'webp-fallback' || config.formatPolicy === 'avif-webp-fallback') {
+		if (config.formatPolicy === 'avif-webp-fallback') formats.push('avif');
 		formats.push('webp');
 		const ext = path.extname(imagePath).toLowerCase();
 		if (ext === '.png') formats.push('png');
@@ -80,11 +81,25 @@ export async function buildDerivativePlan(
 	return plans;
 }
 
+function encodeDerivative(pipeline: sharp.Sharp, format: SupportedImageType, settings: TaskSettings): Promise<Buffer> {
+	switch (format) {
+		case 'avif':
+			return pipeline.avif({ quality: settings.avifQuality, effort: settings.avifEffort }).toBuffer();
+		case 'webp':
+			return pipeline.webp({ quality: settings.webpQuality, effort: settings.webpEffort }).toBuffer();
+		case 'jpeg':
+			return pipeline.jpeg({ quality: settings.jpegQuality, mozjpeg: true }).toBuffer();
+		default:
+			return pipeline.png({ compressionLevel: 9 }).toBuffer();
+	}
+}
+
 export async function renderDerivative(
 	inputPath: string,
 	plan: DerivativePlan,
 	settings: TaskSettings,
-	outputFolder: string
+	outputFolder: string,
+	source: string | Buffer = inputPath
 ): Promise<ResponsiveDerivative> {
 	const baseName = path.basename(inputPath, path.extname(inputPath));
 	const slugSafeName = baseName.replace(/[^a-z0-9]/gi, '-').toLowerCase();
@@ -96,7 +111,7 @@ export async function renderDerivative(
 
 	await fs.mkdir(path.dirname(targetPath), { recursive: true });
 
-	const pipeline = sharp(inputPath);
+	const pipeline = sharp(source);
 
 	if (plan.width) {
 		pipeline.resize(plan.width, null, {
@@ -105,11 +120,7 @@ export async function renderDerivative(
 		});
 	}
 
-	const buffer = await (plan.format === 'webp'
-		? pipeline.webp({ quality: settings.webpQuality, effort: settings.webpEffort }).toBuffer()
-		: plan.format === 'jpeg'
-			? pipeline.jpeg({ quality: settings.jpegQuality, mozjpeg: true }).toBuffer()
-			: pipeline.png({ compressionLevel: 9 }).toBuffer());
+	const buffer = await encodeDerivative(pipeline, plan.format, settings);
 
 	await fs.writeFile(targetPath, buffer);
 
@@ -156,14 +167,20 @@ export function generateHtmlSnippet(
 />`;
 
 	let pictureSnippet = '';
-	if (config.formatPolicy === 'webp-fallback') {
-		const webpSrcset = getSrcset('webp');
-		const fallbackFormat = derivatives.find(d => d.format !== 'webp')?.format;
+	if (config.formatPolicy === 'webp-fallback' || config.formatPolicy === 'avif-webp-fallback') {
+		const isModern = (format: SupportedImageType) => format === 'webp' || format === 'avif';
+		const fallbackFormat = derivatives.find(d => !isModern(d.format))?.format;
 		const fallbackSrcset = getSrcset(fallbackFormat);
-		const fallbackSrc = derivatives.find(d => d.format !== 'webp' && d.width === defaultDerivative?.width)?.outputPath || defaultSrc;
+		const fallbackSrc = derivatives.find(d => !isModern(d.format) && d.width === defaultDerivative?.width)?.outputPath || defaultSrc;
+
+		// Browsers pick the first <source> they support, so AVIF must precede WebP.
+		const sources = (['avif', 'webp'] as const)
+			.filter(format => derivatives.some(d => d.format === format))
+			.map(format => `  <source type="image/${format}" srcset="${getSrcset(format)}"${sizesAttr}>`)
+			.join('\n');
 
 		pictureSnippet = `<picture>
-  <source type="image/webp" srcset="${webpSrcset}"${sizesAttr}>
+${sources}
   <img
     src="${path.basename(fallbackSrc)}"
     srcset="${fallbackSrcset}"${sizesAttr}
@@ -0,0 +1,46 @@
+import sharp from 'sharp';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SIZE_BUDGET } from '../../shared/types';
+import { fitToBudget, resolveBudgetBytes } from './sizeBudget';
+
+// Stand-in for the bundled encoders, which are macOS binaries.
+const encodeJpeg = (buffer: Buffer, quality: number) => sharp(buffer).jpeg({ quality }).toBuffer();
+
+async function noisyImage(size: number): Promise<Buffer> {
+	const pixels = Buffer.alloc(size * size * 3);
+	for (let i = 0; i < pixels.length; i++) pixels[i] = (i * 7919) % 251;
+	return sharp(pixels, { raw: { width: size, height: size, channels: 3 } }).png().toBuffer();
+}
+
+describe('fitToBudget', () => {
+	it('resolves percentage budgets against the original size', () => {
+		expect(resolveBudgetBytes({ ...DEFAULT_SIZE_BUDGET, mode: 'percent', percent: 25 }, 1000)).toBe(250);
+		expect(resolveBudgetBytes(DEFAULT_SIZE_BUDGET, 1000)).toBe(200 * 1024);
+	});
+
+	it('picks the highest quality that fits', async () => {
+		const source = await noisyImage(96);
+		const target = (await encodeJpeg(source, 60)).length;
+
+		const fitted = await fitToBudget(source, target, { ...DEFAULT_SIZE_BUDGET, minSsim: 0 }, 'thorough', encodeJpeg);
+
+		expect(fitted!.buffer.length).toBeLessThanOrEqual(target);
+		expect(fitted!.outcome.quality).toBeGreaterThanOrEqual(55);
+		expect(fitted!.outcome.scale).toBe(1);
+		expect(fitted!.outcome.warning).toBeUndefined();
+	});
+
+	it('downscales when allowed and warns below the SSIM floor', async () => {
+		const source = await noisyImage(256);
+		const target = Math.floor((await encodeJpeg(source, 10)).length / 2);
+		const budget = { ...DEFAULT_SIZE_BUDGET, minSsim: 0.99 };
+
+		expect(await fitToBudget(source, target, budget, 'fast', encodeJpeg)).toBeNull();
+
+		const fitted = await fitToBudget(source, target, { ...budget, allowDownscale: true, minScale: 20 }, 'fast', encodeJpeg);
+		expect(fitted!.buffer.length).toBeLessThanOrEqual(target);
+		expect(fitted!.outcome.scale).toBeLessThan(1);
+		expect((await sharp(fitted!.buffer).metadata()).width).toBeLessThan(256);
+		expect(fitted!.outcome.warning).toMatch(/^Size budget: .*below the 0.99 minimum/);
+	});
+});
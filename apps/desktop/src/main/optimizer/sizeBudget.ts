@@ -0,0 +1,110 @@
+import sharp from 'sharp';
+import type { SizeBudgetOutcome, SizeBudgetSettings } from '../../shared/types';
+import type { EffectiveSettings } from './types';
+import { measure } from './metrics';
+import { binarySearchQuality, searchIterations } from './smartSearch';
+
+export interface BudgetResult {
+	buffer: Buffer;
+	outcome: SizeBudgetOutcome;
+}
+
+/** Encodes the (possibly downscaled) source at a quality, including anything written after encoding. */
+export type BudgetEncoder = (buffer: Buffer, quality: number) => Promise<Buffer>;
+
+interface Probe {
+	quality: number;
+	buffer: Buffer;
+}
+
+const MIN_QUALITY = 10;
+const MAX_QUALITY = 95;
+const MAX_DOWNSCALE_ROUNDS = 4;
+// Aim slightly under the budget when picking a scale; file size does not shrink exactly with area.
+const SCALE_HEADROOM = 0.95;
+
+export function resolveBudgetBytes(budget: SizeBudgetSettings, originalBytes: number): number {
+	if (budget.mode === 'percent') {
+		return Math.floor(originalBytes * budget.percent / 100);
+	}
+	return Math.floor(budget.maxBytes);
+}
+
+export function formatBudgetBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+/**
+ * Finds the highest quality whose output fits `targetBytes`, using the same bisection as the
+ * smart quality search. When no quality fits and downscaling is allowed, the source is shrunk
+ * (never below `minScale`) and the search repeats. The output is compared against the full-size
+ * source, so the SSIM also reflects detail lost to downscaling.
+ *
+ * Returns null when the budget cannot be reached at all; the caller keeps its regular output.
+ * Aborting `signal` rejects before the next probe.
+ */
+export async function fitToBudget(
+	source: Buffer,
+	targetBytes: number,
+	budget: SizeBudgetSettings,
+	speed: EffectiveSettings['optimizationSpeed'],
+	encode: BudgetEncoder,
+	signal?: AbortSignal
+): Promise<BudgetResult | null> {
+	const { width } = await sharp(source).metadata();
+	const minScale = Math.min(1, Math.max(0.01, budget.minScale / 100));
+	let scale = 1;
+	let input = source;
+	let fitted: Probe | null = null;
+
+	for (let round = 0; round <= MAX_DOWNSCALE_ROUNDS; round++) {
+		let smallestBytes = Infinity;
+		fitted = await binarySearchQuality<Probe>(
+			{ min: MIN_QUALITY, max: MAX_QUALITY },
+			searchIterations(speed),
+			'higher',
+			async (quality) => {
+				// Checked outside the try: a cancelled job must stop, not read as a failed probe.
+				if (signal?.aborted) throw new Error('Cancelled');
+				try {
+					const probe = { quality, buffer: await encode(input, quality) };
+					smallestBytes = Math.min(smallestBytes, probe.buffer.length);
+					return probe;
+				} catch {
+					return null;
+				}
+			},
+			(probe) => probe.buffer.length <= targetBytes
+		);
+
+		if (fitted || !budget.allowDownscale || !width || scale <= minScale) break;
+
+		if (!Number.isFinite(smallestBytes) || smallestBytes === 0) break;
+		scale = Math.max(minScale, scale * Math.sqrt(targetBytes / smallestBytes) * SCALE_HEADROOM);
+		// Downscaled copies stay lossless so the encoder only compresses once.
+		input = await sharp(source)
+			.resize({ width: Math.max(1, Math.round(width * scale)), kernel: 'lanczos3' })
+			.png({ compressionLevel: 1 })
+			.toBuffer();
+	}
+
+	if (!fitted) {
+		return null;
+	}
+
+	const mssim = await measure('ssim', source, fitted.buffer);
+	const outcome: SizeBudgetOutcome = {
+		targetBytes,
+		met: true,
+		quality: fitted.quality,
+		scale: Number(scale.toFixed(3)),
+		ssim: mssim
+	};
+	if (mssim < budget.minSsim) {
+		const scaled = scale < 1 ? ` at ${Math.round(scale * 100)}% size` : '';
+		outcome.warning = `Size budget: fitting ${formatBudgetBytes(targetBytes)} needed q${fitted.quality}${scaled}; SSIM ${mssim.toFixed(3)} is below the ${budget.minSsim} minimum`;
+	}
+	return { buffer: fitted.buffer, outcome };
+}
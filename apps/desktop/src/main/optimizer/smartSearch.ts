@@ -1,57 +1,112 @@
-import { ActionDecision, EffectiveSettings } from './types';
+import { EffectiveSettings } from './types';
 import { analyzeImage, ImageFeatures } from './analysis';
-import { computeMetrics, MetricResult } from './metrics/ssim';
+import { computeMetrics, getMetric, MetricResult } from './metrics';
 import { encodeMozjpeg } from './tools/mozjpeg';
 import { encodeCwebp } from './tools/cwebp';
+import { getQualityCache, hashContent, qualityCacheKey } from './qualityCache';
 import path from 'path';
 import os from 'os';
 import fs from 'fs/promises';
 
-interface SearchResult {
+export interface SearchResult {
 	quality: number;
 	metrics: MetricResult;
 	buffer: Buffer;
 }
 
-const TARGET_THRESHOLDS = {
-	'visually-lossless': 0.999,
-	'high': 0.995,
-	'balanced': 0.99,
-	'small': 0.98,
-	'custom': 0.99 // Default for custom if not specified, usually we use qualityGuardrail
-};
+/** A search probe; `buffer` is absent when the size and metrics came from the quality cache. */
+interface QualityProbe {
+	quality: number;
+	metrics: MetricResult;
+	size: number;
+	buffer?: Buffer;
+}
+
+export type SearchSettings = Pick<
+	EffectiveSettings,
+	'smartTarget' | 'qualityGuardrail' | 'qualityMetric' | 'optimizationSpeed' | 'keepMetadata' | 'webpEffort' | 'webpNearLossless'
+>;
 
+/**
+ * Bisects for the lowest quality that meets the smart target. Aborting `signal` kills the probe
+ * in flight and rejects before the next one starts.
+ */
 export async function findOptimalQuality(
 	inputPath: string,
 	originalBuffer: Buffer,
 	features: ImageFeatures,
-	settings: EffectiveSettings,
-	format: 'jpeg' | 'webp'
+	settings: SearchSettings,
+	format: 'jpeg' | 'webp',
+	signal?: AbortSignal
 ): Promise<SearchResult | null> {
-	const targetThreshold = settings.smartTarget === 'custom'
-		? (settings.qualityGuardrail / 100)
-		: TARGET_THRESHOLDS[settings.smartTarget];
+	const targetThreshold = getMetric(settings.qualityMetric).threshold(settings.smartTarget, settings.qualityGuardrail);
 
 	let min = 10;
-	let max = 95; // Avoid 100 as it's often not worth the size
-	let best: SearchResult | null = null;
+	const max = 95; // Avoid 100 as it's often not worth the size
 
-	const iterations = settings.optimizationSpeed === 'fast' ? 4 : (settings.optimizationSpeed === 'balanced' ? 6 : 8);
+	const iterations = searchIterations(settings.optimizationSpeed);
 
 	// Bias for photos vs graphics
 	if (!features.isPhoto && format === 'jpeg') {
 		min = 70; // Graphics need higher quality in JPEG to avoid artifacts
 	}
 
+	const contentHash = getQualityCache() ? hashContent(originalBuffer) : '';
+	const best = await binarySearchQuality<QualityProbe>(
+		{ min, max },
+		iterations,
+		'lower',
+		(q) => {
+			if (signal?.aborted) throw new Error('Cancelled');
+			return probeQuality(inputPath, originalBuffer, contentHash, q, format, settings, signal);
+		},
+		(candidate) => candidate.metrics.score >= targetThreshold && candidate.metrics.bandingRisk < 0.05
+	);
+
+	if (signal?.aborted) throw new Error('Cancelled');
+	if (!best) {
+		return null;
+	}
+	if (best.buffer) {
+		return { quality: best.quality, metrics: best.metrics, buffer: best.buffer };
+	}
+
+	// Cache hit: only the chosen quality has to be encoded again.
+	const buffer = await encodeCandidate(inputPath, best.quality, format, settings, signal).catch(() => null);
+	return buffer ? { quality: best.quality, metrics: best.metrics, buffer } : null;
+}
+
+export function searchIterations(speed: EffectiveSettings['optimizationSpeed']): number {
+	return speed === 'fast' ? 4 : (speed === 'balanced' ? 6 : 8);
+}
+
+/**
+ * Bisects the quality range. After an accepted probe the search continues towards `prefer`
+ * ('lower' for the smallest acceptable file, 'higher' for the best quality that still passes);
+ * the last accepted probe is returned.
+ */
+export async function binarySearchQuality<T>(
+	range: { min: number; max: number },
+	iterations: number,
+	prefer: 'lower' | 'higher',
+	probe: (quality: number) => Promise<T | null>,
+	accept: (candidate: T) => boolean
+): Promise<T | null> {
+	let { min, max } = range;
+	let best: T | null = null;
+
 	for (let i = 0; i < iterations; i++) {
 		const q = Math.floor((min + max) / 2);
-		const candidate = await encodeAndMeasure(inputPath, originalBuffer, q, format, settings);
+		const candidate = await probe(q);
+		const accepted = candidate !== null && accept(candidate);
 
-		if (candidate && candidate.metrics.mssim >= targetThreshold && candidate.metrics.bandingRisk < 0.05) {
+		if (accepted) {
 			best = candidate;
-			max = q - 1; // Try lower quality
+		}
+		if (accepted === (prefer === 'lower')) {
+			max = q - 1;
 		} else {
-			min = q + 1; // Need higher quality
+			min = q + 1;
 		}
 
 		if (min > max) break;
@@ -60,28 +115,108 @@ export async function findOptimalQuality(
 	return best;
 }
 
-async function encodeAndMeasure(
+/**
+ * Runs the quality search on an in-memory buffer (e.g. after metadata/preset processing).
+ * The encoders need a file on disk, so the buffer is staged in a temp file for the search.
+ */
+export async function findOptimalQualityForBuffer(
+	buffer: Buffer,
+	settings: SearchSettings,
+	format: 'jpeg' | 'webp',
+	signal?: AbortSignal
+): Promise<SearchResult | null> {
+	const staged = path.join(os.tmpdir(), `smart-src-${Date.now()}-${Math.random().toString(16).slice(2)}`);
+	try {
+		await fs.writeFile(staged, buffer);
+		const features = await analyzeImage(buffer);
+		return await findOptimalQuality(staged, buffer, features, settings, format, signal);
+	} finally {
+		try { await fs.unlink(staged); } catch { }
+	}
+}
+
+/**
+ * Size and metrics for one quality, read from the quality cache when this exact source was
+ * already encoded with the same encoder and settings; otherwise encoded and recorded.
+ */
+async function probeQuality(
 	inputPath: string,
 	originalBuffer: Buffer,
+	contentHash: string,
 	quality: number,
 	format: 'jpeg' | 'webp',
-	settings: EffectiveSettings
-): Promise<SearchResult | null> {
+	settings: SearchSettings,
+	signal?: AbortSignal
+): Promise<QualityProbe | null> {
+	const cache = getQualityCache();
+	const key = cache
+		? qualityCacheKey({
+			contentHash,
+			encoder: format === 'jpeg' ? 'mozjpeg' : 'cwebp',
+			quality,
+			settings: format === 'jpeg'
+				? { metric: settings.qualityMetric, keepMetadata: settings.keepMetadata }
+				: {
+					metric: settings.qualityMetric,
+					keepMetadata: settings.keepMetadata,
+					effort: settings.webpEffort,
+					nearLossless: settings.webpNearLossless
+				}
+		})
+		: null;
+
+	const cached = cache && key ? await cache.get(key) : null;
+	if (cached) {
+		return { quality, ...cached };
+	}
+
+	const result = await encodeAndMeasure(inputPath, originalBuffer, quality, format, settings, signal);
+	if (!result) {
+		return null;
+	}
+	if (cache && key) {
+		await cache.set(key, { size: result.buffer.length, metrics: result.metrics });
+	}
+	return { ...result, size: result.buffer.length };
+}
+
+async function encodeCandidate(
+	inputPath: string,
+	quality: number,
+	format: 'jpeg' | 'webp',
+	settings: SearchSettings,
+	signal?: AbortSignal
+): Promise<Buffer> {
 	const out = path.join(os.tmpdir(), `smart-${Date.now()}-${Math.random().toString(16).slice(2)}.${format}`);
 	try {
 		if (format === 'jpeg') {
-			await encodeMozjpeg(inputPath, out, { quality, keepMetadata: settings.keepMetadata });
+			await encodeMozjpeg(inputPath, out, { quality, keepMetadata: settings.keepMetadata, signal });
 		} else {
 			await encodeCwebp(inputPath, out, {
 				quality,
 				effort: settings.webpEffort,
 				nearLossless: settings.webpNearLossless,
-				keepMetadata: settings.keepMetadata
+				keepMetadata: settings.keepMetadata,
+				signal
 			});
 		}
+		return await fs.readFile(out);
+	} finally {
+		try { await fs.unlink(out); } catch { }
+	}
+}
 
-		const candidateBuffer = await fs.readFile(out);
-		const metrics = await computeMetrics(originalBuffer, candidateBuffer);
+async function encodeAndMeasure(
+	inputPath: string,
+	originalBuffer: Buffer,
+	quality: number,
+	format: 'jpeg' | 'webp',
+	settings: SearchSettings,
+	signal?: AbortSignal
+): Promise<SearchResult | null> {
+	try {
+		const candidateBuffer = await encodeCandidate(inputPath, quality, format, settings, signal);
+		const metrics = await computeMetrics(originalBuffer, candidateBuffer, settings.qualityMetric);
 
 		return {
 			quality,
@@ -90,7 +225,5 @@ async function encodeAndMeasure(
 		};
 	} catch (e) {
 		return null;
-	} finally {
-		try { await fs.unlink(out); } catch { }
 	}
 }
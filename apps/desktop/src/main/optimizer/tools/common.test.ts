@@ -0,0 +1,32 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { resolveToolPath } from './common';
+
+describe('resolveToolPath', () => {
+  const env = { CRUNCH_BIN_DIR: process.env.CRUNCH_BIN_DIR, PATH: process.env.PATH };
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(env)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  it.skipIf(process.platform === 'darwin')('ignores the bundled macOS tools on other platforms', async () => {
+    // resources/bin holds macOS builds of cjpeg; it must not be picked up here.
+    delete process.env.CRUNCH_BIN_DIR;
+    process.env.PATH = '';
+    await expect(resolveToolPath('cjpeg')).rejects.toThrow('Set CRUNCH_BIN_DIR or add it to PATH');
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'crunch-bin-'));
+    await fs.writeFile(path.join(dir, 'cjpeg'), '#!/bin/sh\n', { mode: 0o755 });
+    process.env.CRUNCH_BIN_DIR = dir;
+    try {
+      expect(await resolveToolPath('cjpeg')).toBe(path.join(dir, 'cjpeg'));
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
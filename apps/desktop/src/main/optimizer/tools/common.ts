@@ -16,10 +16,18 @@ export class ToolError extends Error {
 }
 
 function candidateBinDirs(): string[] {
+  // CRUNCH_BIN_DIR lets headless/CI installs point at their own builds of the tools.
+  const fromEnv = process.env.CRUNCH_BIN_DIR || undefined;
+  const fromSystemPath = (process.env.PATH ?? '').split(path.delimiter).filter(Boolean);
+  // The bundled resources/bin tools are macOS builds; elsewhere they would only fail to exec.
+  if (process.platform !== 'darwin') {
+    return [fromEnv, ...fromSystemPath].filter((d): d is string => d !== undefined);
+  }
   const fromCwd = path.join(process.cwd(), 'resources', 'bin');
   const fromAppPath = (process as any).resourcesPath ? path.join((process as any).resourcesPath, 'bin') : undefined;
   const fromParent = path.join(process.cwd(), '..', '..', 'resources', 'bin');
-  return [fromCwd, fromAppPath, fromParent].filter((d): d is string => d !== undefined);
+  const fromPackage = path.join(__dirname, '..', '..', '..', '..', 'resources', 'bin');
+  return [fromEnv, fromCwd, fromAppPath, fromParent, fromPackage, ...fromSystemPath].filter((d): d is string => d !== undefined);
 }
 
 export async function resolveToolPath(binary: string): Promise<string> {
@@ -31,7 +39,7 @@ export async function resolveToolPath(binary: string): Promise<string> {
     const full = path.join(dir, binary);
     checked.push(full);
     try {
-      await fs.access(full);
+      await fs.access(full, fs.constants.X_OK);
       log.info(`Resolved tool ${binary} at ${full}`);
       toolPathCache.set(binary, full);
       return full;
@@ -41,16 +49,23 @@ export async function resolveToolPath(binary: string): Promise<string> {
   }
 
   log.error(`Failed to resolve tool ${binary}. Checked: ${checked.join(', ')}`);
-  throw new Error(`Missing optimizer binary: ${binary}. Expected under resources/bin.`);
+  const hint = process.platform === 'darwin' ? 'Expected under resources/bin.' : 'Set CRUNCH_BIN_DIR or add it to PATH.';
+  throw new Error(`Missing optimizer binary: ${binary}. ${hint}`);
 }
 
-export async function runTool(binaryPath: string, args: string[]): Promise<void> {
+/** Runs a tool to completion; aborting `signal` kills the process and rejects. */
+export async function runTool(binaryPath: string, args: string[], signal?: AbortSignal): Promise<void> {
   log.info(`Running tool: ${binaryPath} ${args.join(' ')}`);
   await new Promise<void>((resolve, reject) => {
-    execFile(binaryPath, args, { maxBuffer: 1024 * 1024 * 8 }, (error: Error | null, stdout: string, stderr: string) => {
+    execFile(binaryPath, args, { maxBuffer: 1024 * 1024 * 8, signal }, (error: Error | null, stdout: string, stderr: string) => {
       if (stdout) log.debug(`Tool stdout: ${stdout.trim()}`);
       if (stderr) log.debug(`Tool stderr: ${stderr.trim()}`);
 
+      if (error && signal?.aborted) {
+        log.info(`Tool cancelled: ${path.basename(binaryPath)}`);
+        reject(new ToolError('Cancelled'));
+        return;
+      }
       if (error) {
         const detail = stderr?.trim();
         const exitCode = (error as any).code as number | undefined;
@@ -5,6 +5,7 @@ interface CwebpOptions {
   effort: number;
   nearLossless: boolean;
   keepMetadata: boolean;
+  signal?: AbortSignal;
 }
 
 export async function encodeCwebp(inputPath: string, outputPath: string, options: CwebpOptions): Promise<void> {
@@ -26,5 +27,5 @@ export async function encodeCwebp(inputPath: string, outputPath: string, options
 
   args.push(inputPath, '-o', outputPath);
 
-  await runTool(cwebp, args);
+  await runTool(cwebp, args, options.signal);
 }
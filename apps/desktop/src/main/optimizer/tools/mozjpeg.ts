@@ -7,6 +7,7 @@ import { ensureParentDir, resolveToolPath, runTool } from './common';
 interface MozjpegOptions {
   quality: number;
   keepMetadata: boolean;
+  signal?: AbortSignal;
 }
 
 export async function encodeMozjpeg(inputPath: string, outputPath: string, options: MozjpegOptions): Promise<void> {
@@ -38,7 +39,7 @@ export async function encodeMozjpeg(inputPath: string, outputPath: string, optio
       tmpPpm
     ];
 
-    await runTool(cjpeg, args);
+    await runTool(cjpeg, args, options.signal);
   } finally {
     // Clean up temp PPM
     await fs.unlink(tmpPpm).catch(() => { });
@@ -2,6 +2,7 @@ import { ensureParentDir, resolveToolPath, runTool } from './common';
 
 interface OxipngOptions {
   keepMetadata: boolean;
+  signal?: AbortSignal;
 }
 
 export async function runOxipng(inputPath: string, outputPath: string, options: OxipngOptions): Promise<void> {
@@ -16,5 +17,5 @@ export async function runOxipng(inputPath: string, outputPath: string, options:
 
   args.push(inputPath);
 
-  await runTool(oxipng, args);
+  await runTool(oxipng, args, options.signal);
 }
@@ -7,6 +7,7 @@ interface PngquantOptions {
   minQuality: number;
   maxQuality: number;
   keepMetadata: boolean;
+  signal?: AbortSignal;
 }
 
 export async function runPngquant(inputPath: string, outputPath: string, options: PngquantOptions): Promise<void> {
@@ -31,7 +32,7 @@ export async function runPngquant(inputPath: string, outputPath: string, options
   args.push(inputPath);
 
   try {
-    await runTool(pngquant, args);
+    await runTool(pngquant, args, options.signal);
   } catch (error) {
     // pngquant exit code 99 = --skip-if-larger determined output is larger than input.
     // This is expected behaviour, not a real error.
@@ -1,5 +1,5 @@
-import { DEFAULT_RESPONSIVE_SETTINGS } from '../../shared/types';
-import type { ExportPreset, OptimiseSettings, OutputMode, ResponsiveResult, ResponsiveSettings, RunMode, SupportedImageType, MetadataCleanupSettings } from '../../shared/types';
+import { DEFAULT_METADATA_INJECTION, DEFAULT_RESPONSIVE_SETTINGS, DEFAULT_SIZE_BUDGET, DEFAULT_TRANSFORM, DEFAULT_WATERMARK } from '../../shared/types';
+import type { QualityMetric, ExportPreset, OptimiseSettings, OutputMode, ResponsiveResult, ResponsiveSettings, RunMode, SupportedImageType, MetadataCleanupSettings, MetadataInjectionSettings, SizeBudgetSettings, TransformSettings, WatermarkSettings } from '../../shared/types';
 
 export const JPEG_AUTO_QUALITIES = [88, 84, 80, 76, 72] as const;
 export const WEBP_AUTO_QUALITIES = [82, 78, 74, 70] as const;
@@ -25,13 +25,20 @@ export interface EffectiveSettings {
   webpQuality: number;
   webpNearLossless: boolean;
   webpEffort: number;
+  avifQuality: number;
+  avifEffort: number;
   qualityGuardrailSsim: boolean;
   smartCompressionMode: boolean;
   smartTarget: 'visually-lossless' | 'high' | 'balanced' | 'small' | 'custom';
   qualityGuardrail: number;
   optimizationSpeed: 'fast' | 'balanced' | 'thorough';
+  qualityMetric: QualityMetric;
   responsiveSettings: ResponsiveSettings;
   metadataCleanup: MetadataCleanupSettings;
+  metadataInjection: MetadataInjectionSettings;
+  sizeBudget: SizeBudgetSettings;
+  transform: TransformSettings;
+  watermark: WatermarkSettings;
 }
 
 export interface CandidateResult {
@@ -67,6 +74,8 @@ export interface PipelineFileResult {
 export function toEffectiveSettings(settings: OptimiseSettings, runMode: RunMode): EffectiveSettings {
   const jpegQuality = Number.isFinite(settings.jpegQuality) ? Math.max(1, Math.min(100, settings.jpegQuality)) : 82;
   const webpQuality = Number.isFinite(settings.webpQuality) ? Math.max(1, Math.min(100, settings.webpQuality)) : 80;
+  const avifQuality = Number.isFinite(settings.avifQuality) ? Math.max(1, Math.min(100, settings.avifQuality)) : 55;
+  const avifEffort = Number.isFinite(settings.avifEffort) ? Math.max(0, Math.min(9, settings.avifEffort)) : 4;
 
   return {
     outputMode: settings.outputMode,
@@ -86,12 +95,19 @@ export function toEffectiveSettings(settings: OptimiseSettings, runMode: RunMode
     webpQuality,
     webpNearLossless: settings.webpNearLossless,
     webpEffort: Math.max(4, Math.min(6, settings.webpEffort || 5)),
+    avifQuality,
+    avifEffort,
     qualityGuardrailSsim: settings.qualityGuardrailSsim,
     smartCompressionMode: settings.smartCompressionMode || runMode === 'smart',
     smartTarget: settings.smartTarget ?? 'visually-lossless',
     qualityGuardrail: settings.qualityGuardrail ?? 90,
     optimizationSpeed: settings.optimizationSpeed ?? 'balanced',
+    qualityMetric: settings.qualityMetric ?? 'ssim',
     responsiveSettings: settings.responsiveSettings || DEFAULT_RESPONSIVE_SETTINGS,
-    metadataCleanup: settings.metadataCleanup
+    metadataCleanup: settings.metadataCleanup,
+    metadataInjection: settings.metadataInjection ?? DEFAULT_METADATA_INJECTION,
+    sizeBudget: settings.sizeBudget ?? DEFAULT_SIZE_BUDGET,
+    transform: settings.transform ?? DEFAULT_TRANSFORM,
+    watermark: settings.watermark ?? DEFAULT_WATERMARK
   };
 }
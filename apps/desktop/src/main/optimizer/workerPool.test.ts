@@ -0,0 +1,95 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, type WorkerTask } from '../../shared/types';
+import { WorkerCancelledError, WorkerPool } from './workerPool';
+
+let root: string;
+let workerPath: string;
+
+// Speaks the optimiseWorker protocol. Jobs take 100ms; a cancel request stops the job in flight
+// unless its input is marked `written`, which stands for a job already past its write.
+const workerSource = `
+const { parentPort, threadId } = require('node:worker_threads');
+let current = null;
+parentPort.on('message', (message) => {
+  if (message.type === 'worker:cancel') {
+    if (current) current.cancelled = true;
+    return;
+  }
+  const job = { cancelled: false };
+  current = job;
+  parentPort.postMessage({ type: 'worker:job-event', payload: { jobId: message.jobId, status: 'running' } });
+  setTimeout(() => {
+    current = null;
+    if (job.cancelled && !message.inputPath.includes('written')) {
+      parentPort.postMessage({ ok: false, inputPath: message.inputPath, message: 'Cancelled', cancelled: true });
+      return;
+    }
+    parentPort.postMessage({
+      ok: true,
+      inputPath: message.inputPath,
+      originalBytes: 1,
+      actions: {},
+      backups: [{ originalPath: message.inputPath, backupPath: message.inputPath + '.bak' }],
+      status: 'success',
+      message: String(threadId)
+    });
+  }, 100);
+});
+`;
+
+function task(inputPath: string): WorkerTask {
+  return { jobId: inputPath, inputPath, settings: DEFAULT_SETTINGS, mode: 'optimize' };
+}
+
+beforeAll(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'worker-pool-'));
+  workerPath = path.join(root, 'worker.js');
+  await fs.writeFile(workerPath, workerSource);
+});
+
+afterAll(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('WorkerPool', () => {
+  it('runs no more jobs at once than it has workers and relays job events', async () => {
+    const pool = new WorkerPool(2, workerPath);
+    const events: string[] = [];
+    try {
+      const runs = ['/a.jpg', '/b.jpg', '/c.jpg'].map((inputPath) => pool.run(task(inputPath), (event) => events.push(event.jobId)));
+      expect(pool.activeCount).toBe(2);
+      expect(pool.queuedCount).toBe(1);
+
+      const responses = await Promise.all(runs);
+      expect(responses.map((response) => response.inputPath)).toEqual(['/a.jpg', '/b.jpg', '/c.jpg']);
+      expect(new Set(responses.map((response) => response.message)).size).toBe(2);
+      expect(events.sort()).toEqual(['/a.jpg', '/b.jpg', '/c.jpg']);
+      expect(pool.activeCount).toBe(0);
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it('cancels queued jobs and stops jobs in flight without losing finished work', async () => {
+    const pool = new WorkerPool(2, workerPath);
+    try {
+      const stopped = pool.run(task('/stopped.jpg'));
+      const written = pool.run(task('/written.jpg'));
+      const queued = pool.run(task('/queued.jpg'));
+
+      await pool.cancelAll();
+
+      await expect(queued).rejects.toBeInstanceOf(WorkerCancelledError);
+      await expect(stopped).rejects.toBeInstanceOf(WorkerCancelledError);
+      expect(await written).toMatchObject({ ok: true, backups: [{ originalPath: '/written.jpg' }] });
+
+      // The same workers take new jobs afterwards.
+      expect(await pool.run(task('/next.jpg'))).toMatchObject({ ok: true, inputPath: '/next.jpg' });
+    } finally {
+      await pool.close();
+    }
+  });
+});
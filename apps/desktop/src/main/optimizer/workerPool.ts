@@ -2,12 +2,15 @@ import os from 'node:os';
 import path from 'node:path';
 import { Worker } from 'node:worker_threads';
 import { Logger } from '../logger';
+import { getQualityCacheDir } from './qualityCache';
 import type { WorkerResponse, WorkerTask } from '../../shared/types';
+import type { JobEvent } from '../core/types';
 
 interface QueuedJob {
   task: WorkerTask;
   resolve: (value: WorkerResponse) => void;
   reject: (error: Error) => void;
+  onEvent?: (event: JobEvent) => void;
 }
 
 interface WorkerState {
@@ -16,6 +19,13 @@ interface WorkerState {
   current?: QueuedJob;
 }
 
+export class WorkerCancelledError extends Error {
+  constructor(inputPath: string) {
+    super(`Cancelled: ${inputPath}`);
+    this.name = 'WorkerCancelledError';
+  }
+}
+
 export function getAutoConcurrency(): number {
   const cores = typeof os.availableParallelism === 'function' ? os.availableParallelism() : os.cpus().length;
   return Math.max(1, Math.min(4, cores - 1));
@@ -25,58 +35,99 @@ export class WorkerPool {
   private readonly workers: WorkerState[] = [];
   private readonly queue: QueuedJob[] = [];
 
-  constructor(size: number) {
-    const workerPath = path.join(__dirname, 'optimiseWorker.js');
+  constructor(size: number, private readonly workerPath = path.join(__dirname, 'optimiseWorker.js')) {
     const total = Math.max(1, size);
 
     for (let i = 0; i < total; i += 1) {
-      const worker = new Worker(workerPath);
-      const state: WorkerState = { worker, busy: false };
-
-      worker.on('message', (msg: any) => {
-        if (msg && msg.type === 'worker:log') {
-          const { level, context, message, args } = msg.payload;
-          const workerLogger = new Logger(`Worker:${context}`);
-          (workerLogger as any)[level]?.(message, ...args);
-          return;
-        }
-
-        const result = msg as WorkerResponse;
-        if (!state.current) {
-          return;
-        }
-
-        const { resolve } = state.current;
-        state.current = undefined;
-        state.busy = false;
-        resolve(result);
-        this.pump();
-      });
-
-      worker.on('error', (error: Error) => {
-        if (state.current) {
-          state.current.reject(error);
-          state.current = undefined;
-        }
-        state.busy = false;
-        this.pump();
-      });
-
-      this.workers.push(state);
+      this.workers.push(this.spawnWorker());
     }
   }
 
-  run(task: WorkerTask): Promise<WorkerResponse> {
+  /**
+   * Queues a task. `onEvent` receives the worker-side JobStateMachine events for progress reporting.
+   */
+  run(task: WorkerTask, onEvent?: (event: JobEvent) => void): Promise<WorkerResponse> {
     return new Promise<WorkerResponse>((resolve, reject) => {
-      this.queue.push({ task, resolve, reject });
+      this.queue.push({ task, resolve, reject, onEvent });
       this.pump();
     });
   }
 
+  get queuedCount(): number {
+    return this.queue.length;
+  }
+
+  get activeCount(): number {
+    return this.workers.filter((state) => state.busy).length;
+  }
+
+  /**
+   * Drops every queued task and asks workers with a job in flight to stop. Those jobs abort at
+   * their next safe point and reject with WorkerCancelledError; a job already past its write
+   * finishes and resolves as usual, so its backups are still reported.
+   */
+  async cancelAll(): Promise<void> {
+    const queued = this.queue.splice(0, this.queue.length);
+    for (const job of queued) {
+      job.reject(new WorkerCancelledError(job.task.inputPath));
+    }
+
+    for (const state of this.workers) {
+      if (state.busy) {
+        state.worker.postMessage({ type: 'worker:cancel' });
+      }
+    }
+  }
+
   async close(): Promise<void> {
     await Promise.all(this.workers.map((state) => state.worker.terminate()));
   }
 
+  private spawnWorker(): WorkerState {
+    const worker = new Worker(this.workerPath, { workerData: { qualityCacheDir: getQualityCacheDir() } });
+    const state: WorkerState = { worker, busy: false };
+
+    worker.on('message', (msg: any) => {
+      if (msg && msg.type === 'worker:log') {
+        const { level, context, message, args } = msg.payload;
+        const workerLogger = new Logger(`Worker:${context}`);
+        (workerLogger as any)[level]?.(message, ...args);
+        return;
+      }
+
+      if (msg && msg.type === 'worker:job-event') {
+        state.current?.onEvent?.(msg.payload as JobEvent);
+        return;
+      }
+
+      const result = msg as WorkerResponse;
+      if (!state.current) {
+        return;
+      }
+
+      const { task, resolve, reject } = state.current;
+      state.current = undefined;
+      state.busy = false;
+      if (!result.ok && result.cancelled) {
+        reject(new WorkerCancelledError(task.inputPath));
+      } else {
+        resolve(result);
+      }
+      this.pump();
+    });
+
+    worker.on('error', (error: Error) => {
+      if (state.current) {
+        state.current.reject(error);
+        state.current = undefined;
+      }
+      state.busy = false;
+      this.pump();
+    });
+
+    return state;
+  }
+
   private pump(): void {
     const freeWorker = this.workers.find((item) => !item.busy);
     if (!freeWorker) {
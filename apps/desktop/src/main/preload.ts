@@ -5,6 +5,12 @@ import type {
   ImageListItem,
   OptimiseSettings,
   PreviewResult,
+  ProcessedIndexSummary,
+  PruneBackupsOptions,
+  PruneBackupsResult,
+  ReportFormat,
+  RestoreResult,
+  RunHistoryEntry,
   RunProgressEvent,
   StartRunPayload,
   StartRunResult,
@@ -12,8 +18,9 @@ import type {
   WatchFileOptimizedEvent,
   WatchFolderStatus,
   WatchFolderSettings,
+  WatchSyncProgressEvent,
 } from '../shared/types';
-import type { JobUpdatePayload } from '../shared/ipcEvents';
+import type { JobAddedPayload, JobUpdatePayload, QueueStatsPayload } from '../shared/ipcEvents';
 
 /** Creates a typed IPC event listener with proper cleanup. */
 function createListener<T>(channel: string) {
@@ -45,9 +52,15 @@ contextBridge.exposeInMainWorld('api', {
   onJobFinished: createListener<any>('job:finished'),
 
   // ── Restore ──
-  restoreLastRun: () =>
-    ipcRenderer.invoke('optimise:restore-last') as Promise<{ restoredCount: number; failedCount: number; message: string }>,
+  restoreLastRun: () => ipcRenderer.invoke('optimise:restore-last') as Promise<RestoreResult>,
   canRestoreLastRun: () => ipcRenderer.invoke('optimise:can-restore-last') as Promise<boolean>,
+  listRuns: () => ipcRenderer.invoke('history:list-runs') as Promise<RunHistoryEntry[]>,
+  restoreRun: (runId: string, originalPaths?: string[]) =>
+    ipcRenderer.invoke('history:restore-run', runId, originalPaths) as Promise<RestoreResult>,
+  pruneBackups: (options: PruneBackupsOptions) =>
+    ipcRenderer.invoke('history:prune-backups', options) as Promise<PruneBackupsResult>,
+  exportRunReport: (runId: string, format: ReportFormat) =>
+    ipcRenderer.invoke('report:export', runId, format) as Promise<string | null>,
 
   // ── File Operations ──
   revealInFileManager: (paths: string[]) => ipcRenderer.invoke('file:reveal', paths) as Promise<void>,
@@ -71,6 +84,19 @@ contextBridge.exposeInMainWorld('api', {
     ipcRenderer.invoke('watch:update-global-settings', settings) as Promise<void>,
   onWatchFileDetected: createListener<WatchFileDetectedEvent>('watch:fileDetected'),
   onWatchFileOptimized: createListener<WatchFileOptimizedEvent>('watch:fileOptimized'),
+  onWatchSyncProgress: createListener<WatchSyncProgressEvent>('watch:syncProgress'),
+  syncWatchFolder: (path: string) => ipcRenderer.invoke('watch:sync-folder', path) as Promise<void>,
+  getWatchQueueStats: () => ipcRenderer.invoke('watch:queue-stats') as Promise<QueueStatsPayload>,
+  setWatchQueuePaused: (paused: boolean) => ipcRenderer.invoke('watch:queue-pause', paused) as Promise<QueueStatsPayload>,
+  retryFailedWatchJobs: (paths?: string[]) => ipcRenderer.invoke('watch:queue-retry-failed', paths) as Promise<QueueStatsPayload>,
+  clearWatchQueue: (folder?: string) => ipcRenderer.invoke('watch:queue-clear', folder) as Promise<QueueStatsPayload>,
+  prioritizeWatchFolder: (folder: string | null) => ipcRenderer.invoke('watch:queue-prioritize', folder) as Promise<QueueStatsPayload>,
+  onWatchQueueStats: createListener<QueueStatsPayload>('queue:stats'),
+  onWatchJobAdded: createListener<JobAddedPayload>('job:added'),
+  getWatchIndexSummary: () => ipcRenderer.invoke('watch:index-summary') as Promise<ProcessedIndexSummary>,
+  pruneWatchIndex: (folder?: string) => ipcRenderer.invoke('watch:index-prune', folder) as Promise<ProcessedIndexSummary>,
+  resetWatchIndexFolder: (folder: string) => ipcRenderer.invoke('watch:index-reset', folder) as Promise<ProcessedIndexSummary>,
+  exportWatchIndex: (folder?: string) => ipcRenderer.invoke('watch:index-export', folder) as Promise<string | null>,
 
   // ── Clipboard Auto-Optimize ──
   setClipboardAutoOptimize: (payload: { enabled: boolean; settings: StartRunPayload['settings'] }) =>
@@ -0,0 +1,147 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, type RunHistoryEntry } from '../../shared/types';
+import { RunHistoryStore } from './runHistory';
+
+let root: string;
+
+async function createRun(runId: string, names: string[], finishedAt = new Date().toISOString()): Promise<RunHistoryEntry> {
+	const backupDir = path.join(root, 'images', 'Originals Backup', runId);
+	await fs.mkdir(backupDir, { recursive: true });
+	const backupRecords = [];
+	for (const name of names) {
+		const originalPath = path.join(root, 'images', name);
+		const backupPath = path.join(backupDir, name);
+		await fs.writeFile(originalPath, 'optimised');
+		await fs.writeFile(backupPath, `original ${name}`);
+		backupRecords.push({ originalPath, backupPath });
+	}
+
+	return {
+		runId,
+		mode: 'optimize',
+		startedAt: finishedAt,
+		finishedAt,
+		commonRoot: path.join(root, 'images'),
+		backupDir,
+		logPath: path.join(root, 'images', '.optimise-logs', runId, 'optimise-log.json'),
+		settings: { ...DEFAULT_SETTINGS, outputMode: 'replace' },
+		summary: {
+			runId,
+			totalFiles: names.length,
+			processedFiles: names.length,
+			convertedFiles: 0,
+			skippedFiles: 0,
+			failedFiles: 0,
+			totalOriginalBytes: 0,
+			totalOutputBytes: 0,
+			totalSavedBytes: 0,
+			elapsedMs: 1,
+			logPath: '',
+			failures: []
+		},
+		backupRecords,
+		backupBytes: 0
+	};
+}
+
+beforeEach(async () => {
+	root = await fs.mkdtemp(path.join(os.tmpdir(), 'run-history-'));
+});
+
+afterEach(async () => {
+	await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('RunHistoryStore', () => {
+	it('keeps every run and restores only the chosen files', async () => {
+		const store = new RunHistoryStore(path.join(root, 'userData'));
+		await store.init();
+		await store.record(await createRun('run-a', ['a.jpg']));
+		await store.record(await createRun('run-b', ['b.jpg', 'c.jpg']));
+
+		const reloaded = new RunHistoryStore(path.join(root, 'userData'));
+		await reloaded.init();
+		expect(reloaded.list().map((entry) => entry.runId)).toEqual(['run-b', 'run-a']);
+
+		const result = await reloaded.restore('run-b', [path.join(root, 'images', 'c.jpg')]);
+		expect(result.restoredCount).toBe(1);
+		expect(await fs.readFile(path.join(root, 'images', 'c.jpg'), 'utf-8')).toBe('original c.jpg');
+		expect(await fs.readFile(path.join(root, 'images', 'b.jpg'), 'utf-8')).toBe('optimised');
+	});
+
+	it('prunes backup folders but keeps the history entry', async () => {
+		const store = new RunHistoryStore(path.join(root, 'userData'));
+		await store.init();
+		await store.record(await createRun('run-old', ['a.jpg'], '2020-01-01T00:00:00.000Z'));
+		await store.record(await createRun('run-new', ['b.jpg']));
+
+		const result = await store.prune({ olderThanDays: 30 });
+		expect(result.prunedRuns).toEqual(['run-old']);
+		expect(result.freedBytes).toBeGreaterThan(0);
+		await expect(fs.stat(path.join(root, 'images', 'Originals Backup', 'run-old'))).rejects.toThrow();
+		await expect(fs.stat(path.join(root, 'images', 'Originals Backup', 'run-new'))).resolves.toBeTruthy();
+		expect(store.get('run-old')?.prunedAt).toBeDefined();
+		expect((await store.restore('run-old')).restoredCount).toBe(0);
+	});
+
+	it('undoes a WebP replacement by restoring the original and removing the WebP', async () => {
+		const store = new RunHistoryStore(path.join(root, 'userData'));
+		await store.init();
+		const entry = await createRun('run-webp', ['a.jpg']);
+		const [record] = entry.backupRecords;
+		const webpPath = path.join(root, 'images', 'a.webp');
+		await fs.rm(record.originalPath);
+		await fs.writeFile(webpPath, 'webp');
+		await store.record({ ...entry, mode: 'convertWebp', backupRecords: [{ ...record, removeOnRestore: webpPath }] });
+
+		expect((await store.restore('run-webp')).restoredCount).toBe(1);
+		expect(await fs.readFile(record.originalPath, 'utf-8')).toBe('original a.jpg');
+		await expect(fs.stat(webpPath)).rejects.toThrow();
+	});
+
+	it('keeps the WebP when the original cannot be copied back', async () => {
+		const store = new RunHistoryStore(path.join(root, 'userData'));
+		await store.init();
+		const entry = await createRun('run-lost', ['a.jpg']);
+		const [record] = entry.backupRecords;
+		const webpPath = path.join(root, 'images', 'a.webp');
+		await fs.rm(record.originalPath);
+		await fs.rm(record.backupPath);
+		await fs.writeFile(webpPath, 'webp');
+		await store.record({ ...entry, mode: 'convertWebp', backupRecords: [{ ...record, removeOnRestore: webpPath }] });
+
+		expect(await store.restore('run-lost')).toMatchObject({ restoredCount: 0, failedCount: 1 });
+		expect(await fs.readFile(webpPath, 'utf-8')).toBe('webp');
+	});
+
+	it('refuses to prune directories outside Originals Backup/<runId>', async () => {
+		const store = new RunHistoryStore(path.join(root, 'userData'));
+		await store.init();
+		const entry = await createRun('run-x', ['a.jpg']);
+		await store.record({ ...entry, backupDir: path.join(root, 'images') });
+
+		expect((await store.prune({ runIds: ['run-x'] })).prunedRuns).toEqual([]);
+		await expect(fs.stat(path.join(root, 'images', 'a.jpg'))).resolves.toBeTruthy();
+	});
+
+	it('imports a legacy last-run.json', async () => {
+		const userData = path.join(root, 'userData');
+		const entry = await createRun('run-legacy', ['a.jpg']);
+		await fs.mkdir(userData, { recursive: true });
+		await fs.writeFile(path.join(userData, 'last-run.json'), JSON.stringify({
+			runId: entry.runId,
+			backupDir: entry.backupDir,
+			backupRecords: entry.backupRecords,
+			logPath: entry.logPath
+		}));
+
+		const store = new RunHistoryStore(userData);
+		await store.init();
+		expect(store.getLatestRestorable()?.runId).toBe('run-legacy');
+		expect(store.getLatestRestorable()?.commonRoot).toBe(path.join(root, 'images'));
+		await expect(fs.stat(path.join(userData, 'last-run.json'))).rejects.toThrow();
+	});
+});
@@ -0,0 +1,263 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+	DEFAULT_SETTINGS,
+	type BackupRecord,
+	type PruneBackupsOptions,
+	type PruneBackupsResult,
+	type RestoreResult,
+	type RunHistoryEntry
+} from '../../shared/types';
+import { Logger } from '../logger';
+import { readRunLog } from './runLog';
+
+const log = new Logger('RunHistory');
+
+const HISTORY_FILE = 'run-history.json';
+const LEGACY_LAST_RUN_FILE = 'last-run.json';
+const BACKUP_ROOT_NAME = 'Originals Backup';
+const MAX_HISTORY_ENTRIES = 200;
+
+interface RunHistoryData {
+	version: number;
+	runs: RunHistoryEntry[];
+}
+
+interface LegacyLastRunState {
+	runId: string;
+	backupDir?: string;
+	backupRecords: BackupRecord[];
+	logPath: string;
+}
+
+async function getPathSize(target: string): Promise<number> {
+	try {
+		const stat = await fs.stat(target);
+		if (!stat.isDirectory()) {
+			return stat.size;
+		}
+		const entries = await fs.readdir(target);
+		const sizes = await Promise.all(entries.map((entry) => getPathSize(path.join(target, entry))));
+		return sizes.reduce((sum, size) => sum + size, 0);
+	} catch {
+		return 0;
+	}
+}
+
+/**
+ * Only directories shaped like `<root>/Originals Backup/<runId>` are ever deleted,
+ * so a corrupted history file cannot point pruning at user folders.
+ */
+function isPrunableBackupDir(entry: RunHistoryEntry): entry is RunHistoryEntry & { backupDir: string } {
+	if (!entry.backupDir) return false;
+	const resolved = path.resolve(entry.backupDir);
+	return path.basename(resolved) === entry.runId && path.basename(path.dirname(resolved)) === BACKUP_ROOT_NAME;
+}
+
+export class RunHistoryStore {
+	private readonly historyPath: string;
+	private readonly legacyPath: string;
+	private runs: RunHistoryEntry[] = [];
+	private writeChain: Promise<void> = Promise.resolve();
+
+	constructor(userDataPath: string) {
+		this.historyPath = path.join(userDataPath, HISTORY_FILE);
+		this.legacyPath = path.join(userDataPath, LEGACY_LAST_RUN_FILE);
+	}
+
+	async init(): Promise<void> {
+		try {
+			const raw = await fs.readFile(this.historyPath, 'utf-8');
+			const data = JSON.parse(raw) as RunHistoryData;
+			this.runs = Array.isArray(data.runs) ? data.runs : [];
+		} catch {
+			this.runs = [];
+		}
+		await this.migrateLegacyLastRun();
+	}
+
+	/** Newest first. */
+	list(): RunHistoryEntry[] {
+		return [...this.runs];
+	}
+
+	get(runId: string): RunHistoryEntry | undefined {
+		return this.runs.find((entry) => entry.runId === runId);
+	}
+
+	getLatestRestorable(): RunHistoryEntry | undefined {
+		return this.runs.find((entry) => !entry.prunedAt && entry.backupRecords.length > 0);
+	}
+
+	async record(entry: RunHistoryEntry): Promise<void> {
+		this.runs = [entry, ...this.runs.filter((item) => item.runId !== entry.runId)];
+		this.trim();
+		await this.save();
+	}
+
+	async restore(runId: string, originalPaths?: string[]): Promise<RestoreResult> {
+		const entry = this.get(runId);
+		if (!entry) {
+			return { restoredCount: 0, failedCount: 0, message: `Run ${runId} not found in history.` };
+		}
+		if (entry.prunedAt) {
+			return { restoredCount: 0, failedCount: 0, message: `Backups for run ${runId} were pruned.` };
+		}
+
+		const wanted = originalPaths ? new Set(originalPaths) : null;
+		const records = wanted ? entry.backupRecords.filter((record) => wanted.has(record.originalPath)) : entry.backupRecords;
+		if (!records.length) {
+			return { restoredCount: 0, failedCount: 0, message: 'No backup records found for the selected files.' };
+		}
+
+		let restored = 0;
+		let failed = 0;
+
+		for (const record of records) {
+			try {
+				const tempPath = `${record.originalPath}.restore.tmp`;
+				await fs.copyFile(record.backupPath, tempPath);
+				await fs.rename(tempPath, record.originalPath);
+				// Only drop the converted file once the original is safely back.
+				if (record.removeOnRestore) {
+					await fs.rm(record.removeOnRestore, { force: true });
+				}
+				restored += 1;
+			} catch (error) {
+				log.warn(`Failed to restore ${record.originalPath}`, error);
+				failed += 1;
+			}
+		}
+
+		if (restored > 0) {
+			entry.restoredAt = new Date().toISOString();
+			await this.save();
+		}
+
+		return {
+			restoredCount: restored,
+			failedCount: failed,
+			message: `Restore finished. Restored ${restored} file(s), failed ${failed}.`,
+		};
+	}
+
+	/**
+	 * Deletes `Originals Backup/<runId>` for every run matching any of the given criteria.
+	 * The history entry itself is kept (marked as pruned) so the run still shows up in the list.
+	 */
+	async prune(options: PruneBackupsOptions): Promise<PruneBackupsResult> {
+		const now = Date.now();
+		const selected = this.runs.filter((entry, index) => {
+			if (options.runIds?.includes(entry.runId)) return true;
+			if (options.keepLatest !== undefined && index >= options.keepLatest) return true;
+			if (options.olderThanDays !== undefined) {
+				return now - Date.parse(entry.finishedAt) > options.olderThanDays * 24 * 60 * 60 * 1000;
+			}
+			return false;
+		});
+
+		const prunedRuns: string[] = [];
+		let freedBytes = 0;
+
+		for (const entry of selected) {
+			if (entry.prunedAt || !isPrunableBackupDir(entry)) continue;
+
+			try {
+				const size = await getPathSize(entry.backupDir);
+				await fs.rm(entry.backupDir, { recursive: true, force: true });
+				// Leave no empty "Originals Backup" folder behind; rmdir fails harmlessly when it still has runs.
+				await fs.rmdir(path.dirname(entry.backupDir)).catch(() => undefined);
+				entry.prunedAt = new Date().toISOString();
+				prunedRuns.push(entry.runId);
+				freedBytes += size;
+			} catch (error) {
+				log.warn(`Failed to prune backups for run ${entry.runId}`, error);
+			}
+		}
+
+		if (prunedRuns.length) {
+			await this.save();
+		}
+
+		return { prunedRuns, freedBytes };
+	}
+
+	/** Drops the oldest entries past the cap, but never ones whose backups still exist on disk. */
+	private trim(): void {
+		let excess = this.runs.length - MAX_HISTORY_ENTRIES;
+		for (let index = this.runs.length - 1; index >= 0 && excess > 0; index--) {
+			const entry = this.runs[index];
+			if (entry.prunedAt || entry.backupRecords.length === 0) {
+				this.runs.splice(index, 1);
+				excess--;
+			}
+		}
+	}
+
+	private async migrateLegacyLastRun(): Promise<void> {
+		let legacy: LegacyLastRunState;
+		try {
+			legacy = JSON.parse(await fs.readFile(this.legacyPath, 'utf-8')) as LegacyLastRunState;
+		} catch {
+			return;
+		}
+
+		if (!this.get(legacy.runId)) {
+			const stat = await fs.stat(this.legacyPath);
+			const runLog = await readRunLog(legacy.logPath).catch(() => null);
+			const finishedAt = runLog?.finishedAt ?? stat.mtime.toISOString();
+			this.runs.push({
+				runId: legacy.runId,
+				mode: runLog?.mode ?? 'optimize',
+				startedAt: runLog?.startedAt ?? finishedAt,
+				finishedAt,
+				commonRoot: path.dirname(path.dirname(path.dirname(legacy.logPath))),
+				backupDir: legacy.backupDir,
+				logPath: legacy.logPath,
+				settings: runLog?.settings ?? DEFAULT_SETTINGS,
+				summary: runLog?.summary ?? {
+					runId: legacy.runId,
+					totalFiles: legacy.backupRecords.length,
+					processedFiles: legacy.backupRecords.length,
+					convertedFiles: 0,
+					skippedFiles: 0,
+					failedFiles: 0,
+					totalOriginalBytes: 0,
+					totalOutputBytes: 0,
+					totalSavedBytes: 0,
+					elapsedMs: 0,
+					logPath: legacy.logPath,
+					failures: []
+				},
+				backupRecords: legacy.backupRecords,
+				backupBytes: legacy.backupDir ? await getPathSize(legacy.backupDir) : 0
+			});
+			this.runs.sort((a, b) => Date.parse(b.finishedAt) - Date.parse(a.finishedAt));
+			await this.save();
+		}
+
+		await fs.rm(this.legacyPath, { force: true });
+		log.info(`Migrated ${LEGACY_LAST_RUN_FILE} into ${HISTORY_FILE}`);
+	}
+
+	/** Writes are chained so concurrent runs finishing together cannot interleave the file. */
+	private save(): Promise<void> {
+		const data: RunHistoryData = { version: 1, runs: this.runs };
+		this.writeChain = this.writeChain.then(async () => {
+			try {
+				await fs.mkdir(path.dirname(this.historyPath), { recursive: true });
+				const tmpPath = `${this.historyPath}.tmp`;
+				await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+				await fs.rename(tmpPath, this.historyPath);
+			} catch (error) {
+				log.error('Failed to save run history', error);
+			}
+		});
+		return this.writeChain;
+	}
+}
+
+export async function measureBackupBytes(records: BackupRecord[]): Promise<number> {
+	const sizes = await Promise.all(records.map((record) => getPathSize(record.backupPath)));
+	return sizes.reduce((sum, size) => sum + size, 0);
+}
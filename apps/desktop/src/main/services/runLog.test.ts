@@ -0,0 +1,103 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, type RunSummary } from '../../shared/types';
+import type { JobResult } from '../core/types';
+import { collectFailures, readRunLog, toRunLogEntry, writeRunLog, type RunLog } from './runLog';
+
+let root: string;
+
+function result(overrides: Partial<JobResult> = {}): JobResult {
+	return {
+		status: 'success',
+		originalBytes: 1000,
+		outputBytes: 600,
+		bytesSaved: 400,
+		timings: { totalMs: 40, stages: { decode: 10, encode: 25, write: 5 } },
+		warnings: [],
+		...overrides
+	};
+}
+
+const summary: RunSummary = {
+	runId: 'run-1',
+	totalFiles: 2,
+	processedFiles: 2,
+	convertedFiles: 0,
+	skippedFiles: 0,
+	failedFiles: 1,
+	totalOriginalBytes: 1000,
+	totalOutputBytes: 600,
+	totalSavedBytes: 400,
+	elapsedMs: 50,
+	logPath: '',
+	failures: []
+};
+
+beforeEach(async () => {
+	root = await fs.mkdtemp(path.join(os.tmpdir(), 'run-log-'));
+});
+
+afterEach(async () => {
+	await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('run log', () => {
+	it('records every job field and turns failed jobs into summary failures', () => {
+		const success = toRunLogEntry('1', '/in/a.jpg', 'success', result({
+			outputPath: '/in/a.jpg',
+			backupPath: '/in/Originals Backup/run-1/a.jpg',
+			format: 'jpeg',
+			quality: 78,
+			ssim: 0.996,
+			warnings: ['ICC profile converted to sRGB'],
+			metadata: { metadataAction: 'Removed', bytesRemoved: 2048 }
+		}));
+		const failed = toRunLogEntry('2', '/in/b.png', 'failed', result({
+			status: 'failed',
+			outputBytes: 0,
+			bytesSaved: 0,
+			error: { code: 'E_DECODE', message: 'Input file is truncated', retryable: false }
+		}));
+		const cancelled = toRunLogEntry('3', '/in/c.png', 'cancelled');
+
+		expect(success).toMatchObject({
+			outputPath: '/in/a.jpg',
+			backupPath: '/in/Originals Backup/run-1/a.jpg',
+			quality: 78,
+			timings: { totalMs: 40, stages: { decode: 10, encode: 25, write: 5 } },
+			warnings: ['ICC profile converted to sRGB'],
+			metadata: { metadataAction: 'Removed', bytesRemoved: 2048 }
+		});
+		expect(failed.error?.code).toBe('E_DECODE');
+		expect(cancelled).toMatchObject({ status: 'cancelled', originalBytes: 0, timings: { totalMs: 0, stages: {} }, warnings: [] });
+
+		const unexplained = toRunLogEntry('4', '/in/d.png', 'failed');
+		expect(collectFailures([success, failed, cancelled, unexplained])).toEqual([
+			{ path: '/in/b.png', message: 'Input file is truncated' },
+			{ path: '/in/d.png', message: 'Unknown error' }
+		]);
+	});
+
+	it('writes the log under a new folder and reads it back without leaving temp files', async () => {
+		const logPath = path.join(root, '.optimise-logs', 'run-1', 'optimise-log.json');
+		const files = [toRunLogEntry('1', '/in/a.jpg', 'success', result({ outputPath: '/in/a.jpg' }))];
+		const runLog: RunLog = {
+			version: 1,
+			runId: 'run-1',
+			mode: 'optimize',
+			startedAt: '2024-05-01T10:00:00.000Z',
+			finishedAt: '2024-05-01T10:00:01.000Z',
+			settings: DEFAULT_SETTINGS,
+			summary: { ...summary, logPath, failures: collectFailures(files) },
+			files
+		};
+
+		await writeRunLog(logPath, runLog);
+		await writeRunLog(logPath, { ...runLog, finishedAt: '2024-05-01T10:00:02.000Z' });
+
+		expect(await readRunLog(logPath)).toEqual({ ...runLog, finishedAt: '2024-05-01T10:00:02.000Z' });
+		expect(await fs.readdir(path.dirname(logPath))).toEqual(['optimise-log.json']);
+	});
+});
@@ -0,0 +1,91 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { OptimiseSettings, RunMode, RunSummary, SizeBudgetOutcome, SupportedImageType } from '../../shared/types';
+import type { JobError, JobResult, JobStatus } from '../core/types';
+import type { MetadataReport } from '../adapters/metadata';
+
+export interface RunLogEntry {
+	jobId: string;
+	inputPath: string;
+	status: JobStatus;
+	outputPath?: string;
+	backupPath?: string;
+	format?: SupportedImageType;
+	simulated?: boolean;
+	originalBytes: number;
+	outputBytes: number;
+	bytesSaved: number;
+	quality?: number;
+	ssim?: number;
+	frames?: number;
+	budget?: SizeBudgetOutcome;
+	dimensions?: JobResult['dimensions'];
+	timings: JobResult['timings'];
+	warnings: string[];
+	error?: JobError;
+	metadata?: MetadataReport;
+}
+
+/**
+ * On-disk audit record written to RunSummary.logPath after every run.
+ */
+export interface RunLog {
+	version: 1;
+	runId: string;
+	mode: RunMode;
+	startedAt: string;
+	finishedAt: string;
+	settings: OptimiseSettings;
+	summary: RunSummary;
+	files: RunLogEntry[];
+}
+
+export function toRunLogEntry(jobId: string, inputPath: string, status: JobStatus, result?: JobResult): RunLogEntry {
+	return {
+		jobId,
+		inputPath,
+		status,
+		outputPath: result?.outputPath,
+		backupPath: result?.backupPath,
+		format: result?.format,
+		simulated: result?.simulated,
+		originalBytes: result?.originalBytes ?? 0,
+		outputBytes: result?.outputBytes ?? 0,
+		bytesSaved: result?.bytesSaved ?? 0,
+		quality: result?.quality,
+		ssim: result?.ssim,
+		frames: result?.frames,
+		budget: result?.budget,
+		dimensions: result?.dimensions,
+		timings: result?.timings ?? { totalMs: 0, stages: {} },
+		warnings: result?.warnings ?? [],
+		error: result?.error,
+		metadata: result?.metadata
+	};
+}
+
+export function isConvertedOutput(outputPath?: string): boolean {
+	const lower = outputPath?.toLowerCase();
+	return Boolean(lower && (lower.endsWith('.webp') || lower.endsWith('.avif')));
+}
+
+export function collectFailures(entries: RunLogEntry[]): RunSummary['failures'] {
+	return entries
+		.filter((entry) => entry.status === 'failed')
+		.map((entry) => ({ path: entry.inputPath, message: entry.error?.message ?? 'Unknown error' }));
+}
+
+/**
+ * Writes the log via a temp file + rename so a crash never leaves half-written JSON behind.
+ */
+export async function writeRunLog(logPath: string, log: RunLog): Promise<void> {
+	await fs.mkdir(path.dirname(logPath), { recursive: true });
+	const tmpPath = `${logPath}.${Date.now()}.tmp`;
+	await fs.writeFile(tmpPath, JSON.stringify(log, null, 2), 'utf-8');
+	await fs.rename(tmpPath, logPath);
+}
+
+export async function readRunLog(logPath: string): Promise<RunLog> {
+	const raw = await fs.readFile(logPath, 'utf-8');
+	return JSON.parse(raw) as RunLog;
+}
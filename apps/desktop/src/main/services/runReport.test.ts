@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { RunSummary } from '../../shared/types';
+import type { RunLogEntry } from './runLog';
+import { buildReportRows, folderTotals, renderCsv, renderHtml, type RunReportInput } from './runReport';
+
+function entry(inputPath: string, overrides: Partial<RunLogEntry> = {}): RunLogEntry {
+	return {
+		jobId: inputPath,
+		inputPath,
+		status: 'success',
+		originalBytes: 1000,
+		outputBytes: 600,
+		bytesSaved: 400,
+		timings: { totalMs: 1, stages: {} },
+		warnings: [],
+		...overrides
+	};
+}
+
+const summary: RunSummary = {
+	runId: 'run-1',
+	totalFiles: 3,
+	processedFiles: 3,
+	convertedFiles: 1,
+	skippedFiles: 1,
+	failedFiles: 0,
+	totalOriginalBytes: 3000,
+	totalOutputBytes: 2200,
+	totalSavedBytes: 800,
+	elapsedMs: 10,
+	logPath: '',
+	failures: []
+};
+
+const report: RunReportInput = {
+	runId: 'run-1',
+	mode: 'convertWebp',
+	startedAt: '2024-05-01T10:00:00.000Z',
+	finishedAt: '2024-05-01T10:00:01.000Z',
+	summary,
+	files: [
+		entry('/shoot/day1/a.jpg', { outputPath: '/shoot/Optimized/day1/a.webp', format: 'webp', ssim: 0.9912, metadata: { metadataAction: 'Cleaned', removedGroups: ['gps', 'camera'] } }),
+		entry('/shoot/day1/b, "final".png', { status: 'skipped', outputBytes: 1000, bytesSaved: 0, warnings: ['Output is not smaller'] }),
+		entry('/shoot/day2/<c>.jpg', { outputPath: '/shoot/Optimized/day2/<c>.webp' })
+	]
+};
+
+describe('run reports', () => {
+	it('derives formats and per-folder totals', () => {
+		const rows = buildReportRows(report);
+		expect(rows.map((row) => [row.folder, row.inputFormat, row.outputFormat])).toEqual([
+			['day1', 'jpeg', 'webp'],
+			['day1', 'png', ''],
+			['day2', 'jpeg', 'webp']
+		]);
+		expect(folderTotals(rows)).toEqual([
+			{ folder: 'day1', files: 2, originalBytes: 2000, outputBytes: 1600, savedBytes: 400, savedPercent: 20 },
+			{ folder: 'day2', files: 1, originalBytes: 1000, outputBytes: 600, savedBytes: 400, savedPercent: 40 }
+		]);
+	});
+
+	it('quotes CSV cells that contain separators or quotes', () => {
+		const lines = renderCsv(report).trimEnd().split('\r\n');
+		expect(lines).toHaveLength(4);
+		expect(lines[0]).toMatch(/^path,folder,status,/);
+		expect(lines[1]).toContain('Cleaned,gps camera');
+		expect(lines[2]).toMatch(/^"\/shoot\/day1\/b, ""final"".png",day1,skipped,png,,1000,1000,0,0,/);
+	});
+
+	it('renders a self-contained HTML page with escaped names', () => {
+		const html = renderHtml(report);
+		expect(html).toContain('&lt;c&gt;.jpg');
+		expect(html).not.toContain('<c>');
+		expect(html).not.toMatch(/<script|<link|src=/);
+		expect(html).toContain('800 B (26.7%)');
+	});
+});
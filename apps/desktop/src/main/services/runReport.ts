@@ -0,0 +1,199 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { ReportFormat } from '../../shared/types';
+import type { RunLog, RunLogEntry } from './runLog';
+import { getCommonBaseDir } from './runUtils';
+
+export type RunReportInput = Pick<RunLog, 'runId' | 'mode' | 'startedAt' | 'finishedAt' | 'summary' | 'files'>;
+
+export interface ReportRow {
+	path: string;
+	folder: string;
+	status: RunLogEntry['status'];
+	inputFormat: string;
+	outputFormat: string;
+	originalBytes: number;
+	outputBytes: number;
+	savedBytes: number;
+	savedPercent: number;
+	quality?: number;
+	ssim?: number;
+	metadataAction?: string;
+	metadataRemoved: string;
+	iccAction?: string;
+	gpsAction?: string;
+	note: string;
+}
+
+export interface FolderTotals {
+	folder: string;
+	files: number;
+	originalBytes: number;
+	outputBytes: number;
+	savedBytes: number;
+	savedPercent: number;
+}
+
+const FORMAT_BY_EXTENSION: Record<string, string> = { jpg: 'jpeg', jpeg: 'jpeg', png: 'png', webp: 'webp', avif: 'avif', gif: 'gif', tif: 'tiff', tiff: 'tiff', heic: 'heic', heif: 'heif', bmp: 'bmp' };
+
+const CSV_COLUMNS: Array<keyof ReportRow> = [
+	'path', 'folder', 'status', 'inputFormat', 'outputFormat', 'originalBytes', 'outputBytes', 'savedBytes', 'savedPercent',
+	'quality', 'ssim', 'metadataAction', 'metadataRemoved', 'iccAction', 'gpsAction', 'note'
+];
+
+export function reportFormatForPath(filePath: string): ReportFormat | null {
+	const ext = path.extname(filePath).slice(1).toLowerCase();
+	if (ext === 'csv' || ext === 'json') return ext;
+	if (ext === 'html' || ext === 'htm') return 'html';
+	return null;
+}
+
+function formatOf(filePath: string | undefined): string {
+	const ext = filePath ? path.extname(filePath).slice(1).toLowerCase() : '';
+	return FORMAT_BY_EXTENSION[ext] ?? ext;
+}
+
+function percent(saved: number, original: number): number {
+	return original > 0 ? Math.round(saved / original * 1000) / 10 : 0;
+}
+
+/** One row per file; folders are relative to the common root of the run. */
+export function buildReportRows(report: RunReportInput): ReportRow[] {
+	const root = getCommonBaseDir(report.files.map((entry) => entry.inputPath));
+	return report.files.map((entry) => {
+		const converted = entry.status === 'success';
+		return {
+			path: entry.inputPath,
+			folder: path.relative(root, path.dirname(entry.inputPath)) || '.',
+			status: entry.status,
+			inputFormat: formatOf(entry.inputPath),
+			outputFormat: converted ? entry.format ?? formatOf(entry.outputPath) : '',
+			originalBytes: entry.originalBytes,
+			outputBytes: converted ? entry.outputBytes : entry.originalBytes,
+			savedBytes: converted ? entry.bytesSaved : 0,
+			savedPercent: converted ? percent(entry.bytesSaved, entry.originalBytes) : 0,
+			quality: entry.quality,
+			ssim: entry.ssim,
+			metadataAction: entry.metadata?.metadataAction,
+			metadataRemoved: entry.metadata?.removedGroups?.join(' ') ?? '',
+			iccAction: entry.metadata?.iccAction,
+			gpsAction: entry.metadata?.gpsAction,
+			note: entry.error?.message ?? entry.warnings[0] ?? ''
+		};
+	});
+}
+
+export function folderTotals(rows: ReportRow[]): FolderTotals[] {
+	const folders = new Map<string, FolderTotals>();
+	for (const row of rows) {
+		const totals = folders.get(row.folder) ?? { folder: row.folder, files: 0, originalBytes: 0, outputBytes: 0, savedBytes: 0, savedPercent: 0 };
+		totals.files += 1;
+		totals.originalBytes += row.originalBytes;
+		totals.outputBytes += row.outputBytes;
+		totals.savedBytes += row.savedBytes;
+		folders.set(row.folder, totals);
+	}
+	return [...folders.values()]
+		.map((totals) => ({ ...totals, savedPercent: percent(totals.savedBytes, totals.originalBytes) }))
+		.sort((a, b) => a.folder.localeCompare(b.folder));
+}
+
+function csvCell(value: unknown): string {
+	const text = value === undefined || value === null ? '' : String(value);
+	return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+export function renderCsv(report: RunReportInput): string {
+	const lines = [CSV_COLUMNS.join(',')];
+	for (const row of buildReportRows(report)) {
+		lines.push(CSV_COLUMNS.map((column) => csvCell(row[column])).join(','));
+	}
+	return `${lines.join('\r\n')}\r\n`;
+}
+
+export function renderJson(report: RunReportInput): string {
+	const rows = buildReportRows(report);
+	return `${JSON.stringify({
+		runId: report.runId,
+		mode: report.mode,
+		startedAt: report.startedAt,
+		finishedAt: report.finishedAt,
+		summary: report.summary,
+		folders: folderTotals(rows),
+		files: rows
+	}, null, 2)}\n`;
+}
+
+function escapeHtml(value: unknown): string {
+	return String(value ?? '')
+		.replaceAll('&', '&amp;')
+		.replaceAll('<', '&lt;')
+		.replaceAll('>', '&gt;')
+		.replaceAll('"', '&quot;');
+}
+
+function formatBytes(bytes: number): string {
+	if (bytes < 1024) return `${bytes} B`;
+	if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+	return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+}
+
+const HTML_STYLE = `body{font:14px/1.45 -apple-system,BlinkMacSystemFont,"Segoe UI",sans-serif;color:#1d1d1f;margin:32px;}
+h1{font-size:22px;margin:0 0 4px}h2{font-size:16px;margin:28px 0 8px}.meta{color:#6e6e73;margin:0 0 20px}
+.cards{display:flex;gap:12px;flex-wrap:wrap}.card{border:1px solid #d2d2d7;border-radius:10px;padding:10px 14px;min-width:140px}
+.card b{display:block;font-size:18px}table{border-collapse:collapse;width:100%}th,td{padding:5px 8px;border-bottom:1px solid #e5e5ea;text-align:left}
+th{background:#f5f5f7;font-weight:600}td.num{text-align:right;font-variant-numeric:tabular-nums}.failed{color:#d70015}.skipped{color:#b25000}`;
+
+/** A single page with inline styles and no scripts, so it can be mailed as-is. */
+export function renderHtml(report: RunReportInput): string {
+	const rows = buildReportRows(report);
+	const { summary } = report;
+	const estimate = summary.estimate;
+	const saved = estimate?.projectedSavedBytes ?? summary.totalSavedBytes;
+	const original = estimate?.originalBytes ?? summary.totalOriginalBytes;
+	const title = estimate ? 'Savings estimate (dry run)' : 'Optimisation report';
+	const cards = [
+		['Files', estimate ? `${estimate.totalFiles}` : `${summary.totalFiles}`],
+		[estimate ? 'Projected savings' : 'Saved', `${formatBytes(saved)} (${percent(saved, original)}%)`],
+		['Before', formatBytes(original)],
+		['After', formatBytes(estimate?.projectedOutputBytes ?? summary.totalOutputBytes)],
+		['Skipped', `${estimate?.projectedSkippedFiles ?? summary.skippedFiles}`],
+		['Failed', `${estimate?.projectedFailedFiles ?? summary.failedFiles}`]
+	];
+	const basis = estimate?.extrapolated ? ` · extrapolated from ${estimate.sampledFiles} of ${estimate.totalFiles} files` : '';
+
+	const folderRows = folderTotals(rows).map((totals) => `<tr><td>${escapeHtml(totals.folder)}</td><td class="num">${totals.files}</td>`
+		+ `<td class="num">${formatBytes(totals.originalBytes)}</td><td class="num">${formatBytes(totals.outputBytes)}</td>`
+		+ `<td class="num">${formatBytes(totals.savedBytes)}</td><td class="num">${totals.savedPercent}%</td></tr>`);
+	const fileRows = rows.map((row) => `<tr class="${row.status}"><td>${escapeHtml(path.basename(row.path))}</td><td>${escapeHtml(row.folder)}</td>`
+		+ `<td>${escapeHtml(row.status)}</td><td>${escapeHtml(row.inputFormat)} → ${escapeHtml(row.outputFormat || row.inputFormat)}</td>`
+		+ `<td class="num">${formatBytes(row.originalBytes)}</td><td class="num">${formatBytes(row.outputBytes)}</td><td class="num">${row.savedPercent}%</td>`
+		+ `<td class="num">${row.ssim === undefined ? '' : row.ssim.toFixed(4)}</td><td>${escapeHtml(row.metadataAction)}</td><td>${escapeHtml(row.note)}</td></tr>`);
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)} — ${escapeHtml(report.runId)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">Run ${escapeHtml(report.runId)} · ${escapeHtml(report.mode)} · ${escapeHtml(report.finishedAt)}${escapeHtml(basis)}</p>
+<div class="cards">${cards.map(([label, value]) => `<div class="card">${escapeHtml(label)}<b>${escapeHtml(value)}</b></div>`).join('')}</div>
+<h2>Folders</h2>
+<table><thead><tr><th>Folder</th><th>Files</th><th>Before</th><th>After</th><th>Saved</th><th>%</th></tr></thead>
+<tbody>${folderRows.join('\n')}</tbody></table>
+<h2>Files</h2>
+<table><thead><tr><th>File</th><th>Folder</th><th>Status</th><th>Format</th><th>Before</th><th>After</th><th>Saved</th><th>SSIM</th><th>Metadata</th><th>Note</th></tr></thead>
+<tbody>${fileRows.join('\n')}</tbody></table>
+</body>
+</html>
+`;
+}
+
+export async function writeRunReport(report: RunReportInput, format: ReportFormat, outputPath: string): Promise<void> {
+	const content = format === 'csv' ? renderCsv(report) : format === 'json' ? renderJson(report) : renderHtml(report);
+	await fs.mkdir(path.dirname(outputPath), { recursive: true });
+	await fs.writeFile(outputPath, content, 'utf-8');
+}
@@ -1,101 +1,231 @@
 import path from 'node:path';
 import fs from 'node:fs/promises';
 import { BrowserWindow } from 'electron';
-import type { BackupRecord, RunSummary, StartRunPayload } from '../../shared/types';
+import type { BackupRecord, FileStatus, RunFileProgress, RunHistoryEntry, RunProgressEvent, RunSummary, StartRunPayload } from '../../shared/types';
 import { resolveInputPaths } from '../fileScanner';
 import { Logger } from '../logger';
-import { getAutoConcurrency, WorkerPool } from '../optimizer/workerPool';
-import { runTask } from '../core/pipeline';
+import { getAutoConcurrency, WorkerCancelledError, WorkerPool } from '../optimizer/workerPool';
 import { JobStateMachine } from '../core/jobs';
+import type { JobResult, JobStatus } from '../core/types';
 import { IPC_EVENTS, type JobUpdatePayload } from '../../shared/ipcEvents';
+import { getClaimDir, getCommonBaseDir } from './runUtils';
+import { collectFailures, isConvertedOutput, toRunLogEntry, writeRunLog, type RunLog } from './runLog';
+import { measureBackupBytes } from './runHistory';
+import { webpOriginalRemoval } from '../optimizer/io/paths';
+import { buildEstimate, measureOriginalBytes, pickSample, resolveSimulation } from './simulation';
+import type { RunReportInput } from './runReport';
 
 const log = new Logger('RunService');
-const activeRuns = new Map<string, { cancelled: boolean }>();
+
+interface ActiveRun {
+	cancelled: boolean;
+	pool?: WorkerPool;
+	states: JobStateMachine[];
+}
+
+const activeRuns = new Map<string, ActiveRun>();
+
+// Kept for report exports; simulated runs have no run log on disk to read them back from.
+const MAX_RECENT_REPORTS = 10;
+const recentReports = new Map<string, RunReportInput>();
+
+export function getRecentRunReport(runId: string): RunReportInput | undefined {
+	return recentReports.get(runId);
+}
+
+function rememberRunReport(report: RunReportInput): void {
+	recentReports.set(report.runId, report);
+	for (const runId of recentReports.keys()) {
+		if (recentReports.size <= MAX_RECENT_REPORTS) break;
+		recentReports.delete(runId);
+	}
+}
 
 function emitJobUpdate(mainWindow: BrowserWindow | null, payload: JobUpdatePayload): void {
 	mainWindow?.webContents.send(IPC_EVENTS.JOB_UPDATED, payload);
 }
 
+function emitRunProgress(mainWindow: BrowserWindow | null, event: RunProgressEvent): void {
+	mainWindow?.webContents.send('run:progress', event);
+}
+
+const FILE_STATUS: Partial<Record<JobStatus, FileStatus>> = {
+	success: 'Done',
+	skipped: 'Skipped',
+	failed: 'Failed',
+	cancelled: 'Cancelled'
+};
+
+function toFileProgress(inputPath: string, status: JobStatus, result: JobResult): RunFileProgress {
+	return {
+		path: inputPath,
+		status: FILE_STATUS[status] ?? 'Processing',
+		beforeBytes: result.originalBytes,
+		afterBytes: result.outputBytes,
+		savedBytes: result.bytesSaved,
+		savedByMetadataBytes: result.metadata?.bytesRemoved,
+		message: result.error?.message ?? result.warnings[0],
+		metadataAction: result.metadata?.metadataAction,
+		metadataRemoved: result.metadata?.removedGroups,
+		iccAction: result.metadata?.iccAction,
+		gpsAction: result.metadata?.gpsAction,
+		budget: result.budget,
+		format: result.format,
+		simulated: result.simulated
+	};
+}
+
 export function cancelRun(runId: string) {
 	const active = activeRuns.get(runId);
-	if (active) {
-		active.cancelled = true;
+	if (!active || active.cancelled) {
+		return;
 	}
+
+	active.cancelled = true;
+	log.info(`Cancelling run ${runId}`);
+	// Queued jobs stop here. Jobs in flight are asked to stop and report back themselves, since one
+	// that already wrote its output still has backups to record.
+	for (const state of active.states) {
+		if (state.status === 'queued') state.cancel();
+	}
+	void active.pool?.cancelAll().catch((error) => log.error(`Failed to cancel workers for run ${runId}`, error));
 }
 
 export async function executeRun(
 	runId: string,
 	payload: StartRunPayload,
 	mainWindow: BrowserWindow | null,
-	updateLastRunState: (state: { runId: string, backupDir?: string, backupRecords: BackupRecord[], logPath: string }) => Promise<void>
+	recordRun: (entry: RunHistoryEntry) => Promise<void>
 ): Promise<void> {
-	activeRuns.set(runId, { cancelled: false });
-	const control = activeRuns.get(runId);
-	if (!control) return;
+	const control: ActiveRun = { cancelled: false, states: [] };
+	activeRuns.set(runId, control);
 
 	const start = Date.now();
-	const resolved = await resolveInputPaths(payload.paths);
+	const startedAt = new Date(start).toISOString();
+	const allPaths = await resolveInputPaths(payload.paths);
+
+	// Simulate runs the chosen mode as a dry run: nothing is written, not even backups or the run log.
+	const simulation = payload.mode === 'simulate' ? resolveSimulation(payload.settings) : null;
+	const mode = simulation?.targetMode ?? payload.mode;
+	const resolved = simulation ? pickSample(allPaths, simulation) : allPaths;
 	const total = resolved.length;
 
-	const commonRoot = getCommonBaseDir(resolved);
-	const backupDir = payload.settings.outputMode === 'replace' ? path.join(commonRoot, 'Originals Backup', runId) : undefined;
-	const logPath = path.join(commonRoot, '.optimise-logs', runId, 'optimise-log.json');
+	const commonRoot = getCommonBaseDir(allPaths);
+	// Replacing originals with WebP removes them, so they are backed up whatever the output mode.
+	const removesOriginals = mode === 'convertWebp' && webpOriginalRemoval(payload.settings) !== null;
+	const backupDir = !simulation && (payload.settings.outputMode === 'replace' || removesOriginals) ? path.join(commonRoot, 'Originals Backup', runId) : undefined;
+	const logPath = simulation ? '' : path.join(commonRoot, '.optimise-logs', runId, 'optimise-log.json');
+	const claimDir = simulation ? undefined : getClaimDir(runId);
 
 	if (backupDir) {
 		await fs.mkdir(backupDir, { recursive: true });
 	}
 
 	const concurrency = payload.settings.concurrencyMode === 'auto' ? getAutoConcurrency() : Math.max(1, payload.settings.concurrencyValue);
-	const pool = new WorkerPool(concurrency);
+	const pool = new WorkerPool(Math.min(concurrency, Math.max(1, total)));
+	control.pool = pool;
 
 	let done = 0;
 	let skipped = 0;
 	let failed = 0;
+	let cancelled = 0;
 	let totalSavedBytes = 0;
 	let totalOriginalBytes = 0;
 	let totalOutputBytes = 0;
+	let totalMetadataBytes = 0;
 	let convertedFiles = 0;
 	const backupRecords: BackupRecord[] = [];
 
-	try {
-		const processPromises = resolved.map(async (inputPath) => {
-			if (control.cancelled) return;
-
-			const state = new JobStateMachine({
-				id: Math.random().toString(36).slice(2, 9),
-				inputPath,
-				settings: { ...payload.settings, mode: payload.mode },
-				backupDir,
-				commonRoot
-			});
+	control.states = resolved.map((inputPath, index) => {
+		const state = new JobStateMachine({
+			id: `${runId}-${index}`,
+			inputPath,
+			settings: { ...payload.settings, mode },
+			backupDir,
+			commonRoot,
+			dryRun: Boolean(simulation)
+		});
 
-			state.on('change', (event) => {
-				emitJobUpdate(mainWindow, {
-					jobId: event.jobId,
-					inputPath: inputPath,
-					status: event.status,
-					progress: event.progress,
-					result: event.result ? {
-						outputPath: event.result.outputPath,
-						originalBytes: event.result.originalBytes,
-						outputBytes: event.result.outputBytes,
-						bytesSaved: event.result.bytesSaved,
-						error: event.result.error ? {
-							code: event.result.error.code,
-							message: event.result.error.message
-						} : undefined
+		state.on('change', (event) => {
+			emitJobUpdate(mainWindow, {
+				jobId: event.jobId,
+				inputPath: inputPath,
+				status: event.status,
+				progress: event.progress,
+				result: event.result ? {
+					outputPath: event.result.outputPath,
+					format: event.result.format,
+					simulated: event.result.simulated,
+					originalBytes: event.result.originalBytes,
+					outputBytes: event.result.outputBytes,
+					bytesSaved: event.result.bytesSaved,
+					quality: event.result.quality,
+					ssim: event.result.ssim,
+					metadataAction: event.result.metadata?.metadataAction,
+					metadataRemoved: event.result.metadata?.removedGroups,
+					iccAction: event.result.metadata?.iccAction,
+					gpsAction: event.result.metadata?.gpsAction,
+					budget: event.result.budget,
+					dimensions: event.result.dimensions,
+					error: event.result.error ? {
+						code: event.result.error.code,
+						message: event.result.error.message
 					} : undefined
-				});
+				} : undefined
 			});
+		});
+
+		return state;
+	});
 
-			const result = await runTask(state.task, state);
+	try {
+		await Promise.all(control.states.map(async (state) => {
+			const { inputPath } = state.task;
+			if (control.cancelled) {
+				state.cancel();
+			} else {
+				try {
+					const response = await pool.run({
+						jobId: state.task.id,
+						inputPath,
+						settings: payload.settings,
+						mode,
+						backupDir,
+						claimDir,
+						commonRoot,
+						dryRun: Boolean(simulation)
+					}, (event) => state.sync(event));
+					if (response.ok) backupRecords.push(...response.backups);
+				} catch (error) {
+					if (error instanceof WorkerCancelledError || control.cancelled) {
+						state.cancel();
+					} else {
+						const message = error instanceof Error ? error.message : String(error);
+						log.error(`Worker failed for ${inputPath}: ${message}`);
+						state.fail({
+							originalBytes: 0,
+							outputBytes: 0,
+							bytesSaved: 0,
+							error: { code: 'E_UNKNOWN', message, retryable: true },
+							timings: { totalMs: 0, stages: {} },
+							warnings: []
+						});
+					}
+				}
+			}
+
+			const result = state.result;
+			if (state.status === 'cancelled' || !result) {
+				cancelled++;
+				return;
+			}
 
 			done++;
 			totalOriginalBytes += result.originalBytes;
 			totalOutputBytes += result.outputBytes;
 			if (result.status === 'success') {
 				totalSavedBytes += result.bytesSaved;
-				if (result.outputPath?.toLowerCase().endsWith('.webp')) {
+				if (isConvertedOutput(result.outputPath)) {
 					convertedFiles += 1;
 				}
 			} else if (result.status === 'failed') {
@@ -103,52 +233,95 @@ export async function executeRun(
 			} else if (result.status === 'skipped') {
 				skipped++;
 			}
-			if (result.backupPath) {
-				backupRecords.push({ originalPath: inputPath, backupPath: result.backupPath });
-			}
-		});
-
-		await Promise.all(processPromises);
+			totalMetadataBytes += result.metadata?.bytesRemoved ?? 0;
 
+			emitRunProgress(mainWindow, {
+				runId,
+				overall: {
+					total,
+					done,
+					failed,
+					skipped,
+					savedBytes: totalSavedBytes,
+					savedByMetadataBytes: totalMetadataBytes,
+					elapsedMs: Date.now() - start
+				},
+				file: toFileProgress(inputPath, state.status, result)
+			});
+		}));
 	} finally {
 		await pool.close();
+		if (claimDir) await fs.rm(claimDir, { recursive: true, force: true }).catch(() => undefined);
 	}
 
+	const entries = control.states.map((state) => toRunLogEntry(state.task.id, state.task.inputPath, state.status, state.result));
 	const summary: RunSummary = {
-	runId,
-	totalFiles: total,
-	processedFiles: done,
-	convertedFiles,
-	skippedFiles: skipped,
-	failedFiles: failed,
-	totalOriginalBytes,
-	totalOutputBytes,
-	totalSavedBytes,
-	elapsedMs: Date.now() - start,
-	logPath,
-	failures: []
-};
+		runId,
+		totalFiles: total,
+		processedFiles: done,
+		convertedFiles,
+		skippedFiles: skipped,
+		failedFiles: failed,
+		cancelledFiles: cancelled,
+		totalOriginalBytes,
+		totalOutputBytes,
+		totalSavedBytes,
+		elapsedMs: Date.now() - start,
+		logPath,
+		failures: collectFailures(entries),
+		estimate: simulation
+			? buildEstimate(
+				simulation.targetMode,
+				// Cancelled files are left out, so a cancelled simulation still extrapolates from what finished.
+				control.states.flatMap((state) => state.status !== 'cancelled' && state.result ? [{ inputPath: state.task.inputPath, result: state.result }] : []),
+				await measureOriginalBytes(allPaths)
+			)
+			: undefined
+	};
 
-	await updateLastRunState({
+	const finishedAt = new Date().toISOString();
+	const runLog: RunLog = {
+		version: 1,
 		runId,
-		backupDir,
-		backupRecords,
-		logPath
-	});
+		mode: payload.mode,
+		startedAt,
+		finishedAt,
+		settings: payload.settings,
+		summary,
+		files: entries
+	};
+	rememberRunReport(runLog);
 
-	mainWindow?.webContents.send(IPC_EVENTS.JOB_FINISHED, summary);
-	activeRuns.delete(runId);
-}
+	if (simulation) {
+		mainWindow?.webContents.send(IPC_EVENTS.JOB_FINISHED, summary);
+		activeRuns.delete(runId);
+		return;
+	}
+
+	try {
+		await writeRunLog(logPath, runLog);
+	} catch (error) {
+		log.error(`Failed to write run log ${logPath}`, error);
+	}
 
-function getCommonBaseDir(paths: string[]): string {
-	if (paths.length === 0) return '/';
-	const resolved = paths.map((item) => path.resolve(item));
-	let common = path.dirname(resolved[0]);
-	for (let i = 1; i < resolved.length; i++) {
-		const current = path.dirname(resolved[i]);
-		while (!current.startsWith(common) && common.length > path.parse(common).root.length) {
-			common = path.dirname(common);
-		}
+	try {
+		await recordRun({
+			runId,
+			mode: payload.mode,
+			startedAt,
+			finishedAt,
+			commonRoot,
+			backupDir,
+			logPath,
+			settings: payload.settings,
+			summary,
+			backupRecords,
+			backupBytes: await measureBackupBytes(backupRecords)
+		});
+	} catch (error) {
+		log.error(`Failed to record run ${runId} in history`, error);
 	}
-	return common;
+
+	mainWindow?.webContents.send(IPC_EVENTS.JOB_FINISHED, summary);
+	activeRuns.delete(runId);
 }
@@ -0,0 +1,32 @@
+import crypto from 'node:crypto';
+import os from 'node:os';
+import path from 'node:path';
+
+/**
+ * Run ids double as folder names for backups and logs, so they are sortable timestamps. The random
+ * suffix keeps two runs started in the same second from sharing a backup folder.
+ */
+export function createRunId(): string {
+	const now = new Date();
+	const pad = (n: number) => String(n).padStart(2, '0');
+	const stamp = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}_${pad(now.getHours())}-${pad(now.getMinutes())}-${pad(now.getSeconds())}`;
+	return `${stamp}_${crypto.randomUUID().slice(0, 8)}`;
+}
+
+/** Scratch directory where a run's workers claim templated output names; removed when the run ends. */
+export function getClaimDir(runId: string): string {
+	return path.join(os.tmpdir(), 'crunch-claims', runId);
+}
+
+export function getCommonBaseDir(paths: string[]): string {
+	if (paths.length === 0) return '/';
+	const resolved = paths.map((item) => path.resolve(item));
+	let common = path.dirname(resolved[0]);
+	for (let i = 1; i < resolved.length; i++) {
+		const current = path.dirname(resolved[i]);
+		while (!current.startsWith(common) && common.length > path.parse(common).root.length) {
+			common = path.dirname(common);
+		}
+	}
+	return common;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, DEFAULT_SIMULATION } from '../../shared/types';
+import type { JobResult } from '../core/types';
+import { buildEstimate, pickSample, resolveSimulation } from './simulation';
+
+function result(status: JobResult['status'], originalBytes: number, outputBytes: number, format?: JobResult['format']): JobResult {
+	return {
+		status,
+		originalBytes,
+		outputBytes,
+		bytesSaved: status === 'success' ? originalBytes - outputBytes : 0,
+		format,
+		simulated: true,
+		timings: { totalMs: 0, stages: {} },
+		warnings: []
+	};
+}
+
+describe('simulation', () => {
+	it('samples evenly and keeps small sets whole', () => {
+		const paths = Array.from({ length: 100 }, (_, index) => `/in/${index}.jpg`);
+		const sampled = { ...DEFAULT_SIMULATION, sampled: true, samplePercent: 10, minSampleFiles: 5 };
+
+		expect(pickSample(paths, sampled)).toEqual(Array.from({ length: 10 }, (_, index) => `/in/${index * 10}.jpg`));
+		expect(pickSample(paths.slice(0, 4), sampled)).toHaveLength(4);
+		expect(pickSample(paths, DEFAULT_SIMULATION)).toBe(paths);
+	});
+
+	it('falls back to optimize for modes that cannot be simulated', () => {
+		const settings = { ...DEFAULT_SETTINGS, simulation: { ...DEFAULT_SIMULATION, targetMode: 'responsive' as never } };
+		expect(resolveSimulation(settings).targetMode).toBe('optimize');
+	});
+
+	it('extrapolates sampled totals by original size', () => {
+		const originalBytes = new Map([['/a.jpg', 1000], ['/b.jpg', 3000], ['/c.jpg', 2000], ['/d.jpg', 2000]]);
+		const estimate = buildEstimate('convertWebp', [
+			{ inputPath: '/a.jpg', result: result('success', 1000, 400, 'webp') },
+			{ inputPath: '/b.jpg', result: result('skipped', 3000, 3000) }
+		], originalBytes);
+
+		expect(estimate).toMatchObject({
+			totalFiles: 4,
+			sampledFiles: 2,
+			extrapolated: true,
+			originalBytes: 8000,
+			projectedOutputBytes: 6800,
+			projectedSavedBytes: 1200,
+			projectedSkippedFiles: 2,
+			projectedFailedFiles: 0,
+			formats: { webp: 2 }
+		});
+	});
+});
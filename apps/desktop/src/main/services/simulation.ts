@@ -0,0 +1,97 @@
+import fs from 'node:fs/promises';
+import { DEFAULT_SIMULATION, type OptimiseSettings, type RunEstimate, type SimulatedRunMode, type SimulationSettings } from '../../shared/types';
+import type { JobResult } from '../core/types';
+
+const SIMULATED_MODES: SimulatedRunMode[] = ['optimize', 'convertWebp', 'convertAvif', 'optimizeAndWebp', 'smart'];
+
+export interface SimulatedFile {
+	inputPath: string;
+	result: JobResult;
+}
+
+/** Settings with defaults filled in; an unknown target mode falls back to optimize. */
+export function resolveSimulation(settings: OptimiseSettings): SimulationSettings {
+	const simulation = { ...DEFAULT_SIMULATION, ...settings.simulation };
+	if (!SIMULATED_MODES.includes(simulation.targetMode)) {
+		simulation.targetMode = DEFAULT_SIMULATION.targetMode;
+	}
+	return simulation;
+}
+
+/**
+ * Picks the files a sampled simulation runs, spread evenly over the scan order so every folder
+ * is represented. Without sampling, or when the sample would cover everything, all paths are kept.
+ */
+export function pickSample(paths: string[], simulation: SimulationSettings): string[] {
+	if (!simulation.sampled) {
+		return paths;
+	}
+	const count = Math.max(simulation.minSampleFiles, Math.ceil(paths.length * simulation.samplePercent / 100));
+	if (count >= paths.length) {
+		return paths;
+	}
+	return Array.from({ length: count }, (_, index) => paths[Math.floor(index * paths.length / count)]);
+}
+
+/** Original sizes of every file, including the ones a sample leaves out. */
+export async function measureOriginalBytes(paths: string[]): Promise<Map<string, number>> {
+	const sizes = new Map<string, number>();
+	for (const item of paths) {
+		const stat = await fs.stat(item).catch(() => null);
+		sizes.set(item, stat?.size ?? 0);
+	}
+	return sizes;
+}
+
+/**
+ * Totals of the simulated files, scaled to the whole set by original size (counts by file count).
+ * Skipped and failed files are projected to keep their original bytes.
+ */
+export function buildEstimate(
+	mode: SimulatedRunMode,
+	files: SimulatedFile[],
+	originalBytes: Map<string, number>
+): RunEstimate {
+	let sampleOriginal = 0;
+	let sampleOutput = 0;
+	let sampleSaved = 0;
+	let skipped = 0;
+	let failed = 0;
+	const formats: RunEstimate['formats'] = {};
+
+	for (const file of files) {
+		const before = originalBytes.get(file.inputPath) ?? file.result.originalBytes;
+		sampleOriginal += before;
+		if (file.result.status === 'success') {
+			sampleOutput += file.result.outputBytes;
+			sampleSaved += file.result.bytesSaved;
+			if (file.result.format) formats[file.result.format] = (formats[file.result.format] ?? 0) + 1;
+		} else {
+			sampleOutput += before;
+			if (file.result.status === 'failed') failed += 1;
+			else skipped += 1;
+		}
+	}
+
+	const totalFiles = originalBytes.size;
+	const totalOriginal = [...originalBytes.values()].reduce((sum, bytes) => sum + bytes, 0);
+	const extrapolated = files.length < totalFiles;
+	const countScale = files.length > 0 ? totalFiles / files.length : 0;
+	const byteScale = sampleOriginal > 0 ? totalOriginal / sampleOriginal : countScale;
+	const scaleCount = (count: number) => Math.round(count * countScale);
+
+	return {
+		mode,
+		totalFiles,
+		sampledFiles: files.length,
+		extrapolated,
+		originalBytes: totalOriginal,
+		projectedOutputBytes: extrapolated ? Math.round(sampleOutput * byteScale) : sampleOutput,
+		projectedSavedBytes: extrapolated ? Math.round(sampleSaved * byteScale) : sampleSaved,
+		projectedSkippedFiles: extrapolated ? scaleCount(skipped) : skipped,
+		projectedFailedFiles: extrapolated ? scaleCount(failed) : failed,
+		formats: extrapolated
+			? Object.fromEntries(Object.entries(formats).map(([format, count]) => [format, scaleCount(count)]))
+			: formats
+	};
+}
@@ -0,0 +1,67 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Logger } from '../logger';
+import { HeldQueueStore, type HeldItem } from './heldQueue';
+
+let userData: string;
+
+function held(folder: string, name: string, overrides: Partial<HeldItem> = {}): HeldItem {
+	return { jobId: name, folder, filePath: `${folder}/${name}`, retryCount: 0, source: 'event', heldAt: 1, ...overrides };
+}
+
+beforeEach(async () => {
+	userData = await fs.mkdtemp(path.join(os.tmpdir(), 'held-queue-'));
+});
+
+afterEach(async () => {
+	await fs.rm(userData, { recursive: true, force: true });
+});
+
+describe('HeldQueueStore', () => {
+	it('survives a restart in arrival order', async () => {
+		const store = new HeldQueueStore(userData);
+		await store.init();
+		store.add(held('/a', '1.jpg'));
+		store.add(held('/b', '2.jpg'));
+		store.add(held('/a', '1.jpg'));
+		store.add(held('/a', '3.jpg', { backlog: true, source: 'sync' }));
+		await store.save();
+
+		const reopened = new HeldQueueStore(userData);
+		await reopened.init();
+		expect(reopened.has('/a/1.jpg')).toBe(true);
+		expect(Object.fromEntries(reopened.counts())).toEqual({ '/a': 2, '/b': 1 });
+		expect(reopened.take('/a').map((item) => item.filePath)).toEqual(['/a/1.jpg', '/a/3.jpg']);
+		expect(reopened.has('/a/1.jpg')).toBe(false);
+	});
+
+	it('takes only backlog items when asked', async () => {
+		const store = new HeldQueueStore(userData);
+		await store.init();
+		store.add(held('/a', 'live.jpg'));
+		store.add(held('/a', 'old.jpg', { backlog: true, source: 'sync' }));
+
+		expect(store.take('/a', { backlogOnly: true }).map((item) => item.jobId)).toEqual(['old.jpg']);
+		expect(store.take().map((item) => item.jobId)).toEqual(['live.jpg']);
+		await store.save();
+	});
+
+	it('reports a failed save through its logger', async () => {
+		const errors: string[] = [];
+		const logger = new (class extends Logger {
+			error(message: string) {
+				errors.push(message);
+			}
+		})('HeldQueue');
+		// A file where the directory should be makes the save fail.
+		const blocked = path.join(userData, 'blocked');
+		await fs.writeFile(blocked, '');
+
+		const store = new HeldQueueStore(path.join(blocked, 'data'), logger);
+		store.add(held('/a', '1.jpg'));
+		await store.save();
+		expect(errors).toEqual(['Failed to save held watch queue:']);
+	});
+});
@@ -0,0 +1,95 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { JobAddedPayload } from '../../shared/ipcEvents';
+import { Logger } from '../logger';
+import type { WatchQueueItem } from './watchQueue';
+
+export interface HeldItem extends WatchQueueItem {
+	source: JobAddedPayload['source'];
+	heldAt: number;
+}
+
+interface HeldQueueData {
+	version: number;
+	items: HeldItem[];
+}
+
+/**
+ * Files a folder's schedule is holding back, in arrival order. Persisted so files that arrive
+ * outside processing hours are still processed after a restart.
+ */
+export class HeldQueueStore {
+	private readonly filePath: string;
+	private items: HeldItem[] = [];
+	private readonly paths = new Set<string>();
+	private saveTimer: NodeJS.Timeout | null = null;
+
+	constructor(userDataPath: string, private readonly log: Logger = new Logger('HeldQueue')) {
+		this.filePath = path.join(userDataPath, 'watch-held-queue.json');
+	}
+
+	async init(): Promise<void> {
+		try {
+			const raw = await fs.readFile(this.filePath, 'utf-8');
+			const data = JSON.parse(raw) as HeldQueueData;
+			this.items = Array.isArray(data.items) ? data.items : [];
+		} catch {
+			this.items = [];
+		}
+		this.paths.clear();
+		for (const item of this.items) this.paths.add(item.filePath);
+	}
+
+	has(filePath: string): boolean {
+		return this.paths.has(filePath);
+	}
+
+	add(item: HeldItem): void {
+		if (this.paths.has(item.filePath)) return;
+		this.items.push(item);
+		this.paths.add(item.filePath);
+		this.scheduleSave();
+	}
+
+	/** Removes and returns a folder's held files (or every folder's), oldest first. */
+	take(folder?: string, options: { backlogOnly?: boolean } = {}): HeldItem[] {
+		const matches = (item: HeldItem) => (!folder || item.folder === folder) && (!options.backlogOnly || item.backlog);
+		const taken = this.items.filter(matches);
+		if (taken.length === 0) return taken;
+
+		this.items = this.items.filter((item) => !matches(item));
+		for (const item of taken) this.paths.delete(item.filePath);
+		this.scheduleSave();
+		return taken;
+	}
+
+	counts(): Map<string, number> {
+		const counts = new Map<string, number>();
+		for (const item of this.items) counts.set(item.folder, (counts.get(item.folder) ?? 0) + 1);
+		return counts;
+	}
+
+	private scheduleSave(): void {
+		if (this.saveTimer) return;
+
+		this.saveTimer = setTimeout(async () => {
+			this.saveTimer = null;
+			await this.save();
+		}, 1000);
+	}
+
+	async save(): Promise<void> {
+		if (this.saveTimer) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
+
+		const data: HeldQueueData = { version: 1, items: this.items };
+		try {
+			await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+			await fs.writeFile(this.filePath, JSON.stringify(data), 'utf-8');
+		} catch (error) {
+			this.log.error('Failed to save held watch queue:', error);
+		}
+	}
+}
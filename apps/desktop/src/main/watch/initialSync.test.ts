@@ -0,0 +1,59 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { scanExistingFiles, type ExistingFileScanOptions } from './initialSync';
+
+let root: string;
+
+async function touch(...parts: string[]): Promise<void> {
+	const filePath = path.join(root, ...parts);
+	await fs.mkdir(path.dirname(filePath), { recursive: true });
+	await fs.writeFile(filePath, 'x');
+}
+
+async function scan(options: Partial<ExistingFileScanOptions> = {}): Promise<string[]> {
+	const found: string[] = [];
+	for await (const file of scanExistingFiles(root, { maxDepth: null, isIgnored: () => false, accepts: () => true, ...options })) {
+		found.push(path.relative(root, file.path).split(path.sep).join('/'));
+	}
+	return found;
+}
+
+beforeEach(async () => {
+	root = await fs.mkdtemp(path.join(os.tmpdir(), 'initial-sync-'));
+	await touch('b.jpg');
+	await touch('a.png');
+	await touch('sub', 'c.jpg');
+	await touch('sub', 'deeper', 'd.jpg');
+	await touch('Optimized', 'a.png');
+});
+
+afterEach(async () => {
+	await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('scanExistingFiles', () => {
+	it('lists files in name order, each folder before its subfolders', async () => {
+		expect(await scan()).toEqual(['a.png', 'b.jpg', 'Optimized/a.png', 'sub/c.jpg', 'sub/deeper/d.jpg']);
+	});
+
+	it('skips ignored folders and respects the depth limit and filter', async () => {
+		const found = await scan({
+			maxDepth: 1,
+			isIgnored: (entryPath) => path.basename(entryPath) === 'Optimized',
+			accepts: (filePath) => filePath.endsWith('.jpg')
+		});
+		expect(found).toEqual(['b.jpg', 'sub/c.jpg']);
+	});
+
+	it('stops as soon as it is cancelled', async () => {
+		let cancelled = false;
+		const found: string[] = [];
+		for await (const file of scanExistingFiles(root, { maxDepth: null, isIgnored: () => false, accepts: () => true, isCancelled: () => cancelled })) {
+			found.push(file.path);
+			cancelled = true;
+		}
+		expect(found).toHaveLength(1);
+	});
+});
@@ -0,0 +1,56 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+
+export interface ExistingFile {
+	path: string;
+	size: number;
+	mtime: number;
+}
+
+export interface ExistingFileScanOptions {
+	maxDepth: number | null;
+	isIgnored: (entryPath: string) => boolean;
+	accepts: (filePath: string) => boolean;
+	isCancelled?: () => boolean;
+}
+
+// Entries visited between yields to the event loop, so a large tree does not stall IPC.
+const YIELD_EVERY = 200;
+
+/**
+ * Walks a watch folder depth-first and yields the files its rules accept, in name order with
+ * each folder's files before its subfolders. Unreadable folders are skipped rather than failing
+ * the scan.
+ */
+export async function* scanExistingFiles(root: string, options: ExistingFileScanOptions): AsyncGenerator<ExistingFile> {
+	const pending: Array<{ dir: string; depth: number }> = [{ dir: root, depth: 0 }];
+	let visited = 0;
+
+	while (pending.length > 0) {
+		const { dir, depth } = pending.pop()!;
+		const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+		entries.sort((a, b) => a.name.localeCompare(b.name));
+
+		const subdirs: typeof pending = [];
+		for (const entry of entries) {
+			if (options.isCancelled?.()) return;
+			if (++visited % YIELD_EVERY === 0) {
+				await new Promise((resolve) => setImmediate(resolve));
+			}
+
+			const entryPath = path.join(dir, entry.name);
+			if (options.isIgnored(entryPath)) continue;
+
+			if (entry.isDirectory()) {
+				if (options.maxDepth === null || depth < options.maxDepth) {
+					subdirs.push({ dir: entryPath, depth: depth + 1 });
+				}
+			} else if (entry.isFile() && options.accepts(entryPath)) {
+				const stat = await fs.stat(entryPath).catch(() => null);
+				if (stat) yield { path: entryPath, size: stat.size, mtime: stat.mtimeMs };
+			}
+		}
+		// Reversed so the stack visits subfolders in name order, after this folder's files.
+		pending.push(...subdirs.reverse());
+	}
+}
@@ -0,0 +1,110 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ProcessedIndexStore } from './processedIndex';
+
+let userData: string;
+let photos: string;
+
+async function write(name: string, content: string): Promise<string> {
+	const filePath = path.join(photos, name);
+	await fs.mkdir(path.dirname(filePath), { recursive: true });
+	await fs.writeFile(filePath, content);
+	return filePath;
+}
+
+async function open(): Promise<ProcessedIndexStore> {
+	const store = new ProcessedIndexStore(userData);
+	await store.init();
+	return store;
+}
+
+beforeEach(async () => {
+	userData = await fs.mkdtemp(path.join(os.tmpdir(), 'processed-index-'));
+	photos = path.join(userData, 'photos');
+});
+
+afterEach(async () => {
+	await fs.rm(userData, { recursive: true, force: true });
+});
+
+describe('ProcessedIndexStore', () => {
+	it('migrates the JSON index and replays appended changes after a restart', async () => {
+		await fs.writeFile(path.join(userData, 'processed-index.json'), JSON.stringify({
+			version: 1,
+			index: { '/old/a.jpg': { size: 1, mtime: 2, hash: 'aaa' }, '/old/b.jpg': { size: 3, mtime: 4, hash: 'bbb' } }
+		}));
+
+		const store = await open();
+		expect(store.size).toBe(2);
+		await expect(fs.access(path.join(userData, 'processed-index.json.migrated'))).resolves.toBeUndefined();
+
+		store.markProcessed('/new/c.jpg', { size: 5, mtime: 6, hash: 'ccc' });
+		store.remove('/old/a.jpg');
+		await store.save();
+		const log = await fs.readFile(path.join(userData, 'processed-index.jsonl'), 'utf-8');
+		expect(log.trimEnd().split('\n')).toHaveLength(5);
+
+		const reopened = await open();
+		expect(reopened.size).toBe(2);
+		expect(reopened.isUnchangedSince('/new/c.jpg', 5, 6)).toBe(true);
+		expect(reopened.isUnchangedSince('/old/a.jpg', 1, 2)).toBe(false);
+	});
+
+	it('follows a moved file by its content hash but processes copies', async () => {
+		const store = await open();
+		const original = await write('a.jpg', 'pixels');
+		store.markProcessed(original, await store.getFingerprint(original));
+
+		const copy = await write('copy/a.jpg', 'pixels');
+		expect(await store.findProcessed(copy, await store.getFingerprint(copy))).toBeNull();
+
+		const moved = path.join(photos, 'renamed.jpg');
+		await fs.rename(original, moved);
+		expect(await store.findProcessed(moved, await store.getFingerprint(moved))).toEqual({ path: original, moved: true });
+		expect(await store.findProcessed(moved, await store.getFingerprint(moved))).toEqual({ path: moved, moved: false });
+		expect(store.size).toBe(1);
+		await store.save();
+	});
+
+	it('prunes missing files, resets one folder and exports what is left', async () => {
+		const store = await open();
+		const kept = await write('keep/a.jpg', 'a');
+		const reset = await write('shoot/b.jpg', 'b');
+		store.markProcessed(kept, await store.getFingerprint(kept));
+		store.markProcessed(reset, await store.getFingerprint(reset));
+		store.markProcessed(path.join(photos, 'gone.jpg'), { size: 1, mtime: 1, hash: 'gone' });
+
+		expect(await store.pruneMissing()).toBe(1);
+		expect(await store.resetFolder(path.join(photos, 'shoot'))).toBe(1);
+
+		const exportPath = path.join(userData, 'export', 'index.json');
+		expect(await store.exportTo(exportPath)).toBe(1);
+		const exported = JSON.parse(await fs.readFile(exportPath, 'utf-8'));
+		expect(exported.entries.map((entry: { path: string }) => entry.path)).toEqual([kept]);
+
+		// Compaction leaves only the header and the live entry.
+		const log = await fs.readFile(path.join(userData, 'processed-index.jsonl'), 'utf-8');
+		expect(log.trimEnd().split('\n')).toHaveLength(2);
+		expect((await open()).size).toBe(1);
+	});
+
+	it('compacts during a session once superseded lines pile up', async () => {
+		const store = await open();
+		const logPath = path.join(userData, 'processed-index.jsonl');
+		store.markProcessed('/a.jpg', { size: 1, mtime: 1, hash: 'a' });
+		store.markProcessed('/b.jpg', { size: 1, mtime: 1, hash: 'b' });
+		await store.save();
+		expect((await fs.readFile(logPath, 'utf-8')).trimEnd().split('\n')).toHaveLength(3);
+
+		// The same file reprocessed over and over, without a restart to trigger compaction.
+		for (let mtime = 2; mtime < 10_100; mtime++) store.markProcessed('/a.jpg', { size: 1, mtime, hash: 'a' });
+		await store.save();
+
+		const log = (await fs.readFile(logPath, 'utf-8')).trimEnd().split('\n');
+		expect(log).toHaveLength(3);
+		expect(log.slice(1).map((line) => JSON.parse(line).mtime).sort((a, b) => a - b)).toEqual([1, 10_099]);
+		expect((await open()).isUnchangedSince('/a.jpg', 1, 10_099)).toBe(true);
+	});
+});
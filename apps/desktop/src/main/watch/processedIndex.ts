@@ -1,6 +1,9 @@
 import fs from 'node:fs/promises';
+import { createReadStream } from 'node:fs';
 import path from 'node:path';
+import readline from 'node:readline';
 import crypto from 'node:crypto';
+import { Logger } from '../logger';
 
 export interface FileFingerprint {
 	size: number;
@@ -8,55 +11,161 @@ export interface FileFingerprint {
 	hash: string;
 }
 
-interface ProcessedIndexData {
-	version: number;
-	// Key is absolute path, value is fingerprint
-	index: Record<string, FileFingerprint>;
+export interface ProcessedRecord extends FileFingerprint {
+	path: string;
+	processedAt?: number; // Missing for entries migrated from the old JSON index
 }
 
+export interface ProcessedMatch {
+	path: string; // Where the content was processed
+	moved: boolean; // True when it was found under another path that no longer exists
+}
+
+// One line per change: a record, or `{ path, deleted: true }`. Later lines win.
+type LogLine = ProcessedRecord | { path: string; deleted: true };
+
+const LOG_FILE = 'processed-index.jsonl';
+const LEGACY_FILE = 'processed-index.json';
+const LOG_VERSION = 2;
+// The log is rewritten once superseded lines outnumber live entries by this much.
+const COMPACT_SLACK = 10_000;
+const PRUNE_BATCH = 64;
+
+function isWithin(folder: string, filePath: string): boolean {
+	const relative = path.relative(folder, filePath);
+	return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Which files the watcher has already optimized, keyed by path and by content hash so a renamed
+ * or moved file is recognised rather than processed again. Changes are appended to a JSON Lines
+ * log and batched; the log is only rewritten when compacting, so saves stay cheap at any size.
+ */
 export class ProcessedIndexStore {
-	private readonly indexPath: string;
-	private index: Record<string, FileFingerprint> = {};
-	private dirty = false;
+	private readonly logPath: string;
+	private readonly legacyPath: string;
+	private readonly entries = new Map<string, ProcessedRecord>();
+	private readonly byHash = new Map<string, Set<string>>();
+	private pending: string[] = [];
+	private logLines = 0;
+	private logExists = false;
 	private saveTimer: NodeJS.Timeout | null = null;
+	// Appends and compactions run one at a time, in order.
+	private writing: Promise<void> = Promise.resolve();
 
-	constructor(userDataPath: string) {
-		this.indexPath = path.join(userDataPath, 'processed-index.json');
+	constructor(userDataPath: string, private readonly log: Logger = new Logger('ProcessedIndex')) {
+		this.logPath = path.join(userDataPath, LOG_FILE);
+		this.legacyPath = path.join(userDataPath, LEGACY_FILE);
 	}
 
 	async init(): Promise<void> {
+		this.entries.clear();
+		this.byHash.clear();
+		this.logLines = 0;
+		this.logExists = false;
+
+		if (await this.readLog()) {
+			if (this.needsCompaction()) await this.compact();
+			return;
+		}
+
+		// First run after the JSON index: carry its entries over, then keep it aside.
 		try {
-			const raw = await fs.readFile(this.indexPath, 'utf-8');
-			const data = JSON.parse(raw) as ProcessedIndexData;
-			this.index = data.index || {};
+			const raw = await fs.readFile(this.legacyPath, 'utf-8');
+			const data = JSON.parse(raw) as { index?: Record<string, FileFingerprint> };
+			for (const [filePath, fingerprint] of Object.entries(data.index ?? {})) {
+				this.apply({ path: filePath, size: fingerprint.size, mtime: fingerprint.mtime, hash: fingerprint.hash });
+			}
+			await this.compact();
+			await fs.rename(this.legacyPath, `${this.legacyPath}.migrated`);
 		} catch {
-			this.index = {};
+			// No legacy index, or an unreadable one: start empty.
 		}
 	}
 
-	hasBeenProcessed(filePath: string, fingerprint: FileFingerprint): boolean {
-		const existing = this.index[filePath];
-		if (!existing) return false;
+	get size(): number {
+		return this.entries.size;
+	}
 
-		return (
-			existing.size === fingerprint.size &&
-			existing.mtime === fingerprint.mtime &&
-			existing.hash === fingerprint.hash
-		);
+	/** Cheap check on size and mtime alone, for scans that would otherwise hash every file. */
+	isUnchangedSince(filePath: string, size: number, mtime: number): boolean {
+		const existing = this.entries.get(filePath);
+		return Boolean(existing) && existing!.size === size && existing!.mtime === mtime;
 	}
 
-	markProcessed(filePath: string, fingerprint: FileFingerprint): void {
-		this.index[filePath] = fingerprint;
-		this.dirty = true;
-		this.scheduleSave();
+	/**
+	 * Finds earlier processing of this content: at the same path, or at a path that no longer
+	 * exists, in which case the file was moved and the record follows it. Copies whose original
+	 * is still in place are not matched, so they are processed in their own right.
+	 */
+	async findProcessed(filePath: string, fingerprint: FileFingerprint): Promise<ProcessedMatch | null> {
+		const existing = this.entries.get(filePath);
+		if (existing && existing.size === fingerprint.size && existing.mtime === fingerprint.mtime && existing.hash === fingerprint.hash) {
+			return { path: filePath, moved: false };
+		}
+
+		for (const candidate of this.byHash.get(fingerprint.hash) ?? []) {
+			const record = this.entries.get(candidate);
+			if (candidate === filePath || !record || record.size !== fingerprint.size) continue;
+			if (await fs.access(candidate).then(() => true, () => false)) continue;
+
+			this.remove(candidate);
+			this.markProcessed(filePath, fingerprint, record.processedAt);
+			return { path: candidate, moved: true };
+		}
+		return null;
+	}
+
+	markProcessed(filePath: string, fingerprint: FileFingerprint, processedAt = Date.now()): void {
+		this.record({ path: filePath, size: fingerprint.size, mtime: fingerprint.mtime, hash: fingerprint.hash, processedAt });
 	}
 
 	remove(filePath: string): void {
-		if (this.index[filePath]) {
-			delete this.index[filePath];
-			this.dirty = true;
-			this.scheduleSave();
+		if (this.entries.has(filePath)) {
+			this.record({ path: filePath, deleted: true });
+		}
+	}
+
+	/** Forgets every file under a folder, so the watcher processes them again. */
+	async resetFolder(folder: string): Promise<number> {
+		const root = path.resolve(folder);
+		const removed = [...this.entries.keys()].filter((filePath) => isWithin(root, filePath));
+		for (const filePath of removed) this.remove(filePath);
+		await this.compact();
+		return removed.length;
+	}
+
+	/** Drops entries whose files are gone, optionally within one folder. */
+	async pruneMissing(folder?: string): Promise<number> {
+		const root = folder ? path.resolve(folder) : null;
+		const candidates = [...this.entries.keys()].filter((filePath) => !root || isWithin(root, filePath));
+		let removed = 0;
+
+		for (let index = 0; index < candidates.length; index += PRUNE_BATCH) {
+			const batch = candidates.slice(index, index + PRUNE_BATCH);
+			const exists = await Promise.all(batch.map((filePath) => fs.access(filePath).then(() => true, () => false)));
+			batch.forEach((filePath, position) => {
+				if (!exists[position]) {
+					this.remove(filePath);
+					removed += 1;
+				}
+			});
 		}
+
+		if (removed > 0) await this.compact();
+		return removed;
+	}
+
+	/** Writes the live entries, optionally within one folder, as a JSON document. */
+	async exportTo(outputPath: string, folder?: string): Promise<number> {
+		const root = folder ? path.resolve(folder) : null;
+		const records = [...this.entries.values()]
+			.filter((record) => !root || isWithin(root, record.path))
+			.sort((a, b) => a.path.localeCompare(b.path));
+
+		await fs.mkdir(path.dirname(outputPath), { recursive: true });
+		await fs.writeFile(outputPath, `${JSON.stringify({ version: LOG_VERSION, exportedAt: new Date().toISOString(), entries: records }, null, 2)}\n`, 'utf-8');
+		return records.length;
 	}
 
 	async getFingerprint(filePath: string): Promise<FileFingerprint> {
@@ -98,29 +207,113 @@ export class ProcessedIndexStore {
 		return hash.digest('hex');
 	}
 
+	/** Replays the log; false when there is none yet. Torn lines from a crash mid-append are skipped. */
+	private async readLog(): Promise<boolean> {
+		try {
+			await fs.access(this.logPath);
+		} catch {
+			return false;
+		}
+
+		this.logExists = true;
+		const lines = readline.createInterface({ input: createReadStream(this.logPath, 'utf-8'), crlfDelay: Infinity });
+		for await (const line of lines) {
+			if (!line.trim()) continue;
+			try {
+				const parsed = JSON.parse(line) as LogLine | { version: number };
+				if ('path' in parsed) {
+					this.apply(parsed);
+					this.logLines += 1;
+				}
+			} catch {
+				// Ignore the partial line
+			}
+		}
+		return true;
+	}
+
+	private apply(line: LogLine): void {
+		const previous = this.entries.get(line.path);
+		if (previous) {
+			const paths = this.byHash.get(previous.hash);
+			paths?.delete(line.path);
+			if (paths?.size === 0) this.byHash.delete(previous.hash);
+			this.entries.delete(line.path);
+		}
+		if ('deleted' in line) return;
+
+		this.entries.set(line.path, line);
+		const paths = this.byHash.get(line.hash) ?? new Set<string>();
+		paths.add(line.path);
+		this.byHash.set(line.hash, paths);
+	}
+
+	private record(line: LogLine): void {
+		this.apply(line);
+		this.pending.push(JSON.stringify(line));
+		this.scheduleSave();
+	}
+
 	private scheduleSave(): void {
 		if (this.saveTimer) return;
 
-		this.saveTimer = setTimeout(async () => {
-			await this.save();
+		this.saveTimer = setTimeout(() => {
 			this.saveTimer = null;
-		}, 2000); // Batch saves every 2s
+			void this.save();
+		}, 2000); // Batch appends every 2s
 	}
 
+	/** Appends changes made since the last save, compacting once the log has grown too far. */
 	async save(): Promise<void> {
-		if (!this.dirty) return;
+		if (this.saveTimer) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = null;
+		}
+		if (this.pending.length === 0) return this.writing;
 
-		const data: ProcessedIndexData = {
-			version: 1,
-			index: this.index
-		};
+		const lines = this.pending;
+		this.pending = [];
+		await this.enqueueWrite(async () => {
+			await fs.mkdir(path.dirname(this.logPath), { recursive: true });
+			if (!this.logExists) {
+				await fs.appendFile(this.logPath, `${JSON.stringify({ version: LOG_VERSION })}\n`, 'utf-8');
+				this.logExists = true;
+			}
+			await fs.appendFile(this.logPath, `${lines.join('\n')}\n`, 'utf-8');
+			this.logLines += lines.length;
+		});
+		// A long-running session rewrites the same files many times; keep the log from growing unbounded.
+		if (this.needsCompaction()) await this.compact();
+	}
 
-		try {
-			await fs.mkdir(path.dirname(this.indexPath), { recursive: true });
-			await fs.writeFile(this.indexPath, JSON.stringify(data, null, 2), 'utf-8');
-			this.dirty = false;
-		} catch (error) {
-			console.error('Failed to save processed index:', error);
+	private needsCompaction(): boolean {
+		return this.logLines > this.entries.size * 2 + COMPACT_SLACK;
+	}
+
+	/** Rewrites the log with only live entries, via a temp file so a crash leaves the old log intact. */
+	private async compact(): Promise<void> {
+		if (this.saveTimer) {
+			clearTimeout(this.saveTimer);
+			this.saveTimer = null;
 		}
+		// Pending changes are already in the entries being written out.
+		this.pending = [];
+
+		return this.enqueueWrite(async () => {
+			const records = [...this.entries.values()];
+			const tempPath = `${this.logPath}.tmp`;
+			await fs.mkdir(path.dirname(this.logPath), { recursive: true });
+			await fs.writeFile(tempPath, [JSON.stringify({ version: LOG_VERSION }), ...records.map((record) => JSON.stringify(record)), ''].join('\n'), 'utf-8');
+			await fs.rename(tempPath, this.logPath);
+			this.logExists = true;
+			this.logLines = records.length;
+		});
+	}
+
+	private enqueueWrite(task: () => Promise<void>): Promise<void> {
+		this.writing = this.writing.then(task).catch((error) => {
+			this.log.error('Failed to save processed index:', error);
+		});
+		return this.writing;
 	}
 }
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WatchQueue, type WatchQueueItem } from './watchQueue';
+
+const item = (folder: string, name: string, overrides: Partial<WatchQueueItem> = {}): WatchQueueItem => ({
+	jobId: `${folder}/${name}`,
+	folder,
+	filePath: `${folder}/${name}`,
+	retryCount: 0,
+	...overrides
+});
+
+afterEach(() => {
+	vi.useRealTimers();
+});
+
+describe('WatchQueue', () => {
+	it('runs live events before backlog and keeps a worker free for them', () => {
+		const queue = new WatchQueue(2);
+		queue.enqueue(item('/a', '1.jpg', { backlog: true }));
+		queue.enqueue(item('/a', '2.jpg', { backlog: true }));
+		queue.enqueue(item('/b', 'early.jpg'));
+
+		const live = queue.next();
+		expect(live?.filePath).toBe('/b/early.jpg');
+		expect(queue.next()?.filePath).toBe('/a/1.jpg');
+		queue.finish(live!);
+
+		// One backlog job is running, so the free worker is held for live events.
+		expect(queue.next()).toBeUndefined();
+		queue.enqueue(item('/b', 'late.jpg'));
+		expect(queue.next()?.filePath).toBe('/b/late.jpg');
+		expect(queue.stats()).toMatchObject({ active: 2, queued: 0, backlog: 1 });
+	});
+
+	it('pauses, prioritises a folder and clears waiting jobs', () => {
+		const queue = new WatchQueue(4);
+		queue.enqueue(item('/a', '1.jpg'));
+		queue.enqueue(item('/b', '1.jpg'));
+		queue.setPaused(true);
+		expect(queue.next()).toBeUndefined();
+
+		queue.prioritize('/b');
+		queue.enqueue(item('/b', '2.jpg'));
+		queue.setPaused(false);
+		expect([queue.next(), queue.next()].map((next) => next?.filePath)).toEqual(['/b/1.jpg', '/b/2.jpg']);
+
+		queue.enqueue(item('/c', '1.jpg'));
+		expect(queue.clear('/a').map((dropped) => dropped.filePath)).toEqual(['/a/1.jpg']);
+		expect(queue.has('/a/1.jpg')).toBe(false);
+		expect(queue.stats().folders).toEqual([
+			{ folder: '/b', queued: 0, active: 2 },
+			{ folder: '/c', queued: 1, active: 0 }
+		]);
+	});
+
+	it('tracks retry backoff and failure history, and re-queues failures', () => {
+		vi.useFakeTimers();
+		vi.setSystemTime(1000);
+		const queue = new WatchQueue(1);
+		const due: WatchQueueItem[] = [];
+		const first = item('/a', 'bad.jpg');
+
+		queue.scheduleRetry(first, 3000, (retry) => due.push(retry));
+		expect(queue.has(first.filePath)).toBe(true);
+		expect(queue.stats().retrying).toEqual([{ jobId: first.jobId, folder: '/a', path: '/a/bad.jpg', attempt: 2, nextAttemptAt: 4000 }]);
+
+		vi.advanceTimersByTime(3000);
+		expect(due).toHaveLength(1);
+		expect(queue.stats().retrying).toEqual([]);
+
+		queue.recordFailure(due[0], 'corrupt');
+		expect(queue.stats().failures).toMatchObject([{ path: '/a/bad.jpg', message: 'corrupt', attempts: 2, failedAt: 4000 }]);
+		expect(queue.takeFailures()).toMatchObject([{ filePath: '/a/bad.jpg', retryCount: 0 }]);
+		expect(queue.stats().failures).toEqual([]);
+	});
+});
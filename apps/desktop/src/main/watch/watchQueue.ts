@@ -0,0 +1,191 @@
+import type { QueueFailureInfo, QueueStatsPayload } from '../../shared/ipcEvents';
+
+export interface WatchQueueItem {
+	jobId: string;
+	folder: string;
+	filePath: string;
+	retryCount: number;
+	backlog?: boolean; // Found by an initial sync rather than a file event
+}
+
+interface PendingRetry {
+	item: WatchQueueItem;
+	dueAt: number;
+	timer: NodeJS.Timeout;
+}
+
+interface FailedItem extends QueueFailureInfo {
+	item: WatchQueueItem;
+}
+
+const MAX_FAILURES = 50;
+
+/**
+ * Ordering and bookkeeping for watch jobs: live events ahead of initial-sync backlog, an
+ * optional prioritised folder ahead of both, retries waiting out their backoff and a bounded
+ * failure history. The watcher owns execution; this class only decides what runs next.
+ */
+export class WatchQueue {
+	private readonly live: WatchQueueItem[] = [];
+	private readonly backlog: WatchQueueItem[] = [];
+	private readonly waiting = new Set<string>(); // Paths in `live` or `backlog`
+	private readonly active = new Map<string, WatchQueueItem>();
+	private readonly retries = new Map<string, PendingRetry>();
+	private failures: FailedItem[] = [];
+	private prioritizedFolder: string | null = null;
+	private activeBacklog = 0;
+	private paused = false;
+
+	constructor(
+		private readonly maxConcurrent: number,
+		private readonly onChange: () => void = () => undefined
+	) { }
+
+	/** True while the file is queued, running or waiting to retry. */
+	has(filePath: string): boolean {
+		return this.waiting.has(filePath) || this.active.has(filePath) || this.retries.has(filePath);
+	}
+
+	enqueue(item: WatchQueueItem): void {
+		const list = item.backlog ? this.backlog : this.live;
+		if (item.folder === this.prioritizedFolder) {
+			const firstOther = list.findIndex((queued) => queued.folder !== this.prioritizedFolder);
+			list.splice(firstOther === -1 ? list.length : firstOther, 0, item);
+		} else {
+			list.push(item);
+		}
+		this.waiting.add(item.filePath);
+		this.onChange();
+	}
+
+	/**
+	 * Takes the next job to run, or nothing while paused or at capacity. Backlog work waits for
+	 * live events and keeps a worker free for the next one.
+	 */
+	next(): WatchQueueItem | undefined {
+		if (this.paused || this.active.size >= this.maxConcurrent) return undefined;
+
+		let item = this.live.shift();
+		if (!item && this.activeBacklog < Math.max(1, this.maxConcurrent - 1)) {
+			item = this.backlog.shift();
+		}
+		if (!item) return undefined;
+
+		this.waiting.delete(item.filePath);
+		this.active.set(item.filePath, item);
+		if (item.backlog) this.activeBacklog += 1;
+		this.onChange();
+		return item;
+	}
+
+	finish(item: WatchQueueItem): void {
+		if (this.active.get(item.filePath) !== item) return;
+		this.active.delete(item.filePath);
+		if (item.backlog) this.activeBacklog -= 1;
+		this.onChange();
+	}
+
+	scheduleRetry(item: WatchQueueItem, delayMs: number, onDue: (retry: WatchQueueItem) => void): void {
+		const retry = { ...item, retryCount: item.retryCount + 1 };
+		const timer = setTimeout(() => {
+			this.retries.delete(item.filePath);
+			onDue(retry);
+		}, delayMs);
+		this.retries.set(item.filePath, { item: retry, dueAt: Date.now() + delayMs, timer });
+		this.onChange();
+	}
+
+	recordFailure(item: WatchQueueItem, message: string): void {
+		this.failures = [
+			{ jobId: item.jobId, folder: item.folder, path: item.filePath, message, attempts: item.retryCount + 1, failedAt: Date.now(), item },
+			...this.failures.filter((failure) => failure.path !== item.filePath)
+		].slice(0, MAX_FAILURES);
+		this.onChange();
+	}
+
+	/** Removes failed jobs (all, or the given paths) from the history and returns fresh items to queue. */
+	takeFailures(paths?: string[]): WatchQueueItem[] {
+		const wanted = paths ? new Set(paths) : null;
+		const taken = this.failures.filter((failure) => !wanted || wanted.has(failure.path));
+		this.failures = this.failures.filter((failure) => !taken.includes(failure));
+		this.onChange();
+		return taken.map((failure) => ({ ...failure.item, retryCount: 0 }));
+	}
+
+	/**
+	 * Drops waiting jobs and pending retries, for one folder or all of them, and returns what was
+	 * dropped. Running jobs finish normally.
+	 */
+	clear(folder?: string, options: { backlogOnly?: boolean } = {}): WatchQueueItem[] {
+		const matches = (item: WatchQueueItem) => !folder || item.folder === folder;
+		const dropped: WatchQueueItem[] = [];
+		const drop = (list: WatchQueueItem[]) => {
+			for (let index = list.length - 1; index >= 0; index--) {
+				if (!matches(list[index])) continue;
+				this.waiting.delete(list[index].filePath);
+				dropped.push(...list.splice(index, 1));
+			}
+		};
+
+		drop(this.backlog);
+		if (!options.backlogOnly) drop(this.live);
+		for (const [filePath, retry] of this.retries) {
+			if (matches(retry.item) && (!options.backlogOnly || retry.item.backlog)) {
+				clearTimeout(retry.timer);
+				this.retries.delete(filePath);
+				dropped.push(retry.item);
+			}
+		}
+		this.onChange();
+		return dropped;
+	}
+
+	/** Moves a folder's waiting jobs to the front, and keeps its new jobs there until cleared with null. */
+	prioritize(folder: string | null): void {
+		this.prioritizedFolder = folder;
+		if (folder) {
+			for (const list of [this.live, this.backlog]) {
+				const sorted = [...list.filter((item) => item.folder === folder), ...list.filter((item) => item.folder !== folder)];
+				list.splice(0, list.length, ...sorted);
+			}
+		}
+		this.onChange();
+	}
+
+	setPaused(paused: boolean): void {
+		this.paused = paused;
+		this.onChange();
+	}
+
+	/** Queue counts; schedule holds live in the watcher, which adds them. */
+	stats(): Omit<QueueStatsPayload, 'holds'> {
+		const folders = new Map<string, { folder: string; queued: number; active: number }>();
+		const folderStats = (folder: string) => {
+			const entry = folders.get(folder) ?? { folder, queued: 0, active: 0 };
+			folders.set(folder, entry);
+			return entry;
+		};
+		for (const item of [...this.live, ...this.backlog]) folderStats(item.folder).queued += 1;
+		for (const item of this.active.values()) folderStats(item.folder).active += 1;
+
+		return {
+			paused: this.paused,
+			queued: this.live.length,
+			backlog: this.backlog.length,
+			active: this.active.size,
+			maxConcurrent: this.maxConcurrent,
+			prioritizedFolder: this.prioritizedFolder,
+			folders: [...folders.values()].sort((a, b) => a.folder.localeCompare(b.folder)),
+			retrying: [...this.retries.values()]
+				.map(({ item, dueAt }) => ({ jobId: item.jobId, folder: item.folder, path: item.filePath, attempt: item.retryCount + 1, nextAttemptAt: dueAt }))
+				.sort((a, b) => a.nextAttemptAt - b.nextAttemptAt),
+			failures: this.failures.map(({ item: _item, ...failure }) => failure)
+		};
+	}
+
+	/** Stops every retry timer; used on shutdown. */
+	dispose(): void {
+		for (const retry of this.retries.values()) clearTimeout(retry.timer);
+		this.retries.clear();
+	}
+}
@@ -0,0 +1,45 @@
+import path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_WATCH_RULES } from '../../shared/types';
+import { createWatchPathFilter, globToRegExp, validateWatchRules } from './watchRules';
+
+const root = path.resolve('/watch/screens');
+const at = (...parts: string[]) => path.join(root, ...parts);
+
+describe('watch rules', () => {
+	it('compiles globs with folder and name semantics', () => {
+		expect(globToRegExp('**/*.png').test('a/b/c.PNG')).toBe(true);
+		expect(globToRegExp('**/*.png').test('c.png')).toBe(true);
+		expect(globToRegExp('shots/*.{jpg,webp}').test('shots/x.webp')).toBe(true);
+		expect(globToRegExp('shots/*.{jpg,webp}').test('shots/deep/x.jpg')).toBe(false);
+		expect(globToRegExp('drafts/').test('drafts')).toBe(true);
+		expect(globToRegExp('drafts/').test('drafts/a/b.jpg')).toBe(true);
+		expect(globToRegExp('img-[!0-9].jpg').test('img-a.jpg')).toBe(true);
+	});
+
+	it('applies include, exclude and depth relative to the watch folder', () => {
+		const filter = createWatchPathFilter(root, { ...DEFAULT_WATCH_RULES, include: ['*.png'], exclude: ['drafts/'], maxDepth: 1 });
+
+		expect(filter.accepts(at('a.png'))).toBe(true);
+		expect(filter.accepts(at('a.jpg'))).toBe(false);
+		expect(filter.accepts(at('sub', 'a.png'))).toBe(true);
+		expect(filter.accepts(at('sub', 'deeper', 'a.png'))).toBe(false);
+		expect(filter.isIgnored(at('drafts'))).toBe(true);
+		expect(filter.isIgnored(at('sub', 'drafts', 'a.png'))).toBe(true);
+		expect(filter.isIgnored(at('sub'))).toBe(false);
+	});
+
+	it('protects against loops based on the output root', () => {
+		const nextToInputs = createWatchPathFilter(root, DEFAULT_WATCH_RULES);
+		expect(nextToInputs.isIgnored(at('sub', 'Optimized', 'a.png'))).toBe(true);
+		// A watch folder that itself lives under an `Optimized` folder still works.
+		expect(createWatchPathFilter(path.join(root, 'Optimized'), DEFAULT_WATCH_RULES).isIgnored(at('Optimized', 'a.png'))).toBe(false);
+
+		const inside = createWatchPathFilter(root, { ...DEFAULT_WATCH_RULES, outputRoot: at('public', 'img') });
+		expect(inside.isIgnored(at('public', 'img', 'a.webp'))).toBe(true);
+		expect(inside.isIgnored(at('Optimized', 'a.png'))).toBe(false);
+
+		expect(() => validateWatchRules(root, { ...DEFAULT_WATCH_RULES, outputRoot: path.dirname(root) })).toThrow(/output folder/);
+		expect(() => validateWatchRules(root, { ...DEFAULT_WATCH_RULES, outputRoot: path.resolve('/project/public/img') })).not.toThrow();
+	});
+});
@@ -0,0 +1,139 @@
+import path from 'node:path';
+import { DEFAULT_WATCH_RULES, type WatchFolderRules } from '../../shared/types';
+
+// Scratch folders the pipeline writes next to its outputs.
+const WORKING_DIRS = new Set(['.optimise-tmp', '.optimise-backup', '.optimise-logs', 'Originals Backup']);
+
+export interface WatchPathFilter {
+	/** Paths the watcher should neither report nor descend into. */
+	isIgnored(entryPath: string): boolean;
+	/** Files that pass the include and exclude globs and the depth limit. */
+	accepts(filePath: string): boolean;
+}
+
+/** Rules with defaults filled in, so folders saved before rules existed keep working. */
+export function resolveWatchRules(rules: Partial<WatchFolderRules> | undefined): WatchFolderRules {
+	return { ...DEFAULT_WATCH_RULES, ...rules };
+}
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.+^$()|\\{}[\]]/g, '\\$&');
+}
+
+function translateGlob(pattern: string): string {
+	let source = '';
+	for (let index = 0; index < pattern.length; index++) {
+		const char = pattern[index];
+		if (char === '*') {
+			if (pattern[index + 1] !== '*') {
+				source += '[^/]*';
+			} else if (pattern[index + 2] === '/') {
+				source += '(?:.*/)?';
+				index += 2;
+			} else {
+				source += '.*';
+				index += 1;
+			}
+		} else if (char === '/' && pattern.slice(index) === '/**') {
+			// `dir/**` also matches the directory itself, so excluding it prunes the whole tree.
+			source += '(?:/.*)?';
+			break;
+		} else if (char === '?') {
+			source += '[^/]';
+		} else if (char === '{' && pattern.indexOf('}', index) > index) {
+			const end = pattern.indexOf('}', index);
+			source += `(?:${pattern.slice(index + 1, end).split(',').map(translateGlob).join('|')})`;
+			index = end;
+		} else if (char === '[' && pattern.indexOf(']', index + 2) > index) {
+			const end = pattern.indexOf(']', index + 2);
+			const members = pattern.slice(index + 1, end).replaceAll('\\', '\\\\');
+			source += `[${members.startsWith('!') ? `^${members.slice(1)}` : members}]`;
+			index = end;
+		} else {
+			source += escapeRegExp(char);
+		}
+	}
+	return source;
+}
+
+/**
+ * Compiles a glob (`*`, `**`, `?`, `[abc]`, `{a,b}`) into a case-insensitive matcher for
+ * slash-separated relative paths. A trailing slash means everything below that folder.
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let normalized = pattern.trim().replaceAll('\\', '/').replace(/^\.?\//, '');
+	if (normalized.endsWith('/')) normalized += '**';
+	return new RegExp(`^${translateGlob(normalized)}$`, 'i');
+}
+
+/**
+ * Patterns without a slash match names at any depth: the file name, or with `anySegment` any
+ * folder on the way too, so excluding `drafts` also drops everything inside it.
+ */
+function compileGlobs(patterns: string[], anySegment: boolean): Array<(relative: string) => boolean> {
+	return patterns.filter((pattern) => pattern.trim()).map((pattern) => {
+		const regex = globToRegExp(pattern);
+		if (pattern.trim().replace(/\/$/, '').includes('/')) {
+			return (relative: string) => regex.test(relative);
+		}
+		return anySegment
+			? (relative: string) => relative.split('/').some((segment) => regex.test(segment))
+			: (relative: string) => regex.test(relative.slice(relative.lastIndexOf('/') + 1));
+	});
+}
+
+function isWithin(parent: string, child: string): boolean {
+	const relative = path.relative(parent, child);
+	return relative === '' || (!relative.startsWith('..') && !path.isAbsolute(relative));
+}
+
+/**
+ * Rejects output roots that would feed outputs back into the folder's inputs: the watch folder
+ * itself or any of its parents. An output root inside the watch folder is fine, it is ignored.
+ */
+export function validateWatchRules(watchRoot: string, rules: WatchFolderRules): void {
+	if (rules.outputRoot && isWithin(path.resolve(rules.outputRoot), path.resolve(watchRoot))) {
+		throw new Error('The output folder cannot be the watch folder or one of its parents.');
+	}
+	if (rules.maxDepth !== null && (!Number.isInteger(rules.maxDepth) || rules.maxDepth < 0)) {
+		throw new Error('Max depth must be a whole number of folders, or empty for no limit.');
+	}
+}
+
+/**
+ * Builds the path checks for one watch folder. Loop protection follows the output root: with one
+ * configured everything below it is ignored, otherwise the `Optimized/` folders the pipeline
+ * creates next to inputs are.
+ */
+export function createWatchPathFilter(watchRoot: string, rules: WatchFolderRules): WatchPathFilter {
+	const root = path.resolve(watchRoot);
+	const outputRoot = rules.outputRoot ? path.resolve(rules.outputRoot) : null;
+	const includes = compileGlobs(rules.include, false);
+	const excludes = compileGlobs(rules.exclude, true);
+
+	const relativeTo = (entryPath: string): string | null => {
+		const resolved = path.resolve(entryPath);
+		if (!isWithin(root, resolved)) return null;
+		return path.relative(root, resolved).split(path.sep).join('/');
+	};
+
+	return {
+		isIgnored(entryPath) {
+			const relative = relativeTo(entryPath);
+			if (relative === null || relative === '') return false;
+			if (outputRoot && isWithin(outputRoot, path.resolve(entryPath))) return true;
+
+			const segments = relative.split('/');
+			if (segments.some((segment) => WORKING_DIRS.has(segment))) return true;
+			if (!outputRoot && segments.includes('Optimized')) return true;
+			return excludes.some((matches) => matches(relative));
+		},
+		accepts(filePath) {
+			const relative = relativeTo(filePath);
+			if (relative === null) return false;
+			if (rules.maxDepth !== null && relative.split('/').length - 1 > rules.maxDepth) return false;
+			if (excludes.some((matches) => matches(relative))) return false;
+			return includes.length === 0 || includes.some((matches) => matches(relative));
+		}
+	};
+}
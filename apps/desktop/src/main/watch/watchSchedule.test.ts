@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { isWithinWindow, resolveWatchSchedule, scheduleGate, validateWatchSchedule } from './watchSchedule';
+
+const idle = { onBattery: false, loadPerCore: 0.2 };
+
+function at(time: string): Date {
+	const [hours, minutes] = time.split(':').map(Number);
+	return new Date(2024, 4, 1, hours, minutes);
+}
+
+describe('watch schedules', () => {
+	it('handles windows that run overnight', () => {
+		const overnight = resolveWatchSchedule({ mode: 'window', windowStart: '22:00', windowEnd: '07:00' });
+		expect(['22:00', '23:59', '00:30', '06:59'].map((time) => isWithinWindow(overnight, at(time)))).toEqual([true, true, true, true]);
+		expect(['07:00', '12:00', '21:59'].map((time) => isWithinWindow(overnight, at(time)))).toEqual([false, false, false]);
+
+		const daytime = resolveWatchSchedule({ windowStart: '9:00', windowEnd: '17:30' });
+		expect(isWithinWindow(daytime, at('17:29'))).toBe(true);
+		expect(isWithinWindow(daytime, at('17:30'))).toBe(false);
+	});
+
+	it('closes for battery and load before checking the window', () => {
+		const schedule = resolveWatchSchedule({ mode: 'window', windowStart: '09:00', windowEnd: '17:00', pauseOnBattery: true, pauseAboveLoad: 1.5 });
+		expect(scheduleGate(schedule, at('10:00'), idle)).toEqual({ open: true });
+		expect(scheduleGate(schedule, at('10:00'), { ...idle, onBattery: true })).toEqual({ open: false, reason: 'Paused on battery power' });
+		expect(scheduleGate(schedule, at('10:00'), { ...idle, loadPerCore: 2 })).toEqual({ open: false, reason: 'Paused while system load is high' });
+		expect(scheduleGate(schedule, at('20:00'), idle)).toEqual({ open: false, reason: 'Waiting for 09:00–17:00' });
+		expect(scheduleGate(resolveWatchSchedule(undefined), at('20:00'), { onBattery: true, loadPerCore: 9 })).toEqual({ open: true });
+	});
+
+	it('rejects malformed times, intervals and load limits', () => {
+		expect(() => validateWatchSchedule(resolveWatchSchedule({ windowStart: '25:00' }))).toThrow(/times like/);
+		expect(() => validateWatchSchedule(resolveWatchSchedule({ batchIntervalMinutes: 0 }))).toThrow(/batch interval/);
+		expect(() => validateWatchSchedule(resolveWatchSchedule({ pauseAboveLoad: 0 }))).toThrow(/load limit/);
+		expect(() => validateWatchSchedule(resolveWatchSchedule({ mode: 'batch', batchIntervalMinutes: 15 }))).not.toThrow();
+	});
+});
@@ -0,0 +1,68 @@
+import os from 'node:os';
+import { DEFAULT_WATCH_SCHEDULE, type WatchSchedule } from '../../shared/types';
+
+export interface SystemConditions {
+	onBattery: boolean;
+	loadPerCore: number;
+}
+
+export type ScheduleGate = { open: true } | { open: false; reason: string };
+
+/** Schedule with defaults filled in, so folders saved before schedules existed process immediately. */
+export function resolveWatchSchedule(schedule: Partial<WatchSchedule> | undefined): WatchSchedule {
+	return { ...DEFAULT_WATCH_SCHEDULE, ...schedule };
+}
+
+function minutesOfDay(time: string): number | null {
+	const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+	if (!match) return null;
+	const hours = Number(match[1]);
+	const minutes = Number(match[2]);
+	return hours < 24 && minutes < 60 ? hours * 60 + minutes : null;
+}
+
+export function validateWatchSchedule(schedule: WatchSchedule): void {
+	if (minutesOfDay(schedule.windowStart) === null || minutesOfDay(schedule.windowEnd) === null) {
+		throw new Error('Processing hours must be times like 22:00.');
+	}
+	if (!Number.isInteger(schedule.batchIntervalMinutes) || schedule.batchIntervalMinutes < 1) {
+		throw new Error('The batch interval must be a whole number of minutes.');
+	}
+	if (schedule.pauseAboveLoad !== null && !(schedule.pauseAboveLoad > 0)) {
+		throw new Error('The load limit must be above zero, or empty to ignore system load.');
+	}
+}
+
+/**
+ * True when `now` falls inside the processing hours. A window whose end is before its start
+ * runs overnight; equal start and end means all day.
+ */
+export function isWithinWindow(schedule: WatchSchedule, now: Date): boolean {
+	const start = minutesOfDay(schedule.windowStart) ?? 0;
+	const end = minutesOfDay(schedule.windowEnd) ?? 0;
+	const current = now.getHours() * 60 + now.getMinutes();
+	if (start === end) return true;
+	return start < end ? current >= start && current < end : current >= start || current < end;
+}
+
+/**
+ * Whether a folder may process files right now. Batch schedules are open whenever the system
+ * allows; the watcher collects their files and releases them on its own clock.
+ */
+export function scheduleGate(schedule: WatchSchedule, now: Date, system: SystemConditions): ScheduleGate {
+	if (schedule.pauseOnBattery && system.onBattery) {
+		return { open: false, reason: 'Paused on battery power' };
+	}
+	if (schedule.pauseAboveLoad !== null && system.loadPerCore > schedule.pauseAboveLoad) {
+		return { open: false, reason: 'Paused while system load is high' };
+	}
+	if (schedule.mode === 'window' && !isWithinWindow(schedule, now)) {
+		return { open: false, reason: `Waiting for ${schedule.windowStart}–${schedule.windowEnd}` };
+	}
+	return { open: true };
+}
+
+/** One-minute load average per core. Windows reports no load average, which reads as idle. */
+export function currentLoadPerCore(): number {
+	return os.loadavg()[0] / Math.max(1, os.cpus().length);
+}
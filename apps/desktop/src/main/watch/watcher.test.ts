@@ -0,0 +1,134 @@
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_WATCH_RULES, DEFAULT_WATCH_SCHEDULE, DEFAULT_WATCH_SETTINGS, type WatchSyncProgressEvent } from '../../shared/types';
+import type { HeldItem } from './heldQueue';
+import { WatchFolderService } from './watcher';
+
+// The watcher only asks Electron about battery power; tests run outside Electron.
+vi.mock('electron', () => ({
+  powerMonitor: { isOnBatteryPower: () => false, on: () => undefined, off: () => undefined }
+}));
+
+let root: string;
+let userData: string;
+let photos: string;
+let workerPath: string;
+let callsPath: string;
+
+// Speaks the optimiseWorker protocol; every job comes back as an encode the pipeline reported failed.
+function workerSource(): string {
+  return `
+const fs = require('node:fs');
+const { parentPort } = require('node:worker_threads');
+parentPort.on('message', (message) => {
+  if (message.type === 'worker:cancel') return;
+  fs.appendFileSync(${JSON.stringify(callsPath)}, message.inputPath + '\\n');
+  parentPort.postMessage({
+    ok: true,
+    inputPath: message.inputPath,
+    originalBytes: 10,
+    actions: { optimised: { status: 'failed', reason: 'Encode failed: corrupt scan', originalBytes: 10, outputBytes: 0, bytesSaved: 0 } },
+    backups: [],
+    status: 'failed'
+  });
+});
+`;
+}
+
+async function calls(): Promise<string[]> {
+  const raw = await fs.readFile(callsPath, 'utf-8').catch(() => '');
+  return raw.split('\n').filter(Boolean);
+}
+
+/** HH:MM an hour or more from now, so a window between two of them is closed. */
+function clockIn(hours: number): string {
+  const date = new Date(Date.now() + hours * 3_600_000);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+async function until(condition: () => boolean | Promise<boolean>, timeoutMs = 10_000): Promise<void> {
+  const started = Date.now();
+  while (!(await condition())) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out waiting for the watcher');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+}
+
+beforeEach(async () => {
+  root = await fs.mkdtemp(path.join(os.tmpdir(), 'watcher-'));
+  userData = path.join(root, 'userData');
+  photos = path.join(root, 'photos');
+  workerPath = path.join(root, 'worker.js');
+  callsPath = path.join(root, 'calls.log');
+  await fs.mkdir(userData, { recursive: true });
+  await fs.mkdir(photos, { recursive: true });
+  await fs.writeFile(workerPath, workerSource());
+  await fs.writeFile(path.join(userData, 'watch-config.json'), JSON.stringify({ folders: [{ path: photos, enabled: true }] }));
+});
+
+afterEach(async () => {
+  await fs.rm(root, { recursive: true, force: true });
+});
+
+describe('WatchFolderService', () => {
+  it('retries a file the pipeline reports as failed and lists it among the failures', async () => {
+    const filePath = path.join(photos, 'scan.png');
+    await fs.writeFile(filePath, 'not really a png');
+    // Held before a restart on its last attempt, so it fails for good without waiting out the backoff.
+    const held: HeldItem = { jobId: 'scan', folder: photos, filePath, retryCount: 2, backlog: true, source: 'retry', heldAt: 1 };
+    await fs.writeFile(path.join(userData, 'watch-held-queue.json'), JSON.stringify({ version: 1, items: [held] }));
+
+    const optimized: string[] = [];
+    const service = new WatchFolderService(userData, () => undefined, (event) => optimized.push(event.status), undefined, undefined, undefined, workerPath);
+    try {
+      await service.init();
+      await until(() => service.getQueueStats().failures.length === 1);
+      expect(service.getQueueStats().failures[0]).toMatchObject({ path: filePath, message: 'Encode failed: corrupt scan', attempts: 3 });
+      expect(optimized).toEqual(['failed']);
+
+      // A retry starts over with a fresh budget: the next failure is scheduled for another attempt.
+      service.retryFailed([filePath]);
+      await until(() => service.getQueueStats().retrying.length === 1);
+      expect(service.getQueueStats().failures).toEqual([]);
+      expect(await calls()).toEqual([filePath, filePath]);
+      expect(optimized).toEqual(['failed']);
+    } finally {
+      await service.close();
+    }
+  });
+
+  it('holds the files a startup sync finds outside the processing window', async () => {
+    await fs.writeFile(path.join(photos, 'a.png'), 'a');
+    await fs.writeFile(path.join(photos, 'b.png'), 'b');
+    await fs.writeFile(path.join(userData, 'watch-config.json'), JSON.stringify({
+      folders: [{ path: photos, enabled: true }],
+      globalSettings: {
+        ...DEFAULT_WATCH_SETTINGS,
+        rules: { ...DEFAULT_WATCH_RULES, processExisting: true },
+        schedule: { ...DEFAULT_WATCH_SCHEDULE, mode: 'window', windowStart: clockIn(2), windowEnd: clockIn(3) }
+      }
+    }));
+
+    // A long held queue from before the restart takes a while to load; the sync must not race it.
+    const gone = path.join(root, 'gone');
+    const stale = Array.from({ length: 20_000 }, (_, index): HeldItem => ({
+      jobId: String(index), folder: gone, filePath: path.join(gone, `${index}.png`), retryCount: 0, source: 'event', heldAt: 1
+    }));
+    await fs.writeFile(path.join(userData, 'watch-held-queue.json'), JSON.stringify({ version: 1, items: stale }));
+
+    const progress: WatchSyncProgressEvent[] = [];
+    const service = new WatchFolderService(userData, () => undefined, () => undefined, (event) => progress.push(event), undefined, undefined, workerPath);
+    try {
+      await service.init();
+      await until(() => progress.some((event) => event.state === 'running'));
+
+      expect(service.getQueueStats().holds).toEqual([{ folder: photos, held: 2, reason: expect.stringContaining('Waiting for') }]);
+      expect(progress.at(-1)).toMatchObject({ state: 'running', found: 2, queued: 2 });
+      expect(await calls()).toEqual([]);
+    } finally {
+      await service.close();
+    }
+  });
+});
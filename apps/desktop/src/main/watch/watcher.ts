@@ -1,6 +1,8 @@
+import { randomUUID } from 'node:crypto';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 import chokidar, { type FSWatcher } from 'chokidar';
+import { powerMonitor } from 'electron';
 import type {
   OptimiseSettings,
   RunMode,
@@ -10,12 +12,22 @@ import type {
   WatchFileOptimizedEvent,
   WatchFolderSettings,
   WatchFolderStatus,
+  WatchSyncProgressEvent,
+  ProcessedIndexSummary,
   DEFAULT_WATCH_SETTINGS
 } from '../../shared/types';
+import { DEFAULT_METADATA_INJECTION, DEFAULT_SIMULATION, DEFAULT_SIZE_BUDGET, DEFAULT_TRANSFORM, DEFAULT_WATCH_RULES, DEFAULT_WATCH_SCHEDULE, DEFAULT_WATERMARK } from '../../shared/types';
 import { getAutoConcurrency, WorkerPool } from '../optimizer/workerPool';
 import { ProcessedIndexStore, FileFingerprint } from './processedIndex';
 import { StabilityChecker } from './stability';
+import { scanExistingFiles } from './initialSync';
+import { createWatchPathFilter, resolveWatchRules, validateWatchRules, type WatchPathFilter } from './watchRules';
+import { isSupportedInputPath } from '../optimizer/io/inputFormats';
 import { Logger } from '../logger';
+import type { JobAddedPayload, QueueStatsPayload } from '../../shared/ipcEvents';
+import { WatchQueue, type WatchQueueItem } from './watchQueue';
+import { HeldQueueStore } from './heldQueue';
+import { currentLoadPerCore, resolveWatchSchedule, scheduleGate, validateWatchSchedule, type ScheduleGate } from './watchSchedule';
 
 const log = new Logger('WatchService');
 
@@ -28,8 +40,14 @@ interface PersistedWatchState {
   globalSettings?: WatchFolderSettings;
 }
 
+interface InitialSync {
+  progress: WatchSyncProgressEvent;
+  remaining: Set<string>;
+}
+
 const WATCH_CONFIG_FILE = 'watch-config.json';
-const SUPPORTED_EXTENSIONS = new Set(['.jpg', '.jpeg', '.png', '.webp', '.tif', '.tiff']);
+// How often schedules are re-checked: windows opening, batches coming due, power and load changes.
+const SCHEDULE_TICK_MS = 30_000;
 const IGNORE_PATTERNS = [
   // Hidden files
   /^\..*/,
@@ -53,28 +71,37 @@ export class WatchFolderService {
   private readonly configPath: string;
   private readonly watchers = new Map<string, FSWatcher>();
   private readonly folderConfigs = new Map<string, { enabled: boolean; settings?: WatchFolderSettings }>();
+  private readonly pathFilters = new Map<string, WatchPathFilter>();
 
-  private readonly queue: Array<{ folder: string; filePath: string; retryCount: number }> = [];
-  private readonly pending = new Set<string>();
-  private readonly inFlight = new Set<string>();
+  private readonly queue: WatchQueue;
+  private readonly syncs = new Map<string, InitialSync>();
+  private statsTimer: NodeJS.Timeout | null = null;
+  private readonly held: HeldQueueStore;
+  private readonly batchDueAt = new Map<string, number>();
+  private scheduleTimer: NodeJS.Timeout | null = null;
 
   private readonly pool: WorkerPool;
   private readonly maxConcurrent: number;
   private readonly indexStore: ProcessedIndexStore;
   private readonly stabilityChecker: StabilityChecker;
 
-  private activeJobs = 0;
   private globalSettings: WatchFolderSettings;
 
   constructor(
     userDataPath: string,
     private readonly onDetected: (payload: WatchFileDetectedEvent) => void,
-    private readonly onOptimized: (payload: WatchFileOptimizedEvent) => void
+    private readonly onOptimized: (payload: WatchFileOptimizedEvent) => void,
+    private readonly onSyncProgress: (payload: WatchSyncProgressEvent) => void = () => undefined,
+    private readonly onJobAdded: (payload: JobAddedPayload) => void = () => undefined,
+    private readonly onQueueStats: (payload: QueueStatsPayload) => void = () => undefined,
+    workerPath?: string
   ) {
     this.configPath = path.join(userDataPath, WATCH_CONFIG_FILE);
     this.maxConcurrent = getAutoConcurrency();
-    this.pool = new WorkerPool(this.maxConcurrent);
-    this.indexStore = new ProcessedIndexStore(userDataPath);
+    this.pool = new WorkerPool(this.maxConcurrent, workerPath);
+    this.queue = new WatchQueue(this.maxConcurrent, () => this.scheduleQueueStats());
+    this.indexStore = new ProcessedIndexStore(userDataPath, log);
+    this.held = new HeldQueueStore(userDataPath, log);
     this.stabilityChecker = new StabilityChecker();
 
     // We'll initialize globalSettings from DEFAULT_WATCH_SETTINGS in init()
@@ -96,6 +123,8 @@ export class WatchFolderService {
         webpNearLossless: false,
         webpQuality: 80,
         webpEffort: 5,
+        avifQuality: 55,
+        avifEffort: 4,
         reencodeExistingWebp: false,
         aggressivePng: false,
         concurrencyMode: 'auto',
@@ -109,6 +138,7 @@ export class WatchFolderService {
         smartTarget: 'visually-lossless',
         qualityGuardrail: 90,
         optimizationSpeed: 'balanced',
+        qualityMetric: 'ssim',
         responsiveSettings: {
           mode: 'width',
           widths: [320, 480, 640, 768, 1024, 1280, 1536, 1920, 2560],
@@ -131,12 +161,21 @@ export class WatchFolderService {
           gpsClean: true,
           iccHandling: 'srgb',
         },
-      }
+        metadataInjection: DEFAULT_METADATA_INJECTION,
+        sizeBudget: DEFAULT_SIZE_BUDGET,
+        transform: DEFAULT_TRANSFORM,
+        watermark: DEFAULT_WATERMARK,
+        simulation: DEFAULT_SIMULATION,
+      },
+      rules: DEFAULT_WATCH_RULES,
+      schedule: DEFAULT_WATCH_SCHEDULE
     };
   }
 
   async init(): Promise<void> {
     await this.indexStore.init();
+    // Loaded before any folder starts watching: a sync holds files as soon as it starts.
+    await this.held.init();
     const stored = await this.loadState();
 
     if (stored.globalSettings) {
@@ -157,13 +196,30 @@ export class WatchFolderService {
         }
       }
     }
+
+    // Files held before the last shutdown; those of folders removed since are dropped.
+    for (const folder of this.held.counts().keys()) {
+      if (!this.folderConfigs.has(folder)) this.held.take(folder);
+    }
+    powerMonitor.on('on-battery', this.applySchedules);
+    powerMonitor.on('on-ac', this.applySchedules);
+    this.scheduleTimer = setInterval(this.applySchedules, SCHEDULE_TICK_MS);
+    this.scheduleTimer.unref();
+    this.applySchedules();
   }
 
   async close(): Promise<void> {
+    for (const folder of Array.from(this.syncs.keys())) this.cancelSync(folder);
+    this.queue.dispose();
+    if (this.statsTimer) clearTimeout(this.statsTimer);
+    if (this.scheduleTimer) clearInterval(this.scheduleTimer);
+    powerMonitor.off('on-battery', this.applySchedules);
+    powerMonitor.off('on-ac', this.applySchedules);
     await Promise.all(Array.from(this.watchers.values()).map((watcher) => watcher.close()));
     this.watchers.clear();
     await this.pool.close();
     await this.indexStore.save();
+    await this.held.save();
   }
 
   getGlobalSettings(): WatchFolderSettings {
@@ -171,11 +227,19 @@ export class WatchFolderService {
   }
 
   async updateGlobalSettings(settings: WatchFolderSettings): Promise<void> {
+    for (const [folderPath, config] of this.folderConfigs.entries()) {
+      if (!config.settings) validateWatchRules(folderPath, resolveWatchRules(settings.rules));
+    }
+    validateWatchSchedule(resolveWatchSchedule(settings.schedule));
+
     const wasEnabled = this.globalSettings.watchEnabled;
+    const rulesChanged = JSON.stringify(this.globalSettings.rules) !== JSON.stringify(settings.rules);
     this.globalSettings = settings;
+    this.pathFilters.clear();
 
     if (wasEnabled && !settings.watchEnabled) {
       // Stop all watchers
+      for (const folder of Array.from(this.syncs.keys())) this.cancelSync(folder);
       await Promise.all(Array.from(this.watchers.values()).map(w => w.close()));
       this.watchers.clear();
     } else if (!wasEnabled && settings.watchEnabled) {
@@ -185,8 +249,14 @@ export class WatchFolderService {
           await this.startWatching(folderPath);
         }
       }
+    } else if (settings.watchEnabled && rulesChanged) {
+      // Depth is fixed when a watcher starts, so folders on the global rules are re-watched.
+      for (const [folderPath, config] of this.folderConfigs.entries()) {
+        if (!config.settings) await this.restartWatching(folderPath);
+      }
     }
 
+    this.applySchedules();
     await this.saveState();
   }
 
@@ -221,6 +291,10 @@ export class WatchFolderService {
 
   async removeFolder(folderPath: string): Promise<WatchFolderStatus[]> {
     const normalized = path.resolve(folderPath);
+    this.cancelSync(normalized);
+    this.queue.clear(normalized);
+    this.held.take(normalized);
+    this.batchDueAt.delete(normalized);
     const watcher = this.watchers.get(normalized);
     if (watcher) {
       await watcher.close();
@@ -228,6 +302,7 @@ export class WatchFolderService {
     }
 
     this.folderConfigs.delete(normalized);
+    this.pathFilters.delete(normalized);
     await this.saveState();
     return this.listFolders();
   }
@@ -241,6 +316,7 @@ export class WatchFolderService {
     if (enabled && this.globalSettings.watchEnabled) {
       await this.startWatching(folderPath);
     } else {
+      this.cancelSync(folderPath);
       const watcher = this.watchers.get(folderPath);
       if (watcher) {
         await watcher.close();
@@ -256,17 +332,51 @@ export class WatchFolderService {
     const config = this.folderConfigs.get(folderPath);
     if (!config) return this.listFolders();
 
+    validateWatchRules(folderPath, resolveWatchRules(settings.rules));
+    validateWatchSchedule(resolveWatchSchedule(settings.schedule));
+    const rulesChanged = JSON.stringify(this.settingsFor(folderPath).rules) !== JSON.stringify(settings.rules);
     config.settings = settings;
+    this.pathFilters.delete(folderPath);
+    if (rulesChanged) {
+      await this.restartWatching(folderPath);
+    }
+
+    this.applySchedules();
     await this.saveState();
     return this.listFolders();
   }
 
+  private settingsFor(folder: string): WatchFolderSettings {
+    return this.folderConfigs.get(folder)?.settings || this.globalSettings;
+  }
+
+  private pathFilterFor(folder: string): WatchPathFilter {
+    let filter = this.pathFilters.get(folder);
+    if (!filter) {
+      filter = createWatchPathFilter(folder, resolveWatchRules(this.settingsFor(folder).rules));
+      this.pathFilters.set(folder, filter);
+    }
+    return filter;
+  }
+
+  private async restartWatching(folderPath: string): Promise<void> {
+    const watcher = this.watchers.get(folderPath);
+    if (!watcher) return;
+
+    this.cancelSync(folderPath);
+    await watcher.close();
+    this.watchers.delete(folderPath);
+    await this.startWatching(folderPath);
+  }
+
   private async startWatching(folderPath: string): Promise<void> {
     if (this.watchers.has(folderPath)) return;
 
+    const { maxDepth } = resolveWatchRules(this.settingsFor(folderPath).rules);
     const watcher = chokidar.watch(folderPath, {
       ignoreInitial: true,
       persistent: true,
+      depth: maxDepth ?? undefined,
       ignored: (entryPath) => this.shouldIgnorePath(entryPath, folderPath)
     });
 
@@ -283,6 +393,85 @@ export class WatchFolderService {
     });
 
     this.watchers.set(folderPath, watcher);
+
+    if (resolveWatchRules(this.settingsFor(folderPath).rules).processExisting) {
+      void this.syncFolder(folderPath);
+    }
+  }
+
+  /**
+   * Queues the images already in a watch folder. Files unchanged since they were last processed
+   * are counted but never queued; the rest go through the usual dedupe before optimizing.
+   */
+  async syncFolder(folderPath: string): Promise<void> {
+    if (!this.watchers.has(folderPath)) return;
+
+    this.cancelSync(folderPath);
+    const sync: InitialSync = {
+      progress: { folder: folderPath, state: 'scanning', found: 0, alreadyProcessed: 0, completed: 0, failed: 0, queued: 0 },
+      remaining: new Set()
+    };
+    this.syncs.set(folderPath, sync);
+    this.onSyncProgress({ ...sync.progress });
+
+    const filter = this.pathFilterFor(folderPath);
+    const files = scanExistingFiles(folderPath, {
+      maxDepth: resolveWatchRules(this.settingsFor(folderPath).rules).maxDepth,
+      isIgnored: (entryPath) => this.shouldIgnorePath(entryPath, folderPath),
+      accepts: (filePath) => this.isSupportedFile(filePath) && filter.accepts(filePath),
+      isCancelled: () => this.syncs.get(folderPath) !== sync
+    });
+
+    try {
+      for await (const file of files) {
+        // Files a live event already queued are left to it.
+        if (this.isQueued(file.path)) continue;
+
+        sync.progress.found += 1;
+        if (this.indexStore.isUnchangedSince(file.path, file.size, file.mtime)) {
+          sync.progress.alreadyProcessed += 1;
+          continue;
+        }
+
+        sync.remaining.add(file.path);
+        this.addJob({ jobId: randomUUID(), folder: folderPath, filePath: file.path, retryCount: 0, backlog: true }, 'sync');
+        if (sync.progress.found % 50 === 0) this.settleSync(sync);
+      }
+    } catch (error) {
+      log.error(`Initial sync of ${folderPath} failed:`, error);
+    }
+
+    if (this.syncs.get(folderPath) !== sync) return;
+    sync.progress.state = 'running';
+    this.settleSync(sync);
+  }
+
+  private cancelSync(folder: string): void {
+    const sync = this.syncs.get(folder);
+    if (!sync) return;
+
+    this.syncs.delete(folder);
+    this.queue.clear(folder, { backlogOnly: true });
+    this.held.take(folder, { backlogOnly: true });
+    this.onSyncProgress({ ...sync.progress, state: 'cancelled', queued: 0 });
+  }
+
+  private recordSyncOutcome(folder: string, filePath: string, status: WatchFileOptimizedEvent['status']): void {
+    const sync = this.syncs.get(folder);
+    if (!sync?.remaining.delete(filePath)) return;
+
+    sync.progress.completed += 1;
+    if (status === 'failed') sync.progress.failed += 1;
+    this.settleSync(sync);
+  }
+
+  private settleSync(sync: InitialSync): void {
+    sync.progress.queued = sync.remaining.size;
+    if (sync.progress.state === 'running' && sync.remaining.size === 0) {
+      sync.progress.state = 'done';
+      this.syncs.delete(sync.progress.folder);
+    }
+    this.onSyncProgress({ ...sync.progress });
   }
 
   private shouldIgnorePath(inputPath: string, watchRoot: string): boolean {
@@ -293,70 +482,217 @@ export class WatchFolderService {
       return true;
     }
 
-    const normalized = inputPath.replaceAll('\\', '/');
-
-    // Prevent infinite loops if outputting to subfolders
-    if (normalized.includes('/Optimized/') || normalized.includes('/.optimise-tmp/') || normalized.includes('/.optimise-backup/')) {
-      return true;
-    }
-
-    return false;
+    // Excluded folders, plus the folder's own outputs so they are never fed back in
+    return this.pathFilterFor(watchRoot).isIgnored(inputPath);
   }
 
   private isSupportedFile(inputPath: string): boolean {
-    const ext = path.extname(inputPath).toLowerCase();
-    return SUPPORTED_EXTENSIONS.has(ext);
+    return isSupportedInputPath(inputPath);
   }
 
   private onFileEvent(event: 'add' | 'change', folder: string, filePath: string): void {
     const resolved = path.resolve(filePath);
 
-    if (!this.isSupportedFile(resolved)) return;
+    if (!this.isSupportedFile(resolved) || !this.pathFilterFor(folder).accepts(resolved)) return;
 
-    const config = this.folderConfigs.get(folder);
-    const settings = config?.settings || this.globalSettings;
+    const settings = this.settingsFor(folder);
 
     if (event === 'change' && settings.triggerBehavior === 'new') {
       return;
     }
 
-    if (this.pending.has(resolved) || this.inFlight.has(resolved)) {
+    if (this.isQueued(resolved)) {
       return;
     }
 
     log.info(`Detected ${event}: ${resolved}`);
-    this.pending.add(resolved);
-    this.queue.push({ folder, filePath: resolved, retryCount: 0 });
     this.onDetected({ folder, path: resolved });
+    this.addJob({ jobId: randomUUID(), folder, filePath: resolved, retryCount: 0 }, 'event');
+  }
+
+  private isQueued(filePath: string): boolean {
+    return this.queue.has(filePath) || this.held.has(filePath);
+  }
+
+  /** Queues a job, or holds it while the folder's schedule keeps it from running. */
+  private addJob(item: WatchQueueItem, source: JobAddedPayload['source']): void {
+    const schedule = resolveWatchSchedule(this.settingsFor(item.folder).schedule);
+    if (schedule.mode === 'batch' || !this.gateFor(item.folder).open) {
+      if (schedule.mode === 'batch' && !this.batchDueAt.has(item.folder)) {
+        this.batchDueAt.set(item.folder, Date.now() + schedule.batchIntervalMinutes * 60_000);
+      }
+      this.held.add({ ...item, source, heldAt: Date.now() });
+      this.scheduleQueueStats();
+      return;
+    }
+
+    this.queue.enqueue(item);
+    this.onJobAdded({ jobId: item.jobId, inputPath: item.filePath, folder: item.folder, source });
     this.pumpQueue();
   }
 
-  private pumpQueue(): void {
-    while (this.activeJobs < this.maxConcurrent && this.queue.length > 0) {
-      const next = this.queue.shift();
-      if (!next) return;
+  // ── Schedules ──
+
+  private gateFor(folder: string): ScheduleGate {
+    return scheduleGate(resolveWatchSchedule(this.settingsFor(folder).schedule), new Date(), {
+      onBattery: powerMonitor.isOnBatteryPower(),
+      loadPerCore: currentLoadPerCore()
+    });
+  }
+
+  /**
+   * Re-checks every folder's schedule: releases held files whose window opened or whose batch is
+   * due, and moves waiting jobs back into the held queue when a folder has to stop.
+   */
+  private readonly applySchedules = (): void => {
+    const now = Date.now();
+    const folders = new Set([...this.folderConfigs.keys(), ...this.held.counts().keys()]);
+    for (const folder of folders) {
+      const schedule = resolveWatchSchedule(this.settingsFor(folder).schedule);
+      const gate = this.gateFor(folder);
+
+      if (!gate.open) {
+        for (const item of this.queue.clear(folder)) {
+          this.held.add({ ...item, source: item.retryCount > 0 ? 'retry' : item.backlog ? 'sync' : 'event', heldAt: now });
+        }
+        continue;
+      }
+
+      if (schedule.mode !== 'batch') {
+        this.batchDueAt.delete(folder);
+        this.releaseHeld(folder);
+        continue;
+      }
 
-      this.pending.delete(next.filePath);
-      this.inFlight.add(next.filePath);
-      this.activeJobs += 1;
+      const dueAt = this.batchDueAt.get(folder);
+      if (dueAt === undefined) {
+        // Held across a restart, or switched to batching with files waiting.
+        if (this.held.counts().has(folder)) {
+          this.batchDueAt.set(folder, now + schedule.batchIntervalMinutes * 60_000);
+        }
+      } else if (now >= dueAt) {
+        this.batchDueAt.delete(folder);
+        this.releaseHeld(folder);
+      }
+    }
+    this.scheduleQueueStats();
+  };
+
+  private releaseHeld(folder: string): void {
+    const items = this.held.take(folder);
+    if (items.length === 0) return;
+
+    log.info(`Releasing ${items.length} held watch job(s) for ${folder}`);
+    for (const { source, heldAt: _heldAt, ...item } of items) {
+      if (this.queue.has(item.filePath)) continue;
+      this.queue.enqueue(item);
+      this.onJobAdded({ jobId: item.jobId, inputPath: item.filePath, folder: item.folder, source });
+    }
+    this.pumpQueue();
+  }
 
-      void this.processFileWithLifecycle(next)
+  private pumpQueue(): void {
+    for (let next = this.queue.next(); next; next = this.queue.next()) {
+      const item = next;
+      void this.processFileWithLifecycle(item)
         .finally(() => {
-          this.inFlight.delete(next.filePath);
-          this.activeJobs -= 1;
+          this.queue.finish(item);
           this.pumpQueue();
         });
     }
   }
 
-  private async processFileWithLifecycle(item: { folder: string; filePath: string; retryCount: number }): Promise<void> {
+  // ── Queue control ──
+
+  getQueueStats(): QueueStatsPayload {
+    return this.queueStats();
+  }
+
+  setQueuePaused(paused: boolean): QueueStatsPayload {
+    this.queue.setPaused(paused);
+    this.pumpQueue();
+    return this.queueStats();
+  }
+
+  /** Re-queues failed jobs (all, or the given paths) with a fresh retry budget. */
+  retryFailed(paths?: string[]): QueueStatsPayload {
+    for (const item of this.queue.takeFailures(paths)) {
+      if (this.folderConfigs.has(item.folder) && !this.isQueued(item.filePath)) {
+        this.addJob({ ...item, jobId: randomUUID(), backlog: false }, 'retry');
+      }
+    }
+    return this.queueStats();
+  }
+
+  /** Drops waiting, held and retrying jobs, stopping initial syncs too; running jobs finish. */
+  clearQueue(folder?: string): QueueStatsPayload {
+    for (const syncFolder of Array.from(this.syncs.keys())) {
+      if (!folder || syncFolder === folder) this.cancelSync(syncFolder);
+    }
+    const dropped = this.queue.clear(folder).length + this.held.take(folder).length;
+    if (folder) this.batchDueAt.delete(folder);
+    else this.batchDueAt.clear();
+    log.info(`Cleared ${dropped} queued watch job(s)${folder ? ` for ${folder}` : ''}`);
+    return this.queueStats();
+  }
+
+  prioritizeFolder(folder: string | null): QueueStatsPayload {
+    this.queue.prioritize(folder);
+    return this.queueStats();
+  }
+
+  private queueStats(): QueueStatsPayload {
+    const holds = Array.from(this.held.counts(), ([folder, held]) => {
+      const gate = this.gateFor(folder);
+      const releaseAt = this.batchDueAt.get(folder);
+      if (!gate.open) return { folder, held, reason: gate.reason };
+      if (releaseAt !== undefined) return { folder, held, reason: 'Waiting for the next batch', releaseAt };
+      return { folder, held, reason: 'Releasing' };
+    });
+    return { ...this.queue.stats(), holds: holds.sort((a, b) => a.folder.localeCompare(b.folder)) };
+  }
+
+  private scheduleQueueStats(): void {
+    if (this.statsTimer) return;
+
+    // Coalesce bursts (a sync queueing thousands of files) into one update.
+    this.statsTimer = setTimeout(() => {
+      this.statsTimer = null;
+      this.onQueueStats(this.queueStats());
+    }, 100);
+  }
+
+  // ── Processed index maintenance ──
+
+  getProcessedIndexSummary(): ProcessedIndexSummary {
+    return { entries: this.indexStore.size, removed: 0 };
+  }
+
+  async pruneProcessedIndex(folder?: string): Promise<ProcessedIndexSummary> {
+    const removed = await this.indexStore.pruneMissing(folder);
+    log.info(`Pruned ${removed} missing file(s) from the processed index${folder ? ` for ${folder}` : ''}`);
+    return { entries: this.indexStore.size, removed };
+  }
+
+  /** Forgets what a folder has processed; a sync or new events will optimize its files again. */
+  async resetProcessedFolder(folder: string): Promise<ProcessedIndexSummary> {
+    const removed = await this.indexStore.resetFolder(folder);
+    log.info(`Reset ${removed} processed-index entries for ${folder}`);
+    return { entries: this.indexStore.size, removed };
+  }
+
+  exportProcessedIndex(outputPath: string, folder?: string): Promise<number> {
+    return this.indexStore.exportTo(outputPath, folder);
+  }
+
+  private async processFileWithLifecycle(item: WatchQueueItem): Promise<void> {
     const { folder, filePath } = item;
     const config = this.folderConfigs.get(folder);
     const settings = config?.settings || this.globalSettings;
 
     try {
-      // 1. Stability Check
-      const isStable = await this.stabilityChecker.waitUntilStable(filePath);
+      // 1. Stability Check (files found by a sync were already sitting in the folder)
+      const isStable = item.backlog || await this.stabilityChecker.waitUntilStable(filePath);
       if (!isStable) {
         throw new Error('File did not become stable within timeout');
       }
@@ -370,9 +706,10 @@ export class WatchFolderService {
 
       // 3. De-duplication Check
       const fingerprint = await this.indexStore.getFingerprint(filePath);
-      if (this.indexStore.hasBeenProcessed(filePath, fingerprint)) {
-        log.info(`Skipping already processed file: ${filePath}`);
-        this.emitOptimized(folder, filePath, 'skipped', stat.size, stat.size, 0, 'Already processed');
+      const processed = await this.indexStore.findProcessed(filePath, fingerprint);
+      if (processed) {
+        log.info(`Skipping already processed file: ${filePath}${processed.moved ? ` (moved from ${processed.path})` : ''}`);
+        this.emitOptimized(folder, filePath, 'skipped', stat.size, stat.size, 0, processed.moved ? 'Already processed before it was moved' : 'Already processed');
         return;
       }
 
@@ -385,22 +722,25 @@ export class WatchFolderService {
       // Retry logic
       if (item.retryCount < 2) {
         log.info(`Retrying ${filePath} (attempt ${item.retryCount + 1})`);
-        setTimeout(() => {
-          this.queue.push({ ...item, retryCount: item.retryCount + 1 });
-          this.pumpQueue();
-        }, 3000 * (item.retryCount + 1));
+        // Goes through addJob so a retry respects the folder's schedule and is reported like any other job.
+        this.queue.scheduleRetry(item, 3000 * (item.retryCount + 1), (retry) => this.addJob(retry, 'retry'));
       } else {
-        this.emitOptimized(folder, filePath, 'failed', 0, 0, 0, error instanceof Error ? error.message : String(error));
+        const message = error instanceof Error ? error.message : String(error);
+        this.queue.recordFailure(item, message);
+        this.emitOptimized(folder, filePath, 'failed', 0, 0, 0, message);
       }
     }
   }
 
   private async runOptimization(folder: string, filePath: string, settings: WatchFolderSettings, fingerprint: FileFingerprint): Promise<void> {
+    // An output root mirrors the folder's structure, so it always writes there rather than in place.
+    const { outputRoot } = resolveWatchRules(settings.rules);
     const task: WorkerTask = {
       inputPath: filePath,
-      settings: settings.optimiseSettings,
+      settings: outputRoot ? { ...settings.optimiseSettings, outputMode: 'subfolder' } : settings.optimiseSettings,
       mode: settings.runMode,
-      commonRoot: path.dirname(filePath)
+      commonRoot: outputRoot ? folder : path.dirname(filePath),
+      outputRoot: outputRoot ?? undefined
     };
 
     const response: WorkerResponse = await this.pool.run(task);
@@ -412,7 +752,9 @@ export class WatchFolderService {
     const action =
       settings.runMode === 'convertWebp'
         ? response.actions.webp
-        : settings.runMode === 'optimize'
+        : settings.runMode === 'convertAvif'
+          ? response.actions.avif
+          : settings.runMode === 'optimize'
           ? response.actions.optimised
           : response.actions.optimised ?? response.actions.webp;
 
@@ -420,8 +762,11 @@ export class WatchFolderService {
     const afterBytes = action?.outputBytes ?? beforeBytes;
     const savedBytes = Math.max(0, beforeBytes - afterBytes);
 
-    const status: WatchFileOptimizedEvent['status'] =
-      action?.status === 'success' ? 'success' : action?.status === 'failed' ? 'failed' : 'skipped';
+    // Failed encodes go through the same retry and failure history as thrown errors.
+    if (action?.status === 'failed') {
+      throw new Error(action.reason ?? response.message ?? 'Optimization failed');
+    }
+    const status: WatchFileOptimizedEvent['status'] = action?.status === 'success' ? 'success' : 'skipped';
 
     if (status === 'success') {
       this.indexStore.markProcessed(filePath, fingerprint);
@@ -431,6 +776,7 @@ export class WatchFolderService {
   }
 
   private emitOptimized(folder: string, path: string, status: WatchFileOptimizedEvent['status'], before: number, after: number, saved: number, message?: string): void {
+    this.recordSyncOutcome(folder, path, status);
     this.onOptimized({
       folder,
       path,
@@ -1,8 +1,9 @@
 import type { DragEventHandler, MouseEvent } from 'react';
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import type { ImageListItem, OptimiseSettings, RunMode } from '@/shared/types';
 import { DEFAULT_SETTINGS } from '@/shared/types';
 import { BottomBar } from './components/BottomBar';
+import { ConfirmReplaceDialog } from './components/ConfirmReplaceDialog';
 import { DropZone } from './components/DropZone';
 import { FileTable } from './components/FileTable';
 import { SettingsDialog } from './components/SettingsDialog';
@@ -26,6 +27,7 @@ export function AppShell(): React.JSX.Element {
   const [previewFile, setPreviewFile] = useState<ImageListItem | null>(null);
   const [previewData, setPreviewData] = useState<{ buffer: Buffer; originalBuffer?: Buffer; size: number; quality: number; ssim: number } | null>(null);
   const [previewLoading, setPreviewLoading] = useState(false);
+  const [pendingReplace, setPendingReplace] = useState<string[] | null>(null);
   const [currentView, setCurrentView] = useState<'batch' | 'watch' | 'responsive'>('batch');
 
   const {
@@ -67,13 +69,23 @@ export function AppShell(): React.JSX.Element {
     setCanRestore(available);
   };
 
-  const { busy, activeRunId, summary, progress, runBeforeBytes, run, cancel } = useOptimizationRun({
+  const { busy, activeRunId, summary, progress, runBeforeBytes, run, cancel, exportReport } = useOptimizationRun({
     files,
     settings,
     setRowRuntime,
     refreshRestoreAvailability
   });
 
+  // Conversions that remove originals wait for an explicit confirmation.
+  const removesOriginals = settings.confirmDangerousWebpReplace && (settings.replaceWithWebp || settings.deleteOriginalAfterWebp);
+  const requestRun = useCallback((runMode: RunMode, paths: string[]) => {
+    if (runMode === 'convertWebp' && removesOriginals) {
+      setPendingReplace(paths);
+      return;
+    }
+    void run(runMode, paths);
+  }, [removesOriginals, run]);
+
   useEffect(() => {
     void refreshRestoreAvailability();
   }, []);
@@ -130,7 +142,7 @@ export function AppShell(): React.JSX.Element {
     });
 
     const offActionConv = window.api.onActionConvert?.((paths: string[]) => {
-      void run('convertWebp', paths);
+      requestRun('convertWebp', paths);
     });
 
     const offActionRev = window.api.onActionReveal?.((paths: string[]) => {
@@ -148,7 +160,7 @@ export function AppShell(): React.JSX.Element {
       offActionRev?.();
       offOpenSettings?.();
     };
-  }, [removeFromList, run]);
+  }, [removeFromList, run, requestRun]);
 
   const onOpenContextMenu = (path: string, event: MouseEvent<HTMLDivElement>) => {
     event.preventDefault();
@@ -241,6 +253,15 @@ export function AppShell(): React.JSX.Element {
       const savedBytes = summary.totalSavedBytes;
       const percentSaved = summary.totalOriginalBytes > 0 ? Math.round((savedBytes / summary.totalOriginalBytes) * 100) : 0;
       const elapsed = formatElapsed(summary.elapsedMs);
+      if (summary.estimate) {
+        const { estimate } = summary;
+        const percent = estimate.originalBytes > 0 ? Math.round((estimate.projectedSavedBytes / estimate.originalBytes) * 100) : 0;
+        const basis = estimate.extrapolated ? `extrapolated from ${estimate.sampledFiles} of ${estimate.totalFiles} files` : `${estimate.totalFiles} files`;
+        return `Estimate: would save ${formatBytes(estimate.projectedSavedBytes)} (${percent}%) • ${basis} • ${elapsed}`;
+      }
+      if (summary.cancelledFiles) {
+        return `Cancelled • ${summary.processedFiles}/${summary.totalFiles} processed • ${elapsed}`;
+      }
       if (summary.failedFiles > 0) {
         return `Completed with issues • ${summary.failedFiles} failed • ${elapsed}`;
       }
@@ -356,7 +377,11 @@ export function AppShell(): React.JSX.Element {
                 mode={mode}
                 canRun={targets.length > 0}
                 onModeChange={setMode}
-                onRun={() => void run(mode, targets)}
+                onRun={() => requestRun(mode, targets)}
+                canExportReport={Boolean(summary)}
+                onExportReport={(format) => {
+                  if (summary) void exportReport(summary.runId, format);
+                }}
                 onCancel={() => {
                   if (activeRunId) {
                     void window.api.cancelRun(activeRunId);
@@ -385,6 +410,17 @@ export function AppShell(): React.JSX.Element {
           </>
         )}
 
+        <ConfirmReplaceDialog
+          open={pendingReplace !== null}
+          fileCount={pendingReplace?.length ?? 0}
+          replaceInPlace={settings.replaceWithWebp}
+          onCancel={() => setPendingReplace(null)}
+          onConfirm={() => {
+            if (pendingReplace) void run('convertWebp', pendingReplace);
+            setPendingReplace(null);
+          }}
+        />
+
         <SettingsDialog open={settingsOpen} runMode={mode} settings={settings} onClose={() => setSettingsOpen(false)} onChange={setSettings} />
       </div>
     </div>
@@ -1,5 +1,5 @@
 import React from 'react';
-import type { RunMode } from '@/shared/types';
+import type { ReportFormat, RunMode } from '@/shared/types';
 
 interface BottomBarProps {
   summaryLine: string;
@@ -13,14 +13,18 @@ interface BottomBarProps {
   onModeChange: (mode: RunMode) => void;
   onRun: () => void;
   onCancel: () => void;
+  canExportReport?: boolean;
+  onExportReport?: (format: ReportFormat) => void;
 }
 
 const modeLabel: Record<RunMode, string> = {
   optimize: 'Optimize',
   optimizeAndWebp: 'Optimize + WebP',
   convertWebp: 'WebP',
+  convertAvif: 'AVIF',
   smart: 'Smart Compression',
-  responsive: 'Responsive'
+  responsive: 'Responsive',
+  simulate: 'Simulate (dry run)'
 };
 
 export function BottomBar({
@@ -34,7 +38,9 @@ export function BottomBar({
   canRun,
   onModeChange,
   onRun,
-  onCancel
+  onCancel,
+  canExportReport,
+  onExportReport
 }: BottomBarProps): React.JSX.Element {
   return (
     <footer className="bottom-sticky-bar">
@@ -47,6 +53,21 @@ export function BottomBar({
 
       {/* Right Column: Actions */}
       <div className="flex items-center gap-2">
+        {canExportReport && onExportReport && (
+          <select
+            className="macos-select-mode"
+            value=""
+            onChange={(e) => onExportReport(e.target.value as ReportFormat)}
+            disabled={busy}
+            title="Export a savings report for the last run"
+          >
+            <option value="" disabled>Export report…</option>
+            <option value="html">HTML</option>
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+          </select>
+        )}
+
         <select
           className="macos-select-mode"
           value={mode}
@@ -129,7 +150,7 @@ export function BottomBar({
               </clipPath>
             </defs>
           </svg>
-          <span>{mode === 'convertWebp' ? 'Convert' : 'Optimize'}</span>
+          <span>{mode === 'simulate' ? 'Simulate' : mode === 'convertWebp' || mode === 'convertAvif' ? 'Convert' : 'Optimize'}</span>
         </button>
       </div>
     </footer>
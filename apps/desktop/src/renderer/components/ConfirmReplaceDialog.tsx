@@ -0,0 +1,57 @@
+import { Dialog, Transition } from '@headlessui/react';
+import { Fragment } from 'react';
+
+interface ConfirmReplaceDialogProps {
+  open: boolean;
+  fileCount: number;
+  replaceInPlace: boolean;
+  onCancel: () => void;
+  onConfirm: () => void;
+}
+
+export function ConfirmReplaceDialog({ open, fileCount, replaceInPlace, onCancel, onConfirm }: ConfirmReplaceDialogProps): React.JSX.Element {
+  const files = fileCount === 1 ? '1 original' : `${fileCount} originals`;
+
+  return (
+    <Transition appear show={open} as={Fragment}>
+      <Dialog as="div" className="relative z-40" onClose={onCancel}>
+        <Transition.Child as={Fragment} enter="ease-out duration-150" enterFrom="opacity-0" enterTo="opacity-100" leave="ease-in duration-100" leaveFrom="opacity-100" leaveTo="opacity-0">
+          <div className="fixed inset-0 bg-black/25" />
+        </Transition.Child>
+
+        <div className="fixed inset-0 overflow-y-auto">
+          <div className="flex min-h-full items-start justify-center p-4 pt-10">
+            <Transition.Child as={Fragment} enter="ease-out duration-150" enterFrom="opacity-0 scale-95" enterTo="opacity-100 scale-100" leave="ease-in duration-100" leaveFrom="opacity-100 scale-100" leaveTo="opacity-0 scale-95">
+              <Dialog.Panel className="macos-dialog w-full max-w-[400px]">
+                <div className="settings-header">
+                  <Dialog.Title className="settings-header-title">Remove originals?</Dialog.Title>
+                </div>
+
+                <div className="settings-body" style={{ paddingTop: 12 }}>
+                  <div className="settings-danger-section">
+                    <div className="settings-danger-title">Danger zone</div>
+                    <p className="settings-danger-row">
+                      {replaceInPlace
+                        ? `${files} will be replaced by WebP files in the same folder.`
+                        : `${files} will be deleted once their WebP copies are written.`}
+                    </p>
+                    <p className="settings-danger-row">
+                      Each original is moved to “Originals Backup” first, so Restore puts it back and removes the WebP.
+                    </p>
+                  </div>
+
+                  <div className="flex justify-end gap-2" style={{ paddingTop: 12 }}>
+                    <button type="button" className="macos-btn" onClick={onCancel}>Cancel</button>
+                    <button type="button" className="macos-btn-primary" onClick={onConfirm}>
+                      {replaceInPlace ? 'Replace with WebP' : 'Convert and delete'}
+                    </button>
+                  </div>
+                </div>
+              </Dialog.Panel>
+            </Transition.Child>
+          </div>
+        </div>
+      </Dialog>
+    </Transition>
+  );
+}
@@ -1,18 +1,27 @@
 import React, { useState, useRef, useEffect, useCallback, type MouseEvent } from 'react';
-import type { FileStatus } from '@/shared/types';
+import type { FileStatus, GpsAction, IccAction, MetadataAction, MetadataTagGroup, SizeBudgetOutcome, SupportedImageType } from '@/shared/types';
+import { formatBytes } from '../utils/format';
 
 export interface FileTableRow {
   id: string;
   path: string;
   name: string;
   type: string;
+  frames?: number;
   sizeText: string;
   status: FileStatus;
   percentSaved?: number;
   reason?: string;
-  metadataAction?: 'Removed' | 'Kept' | 'Partial';
-  iccAction?: 'Converted to sRGB' | 'Kept' | 'Stripped';
-  gpsAction?: 'Removed' | 'Not present';
+  quality?: number;
+  ssim?: number;
+  metadataAction?: MetadataAction;
+  metadataRemoved?: MetadataTagGroup[];
+  iccAction?: IccAction;
+  gpsAction?: GpsAction;
+  budget?: SizeBudgetOutcome;
+  dimensions?: { from: [number, number]; to: [number, number] };
+  format?: SupportedImageType;
+  simulated?: boolean;
 }
 
 interface FileTableProps {
@@ -25,6 +34,22 @@ interface FileTableProps {
   showDropHint: boolean;
 }
 
+function smartLabel(row: FileTableRow): string {
+  const ssim = typeof row.ssim === 'number' ? ` · SSIM ${row.ssim.toFixed(4)}` : '';
+  return `Q${row.quality}${ssim}`;
+}
+
+function metadataLabel(row: FileTableRow): string {
+  if (row.metadataAction !== 'Cleaned' || !row.metadataRemoved?.length) return row.metadataAction ?? '';
+  return `Removed ${row.metadataRemoved.join(', ')}`;
+}
+
+function budgetLabel(budget: SizeBudgetOutcome): string {
+  if (budget.warning) return budget.warning.replace(/^Size budget: /, '');
+  const scale = budget.scale < 1 ? ` at ${Math.round(budget.scale * 100)}% size` : '';
+  return `Fits ${formatBytes(budget.targetBytes)}${scale}`;
+}
+
 function statusBadge(row: FileTableRow): React.JSX.Element {
   let badgeLabel = '';
   let badgeBg = 'var(--macos-green)';
@@ -33,12 +58,16 @@ function statusBadge(row: FileTableRow): React.JSX.Element {
     badgeBg = 'var(--macos-green)';
   } else if (row.status === 'Done') {
     if (typeof row.percentSaved === 'number' && row.percentSaved > 0) {
-      badgeLabel = `\u2212${row.percentSaved}%`;
+      // Dry-run savings are projections, marked with ≈.
+      badgeLabel = `${row.simulated ? '\u2248' : ''}\u2212${row.percentSaved}%`;
       badgeBg = 'var(--macos-green)';
     } else {
       badgeLabel = 'Ready';
       badgeBg = 'var(--macos-green)';
     }
+    if (row.budget?.warning) {
+      badgeBg = 'var(--macos-orange)';
+    }
   } else if (row.status === 'Skipped') {
     badgeLabel = 'Skip';
     badgeBg = 'var(--macos-orange)';
@@ -51,9 +80,13 @@ function statusBadge(row: FileTableRow): React.JSX.Element {
   }
 
   let titleInfo = row.reason || '';
-  if (row.metadataAction) titleInfo += (titleInfo ? '\n' : '') + `Metadata: ${row.metadataAction}`;
+  if (row.simulated) titleInfo += (titleInfo ? '\n' : '') + `Projected ${row.format?.toUpperCase() ?? 'output'} (dry run, nothing written)`;
+  if (typeof row.quality === 'number') titleInfo += (titleInfo ? '\n' : '') + `Smart: ${smartLabel(row)}`;
+  if (row.metadataAction) titleInfo += (titleInfo ? '\n' : '') + `Metadata: ${metadataLabel(row)}`;
   if (row.iccAction) titleInfo += (titleInfo ? '\n' : '') + `ICC: ${row.iccAction}`;
   if (row.gpsAction) titleInfo += (titleInfo ? '\n' : '') + `GPS: ${row.gpsAction}`;
+  if (row.dimensions) titleInfo += (titleInfo ? '\n' : '') + `Resized: ${row.dimensions.from.join('×')} → ${row.dimensions.to.join('×')}`;
+  if (row.budget) titleInfo += (titleInfo ? '\n' : '') + `Budget: ${budgetLabel(row.budget)}`;
 
   return (
     <div className="badge-status" style={{ background: badgeBg }} title={titleInfo || undefined}>
@@ -217,9 +250,16 @@ export function FileTable({ rows, selected, onSelect, onContextMenu, onPreview,
                 <span className="label-row" style={{ color: isSelected ? 'var(--macos-accent)' : 'var(--macos-text)' }}>
                   {row.name}
                 </span>
+                {typeof row.quality === 'number' && (
+                  <span className="label-row ml-2 shrink-0 text-[11px]" style={{ color: 'var(--macos-secondary)' }}>
+                    {smartLabel(row)}
+                  </span>
+                )}
               </div>
               <div className="td-cell td-type">
-                <span className="label-row label-center">{row.type.toUpperCase()}</span>
+                <span className="label-row label-center" title={row.frames && row.frames > 1 ? `Animated · ${row.frames} frames` : undefined}>
+                  {row.type.toUpperCase()}{row.frames && row.frames > 1 ? ' ▶' : ''}
+                </span>
               </div>
               <div className="td-cell td-size">
                 <span className="label-row label-center">{row.sizeText}</span>
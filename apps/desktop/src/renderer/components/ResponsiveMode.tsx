@@ -146,6 +146,7 @@ export function ResponsiveMode({ settings, onChange, onRun, busy, fileCount }: R
 									onChange={(e) => updateResponsive({ formatPolicy: e.target.value as any })}
 								>
 									<option value="webp-fallback">WebP + Original Fallback (Recommended)</option>
+									<option value="avif-webp-fallback">AVIF + WebP + Original Fallback</option>
 									<option value="keep">Keep Original Format Only</option>
 									<option value="webp-only">WebP Only (Warning: No legacy support)</option>
 								</select>
@@ -1,7 +1,7 @@
 import { Dialog, Disclosure, Transition } from '@headlessui/react';
 import { motion } from 'motion/react';
 import { Fragment, useState } from 'react';
-import type { OptimiseSettings, RunMode, MetadataCleanupPreset, MetadataCleanupSettings } from '@/shared/types';
+import { DEFAULT_METADATA_INJECTION, DEFAULT_SIMULATION, DEFAULT_SIZE_BUDGET, DEFAULT_TRANSFORM, DEFAULT_WATERMARK, type OptimiseSettings, type RunMode, type SimulatedRunMode, type SimulationSettings, type MetadataCleanupPreset, type MetadataCleanupSettings, type MetadataInjectionSettings, type SizeBudgetSettings, type TransformSettings, type WatermarkSettings } from '@/shared/types';
 
 interface SettingsDialogProps {
   open: boolean;
@@ -52,6 +52,21 @@ function SelectRow({ label, value, options, onChange }: { label: string; value:
   );
 }
 
+function TextRow({ label, value, placeholder, onChange }: { label: string; value: string; placeholder?: string; onChange: (v: string) => void }) {
+  return (
+    <div className="settings-row settings-row-stack">
+      <span className="settings-row-label">{label}</span>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        className="macos-input w-full"
+      />
+    </div>
+  );
+}
+
 function SliderRow({ label, value, min, max, hint, onChange }: { label: string; value: number; min: number; max: number; hint?: string; onChange: (v: number) => void }) {
   const fill = ((value - min) / (max - min)) * 100;
 
@@ -93,6 +108,11 @@ function SliderRow({ label, value, min, max, hint, onChange }: { label: string;
 /* ── Tab panels ───────────────────────────────────────────────── */
 
 function GeneralPanel({ settings, onChange }: { settings: OptimiseSettings; onChange: (s: OptimiseSettings) => void }) {
+  const simulation = settings.simulation ?? DEFAULT_SIMULATION;
+  const handleSimulationChange = <K extends keyof SimulationSettings>(key: K, value: SimulationSettings[K]) => {
+    set(settings, onChange, 'simulation', { ...simulation, [key]: value });
+  };
+
   return (
     <div>
       {/* Output mode */}
@@ -149,7 +169,7 @@ function GeneralPanel({ settings, onChange }: { settings: OptimiseSettings; onCh
             placeholder="{name}"
             className="macos-input w-full"
           />
-          <span className="settings-row-sublabel">{'{name} {ext} {width} {height} {scale} {format} {hash}'}</span>
+          <span className="settings-row-sublabel">{'{name} {ext} {width} {height} {scale} {format} {hash} {date} {quality} {dir} · {dup:3} numbers outputs that would share a name (001, 002…)'}</span>
         </div>
       </div>
 
@@ -160,11 +180,44 @@ function GeneralPanel({ settings, onChange }: { settings: OptimiseSettings; onCh
         <ToggleRow label="Optimize clipboard images" checked={settings.optimizeClipboardImages} onChange={(v) => set(settings, onChange, 'optimizeClipboardImages', v)} />
         <ToggleRow label="Allow larger outputs" checked={settings.allowLargerOutput} onChange={(v) => set(settings, onChange, 'allowLargerOutput', v)} />
       </div>
+
+      {/* Simulation */}
+      <div className="settings-section-title">Simulation (dry run)</div>
+      <div className="settings-section">
+        <SelectRow
+          label="Estimate mode"
+          value={simulation.targetMode}
+          options={[
+            { value: 'optimize', label: 'Optimize' },
+            { value: 'optimizeAndWebp', label: 'Optimize + WebP' },
+            { value: 'convertWebp', label: 'WebP' },
+            { value: 'convertAvif', label: 'AVIF' },
+            { value: 'smart', label: 'Smart Compression' },
+          ]}
+          onChange={(v) => handleSimulationChange('targetMode', v as SimulatedRunMode)}
+        />
+        <ToggleRow label="Sample large folders" checked={simulation.sampled} onChange={(v) => handleSimulationChange('sampled', v)} />
+        {simulation.sampled && (
+          <SliderRow
+            label="Sample size (%)"
+            value={simulation.samplePercent}
+            min={1}
+            max={50}
+            hint={`At least ${simulation.minSampleFiles} files; totals are extrapolated`}
+            onChange={(v) => handleSimulationChange('samplePercent', v)}
+          />
+        )}
+      </div>
     </div>
   );
 }
 
 function OptimizationPanel({ settings, onChange }: { settings: OptimiseSettings; onChange: (s: OptimiseSettings) => void }) {
+  const budget = settings.sizeBudget ?? DEFAULT_SIZE_BUDGET;
+  const handleBudgetChange = <K extends keyof SizeBudgetSettings>(key: K, value: SizeBudgetSettings[K]) => {
+    set(settings, onChange, 'sizeBudget', { ...budget, [key]: value });
+  };
+
   return (
     <div>
       <div className="settings-section-title">Quality</div>
@@ -182,6 +235,61 @@ function OptimizationPanel({ settings, onChange }: { settings: OptimiseSettings;
       <div className="settings-section">
         <ToggleRow label="Aggressive (may change colors slightly)" checked={settings.aggressivePng} onChange={(v) => set(settings, onChange, 'aggressivePng', v)} />
       </div>
+
+      <div className="settings-section-title">Size budget</div>
+      <div className="settings-section">
+        <ToggleRow label="Fit outputs to a maximum size" checked={budget.enabled} onChange={(v) => handleBudgetChange('enabled', v)} />
+        {budget.enabled && (
+          <>
+            <SelectRow
+              label="Budget"
+              value={budget.mode}
+              options={[
+                { value: 'bytes', label: 'Fixed size' },
+                { value: 'percent', label: '% of original' },
+              ]}
+              onChange={(v) => handleBudgetChange('mode', v as SizeBudgetSettings['mode'])}
+            />
+            {budget.mode === 'bytes' ? (
+              <TextRow
+                label="Maximum size (KB)"
+                value={String(Math.round(budget.maxBytes / 1024))}
+                onChange={(v) => {
+                  const kb = Number.parseInt(v, 10);
+                  if (Number.isFinite(kb) && kb > 0) handleBudgetChange('maxBytes', kb * 1024);
+                }}
+              />
+            ) : (
+              <SliderRow
+                label="Maximum size (% of original)"
+                value={budget.percent}
+                min={5}
+                max={95}
+                onChange={(v) => handleBudgetChange('percent', v)}
+              />
+            )}
+            <ToggleRow label="Downscale when quality alone is not enough" checked={budget.allowDownscale} onChange={(v) => handleBudgetChange('allowDownscale', v)} />
+            {budget.allowDownscale && (
+              <SliderRow
+                label="Smallest size (%)"
+                value={budget.minScale}
+                min={10}
+                max={100}
+                hint="Never shrink dimensions below this"
+                onChange={(v) => handleBudgetChange('minScale', v)}
+              />
+            )}
+            <SliderRow
+              label="Warn below SSIM"
+              value={Math.round(budget.minSsim * 100)}
+              min={80}
+              max={99}
+              hint="Files that only fit below this similarity are flagged"
+              onChange={(v) => handleBudgetChange('minSsim', v / 100)}
+            />
+          </>
+        )}
+      </div>
     </div>
   );
 }
@@ -228,6 +336,18 @@ function SmartPanel({ settings, onChange }: { settings: OptimiseSettings; onChan
           ]}
           onChange={(v) => set(settings, onChange, 'optimizationSpeed', v as OptimiseSettings['optimizationSpeed'])}
         />
+        <SelectRow
+          label="Quality metric"
+          value={settings.qualityMetric ?? 'ssim'}
+          options={[
+            { value: 'ssim', label: 'SSIM' },
+            { value: 'ms-ssim', label: 'MS-SSIM (multi-scale)' },
+            { value: 'edge-ssim', label: 'Edge-weighted SSIM (text, line art)' },
+            { value: 'psnr-hvs', label: 'PSNR-HVS' },
+            { value: 'butteraugli', label: 'Butteraugli-style (perceptual distance)' },
+          ]}
+          onChange={(v) => set(settings, onChange, 'qualityMetric', v as OptimiseSettings['qualityMetric'])}
+        />
       </div>
     </div>
   );
@@ -251,6 +371,29 @@ function WebPPanel({ settings, onChange }: { settings: OptimiseSettings; onChang
         />
       </div>
 
+      <div className="settings-section-title">AVIF</div>
+      <div className="settings-section">
+        <SliderRow
+          label="AVIF quality"
+          value={settings.avifQuality}
+          min={30}
+          max={90}
+          hint="AVIF looks good at lower numbers than WebP"
+          onChange={(v) => set(settings, onChange, 'avifQuality', v)}
+        />
+        <SelectRow
+          label="AVIF effort"
+          value={String(settings.avifEffort)}
+          options={[
+            { value: '2', label: '2 (fast)' },
+            { value: '4', label: '4' },
+            { value: '6', label: '6' },
+            { value: '9', label: '9 (smallest)' },
+          ]}
+          onChange={(v) => set(settings, onChange, 'avifEffort', Number(v))}
+        />
+      </div>
+
       <Disclosure>
         {({ open: advOpen }) => (
           <>
@@ -312,14 +455,22 @@ function WebPPanel({ settings, onChange }: { settings: OptimiseSettings; onChang
                     />
                     Replace originals with WebP
                   </label>
-                  {settings.replaceWithWebp && (
+                  <label className="settings-danger-row">
+                    <input
+                      type="checkbox"
+                      checked={settings.deleteOriginalAfterWebp}
+                      onChange={(e) => set(settings, onChange, 'deleteOriginalAfterWebp', e.target.checked)}
+                    />
+                    Delete originals after WebP conversion
+                  </label>
+                  {(settings.replaceWithWebp || settings.deleteOriginalAfterWebp) && (
                     <label className="settings-danger-row">
                       <input
                         type="checkbox"
                         checked={settings.confirmDangerousWebpReplace}
                         onChange={(e) => set(settings, onChange, 'confirmDangerousWebpReplace', e.target.checked)}
                       />
-                      I understand
+                      I understand (originals are backed up and can be restored)
                     </label>
                   )}
                 </div>
@@ -334,6 +485,135 @@ function WebPPanel({ settings, onChange }: { settings: OptimiseSettings; onChang
 
 /* ── Main dialog ──────────────────────────────────────────────── */
 
+export function TransformPanel({ settings, onChange }: { settings: OptimiseSettings; onChange: (s: OptimiseSettings) => void }) {
+  const transform = settings.transform ?? DEFAULT_TRANSFORM;
+  const handleChange = <K extends keyof TransformSettings>(key: K, value: TransformSettings[K]) => {
+    set(settings, onChange, 'transform', { ...transform, [key]: value });
+  };
+  const dimension = (value: string) => Math.max(0, Number.parseInt(value, 10) || 0);
+
+  return (
+    <div>
+      <div className="settings-section-title">Resize & Crop</div>
+      <div className="settings-section">
+        <ToggleRow label="Resize or crop before encoding" checked={transform.enabled} onChange={(v) => handleChange('enabled', v)} />
+        {transform.enabled && (
+          <>
+            <TextRow label="Max width (px, 0 = any)" value={String(transform.maxWidth)} onChange={(v) => handleChange('maxWidth', dimension(v))} />
+            <TextRow label="Max height (px, 0 = any)" value={String(transform.maxHeight)} onChange={(v) => handleChange('maxHeight', dimension(v))} />
+            <SelectRow
+              label="Fit"
+              value={transform.fit}
+              options={[
+                { value: 'inside', label: 'Inside (keep aspect)' },
+                { value: 'cover', label: 'Cover (crop to fill)' },
+                { value: 'contain', label: 'Contain (letterbox)' },
+              ]}
+              onChange={(v) => handleChange('fit', v as TransformSettings['fit'])}
+            />
+            {transform.fit === 'contain' && (
+              <TextRow label="Letterbox colour" value={transform.background} placeholder="#ffffff" onChange={(v) => handleChange('background', v)} />
+            )}
+            <SelectRow
+              label="Crop to aspect"
+              value={transform.cropAspect}
+              options={[
+                { value: '', label: 'No crop' },
+                { value: '1:1', label: '1:1' },
+                { value: '4:3', label: '4:3' },
+                { value: '3:2', label: '3:2' },
+                { value: '16:9', label: '16:9' },
+                { value: '9:16', label: '9:16' },
+              ]}
+              onChange={(v) => handleChange('cropAspect', v)}
+            />
+            {(transform.cropAspect || transform.fit === 'cover') && (
+              <SelectRow
+                label="Crop focus"
+                value={transform.cropPosition}
+                options={[
+                  { value: 'attention', label: 'Smart (faces, detail)' },
+                  { value: 'entropy', label: 'Busiest area' },
+                  { value: 'centre', label: 'Centre' },
+                ]}
+                onChange={(v) => handleChange('cropPosition', v as TransformSettings['cropPosition'])}
+              />
+            )}
+            <ToggleRow label="Never upscale" checked={transform.neverUpscale} onChange={(v) => handleChange('neverUpscale', v)} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function WatermarkPanel({ settings, onChange }: { settings: OptimiseSettings; onChange: (s: OptimiseSettings) => void }) {
+  const watermark = settings.watermark ?? DEFAULT_WATERMARK;
+  const handleChange = <K extends keyof WatermarkSettings>(key: K, value: WatermarkSettings[K]) => {
+    set(settings, onChange, 'watermark', { ...watermark, [key]: value });
+  };
+
+  const handleChooseImage = async () => {
+    const [file] = await window.api.selectFiles();
+    if (file) handleChange('imagePath', file);
+  };
+
+  return (
+    <div>
+      <div className="settings-section-title">Watermark</div>
+      <div className="settings-section">
+        <ToggleRow label="Add a watermark" checked={watermark.enabled} onChange={(v) => handleChange('enabled', v)} />
+        {watermark.enabled && (
+          <>
+            <SelectRow
+              label="Type"
+              value={watermark.kind}
+              options={[
+                { value: 'text', label: 'Text' },
+                { value: 'image', label: 'Logo image' },
+              ]}
+              onChange={(v) => handleChange('kind', v as WatermarkSettings['kind'])}
+            />
+            {watermark.kind === 'image' ? (
+              <div className="settings-row">
+                <span className="settings-row-label truncate" title={watermark.imagePath}>{watermark.imagePath || 'No image chosen'}</span>
+                <div className="settings-row-control">
+                  <button type="button" className="macos-btn" onClick={() => void handleChooseImage()}>Choose…</button>
+                </div>
+              </div>
+            ) : (
+              <>
+                <TextRow label="Text" value={watermark.text} placeholder="© {year} Studio" onChange={(v) => handleChange('text', v)} />
+                <TextRow label="Font" value={watermark.font} placeholder="sans-serif" onChange={(v) => handleChange('font', v)} />
+                <TextRow label="Colour" value={watermark.color} placeholder="#ffffff" onChange={(v) => handleChange('color', v)} />
+              </>
+            )}
+            <SelectRow
+              label="Position"
+              value={watermark.position}
+              options={[
+                { value: 'top-left', label: 'Top left' },
+                { value: 'top', label: 'Top' },
+                { value: 'top-right', label: 'Top right' },
+                { value: 'left', label: 'Left' },
+                { value: 'centre', label: 'Centre' },
+                { value: 'right', label: 'Right' },
+                { value: 'bottom-left', label: 'Bottom left' },
+                { value: 'bottom', label: 'Bottom' },
+                { value: 'bottom-right', label: 'Bottom right' },
+              ]}
+              onChange={(v) => handleChange('position', v as WatermarkSettings['position'])}
+            />
+            <SliderRow label="Size (% of width)" value={watermark.scale} min={5} max={100} onChange={(v) => handleChange('scale', v)} />
+            <SliderRow label="Margin (% of width)" value={watermark.margin} min={0} max={20} onChange={(v) => handleChange('margin', v)} />
+            <SliderRow label="Opacity" value={watermark.opacity} min={5} max={100} onChange={(v) => handleChange('opacity', v)} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
 function MetadataPanel({ settings, onChange }: { settings: OptimiseSettings; onChange: (s: OptimiseSettings) => void }) {
   const meta = settings.metadataCleanup;
 
@@ -355,6 +635,11 @@ function MetadataPanel({ settings, onChange }: { settings: OptimiseSettings; onC
     set(settings, onChange, 'metadataCleanup', { ...meta, [key]: value, preset: 'custom' });
   };
 
+  const injection = settings.metadataInjection ?? DEFAULT_METADATA_INJECTION;
+  const handleInjectionChange = <K extends keyof MetadataInjectionSettings>(key: K, value: MetadataInjectionSettings[K]) => {
+    set(settings, onChange, 'metadataInjection', { ...injection, [key]: value });
+  };
+
   return (
     <div>
       <div className="settings-section-title">Metadata & Privacy</div>
@@ -433,11 +718,27 @@ function MetadataPanel({ settings, onChange }: { settings: OptimiseSettings; onC
           )}
         </Disclosure>
       )}
+
+      <div className="settings-section-title">Rights metadata</div>
+      <div className="settings-section">
+        <ToggleRow label="Stamp copyright & licence" checked={injection.enabled} onChange={(v) => handleInjectionChange('enabled', v)} />
+        {injection.enabled && (
+          <>
+            <TextRow label="Artist / creator" value={injection.artist} placeholder="Studio North" onChange={(v) => handleInjectionChange('artist', v)} />
+            <TextRow label="Copyright" value={injection.copyright} placeholder="© {year} Studio North" onChange={(v) => handleInjectionChange('copyright', v)} />
+            <TextRow label="Licence URL" value={injection.licenseUrl} placeholder="https://example.com/licence" onChange={(v) => handleInjectionChange('licenseUrl', v)} />
+            <TextRow label="Usage terms" value={injection.usageTerms} placeholder="Licensed to {name} campaign only" onChange={(v) => handleInjectionChange('usageTerms', v)} />
+            <div className="settings-row">
+              <span className="settings-row-sublabel">{'{year} {date} {name} · written to EXIF, XMP and (JPEG) IPTC after cleanup'}</span>
+            </div>
+          </>
+        )}
+      </div>
     </div>
   );
 }
 
-const TAB_NAMES = ['General', 'Optimization', 'WebP', 'Smart', 'Metadata'] as const;
+const TAB_NAMES = ['General', 'Optimization', 'Transform', 'WebP', 'Smart', 'Metadata'] as const;
 type TabName = typeof TAB_NAMES[number];
 
 export function SettingsDialog({ open, runMode, settings, onClose, onChange }: SettingsDialogProps): React.JSX.Element {
@@ -489,6 +790,12 @@ export function SettingsDialog({ open, runMode, settings, onClose, onChange }: S
                 <div className="settings-body">
                   {activeTab === 'General' && <GeneralPanel settings={settings} onChange={onChange} />}
                   {activeTab === 'Optimization' && <OptimizationPanel settings={settings} onChange={onChange} />}
+                  {activeTab === 'Transform' && (
+                    <>
+                      <TransformPanel settings={settings} onChange={onChange} />
+                      <WatermarkPanel settings={settings} onChange={onChange} />
+                    </>
+                  )}
                   {activeTab === 'WebP' && <WebPPanel settings={settings} onChange={onChange} />}
                   {activeTab === 'Smart' && <SmartPanel settings={settings} onChange={onChange} />}
                   {activeTab === 'Metadata' && <MetadataPanel settings={settings} onChange={onChange} />}
@@ -1,8 +1,11 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { motion } from 'motion/react';
-import type { WatchFolderStatus, WatchFolderSettings, WatchFileDetectedEvent, WatchFileOptimizedEvent, WatchTriggerBehavior } from '@/shared/types';
+import type { OptimiseSettings, ProcessedIndexSummary, WatchFolderRules, WatchFolderStatus, WatchFolderSettings, WatchFileDetectedEvent, WatchFileOptimizedEvent, WatchSchedule, WatchScheduleMode, WatchSyncProgressEvent, WatchTriggerBehavior } from '@/shared/types';
+import { DEFAULT_WATCH_RULES, DEFAULT_WATCH_SCHEDULE } from '@/shared/types';
+import type { QueueStatsPayload } from '@/shared/ipcEvents';
 import { formatBytes } from '../utils/format';
 import { IconAdd, IconWatch } from './Icons';
+import { TransformPanel, WatermarkPanel } from './SettingsDialog';
 
 interface WatchEvent {
 	id: string;
@@ -21,16 +24,31 @@ export function WatchMode(): React.JSX.Element {
 	const [counters, setCounters] = useState({ processed: 0, skipped: 0, failed: 0 });
 	const [globalSettings, setGlobalSettings] = useState<WatchFolderSettings | null>(null);
 	const [headerScrolled, setHeaderScrolled] = useState(false);
+	// '' edits the global rules; a folder path edits that folder's own copy.
+	const [transformTarget, setTransformTarget] = useState('');
+	const [rulesTarget, setRulesTarget] = useState('');
+	const [rulesError, setRulesError] = useState<string | null>(null);
+	const [scheduleTarget, setScheduleTarget] = useState('');
+	const [scheduleError, setScheduleError] = useState<string | null>(null);
+	const [syncProgress, setSyncProgress] = useState<Record<string, WatchSyncProgressEvent>>({});
+	const [queueStats, setQueueStats] = useState<QueueStatsPayload | null>(null);
+	const [indexTarget, setIndexTarget] = useState('');
+	const [indexSummary, setIndexSummary] = useState<ProcessedIndexSummary | null>(null);
+	const [indexNote, setIndexNote] = useState<string | null>(null);
 
 	useEffect(() => {
 		const init = async () => {
 			try {
-				const [initialFolders, initialSettings] = await Promise.all([
+				const [initialFolders, initialSettings, initialQueue, initialIndex] = await Promise.all([
 					window.api.listWatchFolders(),
-					window.api.getGlobalWatchSettings()
+					window.api.getGlobalWatchSettings(),
+					window.api.getWatchQueueStats(),
+					window.api.getWatchIndexSummary()
 				]);
 				setFolders(initialFolders);
 				setGlobalSettings(initialSettings);
+				setQueueStats(initialQueue);
+				setIndexSummary(initialIndex);
 			} catch (err) {
 				console.error('Failed to initialize Folder Watch:', err);
 			}
@@ -73,9 +91,17 @@ export function WatchMode(): React.JSX.Element {
 			}));
 		});
 
+		const offSync = window.api.onWatchSyncProgress((event: WatchSyncProgressEvent) => {
+			setSyncProgress(prev => ({ ...prev, [event.folder]: event }));
+		});
+
+		const offQueue = window.api.onWatchQueueStats(setQueueStats);
+
 		return () => {
 			offDetected();
 			offOptimized();
+			offSync();
+			offQueue();
 		};
 	}, []);
 
@@ -111,6 +137,74 @@ export function WatchMode(): React.JSX.Element {
 		setGlobalSettings(next);
 	};
 
+	const settingsForTarget = (target: string) => folders.find((folder) => folder.path === target)?.folderSettings ?? globalSettings;
+
+	const saveTargetSettings = async (target: string, next: WatchFolderSettings) => {
+		if (folders.some((folder) => folder.path === target)) {
+			setFolders(await window.api.updateWatchFolderSettings(target, next));
+		} else {
+			await window.api.updateGlobalWatchSettings(next);
+			setGlobalSettings(next);
+		}
+	};
+
+	const transformSettings = settingsForTarget(transformTarget);
+
+	const handleTransformChange = async (optimiseSettings: OptimiseSettings) => {
+		if (!transformSettings) return;
+		await saveTargetSettings(transformTarget, { ...transformSettings, optimiseSettings });
+	};
+
+	const rulesSettings = settingsForTarget(rulesTarget);
+	const rules = { ...DEFAULT_WATCH_RULES, ...rulesSettings?.rules };
+
+	const handleRulesChange = async (patch: Partial<WatchFolderRules>) => {
+		if (!rulesSettings) return;
+		try {
+			await saveTargetSettings(rulesTarget, { ...rulesSettings, rules: { ...rules, ...patch } });
+			setRulesError(null);
+		} catch (err) {
+			// IPC wraps the main-process error message in its own prefix.
+			setRulesError(err instanceof Error ? err.message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '') : String(err));
+		}
+	};
+
+	const scheduleSettings = settingsForTarget(scheduleTarget);
+	const schedule = { ...DEFAULT_WATCH_SCHEDULE, ...scheduleSettings?.schedule };
+
+	const handleScheduleChange = async (patch: Partial<WatchSchedule>) => {
+		if (!scheduleSettings) return;
+		try {
+			await saveTargetSettings(scheduleTarget, { ...scheduleSettings, schedule: { ...schedule, ...patch } });
+			setScheduleError(null);
+		} catch (err) {
+			setScheduleError(err instanceof Error ? err.message.replace(/^Error invoking remote method '[^']+': (Error: )?/, '') : String(err));
+		}
+	};
+
+	const handlePruneIndex = async () => {
+		const summary = await window.api.pruneWatchIndex(indexTarget || undefined);
+		setIndexSummary(summary);
+		setIndexNote(`Removed ${summary.removed} missing file${summary.removed === 1 ? '' : 's'}`);
+	};
+
+	const handleResetIndex = async () => {
+		if (!indexTarget) return;
+		const summary = await window.api.resetWatchIndexFolder(indexTarget);
+		setIndexSummary(summary);
+		setIndexNote(`Forgot ${summary.removed} file${summary.removed === 1 ? '' : 's'}; they will be optimized again`);
+	};
+
+	const handleExportIndex = async () => {
+		const exported = await window.api.exportWatchIndex(indexTarget || undefined);
+		if (exported) setIndexNote(`Exported to ${exported}`);
+	};
+
+	const handleChooseOutputRoot = async () => {
+		const selected = await window.api.selectFolder();
+		if (selected) await handleRulesChange({ outputRoot: selected });
+	};
+
 	return (
 		<div className="watch-mode flex flex-col h-full" style={{ background: 'var(--macos-content-bg)' }}>
 			<header className={`mode-sticky-header flex justify-between items-center shrink-0 ${headerScrolled ? 'is-scrolled' : ''}`}>
@@ -160,6 +254,7 @@ export function WatchMode(): React.JSX.Element {
 										<div className="flex-1 min-w-0 mr-3">
 											<p className="text-sm font-semibold truncate leading-tight">{pathUtils.basename(folder.path)}</p>
 											<p className="text-[10px] text-[var(--macos-secondary)] truncate mt-0.5">{folder.path}</p>
+											{syncProgress[folder.path] && <p className="text-[10px] text-[var(--macos-accent)] truncate mt-0.5">{syncLabel(syncProgress[folder.path])}</p>}
 										</div>
 										<div className="flex items-center gap-3">
 											<label className="macos-toggle">
@@ -176,6 +271,14 @@ export function WatchMode(): React.JSX.Element {
 													transition={{ type: 'spring', stiffness: 720, damping: 42, mass: 0.22 }}
 												/>
 											</label>
+											<button
+												onClick={() => void window.api.syncWatchFolder(folder.path)}
+												disabled={!folder.enabled || !globalSettings?.watchEnabled}
+												className="p-1 text-[11px] hover:text-[var(--macos-accent)] transition-colors opacity-0 group-hover:opacity-100 disabled:hidden"
+												title="Process the images already in this folder"
+											>
+												Sync
+											</button>
 											<button
 												onClick={() => handleRemoveFolder(folder.path)}
 												className="p-1 hover:text-[var(--macos-red)] transition-colors opacity-0 group-hover:opacity-100"
@@ -228,6 +331,328 @@ export function WatchMode(): React.JSX.Element {
 						</div>
 					</section>
 
+					{queueStats && (
+						<section className="bg-[var(--macos-surface-raised)] border border-[var(--macos-separator)] rounded-xl p-4 shadow-sm space-y-3">
+							<div className="flex justify-between items-center">
+								<h2 className="text-[11px] font-bold uppercase tracking-wider text-[var(--macos-secondary)]">Queue</h2>
+								<div className="flex gap-2">
+									<select
+										className="macos-select macos-select-mode text-xs"
+										value={queueStats.prioritizedFolder ?? ''}
+										onChange={async (e) => setQueueStats(await window.api.prioritizeWatchFolder(e.target.value || null))}
+										title="Run this folder's files first"
+									>
+										<option value="">No priority</option>
+										{folders.map(folder => (
+											<option key={folder.path} value={folder.path}>First: {pathUtils.basename(folder.path)}</option>
+										))}
+									</select>
+									<button type="button" className="macos-btn" onClick={async () => setQueueStats(await window.api.setWatchQueuePaused(!queueStats.paused))}>
+										{queueStats.paused ? 'Resume' : 'Pause'}
+									</button>
+								</div>
+							</div>
+
+							<p className="text-[13px] tabular-nums">
+								{queueStats.active}/{queueStats.maxConcurrent} running · {queueStats.queued} queued · {queueStats.backlog} in backlog · {queueStats.retrying.length} retrying
+								{queueStats.holds.length > 0 && <> · {queueStats.holds.reduce((sum, hold) => sum + hold.held, 0)} held</>}
+								{queueStats.paused && <span className="text-[var(--macos-red)]"> · paused</span>}
+							</p>
+
+							{queueStats.holds.map(hold => (
+								<p key={hold.folder} className="text-[11px] text-[var(--macos-secondary)] truncate" title={hold.folder}>
+									{pathUtils.basename(hold.folder)} — {hold.held} held · {hold.reason}
+									{hold.releaseAt !== undefined && <> at {new Date(hold.releaseAt).toLocaleTimeString([], { hour12: false })}</>}
+								</p>
+							))}
+
+							{queueStats.retrying.slice(0, 5).map(retry => (
+								<p key={retry.jobId} className="text-[11px] text-[var(--macos-secondary)] truncate" title={retry.path}>
+									{pathUtils.basename(retry.path)} — attempt {retry.attempt} at {new Date(retry.nextAttemptAt).toLocaleTimeString([], { hour12: false })}
+								</p>
+							))}
+
+							{queueStats.failures.length > 0 && (
+								<div className="space-y-1">
+									{queueStats.failures.slice(0, 5).map(failure => (
+										<div key={failure.jobId} className="flex items-center justify-between gap-3 text-[11px]">
+											<span className="truncate" title={failure.path}>
+												{pathUtils.basename(failure.path)} <span className="text-[var(--macos-red)] italic">{failure.message}</span> ({failure.attempts} attempts)
+											</span>
+											<button type="button" className="text-[var(--macos-accent)] hover:underline shrink-0" onClick={async () => setQueueStats(await window.api.retryFailedWatchJobs([failure.path]))}>
+												Retry
+											</button>
+										</div>
+									))}
+								</div>
+							)}
+
+							<div className="flex justify-end gap-2">
+								<button
+									type="button"
+									className="macos-btn"
+									disabled={queueStats.failures.length === 0}
+									onClick={async () => setQueueStats(await window.api.retryFailedWatchJobs())}
+								>
+									Retry failed ({queueStats.failures.length})
+								</button>
+								<button
+									type="button"
+									className="macos-btn"
+									disabled={queueStats.queued + queueStats.backlog + queueStats.retrying.length + queueStats.holds.length === 0}
+									onClick={async () => setQueueStats(await window.api.clearWatchQueue())}
+								>
+									Clear queue
+								</button>
+							</div>
+						</section>
+					)}
+
+					<section className="bg-[var(--macos-surface-raised)] border border-[var(--macos-separator)] rounded-xl p-4 shadow-sm space-y-4">
+						<div className="flex justify-between items-center">
+							<h2 className="text-[11px] font-bold uppercase tracking-wider text-[var(--macos-secondary)]">Files & Destination</h2>
+							<select
+								className="macos-select macos-select-mode text-xs"
+								value={rulesTarget}
+								onChange={(e) => {
+									setRulesTarget(e.target.value);
+									setRulesError(null);
+								}}
+							>
+								<option value="">All folders</option>
+								{folders.map(folder => (
+									<option key={folder.path} value={folder.path}>
+										{pathUtils.basename(folder.path)}{folder.folderSettings ? '' : ' (uses global)'}
+									</option>
+								))}
+							</select>
+						</div>
+
+						{/* Keyed on the saved rules so the fields reset after a save or a target change */}
+						<div key={`${rulesTarget}:${JSON.stringify(rules)}`} className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+							<div className="flex flex-col space-y-1.5">
+								<span className="text-[13px] font-medium">Include</span>
+								<input
+									type="text"
+									className="macos-input text-xs w-full"
+									placeholder="Everything, e.g. *.png, shots/**"
+									defaultValue={rules.include.join(', ')}
+									onBlur={(e) => void handleRulesChange({ include: splitGlobs(e.target.value) })}
+								/>
+							</div>
+
+							<div className="flex flex-col space-y-1.5">
+								<span className="text-[13px] font-medium">Exclude</span>
+								<input
+									type="text"
+									className="macos-input text-xs w-full"
+									placeholder="e.g. drafts/, *-raw.*"
+									defaultValue={rules.exclude.join(', ')}
+									onBlur={(e) => void handleRulesChange({ exclude: splitGlobs(e.target.value) })}
+								/>
+							</div>
+
+							<div className="flex flex-col space-y-1.5">
+								<span className="text-[13px] font-medium">Max depth (folders)</span>
+								<input
+									type="number"
+									min={0}
+									className="macos-input text-xs w-full"
+									placeholder="No limit"
+									defaultValue={rules.maxDepth ?? ''}
+									onBlur={(e) => void handleRulesChange({ maxDepth: e.target.value === '' ? null : Math.max(0, parseInt(e.target.value)) })}
+								/>
+							</div>
+						</div>
+
+						<label className="flex items-center gap-2 text-[13px] font-medium">
+							<input
+								type="checkbox"
+								checked={rules.processExisting}
+								onChange={(e) => void handleRulesChange({ processExisting: e.target.checked })}
+							/>
+							Process existing files when watching starts
+							<span className="text-[11px] font-normal text-[var(--macos-secondary)]">(already optimized files are skipped)</span>
+						</label>
+
+						<div className="flex items-center justify-between gap-3">
+							<div className="min-w-0">
+								<span className="text-[13px] font-medium">Output folder</span>
+								<p className="text-[11px] text-[var(--macos-secondary)] truncate" title={rules.outputRoot ?? undefined}>
+									{rules.outputRoot ?? 'Optimized/ next to each image'}
+								</p>
+							</div>
+							<div className="flex gap-2 shrink-0">
+								{rules.outputRoot && (
+									<button type="button" className="macos-btn" onClick={() => void handleRulesChange({ outputRoot: null })}>Reset</button>
+								)}
+								<button type="button" className="macos-btn" onClick={() => void handleChooseOutputRoot()}>Choose…</button>
+							</div>
+						</div>
+
+						{rulesError && <p className="text-[11px] text-[var(--macos-red)]">{rulesError}</p>}
+					</section>
+
+					<section className="bg-[var(--macos-surface-raised)] border border-[var(--macos-separator)] rounded-xl p-4 shadow-sm space-y-4">
+						<div className="flex justify-between items-center">
+							<h2 className="text-[11px] font-bold uppercase tracking-wider text-[var(--macos-secondary)]">Schedule</h2>
+							<select
+								className="macos-select macos-select-mode text-xs"
+								value={scheduleTarget}
+								onChange={(e) => {
+									setScheduleTarget(e.target.value);
+									setScheduleError(null);
+								}}
+							>
+								<option value="">All folders</option>
+								{folders.map(folder => (
+									<option key={folder.path} value={folder.path}>
+										{pathUtils.basename(folder.path)}{folder.folderSettings ? '' : ' (uses global)'}
+									</option>
+								))}
+							</select>
+						</div>
+
+						<div key={`${scheduleTarget}:${JSON.stringify(schedule)}`} className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+							<div className="flex flex-col space-y-1.5">
+								<span className="text-[13px] font-medium">Process files</span>
+								<select
+									className="macos-select macos-select-mode text-xs w-full"
+									value={schedule.mode}
+									onChange={(e) => void handleScheduleChange({ mode: e.target.value as WatchScheduleMode })}
+								>
+									<option value="immediate">Immediately</option>
+									<option value="window">Only between set hours</option>
+									<option value="batch">In batches</option>
+								</select>
+							</div>
+
+							{schedule.mode === 'window' && (
+								<div className="flex flex-col space-y-1.5 sm:col-span-2">
+									<span className="text-[13px] font-medium">Between</span>
+									<div className="flex items-center gap-2">
+										<input
+											type="time"
+											className="macos-input text-xs"
+											defaultValue={schedule.windowStart}
+											onBlur={(e) => void handleScheduleChange({ windowStart: e.target.value })}
+										/>
+										<span className="text-[11px] text-[var(--macos-secondary)]">and</span>
+										<input
+											type="time"
+											className="macos-input text-xs"
+											defaultValue={schedule.windowEnd}
+											onBlur={(e) => void handleScheduleChange({ windowEnd: e.target.value })}
+										/>
+									</div>
+								</div>
+							)}
+
+							{schedule.mode === 'batch' && (
+								<div className="flex flex-col space-y-1.5">
+									<span className="text-[13px] font-medium">Every (minutes)</span>
+									<input
+										type="number"
+										min={1}
+										className="macos-input text-xs w-full"
+										defaultValue={schedule.batchIntervalMinutes}
+										onBlur={(e) => void handleScheduleChange({ batchIntervalMinutes: Math.max(1, parseInt(e.target.value) || 1) })}
+									/>
+								</div>
+							)}
+						</div>
+
+						<div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+							<label className="flex items-center gap-2 text-[13px] font-medium">
+								<input
+									type="checkbox"
+									checked={schedule.pauseOnBattery}
+									onChange={(e) => void handleScheduleChange({ pauseOnBattery: e.target.checked })}
+								/>
+								Pause on battery power
+							</label>
+							<label className="flex items-center gap-2 text-[13px] font-medium">
+								<input
+									type="checkbox"
+									checked={schedule.pauseAboveLoad !== null}
+									onChange={(e) => void handleScheduleChange({ pauseAboveLoad: e.target.checked ? 1 : null })}
+								/>
+								Pause when system load per core is above
+								<input
+									key={`load:${scheduleTarget}:${schedule.pauseAboveLoad}`}
+									type="number"
+									min={0.1}
+									step={0.1}
+									className="macos-input text-xs w-16"
+									disabled={schedule.pauseAboveLoad === null}
+									defaultValue={schedule.pauseAboveLoad ?? 1}
+									onBlur={(e) => void handleScheduleChange({ pauseAboveLoad: parseFloat(e.target.value) || 1 })}
+								/>
+							</label>
+						</div>
+
+						<p className="text-[11px] text-[var(--macos-secondary)]">Files that arrive while processing is held wait in the queue, including across restarts.</p>
+						{scheduleError && <p className="text-[11px] text-[var(--macos-red)]">{scheduleError}</p>}
+					</section>
+
+					<section className="bg-[var(--macos-surface-raised)] border border-[var(--macos-separator)] rounded-xl p-4 shadow-sm space-y-3">
+						<div className="flex justify-between items-center">
+							<h2 className="text-[11px] font-bold uppercase tracking-wider text-[var(--macos-secondary)]">Processed History</h2>
+							<select
+								className="macos-select macos-select-mode text-xs"
+								value={indexTarget}
+								onChange={(e) => {
+									setIndexTarget(e.target.value);
+									setIndexNote(null);
+								}}
+							>
+								<option value="">All folders</option>
+								{folders.map(folder => (
+									<option key={folder.path} value={folder.path}>{pathUtils.basename(folder.path)}</option>
+								))}
+							</select>
+						</div>
+
+						<p className="text-[13px] tabular-nums">
+							{indexSummary?.entries ?? 0} files remembered
+							<span className="text-[11px] text-[var(--macos-secondary)]"> · renamed or moved files are recognised and not optimized twice</span>
+						</p>
+
+						<div className="flex justify-end gap-2">
+							<button type="button" className="macos-btn" onClick={() => void handlePruneIndex()}>Remove missing</button>
+							<button type="button" className="macos-btn" onClick={() => void handleExportIndex()}>Export…</button>
+							<button type="button" className="macos-btn" disabled={!indexTarget} onClick={() => void handleResetIndex()} title="Optimize this folder's files again">
+								Reset folder
+							</button>
+						</div>
+
+						{indexNote && <p className="text-[11px] text-[var(--macos-secondary)] truncate" title={indexNote}>{indexNote}</p>}
+					</section>
+
+					<section className="bg-[var(--macos-surface-raised)] border border-[var(--macos-separator)] rounded-xl p-4 shadow-sm space-y-4">
+						<div className="flex justify-between items-center">
+							<h2 className="text-[11px] font-bold uppercase tracking-wider text-[var(--macos-secondary)]">Resize, Crop & Watermark</h2>
+							<select
+								className="macos-select macos-select-mode text-xs"
+								value={transformTarget}
+								onChange={(e) => setTransformTarget(e.target.value)}
+							>
+								<option value="">All folders</option>
+								{folders.map(folder => (
+									<option key={folder.path} value={folder.path}>
+										{pathUtils.basename(folder.path)}{folder.folderSettings ? '' : ' (uses global)'}
+									</option>
+								))}
+							</select>
+						</div>
+						{transformSettings && (
+							<>
+								<TransformPanel settings={transformSettings.optimiseSettings} onChange={(next) => void handleTransformChange(next)} />
+								<WatermarkPanel settings={transformSettings.optimiseSettings} onChange={(next) => void handleTransformChange(next)} />
+							</>
+						)}
+					</section>
+
 					<section className="bg-[var(--macos-surface-raised)] border border-[var(--macos-separator)] rounded-xl p-4 grid grid-cols-3 gap-2 shadow-sm text-center">
 						<div className="flex flex-col">
 							<span className="text-lg font-bold text-[var(--macos-green)]">{counters.processed}</span>
@@ -324,6 +749,20 @@ export function WatchMode(): React.JSX.Element {
 	);
 }
 
+function syncLabel(progress: WatchSyncProgressEvent): string {
+	const handled = progress.completed + progress.alreadyProcessed;
+	const failed = progress.failed > 0 ? `, ${progress.failed} failed` : '';
+	if (progress.state === 'scanning') return `Scanning… ${progress.found} found`;
+	if (progress.state === 'running') return `Syncing ${handled} of ${progress.found} (${progress.queued} queued${failed})`;
+	if (progress.state === 'cancelled') return `Sync stopped at ${handled} of ${progress.found}`;
+	return `Synced ${progress.found} existing file${progress.found === 1 ? '' : 's'}${failed}`;
+}
+
+// Globs are entered comma- or newline-separated; commas inside {a,b} belong to the glob
+function splitGlobs(value: string): string[] {
+	return value.split(/,(?![^{]*\})|\n/).map((glob) => glob.trim()).filter(Boolean);
+}
+
 // Helper to use path.basename in renderer (fallback)
 const pathUtils = {
 	basename: (p?: string) => {
@@ -1,16 +1,23 @@
 import { useRef, useState, useMemo, type MouseEvent } from 'react';
-import type { ImageListItem, FileStatus } from '@/shared/types';
+import type { ImageListItem, FileStatus, GpsAction, IccAction, MetadataAction, MetadataTagGroup, SizeBudgetOutcome, SupportedImageType } from '@/shared/types';
 import { formatSizeCell, formatPercent } from '../utils/format';
 import type { FileTableRow } from '../components/FileTable';
 
-interface RowRuntime {
+export interface RowRuntime {
 	status: FileStatus;
 	beforeBytes: number;
 	afterBytes?: number;
 	reason?: string;
-	metadataAction?: 'Removed' | 'Kept' | 'Partial';
-	iccAction?: 'Converted to sRGB' | 'Kept' | 'Stripped';
-	gpsAction?: 'Removed' | 'Not present';
+	quality?: number;
+	ssim?: number;
+	metadataAction?: MetadataAction;
+	metadataRemoved?: MetadataTagGroup[];
+	iccAction?: IccAction;
+	gpsAction?: GpsAction;
+	budget?: SizeBudgetOutcome;
+	dimensions?: { from: [number, number]; to: [number, number] };
+	format?: SupportedImageType;
+	simulated?: boolean;
 }
 
 export function useFileManagement() {
@@ -43,6 +50,7 @@ export function useFileManagement() {
 					path: file.path,
 					name: file.name,
 					type: file.ext,
+					frames: file.frames,
 					sizeText: formatSizeCell({
 						status: runtime.status,
 						beforeBytes: before,
@@ -51,9 +59,16 @@ export function useFileManagement() {
 					status: runtime.status,
 					percentSaved: typeof after === 'number' ? formatPercent(before, after) : undefined,
 					reason: runtime.reason,
+					quality: runtime.quality,
+					ssim: runtime.ssim,
 					metadataAction: runtime.metadataAction,
+					metadataRemoved: runtime.metadataRemoved,
 					iccAction: runtime.iccAction,
-					gpsAction: runtime.gpsAction
+					gpsAction: runtime.gpsAction,
+					budget: runtime.budget,
+					dimensions: runtime.dimensions,
+					format: runtime.format,
+					simulated: runtime.simulated
 				};
 			}),
 		[files, rowRuntime]
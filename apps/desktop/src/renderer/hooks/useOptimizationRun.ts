@@ -1,16 +1,12 @@
 import { useState, useEffect } from 'react';
-import type { OptimiseSettings, RunMode, RunSummary, ImageListItem, FileStatus } from '@/shared/types';
+import type { OptimiseSettings, ReportFormat, RunMode, RunSummary, ImageListItem, FileStatus } from '@/shared/types';
 import { formatBytes, formatElapsed } from '../utils/format';
+import type { RowRuntime } from './useFileManagement';
 
 interface UseOptimizationRunProps {
 	files: ImageListItem[];
 	settings: OptimiseSettings;
-	setRowRuntime: React.Dispatch<React.SetStateAction<Record<string, {
-		status: FileStatus;
-		beforeBytes: number;
-		afterBytes?: number;
-		reason?: string;
-	}>>>;
+	setRowRuntime: React.Dispatch<React.SetStateAction<Record<string, RowRuntime>>>;
 	refreshRestoreAvailability: () => void;
 }
 
@@ -41,6 +37,16 @@ export function useOptimizationRun({ files, settings, setRowRuntime, refreshRest
 					status,
 					beforeBytes: event.result?.originalBytes || current.beforeBytes,
 					afterBytes: event.result?.outputBytes || current.afterBytes,
+					quality: event.result?.quality ?? current.quality,
+					ssim: event.result?.ssim ?? current.ssim,
+					metadataAction: event.result?.metadataAction ?? current.metadataAction,
+					metadataRemoved: event.result?.metadataRemoved ?? current.metadataRemoved,
+					iccAction: event.result?.iccAction ?? current.iccAction,
+					gpsAction: event.result?.gpsAction ?? current.gpsAction,
+					budget: event.result?.budget ?? current.budget,
+					dimensions: event.result?.dimensions ?? current.dimensions,
+					format: event.result?.format ?? current.format,
+					simulated: event.result ? event.result.simulated : current.simulated,
 					reason: event.result?.error?.message || event.progress?.stage || current.reason
 				};
 
@@ -64,7 +70,11 @@ export function useOptimizationRun({ files, settings, setRowRuntime, refreshRest
 			const elapsed = formatElapsed(event.elapsedMs);
 			const savedBytes = event.totalSavedBytes;
 
-			if (event.failedFiles > 0) {
+			if (event.estimate) {
+				void window.api.notify('Simulation finished', `Would save ${formatBytes(event.estimate.projectedSavedBytes)} across ${event.estimate.totalFiles} files • nothing was written`);
+			} else if (event.cancelledFiles) {
+				void window.api.notify('Cancelled', `${event.processedFiles} of ${event.totalFiles} processed • Saved ${formatBytes(savedBytes)} in ${elapsed}`);
+			} else if (event.failedFiles > 0) {
 				void window.api.notify('Completed with issues', `${event.failedFiles} failed • Saved ${formatBytes(savedBytes)} in ${elapsed}`);
 			} else {
 				void window.api.notify('Success', `Saved ${formatBytes(savedBytes)} in ${elapsed}`);
@@ -102,6 +112,17 @@ export function useOptimizationRun({ files, settings, setRowRuntime, refreshRest
 		}
 	};
 
+	const exportReport = async (runId: string, format: ReportFormat) => {
+		try {
+			const target = await window.api.exportRunReport(runId, format);
+			if (target) {
+				void window.api.revealInFileManager([target]);
+			}
+		} catch (error) {
+			void window.api.notify('Report export failed', error instanceof Error ? error.message : String(error));
+		}
+	};
+
 	return {
 		busy,
 		activeRunId,
@@ -109,6 +130,7 @@ export function useOptimizationRun({ files, settings, setRowRuntime, refreshRest
 		progress,
 		runBeforeBytes,
 		run,
-		cancel
+		cancel,
+		exportReport
 	};
 }
@@ -1,3 +1,5 @@
+import type { GpsAction, IccAction, MetadataAction, MetadataTagGroup, SizeBudgetOutcome, SupportedImageType } from './types';
+
 /**
  * Standardized IPC event names and payloads for Crunch refactor.
  */
@@ -18,12 +20,68 @@ export interface JobUpdatePayload {
 	};
 	result?: {
 		outputPath?: string;
+		format?: SupportedImageType;
+		simulated?: boolean;
 		originalBytes: number;
 		outputBytes: number;
 		bytesSaved: number;
+		quality?: number;
+		ssim?: number;
+		metadataAction?: MetadataAction;
+		metadataRemoved?: MetadataTagGroup[];
+		iccAction?: IccAction;
+		gpsAction?: GpsAction;
+		budget?: SizeBudgetOutcome;
+		dimensions?: { from: [number, number]; to: [number, number] };
 		error?: {
 			code: string;
 			message: string;
 		};
 	};
 }
+
+/** A watch job entering the queue, from a file event, an initial sync or a manual retry. */
+export interface JobAddedPayload {
+	jobId: string;
+	inputPath: string;
+	folder: string;
+	source: 'event' | 'sync' | 'retry';
+}
+
+export interface QueueRetryInfo {
+	jobId: string;
+	folder: string;
+	path: string;
+	attempt: number; // The attempt that will run next
+	nextAttemptAt: number; // Epoch ms
+}
+
+export interface QueueFailureInfo {
+	jobId: string;
+	folder: string;
+	path: string;
+	message: string;
+	attempts: number;
+	failedAt: number; // Epoch ms
+}
+
+/** Snapshot of the watch queue, sent whenever it changes. */
+export interface QueueStatsPayload {
+	paused: boolean;
+	queued: number; // Live file events waiting for a worker
+	backlog: number; // Initial-sync files waiting for a worker
+	active: number;
+	maxConcurrent: number;
+	prioritizedFolder: string | null;
+	folders: Array<{ folder: string; queued: number; active: number }>;
+	retrying: QueueRetryInfo[];
+	failures: QueueFailureInfo[]; // Most recent first
+	holds: QueueHoldInfo[]; // Folders whose schedule is holding files back
+}
+
+export interface QueueHoldInfo {
+	folder: string;
+	held: number;
+	reason: string;
+	releaseAt?: number; // Epoch ms of the next batch, for batch schedules
+}
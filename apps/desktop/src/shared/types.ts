@@ -1,8 +1,13 @@
-export type SupportedImageType = 'jpeg' | 'png' | 'webp';
+import type { JobAddedPayload, QueueStatsPayload } from './ipcEvents';
+
+export type SupportedImageType = 'jpeg' | 'png' | 'webp' | 'avif';
 
 export type OutputMode = 'replace' | 'subfolder';
-export type RunMode = 'optimize' | 'convertWebp' | 'optimizeAndWebp' | 'smart' | 'responsive';
+export type RunMode = 'optimize' | 'convertWebp' | 'convertAvif' | 'optimizeAndWebp' | 'smart' | 'responsive' | 'simulate';
+/** Modes a simulate run can estimate; responsive derivatives are written as they are rendered. */
+export type SimulatedRunMode = Exclude<RunMode, 'simulate' | 'responsive'>;
 export type ExportPreset = 'original' | 'web' | 'design';
+export type ReportFormat = 'csv' | 'json' | 'html';
 
 export type FileStatus =
   | 'Ready'
@@ -26,6 +31,115 @@ export interface MetadataCleanupSettings {
   iccHandling: 'srgb' | 'keep' | 'strip';
 }
 
+/**
+ * Rights fields stamped into every output. Values are templates: {year}, {date} and {name}
+ * (the input file name without extension) are filled in per file.
+ */
+export interface MetadataInjectionSettings {
+  enabled: boolean;
+  artist: string;
+  copyright: string;
+  licenseUrl: string;
+  usageTerms: string;
+}
+
+/**
+ * Output size cap (e.g. a CMS limit). `maxBytes` is absolute; `percent` is relative to the original file.
+ * Below `minSsim` the output still fits but is flagged with a warning.
+ */
+export interface SizeBudgetSettings {
+  enabled: boolean;
+  mode: 'bytes' | 'percent';
+  maxBytes: number;
+  percent: number;
+  allowDownscale: boolean;
+  minScale: number; // Smallest downscale in percent of the original dimensions
+  minSsim: number;
+}
+
+export type TransformFit = 'inside' | 'cover' | 'contain';
+export type CropPosition = 'attention' | 'entropy' | 'centre';
+
+/**
+ * Resize/crop applied before encoding. A 0 max dimension means no limit; `cropAspect` is
+ * `W:H` (e.g. `16:9`) or empty for no crop.
+ */
+export interface TransformSettings {
+  enabled: boolean;
+  maxWidth: number;
+  maxHeight: number;
+  fit: TransformFit;
+  cropAspect: string;
+  cropPosition: CropPosition;
+  neverUpscale: boolean;
+  background: string; // Letterbox colour for `contain`
+}
+
+/** Full-reference score used by smart search and the PNG guardrail. */
+export type QualityMetric = 'ssim' | 'ms-ssim' | 'edge-ssim' | 'psnr-hvs' | 'butteraugli';
+
+export type WatermarkPosition =
+  | 'top-left'
+  | 'top'
+  | 'top-right'
+  | 'left'
+  | 'centre'
+  | 'right'
+  | 'bottom-left'
+  | 'bottom'
+  | 'bottom-right';
+
+/**
+ * Logo or text composited over every output. `text` accepts the {year}, {date} and {name}
+ * templates; `margin` and `scale` are percentages of the image width.
+ */
+export interface WatermarkSettings {
+  enabled: boolean;
+  kind: 'image' | 'text';
+  imagePath: string;
+  text: string;
+  font: string;
+  color: string;
+  position: WatermarkPosition;
+  margin: number;
+  opacity: number; // 0-100
+  scale: number;
+}
+
+/** Dry-run options: which mode to estimate and whether to extrapolate from a sample. */
+export interface SimulationSettings {
+  targetMode: SimulatedRunMode;
+  sampled: boolean;
+  samplePercent: number;
+  minSampleFiles: number;
+}
+
+/** How a file fared against its size budget. `scale` is 1 when the dimensions were kept. */
+export interface SizeBudgetOutcome {
+  targetBytes: number;
+  met: boolean;
+  quality?: number;
+  scale: number;
+  ssim?: number;
+  warning?: string;
+}
+
+/** Tag groups the metadata engine can keep or drop independently. */
+export type MetadataTagGroup =
+  | 'exif'
+  | 'camera'
+  | 'maker-notes'
+  | 'gps'
+  | 'copyright'
+  | 'thumbnail'
+  | 'comments'
+  | 'xmp'
+  | 'iptc';
+
+export type MetadataAction = 'Removed' | 'Kept' | 'Cleaned';
+export type IccAction = 'Converted to sRGB' | 'Kept' | 'Stripped';
+export type GpsAction = 'Removed' | 'Kept' | 'Not present';
+
 export interface OptimiseSettings {
   outputMode: OutputMode;
   exportPreset: ExportPreset;
@@ -38,6 +152,8 @@ export interface OptimiseSettings {
   webpNearLossless: boolean;
   webpQuality: number;
   webpEffort: number;
+  avifQuality: number;
+  avifEffort: number;
   reencodeExistingWebp: boolean;
   aggressivePng: boolean;
   concurrencyMode: 'auto' | 'manual';
@@ -51,12 +167,18 @@ export interface OptimiseSettings {
   smartTarget: 'visually-lossless' | 'high' | 'balanced' | 'small' | 'custom';
   qualityGuardrail: number;
   optimizationSpeed: 'fast' | 'balanced' | 'thorough';
+  qualityMetric: QualityMetric;
   responsiveSettings: ResponsiveSettings;
   metadataCleanup: MetadataCleanupSettings;
+  metadataInjection: MetadataInjectionSettings;
+  sizeBudget: SizeBudgetSettings;
+  transform: TransformSettings;
+  watermark: WatermarkSettings;
+  simulation: SimulationSettings;
 }
 
 export type ResponsiveMode = 'width' | 'dpr';
-export type ResponsiveFormatPolicy = 'keep' | 'webp-fallback' | 'webp-only';
+export type ResponsiveFormatPolicy = 'keep' | 'webp-fallback' | 'avif-webp-fallback' | 'webp-only';
 
 export interface ResponsiveSettings {
   mode: ResponsiveMode;
@@ -82,6 +204,55 @@ export const DEFAULT_RESPONSIVE_SETTINGS: ResponsiveSettings = {
   customSizes: '(max-width: 768px) 100vw, 768px',
 };
 
+export const DEFAULT_METADATA_INJECTION: MetadataInjectionSettings = {
+  enabled: false,
+  artist: '',
+  copyright: '',
+  licenseUrl: '',
+  usageTerms: '',
+};
+
+export const DEFAULT_SIZE_BUDGET: SizeBudgetSettings = {
+  enabled: false,
+  mode: 'bytes',
+  maxBytes: 200 * 1024,
+  percent: 50,
+  allowDownscale: false,
+  minScale: 50,
+  minSsim: 0.95,
+};
+
+export const DEFAULT_TRANSFORM: TransformSettings = {
+  enabled: false,
+  maxWidth: 0,
+  maxHeight: 0,
+  fit: 'inside',
+  cropAspect: '',
+  cropPosition: 'attention',
+  neverUpscale: true,
+  background: '#ffffff',
+};
+
+export const DEFAULT_WATERMARK: WatermarkSettings = {
+  enabled: false,
+  kind: 'text',
+  imagePath: '',
+  text: '© {year}',
+  font: 'sans-serif',
+  color: '#ffffff',
+  position: 'bottom-right',
+  margin: 3,
+  opacity: 60,
+  scale: 20,
+};
+
+export const DEFAULT_SIMULATION: SimulationSettings = {
+  targetMode: 'optimize',
+  sampled: false,
+  samplePercent: 10,
+  minSampleFiles: 20,
+};
+
 export const DEFAULT_SETTINGS: OptimiseSettings = {
   outputMode: 'subfolder',
   exportPreset: 'web',
@@ -94,6 +265,8 @@ export const DEFAULT_SETTINGS: OptimiseSettings = {
   webpNearLossless: false,
   webpQuality: 80,
   webpEffort: 5,
+  avifQuality: 55,
+  avifEffort: 4,
   reencodeExistingWebp: false,
   aggressivePng: false,
   concurrencyMode: 'auto',
@@ -107,6 +280,7 @@ export const DEFAULT_SETTINGS: OptimiseSettings = {
   smartTarget: 'visually-lossless',
   qualityGuardrail: 90,
   optimizationSpeed: 'balanced',
+  qualityMetric: 'ssim',
   responsiveSettings: DEFAULT_RESPONSIVE_SETTINGS,
   metadataCleanup: {
     enabled: true,
@@ -119,6 +293,11 @@ export const DEFAULT_SETTINGS: OptimiseSettings = {
     gpsClean: true,
     iccHandling: 'srgb',
   },
+  metadataInjection: DEFAULT_METADATA_INJECTION,
+  sizeBudget: DEFAULT_SIZE_BUDGET,
+  transform: DEFAULT_TRANSFORM,
+  watermark: DEFAULT_WATERMARK,
+  simulation: DEFAULT_SIMULATION,
 };
 
 export interface StartRunPayload {
@@ -134,6 +313,7 @@ export interface ImageListItem {
   ext: string;
   width: number;
   height: number;
+  frames: number;
 }
 
 export interface RunOverallProgress {
@@ -154,9 +334,13 @@ export interface RunFileProgress {
   savedBytes: number;
   savedByMetadataBytes?: number;
   message?: string;
-  metadataAction?: 'Removed' | 'Kept' | 'Partial';
-  iccAction?: 'Converted to sRGB' | 'Kept' | 'Stripped';
-  gpsAction?: 'Removed' | 'Not present';
+  metadataAction?: MetadataAction;
+  metadataRemoved?: MetadataTagGroup[];
+  iccAction?: IccAction;
+  gpsAction?: GpsAction;
+  budget?: SizeBudgetOutcome;
+  format?: SupportedImageType;
+  simulated?: boolean;
 }
 
 export interface RunSummary {
@@ -166,6 +350,7 @@ export interface RunSummary {
   convertedFiles: number;
   skippedFiles: number;
   failedFiles: number;
+  cancelledFiles?: number;
   totalOriginalBytes: number;
   totalOutputBytes: number;
   totalSavedBytes: number;
@@ -173,6 +358,24 @@ export interface RunSummary {
   elapsedMs: number;
   logPath: string;
   failures: Array<{ path: string; message: string }>;
+  estimate?: RunEstimate;
+}
+
+/**
+ * Projected totals of a simulate run. With sampling, counts and bytes are extrapolated
+ * from `sampledFiles` to `totalFiles` by original size.
+ */
+export interface RunEstimate {
+  mode: SimulatedRunMode;
+  totalFiles: number;
+  sampledFiles: number;
+  extrapolated: boolean;
+  originalBytes: number;
+  projectedOutputBytes: number;
+  projectedSavedBytes: number;
+  projectedSkippedFiles: number;
+  projectedFailedFiles: number;
+  formats: Partial<Record<SupportedImageType, number>>;
 }
 
 export interface RunProgressEvent {
@@ -197,8 +400,54 @@ export interface WatchFolderSettings {
   watchEnabled: boolean;
   runMode: RunMode;
   optimiseSettings: OptimiseSettings;
+  rules: WatchFolderRules;
+  schedule: WatchSchedule;
+}
+
+export type WatchScheduleMode = 'immediate' | 'window' | 'batch';
+
+/**
+ * When a watch folder's files are processed. Files that arrive while processing is held wait in
+ * a queue that is persisted across restarts.
+ */
+export interface WatchSchedule {
+  mode: WatchScheduleMode;
+  windowStart: string; // 'HH:MM' local time; the window may wrap past midnight
+  windowEnd: string;
+  batchIntervalMinutes: number;
+  pauseOnBattery: boolean;
+  pauseAboveLoad: number | null; // 1-minute load average per CPU core; null never pauses
+}
+
+export const DEFAULT_WATCH_SCHEDULE: WatchSchedule = {
+  mode: 'immediate',
+  windowStart: '22:00',
+  windowEnd: '07:00',
+  batchIntervalMinutes: 30,
+  pauseOnBattery: false,
+  pauseAboveLoad: null,
+};
+
+/**
+ * Which files a watch folder picks up and where its outputs go. Globs are relative to the
+ * watch folder; a pattern without a slash matches file names at any depth.
+ */
+export interface WatchFolderRules {
+  include: string[]; // Empty picks up every supported image
+  exclude: string[];
+  maxDepth: number | null; // 0 = only the folder itself, null = unlimited
+  outputRoot: string | null; // Outputs mirror the folder structure here instead of in `Optimized/`
+  processExisting: boolean; // Queue images already in the folder when watching starts
 }
 
+export const DEFAULT_WATCH_RULES: WatchFolderRules = {
+  include: [],
+  exclude: [],
+  maxDepth: null,
+  outputRoot: null,
+  processExisting: false,
+};
+
 export const DEFAULT_WATCH_SETTINGS: WatchFolderSettings = {
   triggerBehavior: 'new',
   stabilityWaitMs: 2000,
@@ -206,6 +455,8 @@ export const DEFAULT_WATCH_SETTINGS: WatchFolderSettings = {
   watchEnabled: true,
   runMode: 'optimize',
   optimiseSettings: DEFAULT_SETTINGS,
+  rules: DEFAULT_WATCH_RULES,
+  schedule: DEFAULT_WATCH_SCHEDULE,
 };
 
 export interface WatchFolderStatus {
@@ -229,6 +480,23 @@ export interface WatchFileOptimizedEvent {
   message?: string;
 }
 
+/** Progress of a folder's initial sync, which queues the images already present. */
+export interface WatchSyncProgressEvent {
+  folder: string;
+  state: 'scanning' | 'running' | 'done' | 'cancelled';
+  found: number; // Images matching the folder's rules
+  alreadyProcessed: number; // Unchanged since they were last processed, so never queued
+  completed: number;
+  failed: number;
+  queued: number; // Still waiting for a worker
+}
+
+/** Size of the processed-files index after a maintenance action, and what the action removed. */
+export interface ProcessedIndexSummary {
+  entries: number;
+  removed: number;
+}
+
 export interface ClipboardOptimizedEvent {
   originalBytes: number;
   optimizedBytes: number;
@@ -268,9 +536,12 @@ export interface ActionResult {
   outputBytes: number;
   bytesSaved: number;
   metadataSavedBytes?: number;
-  metadataAction?: 'Removed' | 'Kept' | 'Partial';
-  iccAction?: 'Converted to sRGB' | 'Kept' | 'Stripped';
-  gpsAction?: 'Removed' | 'Not present';
+  quality?: number;
+  ssim?: number;
+  metadataAction?: MetadataAction;
+  metadataRemoved?: MetadataTagGroup[];
+  iccAction?: IccAction;
+  gpsAction?: GpsAction;
 }
 
 export interface BackupRecord {
@@ -279,6 +550,39 @@ export interface BackupRecord {
   removeOnRestore?: string;
 }
 
+export interface RunHistoryEntry {
+  runId: string;
+  mode: RunMode;
+  startedAt: string;
+  finishedAt: string;
+  commonRoot: string;
+  backupDir?: string;
+  logPath: string;
+  settings: OptimiseSettings;
+  summary: RunSummary;
+  backupRecords: BackupRecord[];
+  backupBytes: number;
+  restoredAt?: string;
+  prunedAt?: string;
+}
+
+export interface RestoreResult {
+  restoredCount: number;
+  failedCount: number;
+  message: string;
+}
+
+export interface PruneBackupsOptions {
+  runIds?: string[];
+  keepLatest?: number;
+  olderThanDays?: number;
+}
+
+export interface PruneBackupsResult {
+  prunedRuns: string[];
+  freedBytes: number;
+}
+
 export interface PreviewResult {
   buffer: Buffer;
   originalBuffer?: Buffer;
@@ -288,11 +592,15 @@ export interface PreviewResult {
 }
 
 export interface WorkerTask {
+  jobId?: string;
   inputPath: string;
   settings: OptimiseSettings;
   backupDir?: string;
+  claimDir?: string;
   commonRoot?: string;
+  outputRoot?: string;
   mode: RunMode;
+  dryRun?: boolean;
 }
 
 export type WorkerResponse =
@@ -303,6 +611,7 @@ export type WorkerResponse =
     actions: {
       optimised?: ActionResult;
       webp?: ActionResult;
+      avif?: ActionResult;
       responsive?: ResponsiveResult;
     };
     backups: BackupRecord[];
@@ -313,6 +622,7 @@ export type WorkerResponse =
     ok: false;
     inputPath: string;
     message: string;
+    cancelled?: boolean; // The job stopped at a cancel request before writing anything
   };
 
 declare global {
@@ -324,8 +634,12 @@ declare global {
       scanPaths: (paths: string[]) => Promise<ImageListItem[]>;
       startRun: (payload: StartRunPayload) => Promise<StartRunResult>;
       cancelRun: (runId: string) => Promise<void>;
-      restoreLastRun: () => Promise<{ restoredCount: number; failedCount: number; message: string }>;
+      restoreLastRun: () => Promise<RestoreResult>;
       canRestoreLastRun: () => Promise<boolean>;
+      listRuns: () => Promise<RunHistoryEntry[]>;
+      restoreRun: (runId: string, originalPaths?: string[]) => Promise<RestoreResult>;
+      pruneBackups: (options: PruneBackupsOptions) => Promise<PruneBackupsResult>;
+      exportRunReport: (runId: string, format: ReportFormat) => Promise<string | null>;
       onProgress: (cb: (event: RunProgressEvent) => void) => () => void;
 
       // Folder Watch API
@@ -338,6 +652,19 @@ declare global {
       updateGlobalWatchSettings: (settings: WatchFolderSettings) => Promise<void>;
       onWatchFileDetected: (cb: (event: WatchFileDetectedEvent) => void) => () => void;
       onWatchFileOptimized: (cb: (event: WatchFileOptimizedEvent) => void) => () => void;
+      onWatchSyncProgress: (cb: (event: WatchSyncProgressEvent) => void) => () => void;
+      syncWatchFolder: (path: string) => Promise<void>;
+      getWatchQueueStats: () => Promise<QueueStatsPayload>;
+      setWatchQueuePaused: (paused: boolean) => Promise<QueueStatsPayload>;
+      retryFailedWatchJobs: (paths?: string[]) => Promise<QueueStatsPayload>;
+      clearWatchQueue: (folder?: string) => Promise<QueueStatsPayload>;
+      prioritizeWatchFolder: (folder: string | null) => Promise<QueueStatsPayload>;
+      onWatchQueueStats: (cb: (stats: QueueStatsPayload) => void) => () => void;
+      onWatchJobAdded: (cb: (job: JobAddedPayload) => void) => () => void;
+      getWatchIndexSummary: () => Promise<ProcessedIndexSummary>;
+      pruneWatchIndex: (folder?: string) => Promise<ProcessedIndexSummary>;
+      resetWatchIndexFolder: (folder: string) => Promise<ProcessedIndexSummary>;
+      exportWatchIndex: (folder?: string) => Promise<string | null>;
 
       setClipboardAutoOptimize: (payload: { enabled: boolean; settings: OptimiseSettings }) => Promise<void>;
       onClipboardOptimized: (cb: (event: ClipboardOptimizedEvent) => void) => () => void;